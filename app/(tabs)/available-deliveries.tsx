@@ -11,11 +11,12 @@ import { TimeSelectionModal } from "../../components/TimeSelectionModal";
 import { CourierAssignedBottomSheet } from "../../components/CourierAssignedBottomSheet";
 import { useDelivery } from "../../providers/DeliveryProvider";
 import { Delivery } from "../../types/models";
+import { canTransitionDelivery } from "../../utils/deliveryStateMachine";
 
 
 export default function AvailableDeliveriesScreen() {
   const router = useRouter();
-  const { user, allUsers, getAvailableDeliveries, takeDelivery, takeDeliveryMutationStatus, deliveries, confirmDelivery, confirmedBusinessDeliveryIds, confirmBusinessNotification } = useDelivery();
+  const { user, allUsers, getAvailableDeliveries, takeDelivery, takeDeliveryMutationStatus, declineDispatchOffer, declineDispatchOfferMutationStatus, deliveries, confirmDelivery, confirmedBusinessDeliveryIds, confirmBusinessNotification } = useDelivery();
   const insets = useSafeAreaInsets();
   const [selectedDeliveryId, setSelectedDeliveryId] = useState<string | null>(null);
   const [isTimeModalVisible, setIsTimeModalVisible] = useState<boolean>(false);
@@ -33,7 +34,15 @@ export default function AvailableDeliveriesScreen() {
     }, [router, user]),
   );
 
-  const availableDeliveries = useMemo(() => getAvailableDeliveries(), [getAvailableDeliveries]);
+  const availableDeliveries = useMemo(() => {
+    const open = getAvailableDeliveries();
+    if (user?.role !== "courier") {
+      return open;
+    }
+    const offeredToMe = open.filter((delivery) => delivery.dispatchOfferCourierId === user.id);
+    const rest = open.filter((delivery) => delivery.dispatchOfferCourierId !== user.id);
+    return [...offeredToMe, ...rest];
+  }, [getAvailableDeliveries, user]);
 
   useEffect(() => {
     let isActive = true;
@@ -102,6 +111,17 @@ export default function AvailableDeliveriesScreen() {
     }
   }, [selectedDeliveryId, takeDelivery]);
 
+  const handleDeclineOffer = useCallback(
+    async (deliveryId: string) => {
+      try {
+        await declineDispatchOffer(deliveryId);
+      } catch (error) {
+        console.log("Decline offer failed", error);
+      }
+    },
+    [declineDispatchOffer],
+  );
+
   const handleCloseModal = useCallback(() => {
     setIsTimeModalVisible(false);
     setSelectedDeliveryId(null);
@@ -159,7 +179,7 @@ export default function AvailableDeliveriesScreen() {
   const isCourier = user?.role === "courier";
 
 
-  const isLoading = takeDeliveryMutationStatus === "pending";
+  const isLoading = takeDeliveryMutationStatus === "pending" || declineDispatchOfferMutationStatus === "pending";
   const totalAvailable = availableDeliveries.length;
   const isAvailable = user?.role === "courier" ? (user.courierProfile?.isAvailable ?? false) : true;
   const selectedDelivery = selectedDeliveryId
@@ -208,14 +228,18 @@ export default function AvailableDeliveriesScreen() {
         ) : (
           availableDeliveries.map((delivery) => {
             const business = allUsers.find((u) => u.id === delivery.businessId);
+            const isOfferedToMe = isCourier && delivery.dispatchOfferCourierId === user?.id;
+            const canTake = !!user && canTransitionDelivery("take", delivery, user);
             return (
               <DeliveryCard
                 key={delivery.id}
                 delivery={delivery}
-                headline="משלוח ממתין לשיוך"
+                headline={isOfferedToMe ? "המשלוח הוצע לך במיוחד" : "משלוח ממתין לשיוך"}
                 businessName={business?.name}
-                primaryActionLabel={isCourier ? "אני לוקח" : undefined}
-                onPrimaryAction={isCourier ? () => handleTakeDelivery(delivery.id) : undefined}
+                primaryActionLabel={canTake ? "אני לוקח" : undefined}
+                onPrimaryAction={canTake ? () => handleTakeDelivery(delivery.id) : undefined}
+                secondaryActionLabel={isOfferedToMe ? "דחה" : undefined}
+                onSecondaryAction={isOfferedToMe ? () => handleDeclineOffer(delivery.id) : undefined}
                 disabled={isLoading}
                 showCustomerInfo={false}
                 showNotes={false}
@@ -13,17 +13,27 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
-import { MapPin, ChevronDown, UserCheck, CreditCard, Banknote } from "lucide-react-native";
+import { MapPin, ChevronDown, UserCheck, CreditCard, Banknote, CalendarClock } from "lucide-react-native";
 import * as Haptics from "expo-haptics";
 import { Audio } from "expo-av";
-import { supabase } from "@/lib/supabase";
+import { useQuery } from "@tanstack/react-query";
 
 import Colors from "../../constants/colors";
+import { trpcClient } from "../../lib/trpc";
 import { useDelivery } from "../../providers/DeliveryProvider";
 import { TimeSelectionModal } from "../../components/TimeSelectionModal";
 import { CourierAssignedBottomSheet } from "../../components/CourierAssignedBottomSheet";
-import { Customer, Delivery } from "../../types/models";
+import { DeliveryTemplateDraft, DeliveryTemplatesPanel } from "../../components/DeliveryTemplatesPanel";
+import { CustomerNotificationsPanel } from "../../components/CustomerNotificationsPanel";
+import { Customer, Delivery, PrepTimeSuggestion } from "../../types/models";
 import { streetsStore, streetCityLabels, StreetCityKey } from "../stores/streetsStore";
+import { parseDateTimeInput, toDateInput } from "../../utils/dateInput";
+import { removeCoordinatesFromAddress } from "../../utils/distanceCalculator";
+import {
+  DEFAULT_SCHEDULE_LEAD_MINUTES,
+  getScheduledForError,
+  selectUpcomingScheduledDeliveries,
+} from "../../utils/scheduling";
 
 const fieldPlaceholders = {
   customerName: "למשל: יוסי כהן",
@@ -52,6 +62,24 @@ const CITY_OPTIONS: CityOption[] = CITY_KEYS.map((key) => ({
 
 const MIN_PHONE_DIGITS_FOR_LOOKUP = 9;
 
+const formatScheduledFor = (value?: string) => {
+  if (!value) {
+    return "";
+  }
+  try {
+    return new Intl.DateTimeFormat("he-IL", {
+      weekday: "short",
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+  } catch (error) {
+    console.log("Scheduled date formatting failed", error);
+    return value;
+  }
+};
+
 const normalizeStreetQuery = (value: string) =>
   value.replace(/[0-9]/g, "").replace(/\s+/g, " ").trim().toLowerCase();
 
@@ -103,7 +131,18 @@ const searchStreets = (streets: string[], query: string, isNormalized = false) =
 
 export default function CreateDeliveryScreen() {
   const router = useRouter();
-  const { user, createDelivery, createDeliveryMutationStatus, deliveries, allUsers, confirmDelivery, confirmedBusinessDeliveryIds, confirmBusinessNotification } = useDelivery();
+  const {
+    user,
+    createDelivery,
+    createDeliveryMutationStatus,
+    deliveries,
+    allUsers,
+    confirmDelivery,
+    confirmedBusinessDeliveryIds,
+    confirmBusinessNotification,
+    lookupCustomer: lookupCustomerByPhone,
+    saveCustomer: saveCustomerDetails,
+  } = useDelivery();
   const [customerName, setCustomerName] = useState<string>("");
   const [customerPhone, setCustomerPhone] = useState<string>("");
   const [dropoffStreet, setDropoffStreet] = useState<string>("");
@@ -119,6 +158,9 @@ export default function CreateDeliveryScreen() {
   const [lookupPhone, setLookupPhone] = useState<string>("");
   const [paymentMethod, setPaymentMethod] = useState<"credit" | "cash">("credit");
   const [cashAmount, setCashAmount] = useState<string>("");
+  const [isScheduled, setIsScheduled] = useState<boolean>(false);
+  const [scheduleDate, setScheduleDate] = useState<string>(() => toDateInput(new Date()));
+  const [scheduleTime, setScheduleTime] = useState<string>("");
   const phoneLookupTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const selectedCityLabel = useMemo(() => (selectedCityKey ? streetCityLabels[selectedCityKey] : null), [selectedCityKey]);
   const previousDeliveriesRef = useRef<Delivery[]>([]);
@@ -129,6 +171,14 @@ export default function CreateDeliveryScreen() {
   const isBusiness = user?.role === "business";
   const isLoading = createDeliveryMutationStatus === "pending";
 
+  const prepSuggestionQuery = useQuery<PrepTimeSuggestion | null>({
+    queryKey: ["stats", "prepSuggestion", user?.id],
+    queryFn: () => trpcClient.stats.prepSuggestion.query(),
+    enabled: isBusiness,
+    staleTime: 5 * 60 * 1000,
+  });
+  const prepSuggestion = prepSuggestionQuery.data ?? null;
+
   const [customerLookupLoading, setCustomerLookupLoading] = useState<boolean>(false);
   const [lookupCustomerData, setLookupCustomerData] = useState<Customer | null>(null);
 
@@ -141,21 +191,6 @@ export default function CreateDeliveryScreen() {
     return hasLeadingPlus ? `+${digits}` : digits;
   }, []);
 
-  const createPhoneComparisonKey = useCallback((value: string): string => {
-    const trimmed = value.trim();
-    if (!trimmed) return "";
-    const digits = trimmed.replace(/\D/g, "");
-    if (!digits) return "";
-    if (digits.startsWith("972") && digits.length >= 11) {
-      const rest = digits.slice(3);
-      return rest.startsWith("0") ? rest.slice(1) : rest;
-    }
-    if (digits.startsWith("0") && digits.length >= 9) {
-      return digits.slice(1);
-    }
-    return digits;
-  }, []);
-
   const lookupCustomer = useCallback(async (phone: string) => {
     const normalizedPhone = normalizePhoneNumber(phone);
     if (!normalizedPhone) {
@@ -167,70 +202,20 @@ export default function CreateDeliveryScreen() {
     setCustomerLookupLoading(true);
 
     try {
-      const comparisonKey = createPhoneComparisonKey(normalizedPhone);
-
-      const { data, error } = await supabase
-        .from("customers")
-        .select("*");
-
-      if (error) {
-        console.log("[CUSTOMER] Error fetching customers:", error);
-        setCustomerLookupLoading(false);
-        return null;
-      }
-
-      type DbCustomer = {
-        id: string;
-        phone: string;
-        name: string;
-        address: string | null;
-        city: string | null;
-        floor: string | null;
-        notes: string | null;
-        business_id: string | null;
-        created_at: string;
-        updated_at: string;
-      };
-
-      const foundCustomer = (data || []).find((candidate) => {
-        const c = candidate as DbCustomer;
-        const candidateNormalized = normalizePhoneNumber(c.phone);
-        const candidateKey = createPhoneComparisonKey(candidateNormalized || c.phone);
-        return (
-          (!!candidateNormalized && candidateNormalized === normalizedPhone) ||
-          (!!candidateKey && !!comparisonKey && candidateKey === comparisonKey)
-        );
-      });
-
-      if (!foundCustomer) {
+      const customer = await lookupCustomerByPhone(normalizedPhone);
+      if (!customer) {
         console.log("[CUSTOMER] Customer not found for phone:", normalizedPhone);
-        setCustomerLookupLoading(false);
         return null;
       }
-
-      const dbCustomer = foundCustomer as DbCustomer;
-      const customer: Customer = {
-        id: dbCustomer.id,
-        phone: dbCustomer.phone,
-        name: dbCustomer.name,
-        address: dbCustomer.address ?? undefined,
-        city: dbCustomer.city ?? undefined,
-        floor: dbCustomer.floor ?? undefined,
-        notes: dbCustomer.notes ?? undefined,
-        businessId: dbCustomer.business_id ?? undefined,
-        createdAt: dbCustomer.created_at,
-        updatedAt: dbCustomer.updated_at,
-      };
-
       console.log("[CUSTOMER] Customer found:", customer.id, customer.name);
-      setCustomerLookupLoading(false);
       return customer;
     } catch (error) {
       console.log("[CUSTOMER] Lookup error:", error);
-      setCustomerLookupLoading(false);
       return null;
+    } finally {
+      setCustomerLookupLoading(false);
     }
-  }, [normalizePhoneNumber, createPhoneComparisonKey]);
+  }, [normalizePhoneNumber, lookupCustomerByPhone]);
 
   const handlePhoneChange = useCallback((value: string) => {
     setCustomerPhone(value);
@@ -435,14 +420,54 @@ export default function CreateDeliveryScreen() {
     setLookupPhone("");
     setPaymentMethod("credit");
     setCashAmount("");
+    setIsScheduled(false);
+    setScheduleDate(toDateInput(new Date()));
+    setScheduleTime("");
   };
 
+  const scheduledFor = isScheduled ? parseDateTimeInput(scheduleDate, scheduleTime) : null;
+
+  // The server applies its own configured lead time; this only catches obvious mistakes before sending.
+  const scheduleError = useMemo(() => {
+    if (!isScheduled || !scheduleTime.trim()) {
+      return null;
+    }
+    if (!scheduledFor) {
+      return "יש להזין תאריך בפורמט YYYY-MM-DD ושעה בפורמט HH:MM";
+    }
+    return getScheduledForError(scheduledFor, DEFAULT_SCHEDULE_LEAD_MINUTES);
+  }, [isScheduled, scheduleTime, scheduledFor]);
+
+  const upcomingScheduledDeliveries = useMemo(
+    () => (user ? selectUpcomingScheduledDeliveries(deliveries, user.id) : []),
+    [deliveries, user],
+  );
+
   const isFormValid =
     customerName.trim().length > 0 &&
     customerPhone.trim().length > 0 &&
     computedDropoffAddress.trim().length > 0 &&
     preparationTime !== null &&
-    selectedCityKey !== null;
+    selectedCityKey !== null &&
+    (!isScheduled || (scheduledFor !== null && scheduleError === null));
+
+  const templateDraft = useMemo<DeliveryTemplateDraft | null>(() => {
+    if (
+      preparationTime === null ||
+      !customerName.trim() ||
+      !customerPhone.trim() ||
+      !computedDropoffAddress.trim()
+    ) {
+      return null;
+    }
+    return {
+      customerName: customerName.trim(),
+      customerPhone: customerPhone.trim(),
+      dropoffAddress: computedDropoffAddress,
+      notes: floor.trim() ? `קומה: ${floor.trim()}${notes.trim() ? `\n${notes.trim()}` : ""}` : notes.trim(),
+      preparationTimeMinutes: preparationTime,
+    };
+  }, [computedDropoffAddress, customerName, customerPhone, floor, notes, preparationTime]);
 
   const handleCreate = async () => {
     if (!isBusiness || !isFormValid || preparationTime === null) {
@@ -476,6 +501,7 @@ export default function CreateDeliveryScreen() {
       customerName,
       customerPhone,
       preparationTimeMinutes: preparationTime,
+      scheduledFor: scheduledFor ?? undefined,
     });
 
     const saveCustomer = async () => {
@@ -493,65 +519,16 @@ export default function CreateDeliveryScreen() {
 
         console.log("[CUSTOMER] Saving customer:", normalizedPhone, customerName.trim());
 
-        const existingCustomer = await lookupCustomer(normalizedPhone);
-
-        type DbCustomer = {
-          id: string;
-          phone: string;
-          name: string;
-          address: string | null;
-          city: string | null;
-          floor: string | null;
-          notes: string | null;
-          business_id: string | null;
-          created_at: string;
-          updated_at: string;
-        };
-
-        if (existingCustomer) {
-          const updateData = {
-            name: customerName.trim(),
-            address: dropoffStreet.trim() || null,
-            city: selectedCityLabel || null,
-            floor: floor.trim() || null,
-            notes: notes.trim() || null,
-            business_id: user.id || null,
-          };
-
-          console.log("[CUSTOMER] Updating customer with latest order details:", existingCustomer.id);
-
-          const { error: updateError } = await supabase
-            .from("customers")
-            .update(updateData)
-            .eq("id", existingCustomer.id);
-
-          if (updateError) {
-            console.log("[CUSTOMER] Error updating customer:", updateError);
-            return;
-          }
-
-          console.log("[CUSTOMER] Customer updated successfully");
-        } else {
-          const customerId = `customer-${Date.now()}-${Math.round(Math.random() * 100000)}`;
-
-          const { error: insertError } = await supabase.from("customers").insert({
-            id: customerId,
-            phone: normalizedPhone,
-            name: customerName.trim(),
-            address: dropoffStreet.trim() || null,
-            city: selectedCityLabel || null,
-            floor: floor.trim() || null,
-            notes: notes.trim() || null,
-            business_id: user.id || null,
-          });
-
-          if (insertError) {
-            console.log("[CUSTOMER] Error creating customer:", insertError);
-            return;
-          }
-
-          console.log("[CUSTOMER] Customer created successfully");
-        }
+        const savedCustomer = await saveCustomerDetails({
+          phone: normalizedPhone,
+          name: customerName.trim(),
+          address: dropoffStreet.trim() || undefined,
+          city: selectedCityLabel || undefined,
+          floor: floor.trim() || undefined,
+          notes: notes.trim() || undefined,
+        });
+
+        console.log("[CUSTOMER] Customer saved successfully:", savedCustomer.id);
       } catch (error) {
         console.log("[CUSTOMER] Failed to save customer:", error);
       }
@@ -821,6 +798,70 @@ export default function CreateDeliveryScreen() {
               {preparationTime !== null ? `${preparationTime} דקות` : "בחרו זמן הכנה"}
             </Text>
           </Pressable>
+          {prepSuggestion && preparationTime !== prepSuggestion.minutes ? (
+            <Pressable
+              onPress={() => setPreparationTime(prepSuggestion.minutes)}
+              style={styles.prepSuggestionChip}
+              testID="apply-prep-suggestion"
+            >
+              <Text style={styles.prepSuggestionText}>
+                {`הצעה: ${prepSuggestion.minutes} דקות · לפי ${prepSuggestion.sampleCount} הזמנות ${
+                  prepSuggestion.basis === "hour" ? `בסביבות ${String(prepSuggestion.hour).padStart(2, "0")}:00` : "קודמות"
+                }`}
+              </Text>
+            </Pressable>
+          ) : null}
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>מועד המשלוח</Text>
+          <View style={styles.paymentMethodContainer}>
+            <Pressable
+              onPress={() => setIsScheduled(false)}
+              style={[styles.paymentMethodOption, !isScheduled && styles.paymentMethodSelected]}
+              testID="schedule-mode-now"
+            >
+              <Text style={[styles.paymentMethodText, !isScheduled && styles.paymentMethodTextSelected]}>עכשיו</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => setIsScheduled(true)}
+              style={[styles.paymentMethodOption, isScheduled && styles.paymentMethodSelected]}
+              testID="schedule-mode-later"
+            >
+              <CalendarClock size={20} color={isScheduled ? Colors.light.tint : Colors.light.secondaryText} />
+              <Text style={[styles.paymentMethodText, isScheduled && styles.paymentMethodTextSelected]}>
+                הזמנה מראש
+              </Text>
+            </Pressable>
+          </View>
+          {isScheduled && (
+            <View style={styles.scheduleContainer}>
+              <View style={styles.scheduleInputsRow}>
+                <TextInput
+                  value={scheduleDate}
+                  onChangeText={setScheduleDate}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#9ba3b8"
+                  style={[styles.input, styles.scheduleInput]}
+                  textAlign="center"
+                  testID="input-schedule-date"
+                />
+                <TextInput
+                  value={scheduleTime}
+                  onChangeText={setScheduleTime}
+                  placeholder="HH:MM"
+                  placeholderTextColor="#9ba3b8"
+                  style={[styles.input, styles.scheduleInput]}
+                  textAlign="center"
+                  keyboardType="numbers-and-punctuation"
+                  testID="input-schedule-time"
+                />
+              </View>
+              <Text style={scheduleError ? styles.scheduleError : styles.scheduleHint}>
+                {scheduleError ?? "המשלוח יוצג לשליחים זמן קצר לפני מועד האיסוף"}
+              </Text>
+            </View>
+          )}
         </View>
 
         <View style={styles.formGroup}>
@@ -892,8 +933,31 @@ export default function CreateDeliveryScreen() {
           disabled={!isFormValid || isLoading}
           testID="create-delivery-button"
         >
-          <Text style={styles.submitText}>{isLoading ? "יוצר משלוח..." : "פרסם משלוח"}</Text>
+          <Text style={styles.submitText}>
+            {isLoading ? "יוצר משלוח..." : isScheduled ? "תזמן משלוח" : "פרסם משלוח"}
+          </Text>
         </Pressable>
+
+        {upcomingScheduledDeliveries.length > 0 && (
+          <View style={styles.upcomingSection} testID="upcoming-scheduled-deliveries">
+            <Text style={styles.upcomingTitle}>משלוחים מתוזמנים</Text>
+            {upcomingScheduledDeliveries.map((delivery) => (
+              <View key={delivery.id} style={styles.upcomingRow}>
+                <CalendarClock size={18} color={Colors.light.tint} />
+                <View style={styles.upcomingContent}>
+                  <Text style={styles.upcomingTime}>{formatScheduledFor(delivery.scheduledFor)}</Text>
+                  <Text style={styles.upcomingDetails} numberOfLines={1}>
+                    {delivery.customerName} · {removeCoordinatesFromAddress(delivery.dropoffAddress)}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <DeliveryTemplatesPanel draft={templateDraft} testID="delivery-templates" />
+
+        <CustomerNotificationsPanel testID="customer-notifications" />
       </ScrollView>
       
       <TimeSelectionModal
@@ -1043,6 +1107,19 @@ const styles = StyleSheet.create({
   placeholderText: {
     color: "#9ba3b8",
   },
+  prepSuggestionChip: {
+    alignSelf: "flex-end",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "rgba(29, 78, 216, 0.08)",
+  },
+  prepSuggestionText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
   streetHelperCard: {
     marginTop: -6,
     backgroundColor: Colors.light.surface,
@@ -1208,6 +1285,67 @@ const styles = StyleSheet.create({
     textAlign: "right" as const,
     writingDirection: "rtl" as const,
   },
+  scheduleContainer: {
+    marginTop: 12,
+    gap: 8,
+  },
+  scheduleInputsRow: {
+    flexDirection: "row-reverse" as const,
+    gap: 12,
+  },
+  scheduleInput: {
+    flex: 1,
+  },
+  scheduleHint: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right" as const,
+    writingDirection: "rtl" as const,
+  },
+  scheduleError: {
+    fontSize: 13,
+    color: Colors.light.failed,
+    textAlign: "right" as const,
+    writingDirection: "rtl" as const,
+  },
+  upcomingSection: {
+    marginTop: 24,
+    backgroundColor: Colors.light.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  upcomingTitle: {
+    fontSize: 16,
+    fontWeight: "700" as const,
+    color: Colors.light.text,
+    textAlign: "right" as const,
+    writingDirection: "rtl" as const,
+  },
+  upcomingRow: {
+    flexDirection: "row-reverse" as const,
+    alignItems: "center" as const,
+    gap: 10,
+  },
+  upcomingContent: {
+    flex: 1,
+    gap: 2,
+  },
+  upcomingTime: {
+    fontSize: 14,
+    fontWeight: "600" as const,
+    color: Colors.light.text,
+    textAlign: "right" as const,
+    writingDirection: "rtl" as const,
+  },
+  upcomingDetails: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right" as const,
+    writingDirection: "rtl" as const,
+  },
   cashAmountInput: {
     backgroundColor: Colors.light.surface,
     borderRadius: 12,
@@ -6,25 +6,51 @@ import * as Haptics from "expo-haptics";
 import { Audio } from "expo-av";
 
 import Colors from "../../constants/colors";
-import { Delivery, DeliveryStatus } from "../../types/models";
+import {
+  cancellationReasonLabels,
+  cancellationReasons,
+  failureReasonLabels,
+  failureReasons,
+  releaseReasonLabels,
+  releaseReasons,
+} from "../../constants/deliveryReasons";
+import {
+  Delivery,
+  DeliveryCancellationReason,
+  DeliveryFailureReason,
+  DeliveryReleaseReason,
+  DeliveryStatus,
+  ProofOfDeliveryInput,
+} from "../../types/models";
 import { useDelivery } from "../../providers/DeliveryProvider";
 import { DeliveryCard } from "../../components/DeliveryCard";
 import { EmptyState } from "../../components/EmptyState";
 import { TimeSelectionModal } from "../../components/TimeSelectionModal";
+import { DeliveryReasonModal } from "../../components/DeliveryReasonModal";
+import { ProofOfDeliveryCaptureModal } from "../../components/ProofOfDeliveryCaptureModal";
+import { ProofOfDeliveryModal } from "../../components/ProofOfDeliveryModal";
 import { NewDeliveryFullScreenPopup } from "../../components/NewDeliveryFullScreenPopup";
 import { CourierAssignedBottomSheet } from "../../components/CourierAssignedBottomSheet";
+import { DeliveryBatchCard } from "../../components/DeliveryBatchCard";
+import { findBatchableDeliveries, groupDeliveriesByBatch, MAX_BATCH_SIZE } from "../../utils/deliveryBatching";
+import { canTransitionDelivery } from "../../utils/deliveryStateMachine";
+import { getTrackingUrl } from "../../lib/trpc";
 
 const statusFilterLabelsForBusiness: Record<DeliveryStatus | "all", string> = {
   all: "הכל",
   waiting: "ממתין",
   taken: "נלקח",
   completed: "הושלם",
+  cancelled: "בוטל",
+  failed: "נכשל",
 };
 
 const statusFilterLabelsForCourier: Record<Exclude<DeliveryStatus, "waiting"> | "all", string> = {
   all: "הכל",
   taken: "נלקח",
   completed: "הושלם",
+  cancelled: "בוטל",
+  failed: "נכשל",
 };
 
 export default function MyDeliveriesScreen() {
@@ -42,6 +68,16 @@ export default function MyDeliveriesScreen() {
     confirmDeliveryMutationStatus,
     markReady,
     markReadyMutationStatus,
+    cancelDelivery,
+    cancelDeliveryMutationStatus,
+    reportFailure,
+    reportFailureMutationStatus,
+    releaseDelivery,
+    releaseDeliveryMutationStatus,
+    createDeliveryBatch,
+    createDeliveryBatchMutationStatus,
+    pickupBatch,
+    pickupBatchMutationStatus,
     takeDelivery,
     takeDeliveryMutationStatus,
     updateAvailability,
@@ -51,6 +87,8 @@ export default function MyDeliveriesScreen() {
     dismissDelivery,
     confirmedBusinessDeliveryIds,
     confirmBusinessNotification,
+    pendingSyncDeliveryIds,
+    isImpersonating,
   } = useDelivery();
   const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "all">("all");
   const insets = useSafeAreaInsets();
@@ -65,15 +103,17 @@ export default function MyDeliveriesScreen() {
   const [isPopupVisible, setIsPopupVisible] = useState<boolean>(false);
   const [selectedDeliveryId, setSelectedDeliveryId] = useState<string | null>(null);
   const [isTimeModalVisible, setIsTimeModalVisible] = useState<boolean>(false);
+  const [cancelDeliveryId, setCancelDeliveryId] = useState<string | null>(null);
+  const [failureDeliveryId, setFailureDeliveryId] = useState<string | null>(null);
+  const [releaseDeliveryId, setReleaseDeliveryId] = useState<string | null>(null);
+  const [completeDeliveryId, setCompleteDeliveryId] = useState<string | null>(null);
+  const [proofViewDeliveryId, setProofViewDeliveryId] = useState<string | null>(null);
   const [newlyTakenDelivery, setNewlyTakenDelivery] = useState<Delivery | null>(null);
   const previousDeliveriesRefForBusiness = useRef<Delivery[]>([]);
   const businessSoundRef = useRef<Audio.Sound | null>(null);
   const [isBusinessSoundLoaded, setIsBusinessSoundLoaded] = useState<boolean>(false);
 
-  const currentUser = useMemo(() => {
-    if (!user) return null;
-    return allUsers.find((u) => u.id === user.id) || user;
-  }, [user, allUsers]);
+  const currentUser = user;
   
   const statusFilterLabels = useMemo(() => {
     return currentUser?.role === "courier" ? statusFilterLabelsForCourier : statusFilterLabelsForBusiness;
@@ -81,9 +121,9 @@ export default function MyDeliveriesScreen() {
   
   const availableFilters = useMemo(() => {
     if (currentUser?.role === "courier") {
-      return ["all", "taken", "completed"] as const;
+      return ["all", "taken", "completed", "failed", "cancelled"] as const;
     }
-    return ["all", "waiting", "taken", "completed"] as const;
+    return ["all", "waiting", "taken", "completed", "cancelled", "failed"] as const;
   }, [currentUser?.role]);
 
   const isAvailable = currentUser?.role === "courier" ? currentUser.courierProfile?.isAvailable === true : false;
@@ -156,11 +196,63 @@ export default function MyDeliveriesScreen() {
     };
   }, [getDeliveriesForUser, user]);
 
+  const courierBatches = useMemo(() => {
+    if (!user || user.role !== "courier") {
+      return [];
+    }
+    const batches = groupDeliveriesByBatch(getDeliveriesForUser(user.role, user.id));
+    return Array.from(batches.entries())
+      .filter(([, legs]) => legs.some((leg) => leg.status === "taken"))
+      .map(([batchId, legs]) => ({ batchId, legs }));
+  }, [getDeliveriesForUser, user]);
+
+  const batchSuggestions = useMemo(() => {
+    if (!user || user.role !== "courier") {
+      return [];
+    }
+    const items = getDeliveriesForUser(user.role, user.id);
+    const grouped = new Set<string>();
+    const suggestions: Delivery[][] = [];
+    items.forEach((delivery) => {
+      if (grouped.has(delivery.id)) {
+        return;
+      }
+      const group = findBatchableDeliveries(items, delivery).slice(0, MAX_BATCH_SIZE);
+      group.forEach((item) => grouped.add(item.id));
+      if (group.length >= 2) {
+        suggestions.push(group);
+      }
+    });
+    return suggestions;
+  }, [getDeliveriesForUser, user]);
+
+  const handleCreateBatch = useCallback(
+    async (deliveryIds: string[]) => {
+      try {
+        await createDeliveryBatch(deliveryIds);
+      } catch (error) {
+        console.log("Create batch failed", error);
+      }
+    },
+    [createDeliveryBatch],
+  );
+
+  const handlePickupBatch = useCallback(
+    async (batchId: string) => {
+      try {
+        await pickupBatch(batchId);
+      } catch (error) {
+        console.log("Pickup batch failed", error);
+      }
+    },
+    [pickupBatch],
+  );
+
   const handleSetFilter = (nextFilter: DeliveryStatus | "all") => {
     setStatusFilter(nextFilter);
   };
 
-  const loadingAction = completeDeliveryMutationStatus === "pending" || takeDeliveryMutationStatus === "pending" || pickupDeliveryMutationStatus === "pending" || confirmDeliveryMutationStatus === "pending" || markReadyMutationStatus === "pending";
+  const loadingAction = completeDeliveryMutationStatus === "pending" || takeDeliveryMutationStatus === "pending" || pickupDeliveryMutationStatus === "pending" || confirmDeliveryMutationStatus === "pending" || markReadyMutationStatus === "pending" || cancelDeliveryMutationStatus === "pending" || reportFailureMutationStatus === "pending" || releaseDeliveryMutationStatus === "pending" || createDeliveryBatchMutationStatus === "pending" || pickupBatchMutationStatus === "pending";
 
   const availableDeliveriesForNotification = useMemo(() => getAvailableDeliveries(), [getAvailableDeliveries]);
 
@@ -417,6 +509,51 @@ export default function MyDeliveriesScreen() {
     setSelectedDeliveryId(null);
   }, []);
 
+  const handleCancelSubmit = useCallback(async (reason: DeliveryCancellationReason, note?: string) => {
+    if (!cancelDeliveryId) return;
+    try {
+      await cancelDelivery({ deliveryId: cancelDeliveryId, reason, note });
+      setCancelDeliveryId(null);
+    } catch (error) {
+      console.log("Cancel delivery error", error);
+    }
+  }, [cancelDelivery, cancelDeliveryId]);
+
+  const handleFailureSubmit = useCallback(async (reason: DeliveryFailureReason, note?: string) => {
+    if (!failureDeliveryId) return;
+    try {
+      await reportFailure({ deliveryId: failureDeliveryId, reason, note });
+      setFailureDeliveryId(null);
+    } catch (error) {
+      console.log("Report failure error", error);
+    }
+  }, [failureDeliveryId, reportFailure]);
+
+  const handleReleaseSubmit = useCallback(async (reason: DeliveryReleaseReason, note?: string) => {
+    if (!releaseDeliveryId) return;
+    try {
+      await releaseDelivery({ deliveryId: releaseDeliveryId, reason, note });
+      setReleaseDeliveryId(null);
+    } catch (error) {
+      console.log("Release delivery error", error);
+    }
+  }, [releaseDelivery, releaseDeliveryId]);
+
+  const handleCompleteSubmit = useCallback(async (proof?: ProofOfDeliveryInput) => {
+    if (!completeDeliveryId) return;
+    try {
+      await completeDelivery(completeDeliveryId, proof);
+      setCompleteDeliveryId(null);
+    } catch (error) {
+      console.log("Complete delivery error", error);
+    }
+  }, [completeDelivery, completeDeliveryId]);
+
+  const completingDelivery = completeDeliveryId ? deliveries.find((d) => d.id === completeDeliveryId) ?? null : null;
+  const isProofOfDeliveryRequired = !!(completingDelivery &&
+    allUsers.find((u) => u.id === completingDelivery.businessId)?.businessProfile?.proofOfDeliveryRequired);
+  const proofViewDelivery = proofViewDeliveryId ? deliveries.find((d) => d.id === proofViewDeliveryId) ?? null : null;
+
   const newDelivery = newDeliveryId
     ? availableDeliveriesForNotification.find((d) => d.id === newDeliveryId) ?? null
     : null;
@@ -539,6 +676,45 @@ export default function MyDeliveriesScreen() {
         ))}
       </View>
 
+      {courierBatches.length > 0 || batchSuggestions.length > 0 ? (
+        <View style={styles.batchSection} testID="courier-batches">
+          {batchSuggestions.map((group) => {
+            const business = allUsers.find((u) => u.id === group[0].businessId);
+            return (
+              <Pressable
+                key={group.map((delivery) => delivery.id).join("-")}
+                onPress={() => handleCreateBatch(group.map((delivery) => delivery.id))}
+                disabled={loadingAction}
+                style={[styles.batchSuggestion, loadingAction && styles.batchSuggestionDisabled]}
+                testID={`batch-suggestion-${group[0].id}`}
+              >
+                <Text style={styles.batchSuggestionTitle}>
+                  אחד {group.length} משלוחים מ{business?.name ?? "אותו עסק"} למסלול אחד
+                </Text>
+                <Text style={styles.batchSuggestionSubtitle}>נחשב עבורך סדר מסירה מומלץ לפי מיקום הלקוחות</Text>
+              </Pressable>
+            );
+          })}
+          {courierBatches.map(({ batchId, legs }) => {
+            const business = allUsers.find((u) => u.id === legs[0].businessId);
+            const activeLegs = legs.filter((leg) => leg.status === "taken");
+            const canPickupAll =
+              activeLegs.length > 0 && activeLegs.every((leg) => leg.businessReady && !leg.pickedUpAt);
+            return (
+              <DeliveryBatchCard
+                key={batchId}
+                legs={legs}
+                businessName={business?.name}
+                canPickupAll={canPickupAll}
+                isSubmitting={pickupBatchMutationStatus === "pending"}
+                onPickupAll={() => handlePickupBatch(batchId)}
+                testID={`batch-${batchId}`}
+              />
+            );
+          })}
+        </View>
+      ) : null}
+
       <View style={styles.list}>
         {deliveries.length === 0 ? (
           <EmptyState
@@ -550,10 +726,13 @@ export default function MyDeliveriesScreen() {
           deliveries.map((delivery) => {
             const business = allUsers.find((u) => u.id === delivery.businessId);
             const courier = delivery.courierId ? allUsers.find((u) => u.id === delivery.courierId) : null;
-            const canConfirm = user?.role === "business" && delivery.status === "taken" && delivery.courierId && !delivery.businessConfirmed;
-            const canMarkReady = user?.role === "business" && delivery.status === "taken" && delivery.businessConfirmed && !delivery.businessReady;
-            const canPickup = user?.role === "courier" && delivery.status === "taken" && delivery.businessReady && !delivery.pickedUpAt;
-            const canComplete = user?.role === "courier" && delivery.status === "taken" && delivery.pickedUpAt;
+            const canConfirm = !!user && canTransitionDelivery("confirm", delivery, user);
+            const canMarkReady = !!user && canTransitionDelivery("markReady", delivery, user);
+            const canPickup = !!user && canTransitionDelivery("pickup", delivery, user);
+            const canComplete = !!user && canTransitionDelivery("complete", delivery, user);
+            const canCancel = !!user && canTransitionDelivery("cancel", delivery, user);
+            const canReportFailure = !!user && canTransitionDelivery("fail", delivery, user);
+            const canRelease = !!user && canTransitionDelivery("release", delivery, user);
             
             const isCourierInfoAvailable = (() => {
               if (!delivery.courierId || !courier) return false;
@@ -570,6 +749,8 @@ export default function MyDeliveriesScreen() {
             const showCourierPhone = user?.role === "business" && isCourierInfoAvailable && courier?.phone;
             const showCourierName = user?.role === "business" && isCourierInfoAvailable && courier?.name;
             const showCustomerInfoForBusiness = user?.role === "business" && (delivery.status === "taken" || delivery.status === "completed");
+            const canShareTracking =
+              user?.role === "business" && !!delivery.trackingToken && (delivery.status === "waiting" || delivery.status === "taken");
             return (
               <DeliveryCard
                 key={delivery.id}
@@ -581,6 +762,12 @@ export default function MyDeliveriesScreen() {
                 customerName={showCustomerInfoForBusiness ? delivery.customerName : undefined}
                 customerPhone={showCustomerInfoForBusiness ? delivery.customerPhone : undefined}
                 showCustomerInfoForBusiness={showCustomerInfoForBusiness}
+                trackingUrl={canShareTracking && delivery.trackingToken ? getTrackingUrl(delivery.trackingToken) : undefined}
+                onViewProofOfDelivery={
+                  user?.role === "business" || user?.role === "manager" ? () => setProofViewDeliveryId(delivery.id) : undefined
+                }
+                showHistory={isImpersonating}
+                resolveActorName={(actorId) => allUsers.find((u) => u.id === actorId)?.name}
                 primaryActionLabel={
                   canComplete
                     ? "סמן כהושלם"
@@ -594,7 +781,7 @@ export default function MyDeliveriesScreen() {
                 }
                 onPrimaryAction={
                   canComplete
-                    ? async () => { await completeDelivery(delivery.id); }
+                    ? () => setCompleteDeliveryId(delivery.id)
                     : canPickup
                     ? async () => { await pickupDelivery(delivery.id); }
                     : canMarkReady
@@ -603,10 +790,29 @@ export default function MyDeliveriesScreen() {
                     ? async () => { await confirmDelivery(delivery.id); }
                     : undefined
                 }
+                secondaryActionLabel={
+                  canReportFailure
+                    ? "דיווח על כישלון"
+                    : canRelease
+                    ? "שחרור משלוח"
+                    : canCancel
+                    ? "ביטול משלוח"
+                    : undefined
+                }
+                onSecondaryAction={
+                  canReportFailure
+                    ? () => setFailureDeliveryId(delivery.id)
+                    : canRelease
+                    ? () => setReleaseDeliveryId(delivery.id)
+                    : canCancel
+                    ? () => setCancelDeliveryId(delivery.id)
+                    : undefined
+                }
                 disabled={loadingAction}
                 showNavigationButtons={user?.role === "courier"}
                 showCustomerInfo={user?.role === "courier"}
                 showNotes={user?.role === "courier"}
+                isPendingSync={pendingSyncDeliveryIds.has(delivery.id)}
                 testID={`delivery-${delivery.id}`}
               />
             );
@@ -622,6 +828,52 @@ export default function MyDeliveriesScreen() {
         minTime={minPreparationTime}
       />
 
+      <DeliveryReasonModal
+        visible={!!cancelDeliveryId}
+        title="ביטול משלוח"
+        subtitle="בחרו את סיבת הביטול"
+        reasons={cancellationReasons}
+        reasonLabels={cancellationReasonLabels}
+        submitLabel="בטל משלוח"
+        isSubmitting={cancelDeliveryMutationStatus === "pending"}
+        onClose={() => setCancelDeliveryId(null)}
+        onSubmit={handleCancelSubmit}
+      />
+
+      <DeliveryReasonModal
+        visible={!!failureDeliveryId}
+        title="דיווח על כישלון מסירה"
+        subtitle="בחרו את הסיבה שבגללה לא ניתן היה למסור את המשלוח"
+        reasons={failureReasons}
+        reasonLabels={failureReasonLabels}
+        submitLabel="שלח דיווח"
+        isSubmitting={reportFailureMutationStatus === "pending"}
+        onClose={() => setFailureDeliveryId(null)}
+        onSubmit={handleFailureSubmit}
+      />
+
+      <ProofOfDeliveryCaptureModal
+        visible={!!completeDeliveryId}
+        required={isProofOfDeliveryRequired}
+        isSubmitting={completeDeliveryMutationStatus === "pending"}
+        onClose={() => setCompleteDeliveryId(null)}
+        onSubmit={handleCompleteSubmit}
+      />
+
+      <ProofOfDeliveryModal delivery={proofViewDelivery} onClose={() => setProofViewDeliveryId(null)} />
+
+      <DeliveryReasonModal
+        visible={!!releaseDeliveryId}
+        title="שחרור משלוח"
+        subtitle="המשלוח יחזור לרשימת המשלוחים הפתוחים ושליחים אחרים יקבלו התראה"
+        reasons={releaseReasons}
+        reasonLabels={releaseReasonLabels}
+        submitLabel="שחרר משלוח"
+        isSubmitting={releaseDeliveryMutationStatus === "pending"}
+        onClose={() => setReleaseDeliveryId(null)}
+        onSubmit={handleReleaseSubmit}
+      />
+
       <NewDeliveryFullScreenPopup
         visible={isPopupVisible}
         delivery={newDelivery}
@@ -771,6 +1023,34 @@ const styles = StyleSheet.create({
     flexDirection: "column",
     gap: 16,
   },
+  batchSection: {
+    gap: 12,
+  },
+  batchSuggestion: {
+    backgroundColor: "rgba(29, 78, 216, 0.08)",
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+    borderStyle: "dashed",
+    paddingHorizontal: 18,
+    paddingVertical: 14,
+    alignItems: "flex-end",
+    gap: 4,
+  },
+  batchSuggestionDisabled: {
+    opacity: 0.6,
+  },
+  batchSuggestionTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  batchSuggestionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
   availabilityCard: {
     backgroundColor: Colors.light.surface,
     borderRadius: 20,
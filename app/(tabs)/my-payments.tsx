@@ -1,15 +1,19 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Animated, Platform, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { ActivityIndicator, Animated, Platform, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import * as Haptics from "expo-haptics";
 import { Audio } from "expo-av";
+import { useQuery } from "@tanstack/react-query";
 
 import Colors from "../../constants/colors";
 import { useDelivery } from "../../providers/DeliveryProvider";
-import { Delivery, User } from "../../types/models";
+import { CourierSettlement, Delivery } from "../../types/models";
+import { trpcClient } from "../../lib/trpc";
 import { TimeSelectionModal } from "../../components/TimeSelectionModal";
 import { NewDeliveryFullScreenPopup } from "../../components/NewDeliveryFullScreenPopup";
 import { CourierAssignedBottomSheet } from "../../components/CourierAssignedBottomSheet";
+import { CourierSettlementCard } from "../../components/CourierSettlementCard";
+import { LEGACY_DELIVERY_PAYMENT } from "../../utils/pricing";
 
 type TimeFilter = "daily" | "weekly" | "monthly";
 
@@ -49,7 +53,7 @@ export default function MyPaymentsScreen() {
       )
       .map((delivery) => ({
         ...delivery,
-        payment: delivery.payment ?? 25,
+        payment: delivery.payment ?? LEGACY_DELIVERY_PAYMENT,
       })) as DeliveryWithPayment[];
   }, [deliveries, user]);
 
@@ -75,12 +79,19 @@ export default function MyPaymentsScreen() {
     });
   }, [completedDeliveries, timeFilter]);
 
+  const settlementsQuery = useQuery<CourierSettlement[]>({
+    queryKey: ["settlements", user?.id],
+    queryFn: () => trpcClient.settlements.list.query(),
+    enabled: user?.role === "courier",
+  });
+  const settlements = settlementsQuery.data ?? [];
+
   const totalPayment = useMemo(() => {
     return filteredDeliveries.reduce((sum, delivery) => sum + delivery.payment, 0);
   }, [filteredDeliveries]);
 
   const getBusinessName = (businessId: string): string => {
-    const business = allUsers.find((u: User) => u.id === businessId);
+    const business = allUsers.find((u) => u.id === businessId);
     return business?.name || "לא ידוע";
   };
 
@@ -416,6 +427,28 @@ export default function MyPaymentsScreen() {
           )}
         </View>
 
+        {user?.role === "courier" ? (
+          <View style={styles.statementsSection} testID="my-payments-statements">
+            <Text style={styles.sectionTitle}>דוחות תשלום</Text>
+            {settlementsQuery.isLoading ? (
+              <ActivityIndicator color={Colors.light.tint} />
+            ) : settlements.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyStateTitle}>אין עדיין דוחות תשלום</Text>
+                <Text style={styles.emptyStateSubtitle}>כשהמנהל יסגור תקופת תשלום, הדוח יופיע כאן</Text>
+              </View>
+            ) : (
+              settlements.map((settlement) => (
+                <CourierSettlementCard
+                  key={settlement.id}
+                  settlement={settlement}
+                  testID={`my-payments-statement-${settlement.id}`}
+                />
+              ))
+            )}
+          </View>
+        ) : null}
+
       <TimeSelectionModal
         visible={isTimeModalVisible}
         onClose={handleCloseModal}
@@ -459,6 +492,16 @@ const styles = StyleSheet.create({
     paddingBottom: 120,
     gap: 24,
   },
+  statementsSection: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: "700" as const,
+    color: Colors.light.text,
+    textAlign: "right" as const,
+    writingDirection: "rtl" as const,
+  },
   headerBlock: {
     alignItems: "flex-end" as const,
     gap: 8,
@@ -10,12 +10,16 @@ import {
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { BarChart2, Calendar, ChevronDown, TrendingUp } from "lucide-react-native";
+import { AlertTriangle, BarChart2, Calendar, ChefHat, ChevronDown, Hourglass, Timer, TrendingUp, XCircle } from "lucide-react-native";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import * as Haptics from "expo-haptics";
+import { useQuery } from "@tanstack/react-query";
 
 import Colors from "../../constants/colors";
+import { trpcClient } from "../../lib/trpc";
 import { useDelivery } from "../../providers/DeliveryProvider";
+import { DeliveryStatsPoint, KitchenMetrics, StatsGranularity } from "../../types/models";
+import { toDateInput } from "../../utils/dateInput";
 
 
 type TimeRange = "hourly" | "daily" | "weekly" | "monthly" | "custom";
@@ -26,6 +30,14 @@ type ChartDataPoint = {
   date: Date;
 };
 
+const TIME_RANGE_GRANULARITY: Record<TimeRange, StatsGranularity> = {
+  hourly: "hour",
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  custom: "day",
+};
+
 const TIME_RANGE_OPTIONS: { key: TimeRange; label: string }[] = [
   { key: "hourly", label: "לפי שעה" },
   { key: "daily", label: "לפי יום" },
@@ -36,116 +48,12 @@ const TIME_RANGE_OPTIONS: { key: TimeRange; label: string }[] = [
 
 
 
-const formatHour = (date: Date): string => {
-  const hour = date.getHours();
-  return `${hour.toString().padStart(2, "0")}:00`;
-};
+const formatKitchenMinutes = (value: number | null) => (value === null ? "—" : `${Math.round(value)} דק׳`);
 
 const formatDay = (date: Date): string => {
   return `${date.getDate().toString().padStart(2, "0")}/${(date.getMonth() + 1).toString().padStart(2, "0")}`;
 };
 
-const formatWeek = (date: Date): string => {
-  const weekStart = new Date(date);
-  const day = weekStart.getDay();
-  const diff = weekStart.getDate() - day + (day === 0 ? -6 : 1);
-  weekStart.setDate(diff);
-  return `${weekStart.getDate().toString().padStart(2, "0")}/${(weekStart.getMonth() + 1).toString().padStart(2, "0")}`;
-};
-
-const formatMonth = (date: Date): string => {
-  const months = ["ינו", "פבר", "מרץ", "אפר", "מאי", "יונ", "יול", "אוג", "ספט", "אוק", "נוב", "דצמ"];
-  return months[date.getMonth()] ?? "";
-};
-
-const getHourKey = (date: Date): string => {
-  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}-${date.getHours()}`;
-};
-
-const getDayKey = (date: Date): string => {
-  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
-};
-
-const getWeekKey = (date: Date): string => {
-  const weekStart = new Date(date);
-  const day = weekStart.getDay();
-  const diff = weekStart.getDate() - day + (day === 0 ? -6 : 1);
-  weekStart.setDate(diff);
-  return `${weekStart.getFullYear()}-${weekStart.getMonth()}-${weekStart.getDate()}`;
-};
-
-const getMonthKey = (date: Date): string => {
-  return `${date.getFullYear()}-${date.getMonth()}`;
-};
-
-const generateTimeSlots = (
-  timeRange: TimeRange,
-  startDate: Date,
-  endDate: Date
-): { key: string; label: string; date: Date }[] => {
-  const slots: { key: string; label: string; date: Date }[] = [];
-  const current = new Date(startDate);
-
-  switch (timeRange) {
-    case "hourly":
-      while (current <= endDate) {
-        slots.push({
-          key: getHourKey(current),
-          label: formatHour(current),
-          date: new Date(current),
-        });
-        current.setHours(current.getHours() + 1);
-      }
-      break;
-    case "daily":
-      while (current <= endDate) {
-        slots.push({
-          key: getDayKey(current),
-          label: formatDay(current),
-          date: new Date(current),
-        });
-        current.setDate(current.getDate() + 1);
-      }
-      break;
-    case "weekly":
-      const day = current.getDay();
-      const diff = current.getDate() - day + (day === 0 ? -6 : 1);
-      current.setDate(diff);
-      while (current <= endDate) {
-        slots.push({
-          key: getWeekKey(current),
-          label: formatWeek(current),
-          date: new Date(current),
-        });
-        current.setDate(current.getDate() + 7);
-      }
-      break;
-    case "monthly":
-      current.setDate(1);
-      while (current <= endDate) {
-        slots.push({
-          key: getMonthKey(current),
-          label: formatMonth(current),
-          date: new Date(current),
-        });
-        current.setMonth(current.getMonth() + 1);
-      }
-      break;
-    case "custom":
-      while (current <= endDate) {
-        slots.push({
-          key: getDayKey(current),
-          label: formatDay(current),
-          date: new Date(current),
-        });
-        current.setDate(current.getDate() + 1);
-      }
-      break;
-  }
-
-  return slots;
-};
-
 type WebCalendarProps = {
   selectedDate: Date;
   onSelectDate: (date: Date) => void;
@@ -316,34 +224,9 @@ const calendarStyles = StyleSheet.create({
   },
 });
 
-const getDefaultDateRange = (timeRange: TimeRange): { start: Date; end: Date } => {
-  const now = new Date();
-  const start = new Date();
-
-  switch (timeRange) {
-    case "hourly":
-      start.setHours(now.getHours() - 23);
-      break;
-    case "daily":
-      start.setDate(now.getDate() - 6);
-      break;
-    case "weekly":
-      start.setDate(now.getDate() - 28);
-      break;
-    case "monthly":
-      start.setMonth(now.getMonth() - 11);
-      break;
-    case "custom":
-      start.setDate(now.getDate() - 6);
-      break;
-  }
-
-  return { start, end: now };
-};
-
 export default function StatisticsScreen() {
   const insets = useSafeAreaInsets();
-  const { user, deliveries, isLoading } = useDelivery();
+  const { user } = useDelivery();
   const [timeRange, setTimeRange] = useState<TimeRange>("daily");
   const [isTimeRangePickerOpen, setIsTimeRangePickerOpen] = useState(false);
   const [customStartDate, setCustomStartDate] = useState<Date>(() => {
@@ -357,60 +240,42 @@ export default function StatisticsScreen() {
 
   const isBusiness = user?.role === "business";
 
-  const businessDeliveries = useMemo(() => {
-    if (!user || user.role !== "business") {
-      return [];
-    }
-    return deliveries.filter((d) => d.businessId === user.id);
-  }, [deliveries, user]);
+  const seriesInput = useMemo(() => {
+    const granularity = TIME_RANGE_GRANULARITY[timeRange];
+    return timeRange === "custom"
+      ? { granularity, startDate: toDateInput(customStartDate), endDate: toDateInput(customEndDate) }
+      : { granularity };
+  }, [timeRange, customStartDate, customEndDate]);
+
+  const seriesQuery = useQuery<DeliveryStatsPoint[]>({
+    queryKey: ["stats", "series", seriesInput],
+    queryFn: () => trpcClient.stats.series.query(seriesInput),
+    enabled: isBusiness,
+  });
+  const isLoading = seriesQuery.isLoading;
+
+  // Kitchen timing needs enough orders to mean anything, so outside a custom range it covers the month to date.
+  const kitchenInput = useMemo(
+    () =>
+      timeRange === "custom"
+        ? { period: "custom" as const, startDate: toDateInput(customStartDate), endDate: toDateInput(customEndDate) }
+        : { period: "monthly" as const },
+    [timeRange, customStartDate, customEndDate],
+  );
+  const kitchenQuery = useQuery<KitchenMetrics[]>({
+    queryKey: ["stats", "kitchen", kitchenInput],
+    queryFn: () => trpcClient.stats.kitchen.query(kitchenInput),
+    enabled: isBusiness,
+  });
+  const kitchen = kitchenQuery.data?.[0] ?? null;
 
   const chartData = useMemo((): ChartDataPoint[] => {
-    const dateRange = timeRange === "custom" 
-      ? { start: customStartDate, end: customEndDate }
-      : getDefaultDateRange(timeRange);
-    
-    const slots = generateTimeSlots(timeRange, dateRange.start, dateRange.end);
-    const countMap = new Map<string, number>();
-
-    slots.forEach((slot) => {
-      countMap.set(slot.key, 0);
-    });
-
-    businessDeliveries.forEach((delivery) => {
-      const deliveryDate = new Date(delivery.createdAt);
-      if (deliveryDate < dateRange.start || deliveryDate > dateRange.end) {
-        return;
-      }
-
-      let key: string;
-      switch (timeRange) {
-        case "hourly":
-          key = getHourKey(deliveryDate);
-          break;
-        case "daily":
-        case "custom":
-          key = getDayKey(deliveryDate);
-          break;
-        case "weekly":
-          key = getWeekKey(deliveryDate);
-          break;
-        case "monthly":
-          key = getMonthKey(deliveryDate);
-          break;
-        default:
-          key = getDayKey(deliveryDate);
-      }
-
-      const current = countMap.get(key) ?? 0;
-      countMap.set(key, current + 1);
-    });
-
-    return slots.map((slot) => ({
-      label: slot.label,
-      value: countMap.get(slot.key) ?? 0,
-      date: slot.date,
+    return (seriesQuery.data ?? []).map((point) => ({
+      label: point.label,
+      value: point.count,
+      date: new Date(point.startAt),
     }));
-  }, [businessDeliveries, timeRange, customStartDate, customEndDate]);
+  }, [seriesQuery.data]);
 
   const maxValue = useMemo(() => {
     const max = Math.max(...chartData.map((d) => d.value), 1);
@@ -421,7 +286,13 @@ export default function StatisticsScreen() {
     return chartData.reduce((sum, point) => sum + point.value, 0);
   }, [chartData]);
 
-  
+  const cancelledDeliveries = useMemo(() => {
+    return (seriesQuery.data ?? []).reduce((sum, point) => sum + point.cancelled, 0);
+  }, [seriesQuery.data]);
+
+  const failedDeliveries = useMemo(() => {
+    return (seriesQuery.data ?? []).reduce((sum, point) => sum + point.failed, 0);
+  }, [seriesQuery.data]);
 
   const handleTimeRangePress = useCallback(() => {
     setIsTimeRangePickerOpen((prev) => !prev);
@@ -635,6 +506,16 @@ export default function StatisticsScreen() {
           <Text style={styles.statValue}>{totalDeliveries}</Text>
           <Text style={styles.statLabel}>סהכ משלוחים</Text>
         </View>
+        <View style={styles.statCard}>
+          <XCircle size={24} color={Colors.light.cancelled} />
+          <Text style={styles.statValue}>{cancelledDeliveries}</Text>
+          <Text style={styles.statLabel}>בוטלו</Text>
+        </View>
+        <View style={styles.statCard}>
+          <AlertTriangle size={24} color={Colors.light.failed} />
+          <Text style={styles.statValue}>{failedDeliveries}</Text>
+          <Text style={styles.statLabel}>נכשלו במסירה</Text>
+        </View>
       </View>
 
       {isLoading ? (
@@ -650,7 +531,7 @@ export default function StatisticsScreen() {
           
           {visibleDataPoints.length === 0 ? (
             <View style={styles.noDataContainer}>
-              <Text style={styles.noDataText}>אין נתונים לתקופה זו</Text>
+              <Text style={styles.noDataText}>{seriesQuery.error?.message ?? "אין נתונים לתקופה זו"}</Text>
             </View>
           ) : (
             <ScrollView 
@@ -687,6 +568,31 @@ export default function StatisticsScreen() {
           )}
         </View>
       )}
+
+      {kitchen && (kitchen.measured > 0 || kitchen.avgCourierIdleMinutes !== null) ? (
+        <View style={styles.kitchenSection} testID="kitchen-metrics">
+          <Text style={styles.chartTitle}>{timeRange === "custom" ? "זמני הכנה בטווח הנבחר" : "זמני הכנה החודש"}</Text>
+          <View style={styles.statsCards}>
+            <View style={styles.statCard}>
+              <ChefHat size={24} color={Colors.light.tint} />
+              <Text style={styles.statValue}>{formatKitchenMinutes(kitchen.avgActualPrepMinutes)}</Text>
+              <Text style={styles.statLabel}>{`הכנה בפועל (הובטח ${formatKitchenMinutes(kitchen.avgPromisedPrepMinutes)})`}</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Timer size={24} color={Colors.light.completed} />
+              <Text style={styles.statValue}>
+                {kitchen.onTimeReadyRate === null ? "—" : `${Math.round(kitchen.onTimeReadyRate * 100)}%`}
+              </Text>
+              <Text style={styles.statLabel}>מוכן בזמן</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Hourglass size={24} color={Colors.light.waiting} />
+              <Text style={styles.statValue}>{formatKitchenMinutes(kitchen.avgCourierIdleMinutes)}</Text>
+              <Text style={styles.statLabel}>המתנת שליח באיסוף</Text>
+            </View>
+          </View>
+        </View>
+      ) : null}
     </ScrollView>
   );
 }
@@ -820,11 +726,15 @@ const styles = StyleSheet.create({
   },
   statsCards: {
     flexDirection: "row-reverse",
+    flexWrap: "wrap",
     justifyContent: "center",
     gap: 12,
   },
+  kitchenSection: {
+    gap: 12,
+  },
   statCard: {
-    minWidth: 140,
+    minWidth: 100,
     backgroundColor: Colors.light.surface,
     borderRadius: 18,
     padding: 18,
@@ -25,6 +25,8 @@ function RootLayoutNav() {
       <Stack.Screen name="index" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="management-dashboard" options={{ headerShown: false }} />
+      <Stack.Screen name="change-password" options={{ headerShown: false, gestureEnabled: false }} />
+      <Stack.Screen name="courier-scorecard" options={{ title: "ביצועי שליח" }} />
     </Stack>
   );
 }
@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { LinearGradient } from "expo-linear-gradient";
+import { useRouter } from "expo-router";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import * as Haptics from "expo-haptics";
+
+import Colors from "../constants/colors";
+import { useDelivery } from "../providers/DeliveryProvider";
+
+export default function ChangePasswordScreen() {
+  const router = useRouter();
+  const { user, changePassword, changePasswordMutationStatus, logout } = useDelivery();
+  const [currentPassword, setCurrentPassword] = useState<string>("");
+  const [newPassword, setNewPassword] = useState<string>("");
+  const [confirmPassword, setConfirmPassword] = useState<string>("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const insets = useSafeAreaInsets();
+
+  const isSubmitting = changePasswordMutationStatus === "pending";
+
+  useEffect(() => {
+    if (!user) {
+      router.replace("/");
+      return;
+    }
+    if (!user.mustChangePassword) {
+      router.replace(user.role === "manager" ? "/management-dashboard" : "/my-deliveries");
+    }
+  }, [router, user]);
+
+  const handleSubmit = async () => {
+    setErrorMessage(null);
+
+    if (!currentPassword.trim()) {
+      setErrorMessage("יש להזין את הסיסמה הנוכחית");
+      return;
+    }
+    if (newPassword.trim().length < 4) {
+      setErrorMessage("הסיסמה חייבת להכיל לפחות 4 תווים");
+      return;
+    }
+    if (newPassword.trim() !== confirmPassword.trim()) {
+      setErrorMessage("הסיסמאות אינן תואמות");
+      return;
+    }
+
+    try {
+      await changePassword({ currentPassword: currentPassword.trim(), newPassword: newPassword.trim() });
+      console.log("Password change completed");
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch((hapticError) => {
+          console.log("Haptics notification failed", hapticError);
+        });
+      }
+    } catch (error) {
+      console.log("Password change error caught:", error);
+      setErrorMessage(error instanceof Error ? error.message : "עדכון הסיסמה נכשל");
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch((notificationError) => {
+          console.log("Haptics error failed", notificationError);
+        });
+      }
+    }
+  };
+
+  const handleLogout = () => {
+    logout();
+    router.replace("/");
+  };
+
+  return (
+    <LinearGradient
+      colors={[Colors.light.background, "#ffffff"]}
+      style={[styles.gradient, { paddingTop: insets.top, paddingBottom: insets.bottom }]}
+      locations={[0, 1]}
+    >
+      <KeyboardAvoidingView
+        style={styles.avoiding}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <ScrollView
+          contentContainerStyle={styles.container}
+          keyboardShouldPersistTaps="handled"
+          testID="change-password-scroll"
+        >
+          <View style={styles.headerWrapper}>
+            <Text style={styles.brandTitle}>Droppi</Text>
+            <Text style={styles.pageTitle}>החלפת סיסמה</Text>
+            <Text style={styles.subtitle}>
+              החשבון שלך עדיין משתמש בסיסמה הזמנית. יש לבחור סיסמה חדשה כדי להמשיך.
+            </Text>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>סיסמה נוכחית</Text>
+            <TextInput
+              value={currentPassword}
+              onChangeText={setCurrentPassword}
+              placeholder="הקלידו את הסיסמה הזמנית"
+              placeholderTextColor="#9ba3b8"
+              secureTextEntry
+              style={styles.input}
+              testID="input-current-password"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>סיסמה חדשה</Text>
+            <TextInput
+              value={newPassword}
+              onChangeText={setNewPassword}
+              placeholder="לפחות 4 תווים"
+              placeholderTextColor="#9ba3b8"
+              secureTextEntry
+              style={styles.input}
+              testID="input-new-password"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>אימות סיסמה חדשה</Text>
+            <TextInput
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              placeholder="הקלידו שוב את הסיסמה החדשה"
+              placeholderTextColor="#9ba3b8"
+              secureTextEntry
+              style={styles.input}
+              testID="input-confirm-password"
+            />
+          </View>
+
+          <Pressable
+            onPress={handleSubmit}
+            style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+            disabled={isSubmitting}
+            testID="change-password-button"
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.submitButtonText}>עדכון סיסמה</Text>
+            )}
+          </Pressable>
+
+          {errorMessage ? (
+            <View style={styles.errorNotice} testID="change-password-error">
+              <Text style={styles.errorNoticeText}>{errorMessage}</Text>
+            </View>
+          ) : null}
+
+          <Pressable onPress={handleLogout} style={styles.logoutButton} testID="change-password-logout">
+            <Text style={styles.logoutButtonText}>התנתקות</Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  gradient: {
+    flex: 1,
+  },
+  avoiding: {
+    flex: 1,
+  },
+  container: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingVertical: 48,
+    gap: 24,
+  },
+  headerWrapper: {
+    alignItems: "flex-end",
+    gap: 8,
+  },
+  brandTitle: {
+    fontSize: 42,
+    fontWeight: "800",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  pageTitle: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  subtitle: {
+    fontSize: 16,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+    lineHeight: 22,
+  },
+  inputGroup: {
+    gap: 8,
+  },
+  inputLabel: {
+    fontSize: 15,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  input: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 18,
+    paddingHorizontal: 18,
+    paddingVertical: 14,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    fontSize: 16,
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  submitButton: {
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 16,
+    borderRadius: 20,
+    alignItems: "center",
+  },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
+  submitButtonText: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+  errorNotice: {
+    borderRadius: 18,
+    paddingVertical: 14,
+    paddingHorizontal: 18,
+    backgroundColor: "rgba(239, 68, 68, 0.08)",
+    borderWidth: 1,
+    borderColor: "rgba(239, 68, 68, 0.28)",
+    alignItems: "flex-end",
+  },
+  errorNoticeText: {
+    fontSize: 14,
+    color: "#7f1d1d",
+    writingDirection: "rtl",
+    textAlign: "right",
+    lineHeight: 18,
+  },
+  logoutButton: {
+    alignSelf: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  logoutButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+});
@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Activity, Clock, Gauge, MapPin, Timer, TrendingUp, Undo2, XCircle } from "lucide-react-native";
+import { useQuery } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { useDelivery } from "../providers/DeliveryProvider";
+import { CourierScorecard, StatsPeriod } from "../types/models";
+
+type ScorecardPeriod = Exclude<StatsPeriod, "custom">;
+
+const PERIOD_OPTIONS: { key: ScorecardPeriod; label: string }[] = [
+  { key: "daily", label: "היום" },
+  { key: "weekly", label: "השבוע" },
+  { key: "monthly", label: "החודש" },
+];
+
+const formatRate = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+const formatMinutes = (value: number | null) => (value === null ? "—" : `${Math.round(value)} דק׳`);
+
+export default function CourierScorecardScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { courierId } = useLocalSearchParams<{ courierId: string }>();
+  const { user, allUsers } = useDelivery();
+  const [period, setPeriod] = useState<ScorecardPeriod>("weekly");
+
+  useEffect(() => {
+    if (!user) {
+      router.replace("/");
+    }
+  }, [router, user]);
+
+  const courier = useMemo(() => allUsers.find((candidate) => candidate.id === courierId), [allUsers, courierId]);
+
+  const scorecardQuery = useQuery<CourierScorecard>({
+    queryKey: ["stats", "courierScorecard", courierId, period],
+    queryFn: () => trpcClient.stats.courierScorecard.query({ courierId: courierId ?? "", period }),
+    enabled: !!user && !!courierId,
+  });
+
+  const metrics = scorecardQuery.data?.metrics;
+  const trend = scorecardQuery.data?.trend ?? [];
+  const maxCompleted = Math.max(1, ...trend.map((point) => point.completed));
+
+  const tiles = metrics
+    ? [
+        {
+          key: "accepted",
+          label: "משלוחים שנלקחו",
+          value: String(metrics.accepted),
+          icon: Activity,
+          color: Colors.light.tint,
+        },
+        {
+          key: "completion",
+          label: "אחוז השלמה",
+          value: formatRate(metrics.completionRate),
+          icon: TrendingUp,
+          color: Colors.light.completed,
+        },
+        {
+          key: "onTime",
+          label: "איסוף בזמן",
+          value: formatRate(metrics.onTimeRate),
+          icon: Clock,
+          color: Colors.light.completed,
+        },
+        {
+          key: "acceptance",
+          label: "זמן תגובה להצעה",
+          value: formatMinutes(metrics.avgAcceptanceMinutes),
+          icon: Timer,
+          color: Colors.light.waiting,
+        },
+        {
+          key: "pickupWait",
+          label: "הזמנה מוכנה עד איסוף",
+          value: formatMinutes(metrics.avgPickupWaitMinutes),
+          icon: Gauge,
+          color: Colors.light.taken,
+        },
+        {
+          key: "releases",
+          label: "שחרורים",
+          value: String(metrics.releases),
+          icon: Undo2,
+          color: Colors.light.cancelled,
+        },
+        {
+          key: "failed",
+          label: "כשלונות מסירה",
+          value: String(metrics.failed),
+          icon: XCircle,
+          color: Colors.light.failed,
+        },
+        {
+          key: "distance",
+          label: "ק״מ שנסעו",
+          value: String(metrics.distanceKm),
+          icon: MapPin,
+          color: Colors.light.tint,
+        },
+        {
+          key: "hours",
+          label: "שעות פעילות",
+          value: String(metrics.activeHours),
+          icon: Clock,
+          color: Colors.light.tint,
+        },
+      ]
+    : [];
+
+  return (
+    <ScrollView
+      style={styles.screen}
+      contentContainerStyle={[styles.container, { paddingBottom: 48 + insets.bottom }]}
+      testID="courier-scorecard-screen"
+    >
+      <View style={styles.headerBlock}>
+        <Text style={styles.heading}>{courier?.name ?? "שליח"}</Text>
+        {courier?.courierProfile?.vehicle ? <Text style={styles.subheading}>{courier.courierProfile.vehicle}</Text> : null}
+      </View>
+
+      <View style={styles.periodToggle}>
+        {PERIOD_OPTIONS.map((option) => {
+          const isActive = option.key === period;
+          return (
+            <Pressable
+              key={option.key}
+              onPress={() => setPeriod(option.key)}
+              style={[styles.periodButton, isActive && styles.periodButtonActive]}
+              testID={`scorecard-period-${option.key}`}
+            >
+              <Text style={[styles.periodButtonText, isActive && styles.periodButtonTextActive]}>{option.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {scorecardQuery.isLoading ? <ActivityIndicator color={Colors.light.tint} /> : null}
+      {scorecardQuery.error ? <Text style={styles.errorText}>{scorecardQuery.error.message}</Text> : null}
+
+      <View style={styles.tileGrid}>
+        {tiles.map((tile) => {
+          const Icon = tile.icon;
+          return (
+            <View key={tile.key} style={styles.tile} testID={`scorecard-${tile.key}`}>
+              <Icon color={tile.color} size={20} />
+              <Text style={styles.tileValue}>{tile.value}</Text>
+              <Text style={styles.tileLabel}>{tile.label}</Text>
+            </View>
+          );
+        })}
+      </View>
+
+      {trend.length > 0 ? (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>מגמה שבועית</Text>
+          <Text style={styles.sectionSubtitle}>משלוחים שהושלמו ואחוז האיסוף בזמן בכל שבוע</Text>
+          {[...trend].reverse().map((point) => (
+            <View key={point.startAt} style={styles.trendRow}>
+              <Text style={styles.trendLabel}>{point.label}</Text>
+              <View style={styles.trendBarTrack}>
+                <View
+                  style={[
+                    styles.trendBar,
+                    { width: `${Math.max((point.completed / maxCompleted) * 100, point.completed > 0 ? 4 : 0)}%` },
+                  ]}
+                />
+              </View>
+              <Text style={styles.trendValue}>{point.completed}</Text>
+              <Text style={styles.trendRate}>{formatRate(point.onTimeRate)}</Text>
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: Colors.light.background,
+  },
+  container: {
+    padding: 20,
+    gap: 20,
+  },
+  headerBlock: {
+    alignItems: "flex-end",
+    gap: 4,
+  },
+  heading: {
+    fontSize: 26,
+    fontWeight: "800",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  subheading: {
+    fontSize: 14,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  periodToggle: {
+    flexDirection: "row-reverse",
+    gap: 8,
+  },
+  periodButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: Colors.light.surface,
+  },
+  periodButtonActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  periodButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  periodButtonTextActive: {
+    color: Colors.light.surface,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.light.failed,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  tileGrid: {
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  tile: {
+    width: "31%",
+    flexGrow: 1,
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 16,
+    paddingHorizontal: 8,
+    borderRadius: 18,
+    backgroundColor: Colors.light.surface,
+  },
+  tileValue: {
+    fontSize: 20,
+    fontWeight: "800",
+    color: Colors.light.text,
+  },
+  tileLabel: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "center",
+    writingDirection: "rtl",
+  },
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  trendRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 10,
+  },
+  trendLabel: {
+    width: 48,
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+  },
+  trendBarTrack: {
+    flex: 1,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "rgba(29, 78, 216, 0.08)",
+    overflow: "hidden",
+    flexDirection: "row-reverse",
+  },
+  trendBar: {
+    height: "100%",
+    borderRadius: 5,
+    backgroundColor: Colors.light.tint,
+  },
+  trendValue: {
+    width: 28,
+    fontSize: 13,
+    fontWeight: "700",
+    color: Colors.light.text,
+    textAlign: "center",
+  },
+  trendRate: {
+    width: 44,
+    fontSize: 12,
+    color: Colors.light.completed,
+    textAlign: "left",
+  },
+});
@@ -41,6 +41,10 @@ export default function LoginScreen() {
   const isSubmitting = loginMutationStatus === "pending";
 
   useEffect(() => {
+    if (user?.mustChangePassword) {
+      router.replace("/change-password");
+      return;
+    }
     if (user) {
       const targetRoute =
         user.role === "business"
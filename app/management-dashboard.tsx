@@ -18,15 +18,20 @@ import {
   AlertTriangle,
   Briefcase,
   Calendar,
+  CalendarClock,
   CalendarDays,
+  ChartColumn,
   CheckCircle,
   ChevronDown,
   Edit3,
   Eye,
+  FileText,
   LayoutDashboard,
   LogOut,
   Map,
   MapPin,
+  Receipt,
+  Route,
   Search,
   Shield,
   ShieldCheck,
@@ -37,17 +42,39 @@ import {
   Wallet,
   X,
 } from "lucide-react-native";
+import { useQuery } from "@tanstack/react-query";
 
 import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
 import { useDelivery } from "../providers/DeliveryProvider";
-import { Delivery, DeliveryStatus, User } from "../types/models";
+import {
+  DeliveryStatsBreakdownRow,
+  DeliveryStatsSummary,
+  DeliveryStatus,
+  KitchenMetrics,
+  PublicUser,
+  StatsPeriod,
+} from "../types/models";
 import { UserEditModal } from "../components/UserEditModal";
 import { CourierTrackingMap } from "../components/CourierTrackingMap";
+import { PricingSettingsPanel } from "../components/PricingSettingsPanel";
+import { CourierSettlementsPanel } from "../components/CourierSettlementsPanel";
+import { BusinessInvoicesPanel } from "../components/BusinessInvoicesPanel";
+import { GeofenceFlagsPanel } from "../components/GeofenceFlagsPanel";
+import { SlaAtRiskPanel } from "../components/SlaAtRiskPanel";
+import { findBatchableDeliveries, MAX_BATCH_SIZE } from "../utils/deliveryBatching";
+import { EMPTY_STATS_SUMMARY } from "../utils/deliveryStats";
+import { canTransitionDelivery } from "../utils/deliveryStateMachine";
+import { isHeldForSchedule, selectUpcomingScheduledDeliveries } from "../utils/scheduling";
 
 type FinanceSnapshot = {
   totalCollected: number;
   pendingCollection: number;
   inProgressCollection: number;
+  cancelledValue: number;
+  cancelledCount: number;
+  failedValue: number;
+  failedCount: number;
 };
 
 type CourierFormState = {
@@ -93,32 +120,32 @@ type FinancePeriod = "daily" | "weekly" | "monthly" | "custom";
 type CourierStatsPeriod = "daily" | "weekly" | "monthly" | "custom";
 type BusinessStatsPeriod = "daily" | "weekly" | "monthly" | "custom";
 
-type PeriodStats = {
-  total: number;
-  waiting: number;
-  taken: number;
-  completed: number;
-  completionRate: number;
-};
-
 type CourierStats = {
-  courier: User;
+  courier: PublicUser;
   total: number;
   completed: number;
   taken: number;
+  releases: number;
   completionRate: number;
   earnings: number;
 };
 
 type BusinessStats = {
-  business: User;
+  business: PublicUser;
   total: number;
   completed: number;
   waiting: number;
   completionRate: number;
   expenses: number;
+  kitchen: KitchenMetrics | null;
 };
 
+// Custom ranges stay open on whichever end has no date yet.
+const toStatsInput = (period: StatsPeriod, startDate: string, endDate: string) =>
+  period === "custom" ? { period, startDate: startDate || undefined, endDate: endDate || undefined } : { period };
+
+const formatKitchenMinutes = (value: number | null) => (value === null ? "—" : `${Math.round(value)} דק׳`);
+
 const fallbackDisplayValue = (value: string | number | null | undefined): string => {
   if (typeof value === "number") {
     return Number.isFinite(value) ? `${value}` : "לא סופק";
@@ -130,6 +157,10 @@ const fallbackDisplayValue = (value: string | number | null | undefined): string
   return trimmed.length > 0 ? trimmed : "לא סופק";
 };
 
+const passwordStatusLabel = (target: PublicUser): string => {
+  return target.mustChangePassword ? "זמנית - ממתינה להחלפה" : "מוגדרת";
+};
+
 const createEmptyCourierForm = (): CourierFormState => ({
   name: "",
   age: "",
@@ -161,19 +192,29 @@ const currencyFormatter = new Intl.NumberFormat("he-IL", {
   maximumFractionDigits: 0,
 });
 
+const scheduleFormatter = new Intl.DateTimeFormat("he-IL", {
+  weekday: "short",
+  day: "2-digit",
+  month: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
 type RegistrationType = "courier" | "business" | "manager";
 
-type DashboardTab = "dashboard" | "map";
+type DashboardTab = "dashboard" | "map" | "pricing" | "settlements" | "invoices";
 
 export default function ManagementDashboardScreen() {
   const {
     user,
     isLoading,
     deliveries,
-    allUsers,
+    managedUsers,
     logout,
     managerUpdateDelivery,
     managerUpdateDeliveryMutationStatus,
+    createDeliveryBatch,
+    createDeliveryBatchMutationStatus,
     managerRegisterCourier,
     managerRegisterCourierMutationStatus: courierRegisterStatus,
     managerRegisterBusiness,
@@ -194,7 +235,7 @@ export default function ManagementDashboardScreen() {
   const [managerForm, setManagerForm] = useState<ManagerFormState>(() => createEmptyManagerForm());
   const [activeDirectoryTab, setActiveDirectoryTab] = useState<DirectoryTab>("couriers");
   const [activeBriefPeriod, setActiveBriefPeriod] = useState<BriefPeriod>("daily");
-  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
   const [courierStatsPeriod, setCourierStatsPeriod] = useState<CourierStatsPeriod>("daily");
   const [courierStatsStartDate, setCourierStatsStartDate] = useState<string>("");
@@ -238,7 +279,8 @@ export default function ManagementDashboardScreen() {
     }
   }, [router, user]);
 
-  const isManagerActionLoading = managerUpdateDeliveryMutationStatus === "pending";
+  const isManagerActionLoading =
+    managerUpdateDeliveryMutationStatus === "pending" || createDeliveryBatchMutationStatus === "pending";
   const isCourierSubmitting = courierRegisterStatus === "pending";
   const isBusinessSubmitting = businessRegisterStatus === "pending";
   const isManagerSubmittingRequest = managerRegisterStatus === "pending";
@@ -278,88 +320,16 @@ export default function ManagementDashboardScreen() {
   const managerSubmitDisabled = isManagerSubmittingRequest || !isManagerFormReady;
   const placeholderColor = "rgba(15, 23, 42, 0.35)";
 
-  const getFilteredDeliveries = useCallback((period: BriefPeriod, startDate?: string, endDate?: string) => {
-    const now = new Date();
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const startOfWeek = new Date(startOfDay);
-    startOfWeek.setDate(startOfDay.getDate() - startOfDay.getDay());
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-    return deliveries.filter((delivery) => {
-      const createdAt = new Date(delivery.createdAt);
-      switch (period) {
-        case "daily":
-          return createdAt >= startOfDay;
-        case "weekly":
-          return createdAt >= startOfWeek;
-        case "monthly":
-          return createdAt >= startOfMonth;
-        case "custom":
-          if (startDate && endDate) {
-            const start = new Date(startDate);
-            const end = new Date(endDate);
-            end.setHours(23, 59, 59, 999);
-            return createdAt >= start && createdAt <= end;
-          }
-          return true;
-        default:
-          return true;
-      }
-    });
-  }, [deliveries]);
-
-  const getCourierFilteredDeliveries = useCallback((period: CourierStatsPeriod, startDate?: string, endDate?: string) => {
-    const now = new Date();
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const startOfWeek = new Date(startOfDay);
-    startOfWeek.setDate(startOfDay.getDate() - startOfDay.getDay());
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-    return deliveries.filter((delivery) => {
-      const createdAt = new Date(delivery.createdAt);
-      switch (period) {
-        case "daily":
-          return createdAt >= startOfDay;
-        case "weekly":
-          return createdAt >= startOfWeek;
-        case "monthly":
-          return createdAt >= startOfMonth;
-        case "custom":
-          if (startDate && endDate) {
-            const start = new Date(startDate);
-            const end = new Date(endDate);
-            end.setHours(23, 59, 59, 999);
-            return createdAt >= start && createdAt <= end;
-          }
-          return true;
-        default:
-          return true;
-      }
-    });
-  }, [deliveries]);
-
-  const calculateStats = useCallback((filteredDeliveries: Delivery[]): PeriodStats => {
-    const total = filteredDeliveries.length;
-    const waiting = filteredDeliveries.filter((d) => d.status === "waiting").length;
-    const taken = filteredDeliveries.filter((d) => d.status === "taken").length;
-    const completed = filteredDeliveries.filter((d) => d.status === "completed").length;
-    const completionRate = total > 0 ? completed / total : 0;
-    return { total, waiting, taken, completed, completionRate };
-  }, []);
-
-  const periodStats = useMemo<Record<Exclude<BriefPeriod, "custom">, PeriodStats>>(() => {
-    return {
-      daily: calculateStats(getFilteredDeliveries("daily")),
-      weekly: calculateStats(getFilteredDeliveries("weekly")),
-      monthly: calculateStats(getFilteredDeliveries("monthly")),
-    };
-  }, [calculateStats, getFilteredDeliveries]);
-
-  const customBriefStats = useMemo<PeriodStats>(() => {
-    return calculateStats(getFilteredDeliveries("custom", briefStatsStartDate, briefStatsEndDate));
-  }, [calculateStats, getFilteredDeliveries, briefStatsStartDate, briefStatsEndDate]);
-
-  const currentStats = activeBriefPeriod === "custom" ? customBriefStats : periodStats[activeBriefPeriod];
+  const briefStatsInput = useMemo(
+    () => toStatsInput(activeBriefPeriod, briefStatsStartDate, briefStatsEndDate),
+    [activeBriefPeriod, briefStatsStartDate, briefStatsEndDate],
+  );
+  const { data: briefStatsData } = useQuery<DeliveryStatsSummary>({
+    queryKey: ["stats", "summary", briefStatsInput],
+    queryFn: () => trpcClient.stats.summary.query(briefStatsInput),
+    enabled: user?.role === "manager",
+  });
+  const currentStats = briefStatsData ?? EMPTY_STATS_SUMMARY;
 
   useEffect(() => {
     Animated.timing(completionProgress, {
@@ -371,31 +341,43 @@ export default function ManagementDashboardScreen() {
 
   const couriers = useMemo(() => {
     const seen = new Set<string>();
-    return allUsers.filter((candidate) => {
+    return managedUsers.filter((candidate) => {
       if (candidate.role !== "courier" || !candidate.id || seen.has(candidate.id)) return false;
       seen.add(candidate.id);
       return true;
     });
-  }, [allUsers]);
+  }, [managedUsers]);
   const businesses = useMemo(() => {
     const seen = new Set<string>();
-    return allUsers.filter((candidate) => {
+    return managedUsers.filter((candidate) => {
       if (candidate.role !== "business" || !candidate.id || seen.has(candidate.id)) return false;
       seen.add(candidate.id);
       return true;
     });
-  }, [allUsers]);
+  }, [managedUsers]);
   const managers = useMemo(() => {
     const seen = new Set<string>();
-    return allUsers.filter((candidate) => {
+    return managedUsers.filter((candidate) => {
       if (candidate.role !== "manager" || !candidate.id || seen.has(candidate.id)) return false;
       seen.add(candidate.id);
       return true;
     });
-  }, [allUsers]);
+  }, [managedUsers]);
+
+  const courierStatsInput = useMemo(
+    () => toStatsInput(courierStatsPeriod, courierStatsStartDate, courierStatsEndDate),
+    [courierStatsPeriod, courierStatsStartDate, courierStatsEndDate],
+  );
+  const { data: courierStatsRows } = useQuery<DeliveryStatsBreakdownRow[]>({
+    queryKey: ["stats", "couriers", courierStatsInput],
+    queryFn: () => trpcClient.stats.couriers.query(courierStatsInput),
+    enabled: user?.role === "manager",
+  });
 
   const courierStatsByPeriod = useMemo<CourierStats[]>(() => {
-    const filteredDeliveries = getCourierFilteredDeliveries(courierStatsPeriod, courierStatsStartDate, courierStatsEndDate);
+    const rowsByCourier: Record<string, DeliveryStatsBreakdownRow> = Object.fromEntries(
+      (courierStatsRows ?? []).map((row) => [row.id, row]),
+    );
     const searchLower = courierSearchQuery.trim().toLowerCase();
     return couriers
       .filter((courier) => {
@@ -403,51 +385,44 @@ export default function ManagementDashboardScreen() {
         return courier.name.toLowerCase().includes(searchLower);
       })
       .map((courier) => {
-        const courierDeliveries = filteredDeliveries.filter((d) => d.courierId === courier.id);
-        const total = courierDeliveries.length;
-        const completedDeliveries = courierDeliveries.filter((d) => d.status === "completed");
-        const completed = completedDeliveries.length;
-        const taken = courierDeliveries.filter((d) => d.status === "taken").length;
-        const rate = total > 0 ? completed / total : 0;
-        const earnings = completedDeliveries.reduce((sum, d) => sum + (d.payment ?? 0), 0);
-        return { courier, total, completed, taken, completionRate: rate, earnings };
+        const row = rowsByCourier[courier.id] ?? EMPTY_STATS_SUMMARY;
+        const releases = courier.courierProfile?.releaseCount ?? 0;
+        return {
+          courier,
+          total: row.total,
+          completed: row.completed,
+          taken: row.taken,
+          releases,
+          completionRate: row.completionRate,
+          earnings: row.revenue,
+        };
       })
-      .filter((s) => s.total > 0 || courierSearchQuery.trim().length > 0)
+      .filter((s) => s.total > 0 || s.releases > 0 || courierSearchQuery.trim().length > 0)
       .sort((a, b) => b.completed - a.completed);
-  }, [courierStatsPeriod, courierStatsStartDate, courierStatsEndDate, couriers, getCourierFilteredDeliveries, courierSearchQuery]);
-
-  const getBusinessFilteredDeliveries = useCallback((period: BusinessStatsPeriod, startDate?: string, endDate?: string) => {
-    const now = new Date();
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const startOfWeek = new Date(startOfDay);
-    startOfWeek.setDate(startOfDay.getDate() - startOfDay.getDay());
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-    return deliveries.filter((delivery) => {
-      const createdAt = new Date(delivery.createdAt);
-      switch (period) {
-        case "daily":
-          return createdAt >= startOfDay;
-        case "weekly":
-          return createdAt >= startOfWeek;
-        case "monthly":
-          return createdAt >= startOfMonth;
-        case "custom":
-          if (startDate && endDate) {
-            const start = new Date(startDate);
-            const end = new Date(endDate);
-            end.setHours(23, 59, 59, 999);
-            return createdAt >= start && createdAt <= end;
-          }
-          return true;
-        default:
-          return true;
-      }
-    });
-  }, [deliveries]);
+  }, [couriers, courierStatsRows, courierSearchQuery]);
+
+  const businessStatsInput = useMemo(
+    () => toStatsInput(businessStatsPeriod, businessStatsStartDate, businessStatsEndDate),
+    [businessStatsPeriod, businessStatsStartDate, businessStatsEndDate],
+  );
+  const { data: businessStatsRows } = useQuery<DeliveryStatsBreakdownRow[]>({
+    queryKey: ["stats", "businesses", businessStatsInput],
+    queryFn: () => trpcClient.stats.businesses.query(businessStatsInput),
+    enabled: user?.role === "manager",
+  });
+  const { data: kitchenMetricsRows } = useQuery<KitchenMetrics[]>({
+    queryKey: ["stats", "kitchen", businessStatsInput],
+    queryFn: () => trpcClient.stats.kitchen.query(businessStatsInput),
+    enabled: user?.role === "manager",
+  });
 
   const businessStatsByPeriod = useMemo<BusinessStats[]>(() => {
-    const filteredDeliveries = getBusinessFilteredDeliveries(businessStatsPeriod, businessStatsStartDate, businessStatsEndDate);
+    const rowsByBusiness: Record<string, DeliveryStatsBreakdownRow> = Object.fromEntries(
+      (businessStatsRows ?? []).map((row) => [row.id, row]),
+    );
+    const kitchenByBusiness: Record<string, KitchenMetrics> = Object.fromEntries(
+      (kitchenMetricsRows ?? []).map((row) => [row.businessId, row]),
+    );
     const searchLower = businessSearchQuery.trim().toLowerCase();
     return businesses
       .filter((business) => {
@@ -455,18 +430,20 @@ export default function ManagementDashboardScreen() {
         return business.name.toLowerCase().includes(searchLower);
       })
       .map((business) => {
-        const businessDeliveries = filteredDeliveries.filter((d) => d.businessId === business.id);
-        const total = businessDeliveries.length;
-        const completedDeliveries = businessDeliveries.filter((d) => d.status === "completed");
-        const completed = completedDeliveries.length;
-        const waiting = businessDeliveries.filter((d) => d.status === "waiting").length;
-        const rate = total > 0 ? completed / total : 0;
-        const expenses = completedDeliveries.reduce((sum, d) => sum + (d.payment ?? 0), 0);
-        return { business, total, completed, waiting, completionRate: rate, expenses };
+        const row = rowsByBusiness[business.id] ?? EMPTY_STATS_SUMMARY;
+        return {
+          business,
+          total: row.total,
+          completed: row.completed,
+          waiting: row.waiting,
+          completionRate: row.completionRate,
+          expenses: row.revenue,
+          kitchen: kitchenByBusiness[business.id] ?? null,
+        };
       })
       .filter((s) => s.total > 0 || businessSearchQuery.trim().length > 0)
       .sort((a, b) => b.total - a.total);
-  }, [businessStatsPeriod, businessStatsStartDate, businessStatsEndDate, businesses, getBusinessFilteredDeliveries, businessSearchQuery]);
+  }, [businesses, businessStatsRows, kitchenMetricsRows, businessSearchQuery]);
 
   const directoryData = useMemo<Record<DirectoryTab, DirectoryConfig>>(() => {
     const courierRows = couriers.map((courier) => {
@@ -474,16 +451,18 @@ export default function ManagementDashboardScreen() {
       const vehicleValue = fallbackDisplayValue(courier.courierProfile?.vehicle);
       const ageValue = courier.courierProfile?.age ? fallbackDisplayValue(courier.courierProfile.age) : "לא סופק";
       const idNumberValue = fallbackDisplayValue(courier.courierProfile?.idNumber);
+      const releaseCountValue = String(courier.courierProfile?.releaseCount ?? 0);
       return {
         id: courier.id,
         columns: [
           fallbackDisplayValue(courier.name),
-          fallbackDisplayValue(courier.password),
+          passwordStatusLabel(courier),
           fallbackDisplayValue(courier.phone),
           emailValue,
           ageValue,
           vehicleValue,
           idNumberValue,
+          releaseCountValue,
         ],
       };
     });
@@ -495,7 +474,7 @@ export default function ManagementDashboardScreen() {
         id: business.id,
         columns: [
           fallbackDisplayValue(business.name),
-          fallbackDisplayValue(business.password),
+          passwordStatusLabel(business),
           fallbackDisplayValue(business.phone),
           emailValue,
           addressValue,
@@ -509,7 +488,7 @@ export default function ManagementDashboardScreen() {
         id: managerUser.id,
         columns: [
           fallbackDisplayValue(managerUser.name),
-          fallbackDisplayValue(managerUser.password),
+          passwordStatusLabel(managerUser),
           fallbackDisplayValue(managerUser.phone),
           emailValue,
         ],
@@ -518,7 +497,7 @@ export default function ManagementDashboardScreen() {
 
     return {
       couriers: {
-        headers: ["שם מלא", "סיסמה", "טלפון", "אימייל", "גיל", "כלי תחבורה", "ת.ז."],
+        headers: ["שם מלא", "סיסמה", "טלפון", "אימייל", "גיל", "כלי תחבורה", "ת.ז.", "שחרורים"],
         rows: courierRows,
         emptyMessage: "אין שליחים רשומים כרגע.",
       },
@@ -538,57 +517,51 @@ export default function ManagementDashboardScreen() {
   const activeDirectory = directoryData[activeDirectoryTab];
 
   const waitingDeliveries = useMemo(
-    () => deliveries.filter((delivery) => delivery.status === "waiting"),
+    () => deliveries.filter((delivery) => delivery.status === "waiting" && !isHeldForSchedule(delivery)),
     [deliveries],
   );
 
+  const upcomingScheduledDeliveries = useMemo(() => selectUpcomingScheduledDeliveries(deliveries), [deliveries]);
+
   const activeDeliveries = useMemo(
     () => deliveries.filter((delivery) => delivery.status === "taken"),
     [deliveries],
   );
 
-  const getFinanceFilteredDeliveries = useCallback((period: FinancePeriod, startDate?: string, endDate?: string) => {
-    const now = new Date();
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const startOfWeek = new Date(startOfDay);
-    startOfWeek.setDate(startOfDay.getDate() - startOfDay.getDay());
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-    return deliveries.filter((delivery) => {
-      const createdAt = new Date(delivery.createdAt);
-      switch (period) {
-        case "daily":
-          return createdAt >= startOfDay;
-        case "weekly":
-          return createdAt >= startOfWeek;
-        case "monthly":
-          return createdAt >= startOfMonth;
-        case "custom":
-          if (startDate && endDate) {
-            const start = new Date(startDate);
-            const end = new Date(endDate);
-            end.setHours(23, 59, 59, 999);
-            return createdAt >= start && createdAt <= end;
-          }
-          return true;
-        default:
-          return true;
+  const handleCreateBatch = useCallback(
+    async (deliveryIds: string[]) => {
+      console.log("Manager batching deliveries", deliveryIds);
+      try {
+        await createDeliveryBatch(deliveryIds);
+      } catch (error) {
+        console.log("Manager batch failed", error);
       }
-    });
-  }, [deliveries]);
+    },
+    [createDeliveryBatch],
+  );
+
+  const financeStatsInput = useMemo(
+    () => toStatsInput(financePeriod, financeStartDate, financeEndDate),
+    [financePeriod, financeStartDate, financeEndDate],
+  );
+  const { data: financeStatsData } = useQuery<DeliveryStatsSummary>({
+    queryKey: ["stats", "summary", financeStatsInput],
+    queryFn: () => trpcClient.stats.summary.query(financeStatsInput),
+    enabled: user?.role === "manager",
+  });
 
   const financeSnapshot = useMemo<FinanceSnapshot>(() => {
-    const filteredDeliveries = getFinanceFilteredDeliveries(financePeriod, financeStartDate, financeEndDate);
-    const completedDeliveries = filteredDeliveries.filter((d) => d.status === "completed");
-    const waitingDeliveries = filteredDeliveries.filter((d) => d.status === "waiting");
-    const takenDeliveries = filteredDeliveries.filter((d) => d.status === "taken");
-    
-    const totalCollected = completedDeliveries.reduce((sum, d) => sum + (d.payment ?? 0), 0);
-    const pendingCollection = waitingDeliveries.reduce((sum, d) => sum + (d.payment ?? 0), 0);
-    const inProgressCollection = takenDeliveries.reduce((sum, d) => sum + (d.payment ?? 0), 0);
-    
-    return { totalCollected, pendingCollection, inProgressCollection };
-  }, [getFinanceFilteredDeliveries, financePeriod, financeStartDate, financeEndDate]);
+    const { valueByStatus, cancelled, failed } = financeStatsData ?? EMPTY_STATS_SUMMARY;
+    return {
+      totalCollected: valueByStatus.completed,
+      pendingCollection: valueByStatus.waiting,
+      inProgressCollection: valueByStatus.taken,
+      cancelledValue: valueByStatus.cancelled,
+      cancelledCount: cancelled,
+      failedValue: valueByStatus.failed,
+      failedCount: failed,
+    };
+  }, [financeStatsData]);
 
   const completionWidth = completionProgress.interpolate({
     inputRange: [0, 1],
@@ -611,7 +584,7 @@ export default function ManagementDashboardScreen() {
   );
 
   const handleManagerAction = useCallback(
-    async (deliveryId: string, nextStatus: DeliveryStatus, courierId?: string | null) => {
+    async (deliveryId: string, nextStatus: Extract<DeliveryStatus, "waiting" | "taken" | "completed">, courierId?: string | null) => {
       console.log("Manager action", deliveryId, nextStatus, courierId);
       try {
         await managerUpdateDelivery({ deliveryId, status: nextStatus, courierId });
@@ -758,22 +731,29 @@ export default function ManagementDashboardScreen() {
   }, [logout, router]);
 
   const handleEditUser = useCallback((userId: string) => {
-    const targetUser = allUsers.find((u) => u.id === userId);
+    const targetUser = managedUsers.find((u) => u.id === userId);
     if (targetUser) {
       console.log("Opening edit modal for user", userId);
       setEditingUser(targetUser);
       setIsEditModalVisible(true);
     }
-  }, [allUsers]);
+  }, [managedUsers]);
 
   const handleImpersonateUser = useCallback((userId: string) => {
-    const targetUser = allUsers.find((u) => u.id === userId);
+    const targetUser = managedUsers.find((u) => u.id === userId);
     if (targetUser && (targetUser.role === "courier" || targetUser.role === "business")) {
       console.log("Impersonating user", userId, targetUser.role);
-      impersonateUser(targetUser);
-      router.replace("/(tabs)/my-deliveries");
+      impersonateUser(targetUser)
+        .then(() => {
+          router.replace("/(tabs)/my-deliveries");
+        })
+        .catch((error) => {
+          const message = error instanceof Error ? error.message : "לא ניתן להתחבר כמשתמש זה";
+          console.log("Impersonation failed", error);
+          Alert.alert("שגיאה", message);
+        });
     }
-  }, [allUsers, impersonateUser, router]);
+  }, [managedUsers, impersonateUser, router]);
 
   const handleCloseEditModal = useCallback(() => {
     setIsEditModalVisible(false);
@@ -1053,8 +1033,32 @@ export default function ManagementDashboardScreen() {
 
       {activeTab === "map" ? (
         <View style={[styles.fullScreenMapWrapper, { paddingTop: insets.top }]}>
-          <CourierTrackingMap couriers={couriers} fullScreen />
+          <CourierTrackingMap couriers={couriers} deliveries={deliveries} fullScreen />
         </View>
+      ) : activeTab === "pricing" ? (
+        <ScrollView
+          style={styles.scroll}
+          contentContainerStyle={[styles.content, { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 48 }]}
+          testID="management-pricing-scroll"
+        >
+          <PricingSettingsPanel businesses={businesses} testID="management-pricing" />
+        </ScrollView>
+      ) : activeTab === "settlements" ? (
+        <ScrollView
+          style={styles.scroll}
+          contentContainerStyle={[styles.content, { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 48 }]}
+          testID="management-settlements-scroll"
+        >
+          <CourierSettlementsPanel couriers={couriers} deliveries={deliveries} testID="management-settlements" />
+        </ScrollView>
+      ) : activeTab === "invoices" ? (
+        <ScrollView
+          style={styles.scroll}
+          contentContainerStyle={[styles.content, { paddingTop: insets.top + 16, paddingBottom: insets.bottom + 48 }]}
+          testID="management-invoices-scroll"
+        >
+          <BusinessInvoicesPanel businesses={businesses} deliveries={deliveries} testID="management-invoices" />
+        </ScrollView>
       ) : (
       <ScrollView
         style={styles.scroll}
@@ -1509,6 +1513,16 @@ export default function ManagementDashboardScreen() {
                             <Text style={styles.impersonateButtonText}>צפה כמשתמש</Text>
                           </Pressable>
                         ) : null}
+                        {activeDirectoryTab === "couriers" ? (
+                          <Pressable
+                            onPress={() => router.push({ pathname: "/courier-scorecard", params: { courierId: row.id } })}
+                            style={styles.editUserButton}
+                            testID={`courier-scorecard-${row.id}`}
+                          >
+                            <ChartColumn color={Colors.light.tint} size={16} />
+                            <Text style={styles.editUserButtonText}>ביצועים</Text>
+                          </Pressable>
+                        ) : null}
                         <Pressable
                           onPress={() => handleEditUser(row.id)}
                           style={styles.editUserButton}
@@ -1686,6 +1700,14 @@ export default function ManagementDashboardScreen() {
               <Text style={styles.statLabel}>הושלמו</Text>
               <Text style={[styles.statValue, styles.completedText]}>{currentStats.completed}</Text>
             </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statLabel}>בוטלו</Text>
+              <Text style={[styles.statValue, styles.cancelledText]}>{currentStats.cancelled}</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statLabel}>נכשלו במסירה</Text>
+              <Text style={[styles.statValue, styles.failedText]}>{currentStats.failed}</Text>
+            </View>
           </View>
           <View style={styles.completionRow}>
             <View style={styles.completionHeader}>
@@ -1864,6 +1886,10 @@ export default function ManagementDashboardScreen() {
                         <Text style={[styles.breakdownStatValue, styles.takenText]}>{stat.taken}</Text>
                         <Text style={styles.breakdownStatLabel}>בדרך</Text>
                       </View>
+                      <View style={styles.breakdownStatItem}>
+                        <Text style={[styles.breakdownStatValue, stat.releases > 0 && styles.failedText]}>{stat.releases}</Text>
+                        <Text style={styles.breakdownStatLabel}>שחרורים</Text>
+                      </View>
                       <View style={styles.breakdownStatItem}>
                         <View style={styles.earningsValueContainer}>
                           <Text style={styles.shekelSymbol}>₪</Text>
@@ -2048,6 +2074,34 @@ export default function ManagementDashboardScreen() {
                         <Text style={styles.breakdownStatLabel}>הוצאות</Text>
                       </View>
                     </View>
+                    {stat.kitchen && (stat.kitchen.measured > 0 || stat.kitchen.avgCourierIdleMinutes !== null) ? (
+                      <View style={styles.breakdownStatsRow} testID={`kitchen-metrics-${stat.business.id}`}>
+                        <View style={styles.breakdownStatItem}>
+                          <Text style={styles.breakdownStatValue}>
+                            {formatKitchenMinutes(stat.kitchen.avgActualPrepMinutes)}
+                          </Text>
+                          <Text style={styles.breakdownStatLabel}>הכנה בפועל</Text>
+                        </View>
+                        <View style={styles.breakdownStatItem}>
+                          <Text style={styles.breakdownStatValue}>
+                            {formatKitchenMinutes(stat.kitchen.avgPromisedPrepMinutes)}
+                          </Text>
+                          <Text style={styles.breakdownStatLabel}>הכנה שהובטחה</Text>
+                        </View>
+                        <View style={styles.breakdownStatItem}>
+                          <Text style={[styles.breakdownStatValue, styles.completedText]}>
+                            {stat.kitchen.onTimeReadyRate === null ? "—" : `${Math.round(stat.kitchen.onTimeReadyRate * 100)}%`}
+                          </Text>
+                          <Text style={styles.breakdownStatLabel}>מוכן בזמן</Text>
+                        </View>
+                        <View style={styles.breakdownStatItem}>
+                          <Text style={[styles.breakdownStatValue, styles.waitingText]}>
+                            {formatKitchenMinutes(stat.kitchen.avgCourierIdleMinutes)}
+                          </Text>
+                          <Text style={styles.breakdownStatLabel}>המתנת שליח</Text>
+                        </View>
+                      </View>
+                    ) : null}
                   </View>
                 ))}
               </View>
@@ -2055,6 +2109,10 @@ export default function ManagementDashboardScreen() {
             </View>
         </View>
 
+        <SlaAtRiskPanel deliveries={deliveries} users={managedUsers} testID="management-sla-at-risk" />
+
+        <GeofenceFlagsPanel deliveries={deliveries} users={managedUsers} testID="management-geofence-flags" />
+
         <View style={styles.section} testID="management-deliveries">
           <View style={styles.sectionHeader}>
             <Truck color={Colors.light.tint} size={20} />
@@ -2118,41 +2176,86 @@ export default function ManagementDashboardScreen() {
             )}
           </View>
 
-          {activeDeliveries.length > 0 ? (
-            <View style={styles.activeBlock} testID="active-deliveries">
-              <Text style={styles.sectionSubtitle}>מעקב אחרי משלוחים שנמצאים בדרך</Text>
-              {activeDeliveries.map((delivery) => (
-                <View key={delivery.id} style={styles.activeCard} testID={`active-${delivery.id}`}>
+          {upcomingScheduledDeliveries.length > 0 ? (
+            <View style={styles.activeBlock} testID="upcoming-scheduled-deliveries">
+              <Text style={styles.sectionSubtitle}>משלוחים מתוזמנים שעדיין לא נפתחו לשליחים</Text>
+              {upcomingScheduledDeliveries.map((delivery) => (
+                <View key={delivery.id} style={styles.scheduledCard} testID={`scheduled-${delivery.id}`}>
                   <View style={styles.activeRow}>
                     <Text style={styles.activeTitle}>{delivery.dropoffAddress}</Text>
-                    <Text style={styles.activeCourierLabel}>
-                      {couriers.find((candidate) => candidate.id === delivery.courierId)?.name ?? "ללא שליח"}
+                    <Text style={styles.scheduledBusinessLabel}>
+                      {businesses.find((candidate) => candidate.id === delivery.businessId)?.name ?? "עסק"}
                     </Text>
                   </View>
-                  <View style={styles.activeActions}>
-                    <Pressable
-                      onPress={() => handleManagerAction(delivery.id, "completed")}
-                      disabled={isManagerActionLoading}
-                      style={[styles.actionChip, styles.completeChip, isManagerActionLoading && styles.disabledButton]}
-                      testID={`complete-${delivery.id}`}
-                    >
-                      <CheckCircle color={Colors.light.surface} size={16} />
-                      <Text style={styles.actionChipText}>סמן כמושלם</Text>
-                    </Pressable>
-                    <Pressable
-                      onPress={() => handleManagerAction(delivery.id, "waiting", null)}
-                      disabled={isManagerActionLoading}
-                      style={[styles.actionChip, styles.releaseChip, isManagerActionLoading && styles.disabledButton]}
-                      testID={`release-${delivery.id}`}
-                    >
-                      <AlertTriangle color={Colors.light.surface} size={16} />
-                      <Text style={styles.actionChipText}>שחרר לשיוך מחדש</Text>
-                    </Pressable>
+                  <View style={styles.scheduledTimeRow}>
+                    <CalendarClock color={Colors.light.tintDark} size={16} />
+                    <Text style={styles.activeBatchLabel}>
+                      איסוף {delivery.scheduledFor ? scheduleFormatter.format(new Date(delivery.scheduledFor)) : ""}
+                    </Text>
                   </View>
                 </View>
               ))}
             </View>
           ) : null}
+
+          {activeDeliveries.length > 0 ? (
+            <View style={styles.activeBlock} testID="active-deliveries">
+              <Text style={styles.sectionSubtitle}>מעקב אחרי משלוחים שנמצאים בדרך</Text>
+              {activeDeliveries.map((delivery) => {
+                const batchCandidates = findBatchableDeliveries(activeDeliveries, delivery).slice(0, MAX_BATCH_SIZE);
+                const canComplete = !!user && canTransitionDelivery("complete", delivery, user);
+                const canUnassign = !!user && canTransitionDelivery("unassign", delivery, user);
+                return (
+                  <View key={delivery.id} style={styles.activeCard} testID={`active-${delivery.id}`}>
+                    <View style={styles.activeRow}>
+                      <Text style={styles.activeTitle}>{delivery.dropoffAddress}</Text>
+                      <Text style={styles.activeCourierLabel}>
+                        {couriers.find((candidate) => candidate.id === delivery.courierId)?.name ?? "ללא שליח"}
+                      </Text>
+                    </View>
+                    {delivery.batchId && delivery.batchSequence ? (
+                      <Text style={styles.activeBatchLabel}>עצירה {delivery.batchSequence} במסלול משותף</Text>
+                    ) : null}
+                    <View style={styles.activeActions}>
+                      {batchCandidates.length >= 2 ? (
+                        <Pressable
+                          onPress={() => handleCreateBatch(batchCandidates.map((candidate) => candidate.id))}
+                          disabled={isManagerActionLoading}
+                          style={[styles.actionChip, styles.batchChip, isManagerActionLoading && styles.disabledButton]}
+                          testID={`batch-${delivery.id}`}
+                        >
+                          <Route color={Colors.light.surface} size={16} />
+                          <Text style={styles.actionChipText}>אחד למסלול ({batchCandidates.length})</Text>
+                        </Pressable>
+                      ) : null}
+                      {canComplete ? (
+                        <Pressable
+                          onPress={() => handleManagerAction(delivery.id, "completed")}
+                          disabled={isManagerActionLoading}
+                          style={[styles.actionChip, styles.completeChip, isManagerActionLoading && styles.disabledButton]}
+                          testID={`complete-${delivery.id}`}
+                        >
+                          <CheckCircle color={Colors.light.surface} size={16} />
+                          <Text style={styles.actionChipText}>סמן כמושלם</Text>
+                        </Pressable>
+                      ) : null}
+                      {canUnassign ? (
+                        <Pressable
+                          onPress={() => handleManagerAction(delivery.id, "waiting", null)}
+                          disabled={isManagerActionLoading}
+                          style={[styles.actionChip, styles.releaseChip, isManagerActionLoading && styles.disabledButton]}
+                          testID={`release-${delivery.id}`}
+                        >
+                          <AlertTriangle color={Colors.light.surface} size={16} />
+                          <Text style={styles.actionChipText}>שחרר לשיוך מחדש</Text>
+                        </Pressable>
+                      ) : null}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          ) : null}
         </View>
 
         <View style={styles.section} testID="management-finance">
@@ -2302,6 +2405,14 @@ export default function ManagementDashboardScreen() {
               <Text style={styles.financeLabel}>בדרך לגביה</Text>
               <Text style={styles.financeValue}>{currencyFormatter.format(financeSnapshot.inProgressCollection)}</Text>
             </View>
+            <View style={[styles.financeCard, styles.financeCardMuted]}>
+              <Text style={styles.financeLabel}>בוטלו ({financeSnapshot.cancelledCount})</Text>
+              <Text style={styles.financeValue}>{currencyFormatter.format(financeSnapshot.cancelledValue)}</Text>
+            </View>
+            <View style={[styles.financeCard, styles.financeCardAlert]}>
+              <Text style={styles.financeLabel}>נכשלו במסירה ({financeSnapshot.failedCount})</Text>
+              <Text style={styles.financeValue}>{currencyFormatter.format(financeSnapshot.failedValue)}</Text>
+            </View>
           </View>
           <View style={styles.summaryRow}>
             <Text style={styles.summaryText}>עסקים פעילים: {businesses.length}</Text>
@@ -2339,6 +2450,45 @@ export default function ManagementDashboardScreen() {
             מפת שליחים
           </Text>
         </Pressable>
+        <Pressable
+          style={[styles.tabButton, activeTab === "pricing" && styles.tabButtonActive]}
+          onPress={() => setActiveTab("pricing")}
+          testID="tab-pricing"
+        >
+          <Wallet
+            color={activeTab === "pricing" ? Colors.light.tint : Colors.light.secondaryText}
+            size={22}
+          />
+          <Text style={[styles.tabButtonText, activeTab === "pricing" && styles.tabButtonTextActive]}>
+            תמחור
+          </Text>
+        </Pressable>
+        <Pressable
+          style={[styles.tabButton, activeTab === "settlements" && styles.tabButtonActive]}
+          onPress={() => setActiveTab("settlements")}
+          testID="tab-settlements"
+        >
+          <FileText
+            color={activeTab === "settlements" ? Colors.light.tint : Colors.light.secondaryText}
+            size={22}
+          />
+          <Text style={[styles.tabButtonText, activeTab === "settlements" && styles.tabButtonTextActive]}>
+            התחשבנות
+          </Text>
+        </Pressable>
+        <Pressable
+          style={[styles.tabButton, activeTab === "invoices" && styles.tabButtonActive]}
+          onPress={() => setActiveTab("invoices")}
+          testID="tab-invoices"
+        >
+          <Receipt
+            color={activeTab === "invoices" ? Colors.light.tint : Colors.light.secondaryText}
+            size={22}
+          />
+          <Text style={[styles.tabButtonText, activeTab === "invoices" && styles.tabButtonTextActive]}>
+            חשבוניות
+          </Text>
+        </Pressable>
       </View>
 
       <UserEditModal
@@ -2758,6 +2908,8 @@ const styles = StyleSheet.create({
   directoryRowHeader: {
     flexDirection: "row-reverse",
     justifyContent: "flex-start",
+    flexWrap: "wrap",
+    gap: 8,
     marginBottom: 4,
   },
   editUserButton: {
@@ -2956,6 +3108,12 @@ const styles = StyleSheet.create({
   completedText: {
     color: Colors.light.completed,
   },
+  cancelledText: {
+    color: Colors.light.cancelled,
+  },
+  failedText: {
+    color: Colors.light.failed,
+  },
   completionRow: {
     gap: 12,
   },
@@ -3103,6 +3261,24 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "rgba(245, 158, 11, 0.24)",
   },
+  scheduledCard: {
+    backgroundColor: "rgba(29, 78, 216, 0.06)",
+    borderRadius: 18,
+    padding: 16,
+    gap: 10,
+    borderWidth: 1,
+    borderColor: "rgba(29, 78, 216, 0.2)",
+  },
+  scheduledBusinessLabel: {
+    fontSize: 14,
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  scheduledTimeRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 6,
+  },
   activeRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -3138,6 +3314,16 @@ const styles = StyleSheet.create({
   releaseChip: {
     backgroundColor: Colors.light.taken,
   },
+  batchChip: {
+    backgroundColor: Colors.light.tint,
+  },
+  activeBatchLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.tintDark,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
   actionChipText: {
     fontSize: 13,
     fontWeight: "700",
@@ -3287,6 +3473,12 @@ const styles = StyleSheet.create({
     padding: 18,
     gap: 8,
   },
+  financeCardMuted: {
+    backgroundColor: "#f1f5f9",
+  },
+  financeCardAlert: {
+    backgroundColor: "#fef2f2",
+  },
   financeLabel: {
     fontSize: 14,
     color: Colors.light.secondaryText,
@@ -3,6 +3,9 @@ import { trpcServer } from "@hono/trpc-server";
 import { cors } from "hono/cors";
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
+import { startDeliveryScheduler } from "./services/deliveryScheduler";
+import { renderTrackingPage, renderTrackingUnavailablePage } from "./services/trackingPage";
+import { getPublicTrackingView } from "./services/trackingService";
 
 const app = new Hono();
 
@@ -21,4 +24,35 @@ app.get("/", (c) => {
   return c.json({ status: "ok", message: "API is running" });
 });
 
+// Public customer tracking link; the token is the only credential.
+app.get("/track/:token", async (c) => {
+  c.header("Cache-Control", "no-store");
+  try {
+    const view = await getPublicTrackingView(c.req.param("token"));
+    if (!view) {
+      return c.html(renderTrackingUnavailablePage(), 404);
+    }
+    return c.html(renderTrackingPage(view));
+  } catch (error) {
+    console.log("[TRACKING] Failed to render tracking page", error);
+    return c.html(renderTrackingUnavailablePage(), 500);
+  }
+});
+
+app.get("/track/:token/status", async (c) => {
+  c.header("Cache-Control", "no-store");
+  try {
+    const view = await getPublicTrackingView(c.req.param("token"));
+    if (!view) {
+      return c.json({ error: "not_found" }, 404);
+    }
+    return c.json(view);
+  } catch (error) {
+    console.log("[TRACKING] Failed to load tracking status", error);
+    return c.json({ error: "unavailable" }, 500);
+  }
+});
+
+startDeliveryScheduler();
+
 export default app;
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { afterEach, describe, test } from "node:test";
+
+import { isCredentialCurrent, issueSessionToken, issueSupabaseAccessToken, verifySessionToken } from "./authService";
+
+const courier = { id: "courier-1", role: "courier" as const, password: "scrypt$old" };
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+describe("session tokens", () => {
+  test("are refused when no secret is configured outside development mode", () => {
+    delete process.env.AUTH_SESSION_SECRET;
+    delete process.env.AUTH_ALLOW_DEV_SECRET;
+    assert.throws(() => issueSessionToken(courier));
+
+    process.env.AUTH_ALLOW_DEV_SECRET = "true";
+    const token = issueSessionToken(courier);
+    delete process.env.AUTH_ALLOW_DEV_SECRET;
+    assert.equal(verifySessionToken(token), null);
+  });
+
+  test("are not accepted when signed with another secret", () => {
+    process.env.AUTH_SESSION_SECRET = "first-secret";
+    const token = issueSessionToken(courier);
+    process.env.AUTH_SESSION_SECRET = "second-secret";
+    assert.equal(verifySessionToken(token), null);
+  });
+
+  test("are revoked once the password changes", () => {
+    process.env.AUTH_SESSION_SECRET = "test-secret";
+    const claims = verifySessionToken(issueSessionToken(courier));
+    assert.ok(claims);
+    assert.equal(claims.sub, courier.id);
+    assert.equal(isCredentialCurrent(claims, courier), true);
+    assert.equal(isCredentialCurrent(claims, { password: "scrypt$new" }), false);
+  });
+});
+
+describe("Supabase access tokens", () => {
+  test("are not issued without the project's JWT secret", () => {
+    delete process.env.SUPABASE_JWT_SECRET;
+    assert.equal(issueSupabaseAccessToken(courier), null);
+  });
+
+  test("carry the user and role row level security checks, signed with the JWT secret", () => {
+    process.env.SUPABASE_JWT_SECRET = "jwt-secret";
+    const access = issueSupabaseAccessToken(courier);
+    assert.ok(access);
+
+    const [header, payload, signature] = access.token.split(".");
+    const expected = createHmac("sha256", "jwt-secret").update(`${header}.${payload}`).digest("base64url");
+    assert.equal(signature, expected);
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    assert.equal(claims.sub, courier.id);
+    assert.equal(claims.role, "authenticated");
+    assert.equal(claims.app_role, "courier");
+    assert.equal(new Date(access.expiresAt).getTime(), claims.exp * 1000);
+    assert.ok(claims.exp - claims.iat <= 15 * 60);
+  });
+});
@@ -0,0 +1,156 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { User, UserRole } from "../../types/models";
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SUPABASE_ACCESS_TTL_SECONDS = 10 * 60;
+const DEV_FALLBACK_SECRET = "droppi-dev-session-secret";
+
+export type SessionClaims = {
+  sub: string;
+  role: UserRole;
+  cred: string;
+  iat: number;
+  exp: number;
+  impersonatedBy?: string;
+};
+
+let warnedAboutFallbackSecret = false;
+
+// Without a configured secret anyone who reads the source could sign a manager token, so the fallback
+// is only used when development mode is switched on explicitly.
+const getSessionSecret = (): string | null => {
+  const secret = process.env.AUTH_SESSION_SECRET;
+  if (secret && secret.trim().length > 0) {
+    return secret;
+  }
+  if (process.env.AUTH_ALLOW_DEV_SECRET?.trim().toLowerCase() !== "true") {
+    return null;
+  }
+  if (!warnedAboutFallbackSecret) {
+    console.warn("[AUTH] AUTH_SESSION_SECRET is not set, using development fallback secret");
+    warnedAboutFallbackSecret = true;
+  }
+  return DEV_FALLBACK_SECRET;
+};
+
+const toBase64Url = (value: Buffer | string): string => {
+  return Buffer.from(value).toString("base64").replace(/=+$/g, "").replace(/\+/g, "-").replace(/\//g, "_");
+};
+
+const fromBase64Url = (value: string): Buffer => {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padding = normalized.length % 4 === 0 ? "" : "=".repeat(4 - (normalized.length % 4));
+  return Buffer.from(normalized + padding, "base64");
+};
+
+const sign = (payload: string, secret: string): string => {
+  return toBase64Url(createHmac("sha256", secret).update(payload).digest());
+};
+
+// Ties a token to the password it was issued under, so changing or resetting the password revokes it.
+const getCredentialFingerprint = (user: Pick<User, "password">, secret: string): string => {
+  return toBase64Url(createHmac("sha256", secret).update(`credential:${user.password}`).digest()).slice(0, 22);
+};
+
+export const issueSessionToken = (
+  user: Pick<User, "id" | "role" | "password">,
+  options?: { impersonatedBy?: string },
+): string => {
+  const secret = getSessionSecret();
+  if (!secret) {
+    console.log("[AUTH] Refusing to issue a session token: AUTH_SESSION_SECRET is not set");
+    throw new Error("השרת אינו מוגדר להתחברות. אנא צור קשר עם התמיכה.");
+  }
+  const now = Date.now();
+  const claims: SessionClaims = {
+    sub: user.id,
+    role: user.role,
+    cred: getCredentialFingerprint(user, secret),
+    iat: now,
+    exp: now + SESSION_TTL_MS,
+  };
+  if (options?.impersonatedBy) {
+    claims.impersonatedBy = options.impersonatedBy;
+  }
+  const payload = toBase64Url(JSON.stringify(claims));
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+export const verifySessionToken = (token: string): SessionClaims | null => {
+  const secret = getSessionSecret();
+  if (!secret) {
+    console.log("[AUTH] Refusing to verify a session token: AUTH_SESSION_SECRET is not set");
+    return null;
+  }
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    console.log("[AUTH] Session token signature mismatch");
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(fromBase64Url(payload).toString("utf-8")) as SessionClaims;
+    if (!claims.sub || !claims.role || !claims.cred || typeof claims.exp !== "number") {
+      return null;
+    }
+    if (claims.exp < Date.now()) {
+      console.log("[AUTH] Session token expired for:", claims.sub);
+      return null;
+    }
+    return claims;
+  } catch (error) {
+    console.log("[AUTH] Session token parse failed", error);
+    return null;
+  }
+};
+
+export const isCredentialCurrent = (claims: SessionClaims, user: Pick<User, "password">): boolean => {
+  const secret = getSessionSecret();
+  return !!secret && claims.cred === getCredentialFingerprint(user, secret);
+};
+
+export type SupabaseAccessToken = {
+  token: string;
+  expiresAt: string;
+};
+
+// Lets the app read Supabase directly as the signed-in user. The token is signed with the project's JWT secret,
+// so row level security sees the user id and role the API vouched for. It is short-lived because it cannot be
+// revoked when the password changes.
+export const issueSupabaseAccessToken = (user: Pick<User, "id" | "role">): SupabaseAccessToken | null => {
+  const secret = process.env.SUPABASE_JWT_SECRET?.trim();
+  if (!secret) {
+    return null;
+  }
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + SUPABASE_ACCESS_TTL_SECONDS;
+  const header = toBase64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = toBase64Url(
+    JSON.stringify({
+      sub: user.id,
+      role: "authenticated",
+      aud: "authenticated",
+      app_role: user.role,
+      iat: issuedAt,
+      exp: expiresAt,
+    }),
+  );
+  return {
+    token: `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+};
+
+export const extractBearerToken = (header: string | null | undefined): string | null => {
+  if (!header) {
+    return null;
+  }
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
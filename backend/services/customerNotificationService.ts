@@ -0,0 +1,187 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  CustomerMessageLanguage,
+  CustomerNotification,
+  CustomerNotificationKind,
+  Delivery,
+} from "../../types/models";
+import { calculateAerialDistance, Coordinates, parseAddressCoordinates } from "../../utils/distanceCalculator";
+import { deliveryService } from "./deliveryService";
+import { toInternationalPhoneNumber } from "./phoneNumbers";
+import { smsChannel } from "./sms";
+import { estimateTravelMinutes, getPublicTrackingUrl, toPublicCourierName } from "./trackingService";
+
+const DEFAULT_NEARBY_MINUTES = 5;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_BACKOFF_MS = 60 * 1000;
+
+type CustomerMessageValues = {
+  businessName: string;
+  courierName: string | null;
+  etaMinutes: number | null;
+  trackingUrl: string | null;
+};
+
+const withTrackingLink = (text: string, trackingUrl: string | null, label: string) =>
+  trackingUrl ? `${text} ${label}: ${trackingUrl}` : text;
+
+const customerMessageTemplates: Record<
+  CustomerNotificationKind,
+  Record<CustomerMessageLanguage, (values: CustomerMessageValues) => string>
+> = {
+  picked_up: {
+    he: ({ businessName, courierName, trackingUrl }) =>
+      withTrackingLink(
+        `${businessName}: ההזמנה שלך נאספה${courierName ? ` על ידי ${courierName}` : ""} ונמצאת בדרך אליך.`,
+        trackingUrl,
+        "למעקב",
+      ),
+    en: ({ businessName, courierName, trackingUrl }) =>
+      withTrackingLink(
+        `${businessName}: your order was picked up${courierName ? ` by ${courierName}` : ""} and is on its way.`,
+        trackingUrl,
+        "Track it",
+      ),
+  },
+  courier_nearby: {
+    he: ({ businessName, courierName, etaMinutes, trackingUrl }) =>
+      withTrackingLink(
+        `${businessName}: ${courierName ? `השליח ${courierName}` : "השליח"} יגיע אליך בעוד כ-${etaMinutes ?? DEFAULT_NEARBY_MINUTES} דקות.`,
+        trackingUrl,
+        "למעקב",
+      ),
+    en: ({ businessName, courierName, etaMinutes, trackingUrl }) =>
+      withTrackingLink(
+        `${businessName}: ${courierName ?? "your courier"} will arrive in about ${etaMinutes ?? DEFAULT_NEARBY_MINUTES} minute${etaMinutes === 1 ? "" : "s"}.`,
+        trackingUrl,
+        "Track it",
+      ),
+  },
+};
+
+export const renderCustomerMessage = (
+  kind: CustomerNotificationKind,
+  language: CustomerMessageLanguage,
+  values: CustomerMessageValues,
+): string => customerMessageTemplates[kind][language](values);
+
+const resolveNearbyMinutes = () => {
+  const configured = Number(process.env.CUSTOMER_SMS_NEARBY_MINUTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_NEARBY_MINUTES;
+};
+
+// A failed send is retried when the message is triggered again, but only a few times and with a growing wait,
+// so a bad number or a provider outage does not turn every location update into another SMS.
+const shouldAttemptSend = (previous: CustomerNotification[], kind: CustomerNotificationKind, now: number): boolean => {
+  const attempts = previous.filter((notification) => notification.kind === kind);
+  if (attempts.some((notification) => notification.status === "sent") || attempts.length >= MAX_SEND_ATTEMPTS) {
+    return false;
+  }
+  if (attempts.length === 0) {
+    return true;
+  }
+  const lastAttemptAt = Math.max(...attempts.map((notification) => new Date(notification.createdAt).getTime()));
+  return now - lastAttemptAt >= RETRY_BACKOFF_MS * 2 ** (attempts.length - 1);
+};
+
+// Location updates arrive in bursts, so the same message may be requested again before the first send is logged.
+const inFlight = new Set<string>();
+
+async function sendCustomerNotification(
+  delivery: Delivery,
+  kind: CustomerNotificationKind,
+  etaMinutes: number | null = null,
+): Promise<CustomerNotification | null> {
+  const key = `${delivery.id}:${kind}`;
+  if (inFlight.has(key)) {
+    return null;
+  }
+  inFlight.add(key);
+
+  try {
+    const business = await deliveryService.getUserById(delivery.businessId);
+    if (!business?.businessProfile?.customerSmsEnabled) {
+      console.log("[SMS] Business has not opted in to customer messages", delivery.businessId);
+      return null;
+    }
+
+    const previous = await deliveryService.getCustomerNotifications({ deliveryId: delivery.id });
+    if (!shouldAttemptSend(previous, kind, Date.now())) {
+      return null;
+    }
+
+    const courier = delivery.courierId ? await deliveryService.getUserById(delivery.courierId) : undefined;
+    const language = business.businessProfile.customerSmsLanguage ?? "he";
+    const body = renderCustomerMessage(kind, language, {
+      businessName: business.name,
+      courierName: courier ? toPublicCourierName(courier.name) : null,
+      etaMinutes,
+      trackingUrl: getPublicTrackingUrl(delivery.trackingToken),
+    });
+    const recipient = toInternationalPhoneNumber(delivery.customerPhone);
+
+    const notification: CustomerNotification = {
+      id: `sms-${randomUUID()}`,
+      deliveryId: delivery.id,
+      businessId: delivery.businessId,
+      kind,
+      channel: "sms",
+      provider: smsChannel.provider,
+      recipient: recipient ?? delivery.customerPhone,
+      language,
+      body,
+      status: "sent",
+      createdAt: new Date().toISOString(),
+    };
+
+    if (!recipient) {
+      notification.status = "failed";
+      notification.error = "מספר הטלפון של הלקוח אינו תקין";
+    } else if (!smsChannel.isReady()) {
+      notification.status = "failed";
+      notification.error = "ספק ההודעות אינו מוגדר";
+    } else {
+      try {
+        const result = await smsChannel.send({ to: recipient, body });
+        notification.providerMessageId = result.providerMessageId;
+      } catch (error) {
+        notification.status = "failed";
+        notification.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    console.log("[SMS] Customer notification", notification.status, kind, delivery.id, notification.error ?? "");
+    return await deliveryService.recordCustomerNotification(notification);
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+export async function notifyCustomerPickedUp(delivery: Delivery): Promise<void> {
+  await sendCustomerNotification(delivery, "picked_up");
+}
+
+export async function notifyCustomersOfNearbyCourier(courierId: string, location: Coordinates): Promise<void> {
+  const deliveries = await deliveryService.getCourierActiveDeliveries(courierId);
+  const nearbyMinutes = resolveNearbyMinutes();
+
+  for (const delivery of deliveries) {
+    if (!delivery.pickedUpAt) {
+      continue;
+    }
+    const destination = parseAddressCoordinates(delivery.dropoffAddress);
+    if (!destination) {
+      continue;
+    }
+    const etaMinutes = estimateTravelMinutes(calculateAerialDistance(location, destination));
+    if (etaMinutes > nearbyMinutes) {
+      continue;
+    }
+    try {
+      await sendCustomerNotification(delivery, "courier_nearby", etaMinutes);
+    } catch (error) {
+      console.log("[SMS] Failed to notify customer of nearby courier", delivery.id, error);
+    }
+  }
+}
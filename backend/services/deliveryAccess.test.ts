@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../../types/models";
+import { canViewDelivery } from "./deliveryAccess";
+
+const delivery = (overrides: Partial<Delivery>): Delivery => ({
+  id: "delivery-1",
+  businessId: "business-1",
+  courierId: null,
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "waiting",
+  createdAt: "2026-03-02T12:00:00.000Z",
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  ...overrides,
+});
+
+describe("canViewDelivery", () => {
+  test("shows a business only its own orders", () => {
+    const business = { id: "business-1", role: "business" as const };
+    assert.equal(canViewDelivery(business, delivery({})), true);
+    assert.equal(canViewDelivery(business, delivery({ businessId: "business-2" })), false);
+  });
+
+  test("shows a courier its own deliveries and the open queue", () => {
+    const courier = { id: "courier-1", role: "courier" as const };
+    assert.equal(canViewDelivery(courier, delivery({})), true);
+    assert.equal(canViewDelivery(courier, delivery({ status: "taken", courierId: "courier-1" })), true);
+    assert.equal(canViewDelivery(courier, delivery({ status: "completed", courierId: "courier-1" })), true);
+    assert.equal(canViewDelivery(courier, delivery({ status: "taken", courierId: "courier-2" })), false);
+    assert.equal(canViewDelivery(courier, delivery({ status: "cancelled" })), false);
+  });
+
+  test("hides a pre-order from couriers until it is released", () => {
+    const courier = { id: "courier-1", role: "courier" as const };
+    const heldOrder = delivery({ scheduledFor: "2026-03-02T18:00:00.000Z", scheduledReleaseAt: "2026-03-02T17:30:00.000Z" });
+    assert.equal(canViewDelivery(courier, heldOrder), false);
+    assert.equal(canViewDelivery({ id: "business-1", role: "business" }, heldOrder), true);
+  });
+
+  test("shows a manager everything", () => {
+    const manager = { id: "manager-1", role: "manager" as const };
+    assert.equal(canViewDelivery(manager, delivery({ businessId: "business-2", courierId: "courier-2" })), true);
+  });
+});
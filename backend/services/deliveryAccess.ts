@@ -0,0 +1,16 @@
+import { Delivery, User } from "../../types/models";
+import { isHeldForSchedule } from "../../utils/scheduling";
+
+export type DeliveryViewer = Pick<User, "id" | "role">;
+
+// Businesses see their own orders and couriers their own runs plus the open queue they can take from.
+// Pre-orders held until their release time are not in that queue yet, so couriers cannot read the customer details early.
+export const canViewDelivery = (viewer: DeliveryViewer, delivery: Delivery): boolean => {
+  if (viewer.role === "manager") {
+    return true;
+  }
+  if (viewer.role === "business") {
+    return delivery.businessId === viewer.id;
+  }
+  return delivery.courierId === viewer.id || (delivery.status === "waiting" && !delivery.courierId && !isHeldForSchedule(delivery));
+};
@@ -0,0 +1,56 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  Delivery,
+  DeliveryFieldChange,
+  DeliveryFieldValue,
+  DeliveryHistoryAction,
+  DeliveryHistoryEntry,
+  User,
+} from "../../types/models";
+
+const toFieldValue = (value: unknown): DeliveryFieldValue => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+export const diffDeliveryFields = (previous: Delivery | null, next: Delivery): DeliveryFieldChange[] => {
+  const fields = new Set<keyof Delivery>([
+    ...(previous ? (Object.keys(previous) as (keyof Delivery)[]) : []),
+    ...(Object.keys(next) as (keyof Delivery)[]),
+  ]);
+
+  const changes: DeliveryFieldChange[] = [];
+  fields.forEach((field) => {
+    const previousValue = toFieldValue(previous ? previous[field] : undefined);
+    const nextValue = toFieldValue(next[field]);
+    if (previousValue !== nextValue) {
+      changes.push({ field, previous: previousValue, next: nextValue });
+    }
+  });
+  return changes;
+};
+
+export const createDeliveryHistoryEntry = (params: {
+  action: DeliveryHistoryAction;
+  actor: User;
+  previous: Delivery | null;
+  delivery: Delivery;
+}): DeliveryHistoryEntry => {
+  return {
+    id: `history-${randomUUID()}`,
+    deliveryId: params.delivery.id,
+    action: params.action,
+    actorId: params.actor.id,
+    actorRole: params.actor.role,
+    previousStatus: params.previous?.status ?? null,
+    nextStatus: params.delivery.status,
+    changedFields: diffDeliveryFields(params.previous, params.delivery),
+    createdAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,13 @@
+export type DeliveryRejectionCode = "BAD_REQUEST" | "CONFLICT" | "NOT_FOUND";
+
+// A delivery action the business rules refused, as opposed to a storage or server failure.
+// The API answers these with a 4xx so offline replays know the action will never go through.
+export class DeliveryRejectedError extends Error {
+  readonly code: DeliveryRejectionCode;
+
+  constructor(message: string, code: DeliveryRejectionCode = "BAD_REQUEST") {
+    super(message);
+    this.name = "DeliveryRejectedError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,144 @@
+import { getNextTemplateOccurrence } from "../../utils/deliveryTemplates";
+import { isScheduledReleaseDue, resolveScheduleLeadMinutes } from "../../utils/scheduling";
+import { deliveryService } from "./deliveryService";
+import { createAndDispatchDelivery, dispatchDelivery } from "./dispatchService";
+import { refreshActiveEtas } from "./etaService";
+import { escalateSlaBreaches } from "./slaService";
+
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Template deliveries appear in the business's upcoming list a little before they open to couriers.
+const TEMPLATE_MATERIALIZE_MARGIN_MINUTES = 15;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let isRunning = false;
+
+export async function releaseDueScheduledDeliveries(): Promise<number> {
+  const deliveries = await deliveryService.getDeliveries();
+  const due = deliveries.filter((delivery) => isScheduledReleaseDue(delivery));
+  if (due.length === 0) {
+    return 0;
+  }
+
+  console.log("[SCHEDULER] Releasing scheduled deliveries:", due.map((delivery) => delivery.id));
+
+  let releasedCount = 0;
+  for (const held of due) {
+    try {
+      const released = await deliveryService.releaseScheduledDelivery(held);
+      if (!released) {
+        continue;
+      }
+      releasedCount += 1;
+      const business = await deliveryService.getUserById(released.businessId);
+      dispatchDelivery(released, business?.name || "עסק")
+        .catch((err) => console.log("[PUSH] Failed to dispatch scheduled delivery", released.id, err));
+    } catch (error) {
+      console.log("[SCHEDULER] Failed to release scheduled delivery", held.id, error);
+    }
+  }
+  return releasedCount;
+}
+
+export async function materializeDueTemplates(): Promise<number> {
+  const templates = await deliveryService.getDeliveryTemplates();
+  const leadMinutes = resolveScheduleLeadMinutes(process.env.SCHEDULED_DELIVERY_LEAD_MINUTES);
+  const now = Date.now();
+
+  let createdCount = 0;
+  for (const template of templates) {
+    if (template.isPaused) {
+      continue;
+    }
+    const occurrence = getNextTemplateOccurrence(template, now);
+    if (!occurrence) {
+      continue;
+    }
+    const minutesUntilSlot = (new Date(occurrence.scheduledFor).getTime() - now) / MINUTE_MS;
+    if (minutesUntilSlot > leadMinutes + TEMPLATE_MATERIALIZE_MARGIN_MINUTES) {
+      continue;
+    }
+
+    let claimed = false;
+    try {
+      // The business is checked before the slot is claimed, so a missing address only delays the delivery until it is fixed.
+      const business = await deliveryService.getUserById(template.businessId);
+      const pickupAddress = business?.businessProfile?.address;
+      if (!business || !pickupAddress) {
+        console.log("[SCHEDULER] Template business has no pickup address, retrying next check", template.id, template.businessId);
+        continue;
+      }
+
+      await deliveryService.claimDeliveryTemplateOccurrence(template.id, occurrence.date);
+      claimed = true;
+
+      // A slot already inside the lead window (for example after a restart) goes out immediately.
+      const isAheadOfLead = minutesUntilSlot > leadMinutes + 1;
+      const delivery = await createAndDispatchDelivery(
+        {
+          businessId: business.id,
+          pickupAddress,
+          dropoffAddress: template.dropoffAddress,
+          notes: template.notes,
+          customerName: template.customerName,
+          customerPhone: template.customerPhone,
+          preparationTimeMinutes: template.preparationTimeMinutes,
+          scheduledFor: isAheadOfLead ? occurrence.scheduledFor : undefined,
+        },
+        business.name || "עסק",
+      );
+      createdCount += 1;
+      console.log("[SCHEDULER] Template materialized", template.id, occurrence.date, "->", delivery.id);
+    } catch (error) {
+      console.log("[SCHEDULER] Failed to materialize template", template.id, occurrence.date, error);
+      // Handing the slot back lets the next check try again instead of losing that day's delivery.
+      if (claimed) {
+        await deliveryService
+          .releaseDeliveryTemplateOccurrence(template.id, occurrence.date, template.lastOccurrenceDate)
+          .catch((releaseError) => console.log("[SCHEDULER] Failed to release template slot", template.id, releaseError));
+      }
+    }
+  }
+  return createdCount;
+}
+
+const tick = async () => {
+  if (isRunning) {
+    return;
+  }
+  isRunning = true;
+  try {
+    await materializeDueTemplates();
+  } catch (error) {
+    console.log("[SCHEDULER] Template check failed", error);
+  }
+  try {
+    await releaseDueScheduledDeliveries();
+  } catch (error) {
+    console.log("[SCHEDULER] Scheduled delivery check failed", error);
+  }
+  try {
+    await refreshActiveEtas();
+  } catch (error) {
+    console.log("[SCHEDULER] ETA refresh failed", error);
+  }
+  // After the ETA refresh, so projected lateness uses the newest estimates.
+  try {
+    await escalateSlaBreaches();
+  } catch (error) {
+    console.log("[SCHEDULER] SLA check failed", error);
+  } finally {
+    isRunning = false;
+  }
+};
+
+export function startDeliveryScheduler() {
+  if (timer) {
+    return;
+  }
+  console.log("[SCHEDULER] Starting template, scheduled delivery, ETA and SLA checks every", SCHEDULER_INTERVAL_MS / 1000, "seconds");
+  timer = setInterval(() => {
+    tick();
+  }, SCHEDULER_INTERVAL_MS);
+  tick();
+}
@@ -0,0 +1,229 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+
+import { DEFAULT_PRICING_RULES, PRICING_TIME_ZONE } from "../../utils/pricing";
+import { SEED_USERS } from "./repository/seedUsers";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NIGHT_SURCHARGE = 15;
+
+const dataDir = mkdtempSync(path.join(tmpdir(), "droppi-delivery-service-"));
+const originalFetch = globalThis.fetch;
+let deliveryService: (typeof import("./deliveryService"))["deliveryService"];
+let businessId: string;
+
+const getLocalHour = (at: Date) =>
+  Number(new Intl.DateTimeFormat("en-US", { timeZone: PRICING_TIME_ZONE, hour: "numeric", hourCycle: "h23" }).format(at));
+
+// The first half-past slot at the given local hour, at least a day out so it clears the scheduling lead time.
+const nextSlotAtLocalHour = (hour: number): Date => {
+  const slot = new Date(Date.now() + 24 * HOUR_MS);
+  slot.setUTCMinutes(30, 0, 0);
+  while (getLocalHour(slot) !== hour) {
+    slot.setTime(slot.getTime() + HOUR_MS);
+  }
+  return slot;
+};
+
+const createScheduledDelivery = (scheduledFor: Date) =>
+  deliveryService.createDelivery({
+    businessId,
+    pickupAddress: "הרצל 1, תל אביב",
+    dropoffAddress: "דיזנגוף 50, תל אביב",
+    notes: "",
+    customerName: "לקוח",
+    customerPhone: "0527654321",
+    preparationTimeMinutes: 15,
+    scheduledFor: scheduledFor.toISOString(),
+  });
+
+before(async () => {
+  process.env.STORAGE_BACKEND = "sqlite";
+  process.env.SQLITE_DATABASE_PATH = path.join(dataDir, "droppi.sqlite");
+  // Addresses are geocoded over the network; without coordinates the price has no distance part.
+  globalThis.fetch = async () => new Response("[]", { headers: { "content-type": "application/json" } });
+  ({ deliveryService } = await import("./deliveryService"));
+
+  const managerId = SEED_USERS.find((user) => user.role === "manager")!.id;
+  await deliveryService.updatePricingRules({
+    managerId,
+    rules: { ...DEFAULT_PRICING_RULES, nightSurcharge: NIGHT_SURCHARGE },
+  });
+  const business = await deliveryService.registerBusiness({
+    managerId,
+    name: "מסעדת בדיקה",
+    address: "הרצל 1, תל אביב",
+    phone: "0521234567",
+    email: "kitchen@example.com",
+    password: "secret123",
+  });
+  businessId = business.id;
+});
+
+after(() => {
+  globalThis.fetch = originalFetch;
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("createDelivery pricing", () => {
+  test("prices a scheduled order by the hour it goes out, not the hour it was booked", async () => {
+    const nightOrder = await createScheduledDelivery(nextSlotAtLocalHour(23));
+    assert.equal(nightOrder.pricingBreakdown?.nightSurcharge, NIGHT_SURCHARGE);
+    assert.equal(nightOrder.payment, DEFAULT_PRICING_RULES.baseFee + NIGHT_SURCHARGE);
+
+    const lunchOrder = await createScheduledDelivery(nextSlotAtLocalHour(12));
+    assert.equal(lunchOrder.pricingBreakdown?.nightSurcharge, 0);
+    assert.equal(lunchOrder.payment, DEFAULT_PRICING_RULES.baseFee);
+  });
+});
+
+describe("getVisibleDeliveries", () => {
+  test("scopes the delivery list to what each role may see", async () => {
+    const other = await deliveryService.registerBusiness({
+      managerId: SEED_USERS.find((user) => user.role === "manager")!.id,
+      name: "מסעדה שכנה",
+      address: "אלנבי 10, תל אביב",
+      phone: "0521234568",
+      email: "neighbour@example.com",
+      password: "secret123",
+    });
+    const ownOrder = await createScheduledDelivery(nextSlotAtLocalHour(13));
+    const othersOrder = await deliveryService.createDelivery({
+      businessId: other.id,
+      pickupAddress: "אלנבי 10, תל אביב",
+      dropoffAddress: "בן יהודה 5, תל אביב",
+      notes: "",
+      customerName: "לקוח אחר",
+      customerPhone: "0527654322",
+      preparationTimeMinutes: 10,
+    });
+
+    const businessView = await deliveryService.getVisibleDeliveries({ id: businessId, role: "business" });
+    assert.ok(businessView.some((delivery) => delivery.id === ownOrder.id));
+    assert.ok(businessView.every((delivery) => delivery.businessId === businessId));
+
+    const courierView = await deliveryService.getVisibleDeliveries({ id: "courier-without-runs", role: "courier" });
+    assert.ok(courierView.some((delivery) => delivery.id === othersOrder.id));
+    assert.ok(courierView.every((delivery) => delivery.id !== ownOrder.id));
+    assert.ok(courierView.every((delivery) => delivery.status === "waiting" && !delivery.courierId));
+  });
+});
+
+describe("offline replay", () => {
+  test("records a replayed business action at the time it happened on the device", async () => {
+    const order = await deliveryService.createDelivery({
+      businessId,
+      pickupAddress: "הרצל 1, תל אביב",
+      dropoffAddress: "רוטשילד 20, תל אביב",
+      notes: "",
+      customerName: "לקוח",
+      customerPhone: "0527654323",
+      preparationTimeMinutes: 15,
+    });
+    const occurredAt = new Date(new Date(order.createdAt).getTime() + 1).toISOString();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const cancelled = await deliveryService.businessCancelDelivery({
+      businessId,
+      deliveryId: order.id,
+      reason: "customer_cancelled",
+      occurredAt,
+      replay: true,
+    });
+
+    assert.equal(cancelled.status, "cancelled");
+    assert.equal(cancelled.cancelledAt, occurredAt);
+    assert.ok(cancelled.replayReceivedAt?.cancel);
+    assert.ok(cancelled.replayReceivedAt.cancel > occurredAt);
+  });
+
+  test("dates a live action by the server even when the client sends a time", async () => {
+    const order = await deliveryService.createDelivery({
+      businessId,
+      pickupAddress: "הרצל 1, תל אביב",
+      dropoffAddress: "רוטשילד 22, תל אביב",
+      notes: "",
+      customerName: "לקוח",
+      customerPhone: "0527654326",
+      preparationTimeMinutes: 15,
+    });
+    const occurredAt = new Date(new Date(order.createdAt).getTime() + 1).toISOString();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const cancelled = await deliveryService.businessCancelDelivery({
+      businessId,
+      deliveryId: order.id,
+      reason: "customer_cancelled",
+      occurredAt,
+    });
+
+    assert.ok(cancelled.cancelledAt! > occurredAt);
+    assert.equal(cancelled.replayReceivedAt, undefined);
+  });
+});
+
+describe("courierPickupDelivery", () => {
+  test("does not date a replayed pickup before the order was ready", async () => {
+    const courierId = SEED_USERS.find((user) => user.role === "courier")!.id;
+    const order = await deliveryService.createDelivery({
+      businessId,
+      pickupAddress: "הרצל 1, תל אביב",
+      dropoffAddress: "שינקין 3, תל אביב",
+      notes: "",
+      customerName: "לקוח",
+      customerPhone: "0527654324",
+      preparationTimeMinutes: 15,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await deliveryService.courierTakeDelivery({ courierId, deliveryId: order.id, estimatedArrivalMinutes: 10 });
+    await deliveryService.businessConfirmDelivery({ businessId, deliveryId: order.id });
+    const ready = await deliveryService.businessMarkReady({ businessId, deliveryId: order.id });
+
+    const pickedUp = await deliveryService.courierPickupDelivery({
+      courierId,
+      deliveryId: order.id,
+      occurredAt: order.createdAt,
+      replay: true,
+    });
+
+    assert.equal(pickedUp.pickedUpAt, ready.readyAt);
+  });
+});
+
+describe("login", () => {
+  test("makes every seeded account with a published password pick its own", async () => {
+    for (const seed of SEED_USERS) {
+      const user = await deliveryService.login(seed.phone, seed.password);
+      assert.equal(user.mustChangePassword, true, seed.id);
+    }
+  });
+});
+
+describe("delivery template occurrences", () => {
+  test("hands a claimed slot back only while no later slot has been claimed", async () => {
+    const template = await deliveryService.saveDeliveryTemplate({
+      businessId,
+      name: "ארוחת צהריים",
+      customerName: "לקוח קבוע",
+      customerPhone: "0527654325",
+      dropoffAddress: "דיזנגוף 50, תל אביב",
+      notes: "",
+      preparationTimeMinutes: 15,
+      recurrence: { frequency: "daily", daysOfWeek: [], timeOfDay: "12:00" },
+    });
+
+    await deliveryService.claimDeliveryTemplateOccurrence(template.id, "2026-03-02");
+    await deliveryService.releaseDeliveryTemplateOccurrence(template.id, "2026-03-02", undefined);
+    let [stored] = (await deliveryService.getDeliveryTemplates(businessId)).filter((candidate) => candidate.id === template.id);
+    assert.equal(stored.lastOccurrenceDate ?? undefined, undefined);
+
+    await deliveryService.claimDeliveryTemplateOccurrence(template.id, "2026-03-02");
+    await deliveryService.claimDeliveryTemplateOccurrence(template.id, "2026-03-03");
+    await deliveryService.releaseDeliveryTemplateOccurrence(template.id, "2026-03-02", undefined);
+    [stored] = (await deliveryService.getDeliveryTemplates(businessId)).filter((candidate) => candidate.id === template.id);
+    assert.equal(stored.lastOccurrenceDate, "2026-03-03");
+  });
+});
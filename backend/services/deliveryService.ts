@@ -0,0 +1,1964 @@
+import { randomBytes } from "node:crypto";
+import {
+  BusinessInvoice,
+  BusinessPricingOverride,
+  CourierSettlement,
+  CourierSettlementAdjustment,
+  Customer,
+  CustomerMessageLanguage,
+  CustomerNotification,
+  Delivery,
+  DeliveryCancellationReason,
+  DeliveryEta,
+  DeliveryFailureReason,
+  DeliveryHistoryAction,
+  DeliveryHistoryEntry,
+  DeliveryReleaseReason,
+  DeliveryStatus,
+  DeliveryTemplate,
+  DeliveryTemplateRecurrence,
+  GeofenceCheck,
+  GeofenceStage,
+  PricingRules,
+  ProofOfDeliveryInput,
+  ProofOfDeliveryView,
+  SlaStage,
+  User,
+  UserRole,
+} from "../../types/models";
+import { systemEvents } from "./eventEmitter";
+import { canViewDelivery, DeliveryViewer } from "./deliveryAccess";
+import { createDeliveryHistoryEntry } from "./deliveryHistory";
+import { DeliveryRejectedError } from "./deliveryRejection";
+import { hashPassword, isTemporaryPassword, PASSWORD_MIN_LENGTH, verifyPassword } from "./passwordService";
+import { isValidNormalizedPhone, normalizePhoneNumber, phonesMatch } from "./phoneNumbers";
+import { getProofOfDeliveryView, storeProofOfDelivery } from "./proofOfDeliveryService";
+import {
+  CustomerNotificationFilter,
+  DeliveryChanges,
+  DeliveryMatch,
+  deliveryRepository as repository,
+  UserChanges,
+} from "./repository";
+import { hasSeedPassword } from "./repository/seedUsers";
+import { getDistanceFromAddresses } from "../../utils/distanceCalculator";
+import { getBatchSelectionError, suggestDropoffOrder } from "../../utils/deliveryBatching";
+import { calculateDeliveryPrice, DEFAULT_PRICING_RULES, getPricingRulesError } from "../../utils/pricing";
+import { getSettlementPeriodError, selectSettleableDeliveries, summarizeSettlement } from "../../utils/settlements";
+import { resolveClientTimestamp } from "../../utils/clientTimestamp";
+import { getScheduledForError, getScheduledReleaseAt, resolveScheduleLeadMinutes } from "../../utils/scheduling";
+import { getDeliveryTemplateError, getLocalDateParts, getRecurrenceDays, pruneSkippedDates } from "../../utils/deliveryTemplates";
+import { getProofOfDeliveryError, hasProofOfDelivery } from "../../utils/proofOfDelivery";
+import {
+  checkGeofence,
+  GeofencePosition,
+  geofenceStageLabels,
+  getGeofenceTarget,
+  resolveGeofenceSettings,
+} from "../../utils/geofence";
+import {
+  DeliveryTransition,
+  DeliveryTransitionEvent,
+  deliveryTransitions,
+  findDeliveryTransition,
+  getDeliveryTransitionEffects,
+  getDeliveryTransitionError,
+} from "../../utils/deliveryStateMachine";
+import {
+  buildInvoiceLines,
+  getInvoicePeriodError,
+  invoicePeriodsOverlap,
+  selectInvoiceableDeliveries,
+} from "../../utils/invoicing";
+
+async function geocodeAddress(address: string): Promise<{ latitude: number; longitude: number } | null> {
+  try {
+    const cleanAddress = address.replace(/\s*\([^)]*\)\s*/g, "").trim();
+    const encodedAddress = encodeURIComponent(cleanAddress);
+    const url = `https://nominatim.openstreetmap.org/search?q=${encodedAddress}&format=json&limit=1`;
+
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": "DeliveryApp/1.0",
+      },
+    });
+
+    if (!response.ok) {
+      console.log("Geocoding API request failed", { status: response.status });
+      return null;
+    }
+
+    const data = (await response.json()) as { lat: string; lon: string }[];
+
+    if (data.length === 0) {
+      console.log("No geocoding results for address", cleanAddress);
+      return null;
+    }
+
+    const result = data[0];
+    const latitude = parseFloat(result.lat);
+    const longitude = parseFloat(result.lon);
+
+    if (isNaN(latitude) || isNaN(longitude)) {
+      console.log("Invalid coordinates from geocoding", { lat: result.lat, lon: result.lon });
+      return null;
+    }
+
+    console.log("Geocoding successful", { address: cleanAddress, latitude, longitude });
+    return { latitude, longitude };
+  } catch (error) {
+    console.log("Geocoding error", error);
+    return null;
+  }
+}
+
+function appendCoordinatesToAddress(address: string, coords: { latitude: number; longitude: number } | null): string {
+  if (!coords) {
+    return address;
+  }
+  const cleanAddress = address.replace(/\s*\([^)]*\)\s*/g, "").trim();
+  return `${cleanAddress} (${coords.latitude}, ${coords.longitude})`;
+}
+
+const roleErrorMessages: Record<UserRole, string> = {
+  manager: "גישה מותרת רק למנהלים מחוברים",
+  business: "הפעולה זמינה רק לחשבונות עסק",
+  courier: "גישה מותרת רק לשליחים",
+};
+
+function assertRole(user: User | undefined, role: UserRole, context: string): asserts user is User {
+  if (!user) {
+    console.log("Role assertion failed - missing user", { context, role });
+    throw new Error("החשבון המבצע לא נמצא. התנתקו והתחברו מחדש.");
+  }
+  if (user.role !== role) {
+    console.log("Role assertion failed - mismatched role", { context, expectedRole: role, actualRole: user.role });
+    throw new Error(roleErrorMessages[role]);
+  }
+}
+
+const generateId = () => `${Date.now()}-${Math.round(Math.random() * 100000)}`;
+// Tracking links are public, so the token must not be derivable from the delivery id.
+const createTrackingToken = () => randomBytes(16).toString("hex");
+
+const LOGIN_ATTEMPTS = 3;
+
+const requireStorage = () => {
+  if (!repository.isReady()) {
+    throw new Error(`Storage backend "${repository.backend}" is not configured`);
+  }
+};
+
+const byBatchSequence = (a: Delivery, b: Delivery) => (a.batchSequence ?? 0) - (b.batchSequence ?? 0);
+
+const loadDelivery = async (deliveryId: string): Promise<Delivery> => {
+  const delivery = await repository.getDelivery(deliveryId);
+  if (!delivery) {
+    throw new DeliveryRejectedError("המשלוח לא נמצא", "NOT_FOUND");
+  }
+  return delivery;
+};
+
+// Storage errors surface as the action-specific message; a failed match means someone else changed the delivery first.
+const saveDelivery = async (params: {
+  deliveryId: string;
+  changes: DeliveryChanges;
+  match?: DeliveryMatch;
+  errorMessage: string;
+  conflictMessage?: string;
+}): Promise<Delivery> => {
+  let updated: Delivery | undefined;
+  try {
+    updated = await repository.updateDelivery(params.deliveryId, params.changes, params.match);
+  } catch (error) {
+    console.log("[DELIVERY SERVICE] Delivery update failed:", params.deliveryId, error);
+    throw new Error(params.errorMessage);
+  }
+  if (!updated) {
+    throw new DeliveryRejectedError(params.conflictMessage ?? "המשלוח עודכן במקביל. רעננו ונסו שוב", "CONFLICT");
+  }
+  return updated;
+};
+
+const loadOwnTemplate = async (businessId: string, templateId: string): Promise<DeliveryTemplate> => {
+  const template = await repository.getDeliveryTemplate(templateId);
+  if (!template) {
+    throw new Error("התבנית לא נמצאה");
+  }
+  if (template.businessId !== businessId) {
+    console.log("[DELIVERY SERVICE] Template ownership mismatch:", templateId, businessId);
+    throw new Error("אין לך הרשאה לערוך תבנית זו");
+  }
+  return template;
+};
+
+const deliveryEventEmitters: Record<DeliveryTransitionEvent, (delivery: Delivery) => void> = {
+  DELIVERY_UPDATED: (delivery) => systemEvents.emitDeliveryUpdated(delivery),
+  DELIVERY_ASSIGNED: (delivery) => systemEvents.emitDeliveryAssigned(delivery),
+  DELIVERY_READY: (delivery) => systemEvents.emitDeliveryReady(delivery),
+  DELIVERY_COMPLETED: (delivery) => systemEvents.emitDeliveryCompleted(delivery),
+  DELIVERY_CANCELLED: (delivery) => systemEvents.emitDeliveryCancelled(delivery),
+  DELIVERY_FAILED: (delivery) => systemEvents.emitDeliveryFailed(delivery),
+  DELIVERY_RELEASED: (delivery) => systemEvents.emitDeliveryReleased(delivery),
+};
+
+const saveUser = async (userId: string, changes: UserChanges, errorMessage: string): Promise<User> => {
+  try {
+    return await repository.updateUser(userId, changes);
+  } catch (error) {
+    console.log("[DELIVERY SERVICE] User update failed:", userId, error);
+    throw new Error(errorMessage);
+  }
+};
+
+const recordHistory = async (action: DeliveryHistoryAction, actor: User, previous: Delivery | null, delivery: Delivery) => {
+  await repository.appendHistory(createDeliveryHistoryEntry({ action, actor, previous, delivery }));
+};
+
+// Only steps replayed from the offline outbox may be dated by the device; live actions take the server time.
+const getReplayedAt = (payload: { occurredAt?: string; replay?: boolean }) =>
+  payload.replay ? payload.occurredAt : undefined;
+
+// Status changes go through the shared state machine so the server enforces exactly what the client offers.
+const transitionDelivery = async (params: {
+  transition: DeliveryTransition;
+  actor: User;
+  deliveryId: string;
+  occurredAt?: string;
+  notBefore?: string;
+  changes?: DeliveryChanges;
+  errorMessage: string;
+  conflictMessage?: string;
+}): Promise<Delivery> => {
+  const current = await loadDelivery(params.deliveryId);
+  const transitionError = getDeliveryTransitionError(params.transition, current, params.actor);
+  if (transitionError) {
+    console.log("[DELIVERY SERVICE] Transition rejected:", params.transition, current.id, current.status, transitionError);
+    throw new DeliveryRejectedError(transitionError);
+  }
+
+  const at = resolveClientTimestamp(params.occurredAt, params.notBefore ?? current.pickedUpAt ?? current.createdAt);
+  const replayReceivedAt = params.occurredAt
+    ? { ...current.replayReceivedAt, [params.transition]: new Date().toISOString() }
+    : undefined;
+  const delivery = await saveDelivery({
+    deliveryId: params.deliveryId,
+    changes: {
+      ...getDeliveryTransitionEffects(params.transition, current, { actor: params.actor, at }),
+      ...(replayReceivedAt ? { replayReceivedAt } : {}),
+      ...params.changes,
+    },
+    match: { status: current.status, courierId: current.courierId },
+    errorMessage: params.errorMessage,
+    conflictMessage: params.conflictMessage,
+  });
+
+  const definition = deliveryTransitions[params.transition];
+  await recordHistory(definition.historyAction, params.actor, current, delivery);
+  console.log("[DELIVERY SERVICE] Delivery transition:", params.transition, delivery.id, current.status, "->", delivery.status);
+  if (definition.event) {
+    deliveryEventEmitters[definition.event](delivery);
+  }
+  return delivery;
+};
+
+const geofenceFields: Record<GeofenceStage, "pickupGeofence" | "dropoffGeofence"> = {
+  pickup: "pickupGeofence",
+  dropoff: "dropoffGeofence",
+};
+
+const getGeofenceSettings = () =>
+  resolveGeofenceSettings({
+    mode: process.env.GEOFENCE_MODE,
+    radiusMeters: process.env.GEOFENCE_RADIUS_METERS,
+    maxLocationAgeMinutes: process.env.GEOFENCE_LOCATION_MAX_AGE_MINUTES,
+  });
+
+const getCourierPosition = (courier: User): GeofencePosition | null => {
+  const location = courier.courierProfile?.currentLocation;
+  return location ? { latitude: location.latitude, longitude: location.longitude, recordedAt: location.updatedAt } : null;
+};
+
+// Returns the check to store with the action, or throws when the action is out of range and blocking is enabled.
+const enforceGeofence = async (params: {
+  delivery: Delivery;
+  stage: GeofenceStage;
+  position: GeofencePosition | null;
+  at: string;
+}): Promise<GeofenceCheck | undefined> => {
+  const { delivery, stage } = params;
+  const target = getGeofenceTarget(delivery, stage);
+  if (!target) {
+    return undefined;
+  }
+
+  const settings = getGeofenceSettings();
+  const check = checkGeofence({ position: params.position, target, at: params.at, settings });
+  if (check.result !== "inside") {
+    console.log("[DELIVERY SERVICE] Geofence", check.result, stage, delivery.id, check.distanceMeters ?? "-");
+  }
+  if (check.result !== "outside" || settings.mode !== "block" || delivery.geofenceOverrides?.[stage]) {
+    return check;
+  }
+
+  // The rejected attempt is kept so it reaches the manager, who can approve it with a reason.
+  const flagged = await saveDelivery({
+    deliveryId: delivery.id,
+    changes: { [geofenceFields[stage]]: check },
+    match: { status: delivery.status, courierId: delivery.courierId },
+    errorMessage: "שגיאה בבדיקת מיקום השליח",
+  });
+  systemEvents.emitDeliveryUpdated(flagged);
+  throw new DeliveryRejectedError(
+    `נראה שאינכם בנקודת ה${geofenceStageLabels[stage]} (${check.distanceMeters} מ׳ מהכתובת). התקרבו או בקשו אישור מנהל`,
+  );
+};
+
+const loadUsersForLogin = async (): Promise<User[]> => {
+  for (let attempt = 1; attempt <= LOGIN_ATTEMPTS; attempt++) {
+    try {
+      return await repository.listUsers();
+    } catch (error) {
+      console.log(`[DELIVERY SERVICE] Login attempt ${attempt}/${LOGIN_ATTEMPTS} failed to load users:`, error);
+      if (attempt < LOGIN_ATTEMPTS) {
+        const delay = attempt * 1000;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+  console.log("[DELIVERY SERVICE] All login attempts failed");
+  throw new Error("שגיאה בהתחברות - נסה שוב מאוחר יותר");
+};
+
+const validateNewAccount = (payload: { name: string; phone: string; email: string; password: string }, extraFields: string[] = []) => {
+  const normalizedPhone = normalizePhoneNumber(payload.phone);
+  if (!payload.name.trim() || !normalizedPhone || !payload.email.trim() || extraFields.some((field) => !field.trim())) {
+    throw new Error("יש למלא את כל השדות");
+  }
+  if (!isValidNormalizedPhone(normalizedPhone)) {
+    throw new Error("מספר הטלפון שהוזן אינו תקין");
+  }
+  return normalizedPhone;
+};
+
+const createAccount = async (params: {
+  role: UserRole;
+  name: string;
+  phone: string;
+  email: string;
+  password: string;
+  courierProfile?: User["courierProfile"];
+  businessProfile?: User["businessProfile"];
+}): Promise<User> => {
+  if (params.password.trim().length < PASSWORD_MIN_LENGTH) {
+    throw new Error("הסיסמה חייבת להכיל לפחות 4 תווים");
+  }
+
+  const users = await repository.listUsers();
+  if (users.some((candidate) => phonesMatch(candidate.phone, params.phone))) {
+    throw new Error("מספר הטלפון כבר רשום במערכת");
+  }
+
+  const created = await repository.insertUser({
+    id: `${params.role}-${generateId()}`,
+    name: params.name.trim(),
+    phone: params.phone,
+    password: await hashPassword(params.password.trim()),
+    mustChangePassword: isTemporaryPassword(params.password),
+    role: params.role,
+    email: params.email.trim().toLowerCase(),
+    courierProfile: params.courierProfile,
+    businessProfile: params.businessProfile,
+  });
+
+  console.log("[DELIVERY SERVICE] Account created:", created.id, created.role);
+  systemEvents.emitUserCreated(created);
+  return created;
+};
+
+export const deliveryService = {
+  async getUsers(): Promise<User[]> {
+    return repository.listUsers();
+  },
+
+  async getDeliveries(): Promise<Delivery[]> {
+    return repository.listDeliveries();
+  },
+
+  async getVisibleDeliveries(viewer: DeliveryViewer): Promise<Delivery[]> {
+    if (viewer.role === "manager") {
+      return repository.listDeliveries();
+    }
+    if (viewer.role === "business") {
+      return repository.listDeliveries({ businessId: viewer.id });
+    }
+    const [own, open] = await Promise.all([
+      repository.listDeliveries({ courierId: viewer.id }),
+      repository.listDeliveries({ status: "waiting" }),
+    ]);
+    return [...own, ...open.filter((delivery) => canViewDelivery(viewer, delivery))].sort(
+      (a, b) => b.createdAt.localeCompare(a.createdAt),
+    );
+  },
+
+  async getDeliveryById(deliveryId: string): Promise<Delivery | undefined> {
+    return repository.getDelivery(deliveryId);
+  },
+
+  async getDeliveryByTrackingToken(trackingToken: string): Promise<Delivery | undefined> {
+    const [delivery] = await repository.listDeliveries({ trackingToken });
+    return delivery;
+  },
+
+  async getCourierActiveDeliveries(courierId: string): Promise<Delivery[]> {
+    return repository.listDeliveries({ courierId, status: "taken" });
+  },
+
+  async getDeliveryHistory(deliveryId: string): Promise<DeliveryHistoryEntry[]> {
+    return repository.listHistory(deliveryId);
+  },
+
+  async getUserById(userId: string): Promise<User | undefined> {
+    return repository.getUser(userId);
+  },
+
+  async login(phone: string, password: string): Promise<User> {
+    if (!repository.isReady()) {
+      console.log("[DELIVERY SERVICE] Login failed - storage not configured:", repository.backend);
+      throw new Error("חיבור לשרת לא זמין - יש להגדיר את מסד הנתונים. אנא צור קשר עם התמיכה.");
+    }
+
+    const normalizedPhone = normalizePhoneNumber(phone);
+    if (!normalizedPhone || !isValidNormalizedPhone(normalizedPhone)) {
+      throw new Error("מספר הטלפון שהוזן אינו תקין");
+    }
+
+    console.log("[DELIVERY SERVICE] Login attempt for:", normalizedPhone);
+    const users = await loadUsersForLogin();
+    const phoneMatches = users.filter((candidate) => phonesMatch(candidate.phone, normalizedPhone));
+
+    let foundUser: User | null = null;
+    let needsRehash = false;
+    for (const candidate of phoneMatches) {
+      const verification = await verifyPassword(password, candidate.password);
+      if (verification.valid) {
+        foundUser = candidate;
+        needsRehash = verification.needsRehash;
+        break;
+      }
+    }
+
+    if (!foundUser) {
+      console.log("[DELIVERY SERVICE] No matching user found for credentials");
+      throw new Error("פרטי הכניסה שגויים");
+    }
+
+    const mustChangePassword =
+      isTemporaryPassword(password) || hasSeedPassword(foundUser, password) || foundUser.mustChangePassword === true;
+    if (needsRehash || mustChangePassword !== (foundUser.mustChangePassword === true)) {
+      const credentialUpdates: UserChanges = { mustChangePassword };
+      if (needsRehash) {
+        credentialUpdates.password = await hashPassword(password);
+      }
+      try {
+        foundUser = await repository.updateUser(foundUser.id, credentialUpdates);
+        console.log("[DELIVERY SERVICE] Upgraded stored credentials for:", foundUser.id, { rehashed: needsRehash });
+      } catch (error) {
+        console.log("[DELIVERY SERVICE] Failed to upgrade stored credentials:", foundUser.id, error);
+      }
+    }
+
+    console.log("[DELIVERY SERVICE] Login successful for:", foundUser.id);
+    return foundUser;
+  },
+
+  async registerCourier(payload: {
+    managerId: string;
+    name: string;
+    age: number;
+    phone: string;
+    email: string;
+    vehicle: string;
+    password: string;
+    idNumber?: string;
+  }): Promise<User> {
+    requireStorage();
+    console.log("[DELIVERY SERVICE] Register courier:", payload.phone);
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "registerCourier");
+
+    const normalizedPhone = validateNewAccount(payload, [payload.vehicle]);
+    if (!Number.isInteger(payload.age) || payload.age < 18) {
+      throw new Error("גיל השליח חייב להיות 18 ומעלה");
+    }
+
+    return createAccount({
+      ...payload,
+      role: "courier",
+      phone: normalizedPhone,
+      courierProfile: {
+        age: payload.age,
+        email: payload.email.trim().toLowerCase(),
+        vehicle: payload.vehicle.trim(),
+        isAvailable: false,
+        idNumber: payload.idNumber?.trim() || undefined,
+      },
+    });
+  },
+
+  async registerBusiness(payload: {
+    managerId: string;
+    name: string;
+    address: string;
+    phone: string;
+    email: string;
+    password: string;
+  }): Promise<User> {
+    requireStorage();
+    console.log("[DELIVERY SERVICE] Register business:", payload.phone);
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "registerBusiness");
+
+    const normalizedPhone = validateNewAccount(payload, [payload.address]);
+
+    return createAccount({
+      ...payload,
+      role: "business",
+      phone: normalizedPhone,
+      businessProfile: {
+        address: payload.address.trim(),
+        email: payload.email.trim().toLowerCase(),
+      },
+    });
+  },
+
+  async registerManager(payload: {
+    managerId: string;
+    name: string;
+    phone: string;
+    email: string;
+    password: string;
+  }): Promise<User> {
+    requireStorage();
+    console.log("[DELIVERY SERVICE] Register manager:", payload.phone);
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "registerManager");
+
+    const normalizedPhone = validateNewAccount(payload);
+
+    return createAccount({ ...payload, role: "manager", phone: normalizedPhone });
+  },
+
+  async createDelivery(payload: {
+    businessId: string;
+    pickupAddress: string;
+    dropoffAddress: string;
+    notes: string;
+    customerName: string;
+    customerPhone: string;
+    preparationTimeMinutes: number;
+    scheduledFor?: string;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const business = await this.getUserById(payload.businessId);
+    assertRole(business, "business", "createDelivery");
+
+    if (!payload.pickupAddress.trim() || !payload.dropoffAddress.trim() || !payload.customerName.trim() || !payload.customerPhone.trim()) {
+      throw new Error("יש למלא את כל השדות");
+    }
+
+    let scheduledFor: string | undefined;
+    let scheduledReleaseAt: string | undefined;
+    if (payload.scheduledFor) {
+      const leadMinutes = resolveScheduleLeadMinutes(process.env.SCHEDULED_DELIVERY_LEAD_MINUTES);
+      const scheduleError = getScheduledForError(payload.scheduledFor, leadMinutes);
+      if (scheduleError) {
+        throw new Error(scheduleError);
+      }
+      scheduledFor = new Date(payload.scheduledFor).toISOString();
+      scheduledReleaseAt = getScheduledReleaseAt(scheduledFor, leadMinutes);
+    }
+
+    const [pickupCoords, dropoffCoords] = await Promise.all([
+      geocodeAddress(payload.pickupAddress.trim()),
+      geocodeAddress(payload.dropoffAddress.trim()),
+    ]);
+
+    const pickupAddress = appendCoordinatesToAddress(payload.pickupAddress.trim(), pickupCoords);
+    const dropoffAddress = appendCoordinatesToAddress(payload.dropoffAddress.trim(), dropoffCoords);
+
+    const distanceKm = getDistanceFromAddresses(pickupAddress, dropoffAddress);
+    if (distanceKm !== null) {
+      console.log("Distance calculated for new delivery:", distanceKm, "km");
+    }
+
+    const [pricingRules, pricingOverride] = await Promise.all([
+      this.getPricingRules(),
+      this.getBusinessPricingOverride(payload.businessId),
+    ]);
+    // Night and weekend surcharges follow when the order goes out, not when it was booked.
+    const pricingBreakdown = calculateDeliveryPrice({
+      rules: pricingRules,
+      override: pricingOverride,
+      distanceKm,
+      at: scheduledFor ? new Date(scheduledFor) : undefined,
+    });
+    console.log("Price calculated for new delivery:", pricingBreakdown.total, pricingBreakdown);
+
+    const delivery = await repository.insertDelivery({
+      id: `delivery-${generateId()}`,
+      businessId: payload.businessId,
+      courierId: null,
+      pickupAddress,
+      dropoffAddress,
+      notes: payload.notes.trim(),
+      status: "waiting",
+      createdAt: new Date().toISOString(),
+      preparationTimeMinutes: payload.preparationTimeMinutes,
+      scheduledFor,
+      scheduledReleaseAt,
+      businessConfirmed: false,
+      businessReady: false,
+      customerName: payload.customerName.trim(),
+      customerPhone: payload.customerPhone.trim(),
+      payment: pricingBreakdown.total,
+      distanceKm: distanceKm ?? undefined,
+      pricingBreakdown,
+      trackingToken: createTrackingToken(),
+    });
+
+    await recordHistory("created", business, null, delivery);
+    console.log("[DELIVERY SERVICE] Delivery created:", delivery.id, scheduledFor ? `scheduled for ${scheduledFor}` : "");
+    systemEvents.emitDeliveryCreated(delivery);
+    return delivery;
+  },
+
+  async managerUpdateDelivery(payload: {
+    managerId: string;
+    deliveryId: string;
+    status?: Exclude<DeliveryStatus, "cancelled" | "failed">;
+    courierId?: string | null;
+    payment?: number;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "managerUpdateDelivery");
+
+    const current = await loadDelivery(payload.deliveryId);
+    const nextStatus: DeliveryStatus = payload.status ?? current.status;
+    const resolvedCourierId = typeof payload.courierId !== "undefined" ? payload.courierId : current.courierId;
+    const sanitizedCourierId = nextStatus === "waiting" ? null : resolvedCourierId ?? null;
+
+    if (
+      current.settlementId &&
+      ((payload.payment !== undefined && payload.payment !== current.payment) ||
+        nextStatus !== current.status ||
+        sanitizedCourierId !== current.courierId)
+    ) {
+      console.log("[DELIVERY SERVICE] Blocked edit of settled delivery:", payload.deliveryId, current.settlementId);
+      throw new Error("המשלוח כלול בהתחשבנות סגורה ולא ניתן לשנות את התשלום, הסטטוס או השליח שלו");
+    }
+
+    const changes: DeliveryChanges = {};
+    if (payload.payment !== undefined) {
+      changes.payment = payload.payment;
+    }
+
+    if (nextStatus !== current.status || sanitizedCourierId !== current.courierId) {
+      const transition = findDeliveryTransition(current, nextStatus, manager.role);
+      if (!transition) {
+        console.log("[DELIVERY SERVICE] No manager transition:", payload.deliveryId, current.status, "->", nextStatus);
+        throw new Error("השינוי המבוקש אינו אפשרי במצב הנוכחי של המשלוח");
+      }
+
+      if (nextStatus === "taken") {
+        if (!sanitizedCourierId) {
+          throw new Error("יש לבחור שליח לשיוך המשלוח");
+        }
+        const courier = await this.getUserById(sanitizedCourierId);
+        assertRole(courier, "courier", "managerUpdateDelivery.assign");
+        changes.courierId = sanitizedCourierId;
+      }
+
+      return transitionDelivery({
+        transition,
+        actor: manager,
+        deliveryId: payload.deliveryId,
+        changes,
+        errorMessage: "שגיאה בעדכון המשלוח",
+      });
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return current;
+    }
+
+    const delivery = await saveDelivery({
+      deliveryId: payload.deliveryId,
+      changes,
+      match: { status: current.status, courierId: current.courierId },
+      errorMessage: "שגיאה בעדכון המשלוח",
+    });
+
+    await recordHistory("manager_edit", manager, current, delivery);
+    systemEvents.emitDeliveryUpdated(delivery);
+    return delivery;
+  },
+
+  async managerOverrideGeofence(payload: {
+    managerId: string;
+    deliveryId: string;
+    stage: GeofenceStage;
+    reason: string;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "managerOverrideGeofence");
+
+    const reason = payload.reason.trim();
+    if (!reason) {
+      throw new Error("יש לציין סיבה לאישור החריגה");
+    }
+
+    const current = await loadDelivery(payload.deliveryId);
+    if (current.geofenceOverrides?.[payload.stage]) {
+      throw new Error("החריגה כבר אושרה");
+    }
+    const check = current[geofenceFields[payload.stage]];
+    const isFlagged = !!check && check.result !== "inside";
+    // Approving ahead of time lets a courier who is being blocked finish the step.
+    const isPending = current.status === "taken" && (payload.stage === "dropoff" || !current.pickedUpAt);
+    if (!isFlagged && !isPending) {
+      throw new Error("אין חריגת מיקום לאשר במשלוח זה");
+    }
+
+    const delivery = await saveDelivery({
+      deliveryId: payload.deliveryId,
+      changes: {
+        geofenceOverrides: {
+          ...current.geofenceOverrides,
+          [payload.stage]: { managerId: manager.id, reason, createdAt: new Date().toISOString() },
+        },
+      },
+      match: { status: current.status, courierId: current.courierId },
+      errorMessage: "שגיאה באישור החריגה",
+    });
+
+    console.log("[DELIVERY SERVICE] Geofence override:", payload.deliveryId, payload.stage, manager.id);
+    await recordHistory("manager_edit", manager, current, delivery);
+    systemEvents.emitDeliveryUpdated(delivery);
+    return delivery;
+  },
+
+  async courierTakeDelivery(payload: { courierId: string; deliveryId: string; estimatedArrivalMinutes: number }): Promise<Delivery> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierTakeDelivery");
+
+    return transitionDelivery({
+      transition: "take",
+      actor: courier,
+      deliveryId: payload.deliveryId,
+      changes: { estimatedArrivalMinutes: payload.estimatedArrivalMinutes },
+      errorMessage: "שגיאה בלקיחת המשלוח",
+      conflictMessage: "משלוח זה כבר נלקח",
+    });
+  },
+
+  async setDispatchOffer(payload: { deliveryId: string; courierId: string; expiresAt: string }): Promise<Delivery | undefined> {
+    requireStorage();
+
+    let delivery: Delivery | undefined;
+    try {
+      delivery = await repository.updateDelivery(
+        payload.deliveryId,
+        { dispatchOfferCourierId: payload.courierId, dispatchOfferExpiresAt: payload.expiresAt },
+        { status: "waiting", courierId: null },
+      );
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error setting dispatch offer:", error);
+      throw new Error("שגיאה בהצעת המשלוח לשליח");
+    }
+
+    if (!delivery) {
+      console.log("[DELIVERY SERVICE] Delivery no longer open for dispatch:", payload.deliveryId);
+      return undefined;
+    }
+
+    console.log("[DELIVERY SERVICE] Delivery offered:", delivery.id, payload.courierId);
+    systemEvents.emitDeliveryOffered(delivery);
+    return delivery;
+  },
+
+  // Only written while the same courier still holds the delivery, so a late recompute cannot resurrect a stale ETA.
+  async updateDeliveryEta(payload: { deliveryId: string; courierId: string; eta: DeliveryEta }): Promise<Delivery | undefined> {
+    requireStorage();
+
+    let delivery: Delivery | undefined;
+    try {
+      delivery = await repository.updateDelivery(
+        payload.deliveryId,
+        { eta: payload.eta },
+        { status: "taken", courierId: payload.courierId },
+      );
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error updating ETA:", error);
+      throw new Error("שגיאה בעדכון זמן ההגעה");
+    }
+
+    if (!delivery) {
+      console.log("[DELIVERY SERVICE] Delivery no longer active for ETA:", payload.deliveryId);
+      return undefined;
+    }
+
+    systemEvents.emitEtaUpdated(delivery);
+    return delivery;
+  },
+
+  // Matching on the status and courier keeps an escalation from landing on a delivery that has moved on.
+  async recordSlaEscalation(payload: { delivery: Delivery; stage: SlaStage; escalatedAt: string }): Promise<Delivery | undefined> {
+    requireStorage();
+
+    const { delivery: current } = payload;
+    let delivery: Delivery | undefined;
+    try {
+      delivery = await repository.updateDelivery(
+        current.id,
+        { slaEscalations: { ...current.slaEscalations, [payload.stage]: payload.escalatedAt } },
+        { status: current.status, courierId: current.courierId },
+      );
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error recording SLA escalation:", error);
+      throw new Error("שגיאה בעדכון חריגת הזמנים");
+    }
+
+    if (!delivery) {
+      console.log("[DELIVERY SERVICE] Delivery changed before SLA escalation:", current.id);
+      return undefined;
+    }
+
+    console.log("[DELIVERY SERVICE] SLA escalated:", delivery.id, payload.stage);
+    systemEvents.emitSlaBreached(delivery);
+    return delivery;
+  },
+
+  // The first position inside the pickup radius marks when the courier started waiting for the order.
+  async recordPickupArrivals(payload: { courierId: string; latitude: number; longitude: number }): Promise<Delivery[]> {
+    requireStorage();
+
+    const position: GeofencePosition = {
+      latitude: payload.latitude,
+      longitude: payload.longitude,
+      recordedAt: new Date().toISOString(),
+    };
+    const settings = getGeofenceSettings();
+    const arriving = (await this.getCourierActiveDeliveries(payload.courierId)).filter((delivery) => {
+      if (delivery.pickedUpAt || delivery.pickupArrivedAt) {
+        return false;
+      }
+      const target = getGeofenceTarget(delivery, "pickup");
+      return (
+        !!target &&
+        checkGeofence({ position, target, at: position.recordedAt, settings }).result === "inside"
+      );
+    });
+
+    const recorded: Delivery[] = [];
+    for (const current of arriving) {
+      let delivery: Delivery | undefined;
+      try {
+        delivery = await repository.updateDelivery(
+          current.id,
+          { pickupArrivedAt: position.recordedAt },
+          { status: current.status, courierId: current.courierId },
+        );
+      } catch (error) {
+        console.log("[DELIVERY SERVICE] Error recording pickup arrival:", current.id, error);
+        continue;
+      }
+      if (!delivery) {
+        console.log("[DELIVERY SERVICE] Delivery changed before pickup arrival:", current.id);
+        continue;
+      }
+      console.log("[DELIVERY SERVICE] Courier arrived at pickup:", delivery.id, payload.courierId);
+      systemEvents.emitDeliveryUpdated(delivery);
+      recorded.push(delivery);
+    }
+    return recorded;
+  },
+
+  // Matching on the stored hold lets exactly one scheduler tick win the release.
+  async releaseScheduledDelivery(held: Delivery): Promise<Delivery | undefined> {
+    requireStorage();
+
+    let delivery: Delivery | undefined;
+    try {
+      delivery = await repository.updateDelivery(
+        held.id,
+        { scheduledReleaseAt: undefined },
+        { status: "waiting", courierId: null, scheduledReleaseAt: held.scheduledReleaseAt ?? null },
+      );
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error releasing scheduled delivery:", error);
+      throw new Error("שגיאה בשחרור המשלוח המתוזמן");
+    }
+
+    if (!delivery) {
+      console.log("[DELIVERY SERVICE] Scheduled delivery no longer held:", held.id);
+      return undefined;
+    }
+
+    console.log("[DELIVERY SERVICE] Scheduled delivery released:", delivery.id, delivery.scheduledFor);
+    systemEvents.emitDeliveryUpdated(delivery);
+    return delivery;
+  },
+
+  async clearDispatchOffer(deliveryId: string): Promise<Delivery | undefined> {
+    requireStorage();
+
+    const current = await repository.getDelivery(deliveryId);
+    if (!current?.dispatchOfferCourierId) {
+      return undefined;
+    }
+
+    const delivery = await saveDelivery({
+      deliveryId,
+      changes: { dispatchOfferCourierId: undefined, dispatchOfferExpiresAt: undefined },
+      errorMessage: "שגיאה בעדכון הצעת המשלוח",
+    });
+
+    console.log("[DELIVERY SERVICE] Dispatch offer cleared:", delivery.id);
+    systemEvents.emitDeliveryUpdated(delivery);
+    return delivery;
+  },
+
+  async courierDeclineDispatchOffer(payload: { courierId: string; deliveryId: string }): Promise<Delivery> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierDeclineDispatchOffer");
+
+    const current = await loadDelivery(payload.deliveryId);
+    if (current.status !== "waiting" || current.dispatchOfferCourierId !== payload.courierId) {
+      throw new Error("המשלוח אינו מוצע לך כעת");
+    }
+
+    const delivery = await this.clearDispatchOffer(payload.deliveryId);
+    if (!delivery) {
+      throw new Error("שגיאה בטעינת המשלוח המעודכן");
+    }
+
+    console.log("[DELIVERY SERVICE] Dispatch offer declined:", delivery.id, payload.courierId);
+    return delivery;
+  },
+
+  async courierReleaseDelivery(payload: {
+    courierId: string;
+    deliveryId: string;
+    reason: DeliveryReleaseReason;
+    note?: string;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierReleaseDelivery");
+
+    const delivery = await transitionDelivery({
+      transition: "release",
+      actor: courier,
+      deliveryId: payload.deliveryId,
+      changes: {
+        releaseReason: payload.reason,
+        releaseNote: payload.note?.trim() || undefined,
+      },
+      errorMessage: "שגיאה בשחרור המשלוח",
+    });
+
+    if (courier.courierProfile) {
+      try {
+        const updatedCourier = await repository.updateUser(payload.courierId, {
+          courierProfile: { releaseCount: (courier.courierProfile.releaseCount ?? 0) + 1 },
+        });
+        systemEvents.emitUserUpdated(updatedCourier);
+      } catch (error) {
+        console.log("[DELIVERY SERVICE] Error updating courier release count:", error);
+      }
+    }
+
+    return delivery;
+  },
+
+  async courierPickupDelivery(payload: {
+    courierId: string;
+    deliveryId: string;
+    occurredAt?: string;
+    replay?: boolean;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierPickupDelivery");
+
+    const current = await loadDelivery(payload.deliveryId);
+    const transitionError = getDeliveryTransitionError("pickup", current, courier);
+    if (transitionError) {
+      throw new DeliveryRejectedError(transitionError);
+    }
+    // A replayed pickup cannot predate the order being ready, or being accepted when readiness was never recorded.
+    const notBefore = current.readyAt ?? current.acceptedAt ?? current.createdAt;
+    const occurredAt = getReplayedAt(payload);
+    const pickupGeofence = await enforceGeofence({
+      delivery: current,
+      stage: "pickup",
+      position: getCourierPosition(courier),
+      at: resolveClientTimestamp(occurredAt, notBefore),
+    });
+
+    return transitionDelivery({
+      transition: "pickup",
+      actor: courier,
+      deliveryId: payload.deliveryId,
+      occurredAt,
+      notBefore,
+      changes: pickupGeofence ? { pickupGeofence } : undefined,
+      errorMessage: "שגיאה באיסוף המשלוח",
+    });
+  },
+
+  async createDeliveryBatch(payload: { actorId: string; deliveryIds: string[] }): Promise<Delivery[]> {
+    requireStorage();
+
+    const actor = await this.getUserById(payload.actorId);
+    if (!actor) {
+      throw new Error("החשבון המבצע לא נמצא. התנתקו והתחברו מחדש.");
+    }
+
+    const deliveryIds = Array.from(new Set(payload.deliveryIds));
+    const currentDeliveries = await repository.listDeliveries({ ids: deliveryIds });
+    if (currentDeliveries.length !== deliveryIds.length) {
+      throw new Error("חלק מהמשלוחים לא נמצאו");
+    }
+
+    const selectionError = getBatchSelectionError(currentDeliveries, actor);
+    if (selectionError) {
+      throw new Error(selectionError);
+    }
+
+    const batchId = `batch-${generateId()}`;
+    const legs = suggestDropoffOrder(currentDeliveries[0].pickupAddress, currentDeliveries);
+
+    // A stop that changed hands while the batch was being written would leave it half-built, so the whole
+    // batch fails and the stops already written are taken back out.
+    const written: Delivery[] = [];
+    try {
+      for (const leg of legs) {
+        const current = currentDeliveries.find((delivery) => delivery.id === leg.deliveryId) as Delivery;
+        written.push(
+          await saveDelivery({
+            deliveryId: leg.deliveryId,
+            changes: { batchId, batchSequence: leg.sequence, legDistanceKm: leg.legDistanceKm ?? undefined },
+            match: { status: current.status, courierId: current.courierId },
+            errorMessage: "שגיאה באיחוד המשלוחים למסלול",
+            conflictMessage: "אחד המשלוחים במסלול עודכן במקביל. רעננו ונסו שוב",
+          }),
+        );
+      }
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Delivery batch aborted:", batchId, error);
+      await Promise.all(
+        written.map(async (delivery) => {
+          try {
+            await repository.updateDelivery(
+              delivery.id,
+              { batchId: undefined, batchSequence: undefined, legDistanceKm: undefined },
+              { status: delivery.status, courierId: delivery.courierId },
+            );
+          } catch (rollbackError) {
+            console.log("[DELIVERY SERVICE] Batch rollback failed:", delivery.id, rollbackError);
+          }
+        }),
+      );
+      throw error;
+    }
+
+    const deliveries = (await repository.listDeliveries({ batchId })).sort(byBatchSequence);
+    console.log("[DELIVERY SERVICE] Delivery batch created:", batchId, deliveries.map((delivery) => delivery.id));
+    deliveries.forEach((delivery) => systemEvents.emitDeliveryUpdated(delivery));
+    return deliveries;
+  },
+
+  async courierPickupBatch(payload: { courierId: string; batchId: string }): Promise<Delivery[]> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierPickupBatch");
+
+    const currentDeliveries = await repository.listDeliveries({ batchId: payload.batchId, status: "taken" });
+    if (currentDeliveries.length === 0) {
+      throw new Error("לא נמצאו משלוחים פעילים במסלול");
+    }
+    if (currentDeliveries.some((delivery) => delivery.courierId !== payload.courierId)) {
+      throw new Error("אין לך הרשאה לאסוף מסלול זה");
+    }
+    if (currentDeliveries.some((delivery) => delivery.pickedUpAt)) {
+      throw new Error("חלק מהמשלוחים במסלול כבר נאספו");
+    }
+    if (currentDeliveries.some((delivery) => !delivery.businessReady)) {
+      throw new Error("לא כל ההזמנות במסלול מוכנות לאיסוף");
+    }
+    const transitionError = currentDeliveries
+      .map((delivery) => getDeliveryTransitionError("pickup", delivery, courier))
+      .find((error) => error !== null);
+    if (transitionError) {
+      throw new DeliveryRejectedError(transitionError);
+    }
+
+    // Every stop in a batch is collected from the same business, so one check covers them all.
+    const pickedUpAt = new Date().toISOString();
+    const pickupGeofence = await enforceGeofence({
+      delivery: currentDeliveries[0],
+      stage: "pickup",
+      position: getCourierPosition(courier),
+      at: pickedUpAt,
+    });
+
+    let deliveries: Delivery[];
+    try {
+      deliveries = await repository.updateDeliveries(
+        currentDeliveries.map((delivery) => delivery.id),
+        {
+          ...getDeliveryTransitionEffects("pickup", currentDeliveries[0], { actor: courier, at: pickedUpAt }),
+          ...(pickupGeofence ? { pickupGeofence } : {}),
+        },
+        { status: "taken", courierId: payload.courierId },
+      );
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error picking up batch:", error);
+      throw new Error("שגיאה באיסוף המשלוחים");
+    }
+
+    deliveries.sort(byBatchSequence);
+    for (const delivery of deliveries) {
+      const previous = currentDeliveries.find((candidate) => candidate.id === delivery.id) ?? null;
+      await recordHistory(deliveryTransitions.pickup.historyAction, courier, previous, delivery);
+      systemEvents.emitDeliveryUpdated(delivery);
+    }
+    console.log("[DELIVERY SERVICE] Batch picked up:", payload.batchId, deliveries.length);
+    return deliveries;
+  },
+
+  async courierCompleteDelivery(payload: {
+    courierId: string;
+    deliveryId: string;
+    occurredAt?: string;
+    replay?: boolean;
+    proof?: ProofOfDeliveryInput;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierCompleteDelivery");
+
+    // Checked before uploading so a rejected completion does not leave orphaned photos behind.
+    const current = await loadDelivery(payload.deliveryId);
+    const transitionError = getDeliveryTransitionError("complete", current, courier);
+    if (transitionError) {
+      throw new DeliveryRejectedError(transitionError);
+    }
+
+    const business = await this.getUserById(current.businessId);
+    const proofError = getProofOfDeliveryError(payload.proof, !!business?.businessProfile?.proofOfDeliveryRequired);
+    if (proofError) {
+      console.log("[DELIVERY SERVICE] Proof of delivery rejected:", payload.deliveryId, proofError);
+      throw new DeliveryRejectedError(proofError);
+    }
+
+    const occurredAt = getReplayedAt(payload);
+    const completedAt = resolveClientTimestamp(occurredAt, current.pickedUpAt ?? current.createdAt);
+    // The check relies on the position the server last recorded; the location sent with the proof is only
+    // stored as evidence, since the client could report any coordinates there.
+    const dropoffGeofence = await enforceGeofence({
+      delivery: current,
+      stage: "dropoff",
+      position: getCourierPosition(courier),
+      at: completedAt,
+    });
+
+    const proofOfDelivery =
+      payload.proof && hasProofOfDelivery(payload.proof)
+        ? await storeProofOfDelivery(
+            payload.deliveryId,
+            payload.proof,
+            payload.replay
+              ? resolveClientTimestamp(payload.proof.capturedAt ?? occurredAt, current.pickedUpAt ?? current.createdAt)
+              : completedAt,
+          )
+        : undefined;
+
+    return transitionDelivery({
+      transition: "complete",
+      actor: courier,
+      deliveryId: payload.deliveryId,
+      occurredAt,
+      changes: {
+        ...(proofOfDelivery ? { proofOfDelivery } : {}),
+        ...(dropoffGeofence ? { dropoffGeofence } : {}),
+      },
+      errorMessage: "שגיאה בהשלמת המשלוח",
+    });
+  },
+
+  async getProofOfDelivery(payload: { userId: string; deliveryId: string }): Promise<ProofOfDeliveryView> {
+    const user = await this.getUserById(payload.userId);
+    const delivery = await loadDelivery(payload.deliveryId);
+    const canView =
+      user?.role === "manager" ||
+      (user?.role === "business" && delivery.businessId === user.id) ||
+      (user?.role === "courier" && delivery.courierId === user.id);
+    if (!canView) {
+      console.log("[DELIVERY SERVICE] Proof of delivery access denied:", payload.deliveryId, payload.userId);
+      throw new Error("אין לך הרשאה לצפות באישור המסירה");
+    }
+    if (!delivery.proofOfDelivery) {
+      throw new Error("לא נשמר אישור מסירה למשלוח זה");
+    }
+    return getProofOfDeliveryView(delivery.proofOfDelivery);
+  },
+
+  async courierReportFailure(payload: {
+    courierId: string;
+    deliveryId: string;
+    reason: DeliveryFailureReason;
+    note?: string;
+    occurredAt?: string;
+    replay?: boolean;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierReportFailure");
+
+    return transitionDelivery({
+      transition: "fail",
+      actor: courier,
+      deliveryId: payload.deliveryId,
+      occurredAt: getReplayedAt(payload),
+      changes: {
+        failureReason: payload.reason,
+        statusNote: payload.note?.trim() || undefined,
+      },
+      errorMessage: "שגיאה בדיווח על כישלון המשלוח",
+    });
+  },
+
+  async courierUpdateLocation(payload: { courierId: string; latitude: number; longitude: number }): Promise<User> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierUpdateLocation");
+
+    if (!courier.courierProfile) {
+      console.log("[DELIVERY SERVICE] Courier profile not found for location update", payload.courierId);
+      throw new Error("פרופיל שליח לא נמצא");
+    }
+
+    const updated = await saveUser(
+      payload.courierId,
+      {
+        courierProfile: {
+          currentLocation: {
+            latitude: payload.latitude,
+            longitude: payload.longitude,
+            updatedAt: new Date().toISOString(),
+          },
+        },
+      },
+      "שגיאה בעדכון המיקום",
+    );
+
+    console.log("[DELIVERY SERVICE] Courier location updated:", payload.courierId, payload.latitude, payload.longitude);
+    return updated;
+  },
+
+  async courierUpdateAvailability(payload: { courierId: string; isAvailable: boolean }): Promise<User> {
+    requireStorage();
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "courierUpdateAvailability");
+
+    // Couriers created before profiles existed get a placeholder profile the manager can fill in later.
+    const courierProfile = courier.courierProfile
+      ? { isAvailable: payload.isAvailable }
+      : { age: 0, email: courier.email || "", vehicle: "לא צוין", isAvailable: payload.isAvailable };
+
+    const updated = await saveUser(payload.courierId, { courierProfile }, "שגיאה בעדכון הזמינות");
+
+    console.log("[DELIVERY SERVICE] Courier availability updated:", payload.courierId, payload.isAvailable);
+    systemEvents.emitUserUpdated(updated);
+    return updated;
+  },
+
+  async businessConfirmDelivery(payload: {
+    businessId: string;
+    deliveryId: string;
+    occurredAt?: string;
+    replay?: boolean;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const business = await this.getUserById(payload.businessId);
+    assertRole(business, "business", "businessConfirmDelivery");
+
+    return transitionDelivery({
+      transition: "confirm",
+      actor: business,
+      deliveryId: payload.deliveryId,
+      occurredAt: getReplayedAt(payload),
+      errorMessage: "שגיאה באישור המשלוח",
+    });
+  },
+
+  async businessMarkReady(payload: {
+    businessId: string;
+    deliveryId: string;
+    occurredAt?: string;
+    replay?: boolean;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const business = await this.getUserById(payload.businessId);
+    assertRole(business, "business", "businessMarkReady");
+
+    return transitionDelivery({
+      transition: "markReady",
+      actor: business,
+      deliveryId: payload.deliveryId,
+      occurredAt: getReplayedAt(payload),
+      errorMessage: "שגיאה בסימון המשלוח כמוכן",
+    });
+  },
+
+  async businessCancelDelivery(payload: {
+    businessId: string;
+    deliveryId: string;
+    reason: DeliveryCancellationReason;
+    note?: string;
+    occurredAt?: string;
+    replay?: boolean;
+  }): Promise<Delivery> {
+    requireStorage();
+
+    const business = await this.getUserById(payload.businessId);
+    assertRole(business, "business", "businessCancelDelivery");
+
+    return transitionDelivery({
+      transition: "cancel",
+      actor: business,
+      deliveryId: payload.deliveryId,
+      occurredAt: getReplayedAt(payload),
+      changes: {
+        cancellationReason: payload.reason,
+        statusNote: payload.note?.trim() || undefined,
+      },
+      errorMessage: "שגיאה בביטול המשלוח",
+    });
+  },
+
+  async registerPushToken(userId: string, pushToken: string): Promise<User> {
+    requireStorage();
+
+    const user = await this.getUserById(userId);
+    if (!user) {
+      throw new Error("משתמש לא נמצא");
+    }
+
+    const updated = await saveUser(userId, { pushToken }, "שגיאה ברישום טוקן Push");
+    console.log("[DELIVERY SERVICE] Push token registered for:", userId);
+    return updated;
+  },
+
+  async getAvailableCouriersWithTokens(): Promise<User[]> {
+    if (!repository.isReady()) {
+      return [];
+    }
+
+    try {
+      const users = await repository.listUsers();
+      return users.filter(
+        (user) => user.role === "courier" && !!user.pushToken && user.courierProfile?.isAvailable === true,
+      );
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error fetching available couriers:", error);
+      return [];
+    }
+  },
+
+  async managerUpdateUser(payload: {
+    managerId: string;
+    userId: string;
+    name?: string;
+    phone?: string;
+    email?: string;
+    password?: string;
+    courierProfile?: {
+      age?: number;
+      vehicle?: string;
+      email?: string;
+    };
+    businessProfile?: {
+      address?: string;
+      email?: string;
+      proofOfDeliveryRequired?: boolean;
+    };
+  }): Promise<User> {
+    requireStorage();
+    console.log("[DELIVERY SERVICE] Manager updating user:", payload.userId);
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "managerUpdateUser");
+
+    const targetUser = await this.getUserById(payload.userId);
+    if (!targetUser) {
+      throw new Error("המשתמש לא נמצא");
+    }
+
+    const changes: UserChanges = {};
+    if (payload.name !== undefined && payload.name.trim()) {
+      changes.name = payload.name.trim();
+    }
+    if (payload.phone !== undefined && payload.phone.trim()) {
+      const normalizedPhone = normalizePhoneNumber(payload.phone);
+      if (isValidNormalizedPhone(normalizedPhone)) {
+        changes.phone = normalizedPhone;
+      }
+    }
+    if (payload.email !== undefined && payload.email.trim()) {
+      changes.email = payload.email.trim().toLowerCase();
+    }
+    if (payload.password !== undefined && payload.password.trim().length >= PASSWORD_MIN_LENGTH) {
+      changes.password = await hashPassword(payload.password.trim());
+      changes.mustChangePassword = isTemporaryPassword(payload.password);
+    }
+
+    if (targetUser.role === "courier" && payload.courierProfile) {
+      const courierProfile: UserChanges["courierProfile"] = {};
+      if (payload.courierProfile.age !== undefined) {
+        courierProfile.age = payload.courierProfile.age;
+      }
+      if (payload.courierProfile.vehicle !== undefined && payload.courierProfile.vehicle.trim()) {
+        courierProfile.vehicle = payload.courierProfile.vehicle.trim();
+      }
+      if (payload.courierProfile.email !== undefined && payload.courierProfile.email.trim()) {
+        courierProfile.email = payload.courierProfile.email.trim().toLowerCase();
+      }
+      changes.courierProfile = courierProfile;
+    }
+
+    if (targetUser.role === "business" && payload.businessProfile) {
+      const businessProfile: UserChanges["businessProfile"] = {};
+      if (payload.businessProfile.address !== undefined && payload.businessProfile.address.trim()) {
+        businessProfile.address = payload.businessProfile.address.trim();
+      }
+      if (payload.businessProfile.email !== undefined && payload.businessProfile.email.trim()) {
+        businessProfile.email = payload.businessProfile.email.trim().toLowerCase();
+      }
+      if (payload.businessProfile.proofOfDeliveryRequired !== undefined) {
+        businessProfile.proofOfDeliveryRequired = payload.businessProfile.proofOfDeliveryRequired;
+      }
+      changes.businessProfile = businessProfile;
+    }
+
+    const updated = await repository.updateUser(payload.userId, changes);
+    console.log("[DELIVERY SERVICE] User updated successfully:", payload.userId);
+    systemEvents.emitUserUpdated(updated);
+    return updated;
+  },
+
+  async changePassword(payload: { userId: string; currentPassword: string; newPassword: string }): Promise<User> {
+    requireStorage();
+    console.log("[DELIVERY SERVICE] Changing password for:", payload.userId);
+
+    const user = await this.getUserById(payload.userId);
+    if (!user) {
+      throw new Error("המשתמש לא נמצא");
+    }
+
+    const verification = await verifyPassword(payload.currentPassword, user.password);
+    if (!verification.valid) {
+      throw new Error("הסיסמה הנוכחית שגויה");
+    }
+
+    const nextPassword = payload.newPassword.trim();
+    if (nextPassword.length < PASSWORD_MIN_LENGTH) {
+      throw new Error("הסיסמה חייבת להכיל לפחות 4 תווים");
+    }
+    if (isTemporaryPassword(nextPassword) || nextPassword === payload.currentPassword) {
+      throw new Error("יש לבחור סיסמה חדשה השונה מהסיסמה הנוכחית");
+    }
+
+    const updated = await saveUser(
+      payload.userId,
+      { password: await hashPassword(nextPassword), mustChangePassword: false },
+      "שגיאה בעדכון הסיסמה",
+    );
+
+    console.log("[DELIVERY SERVICE] Password changed for:", payload.userId);
+    systemEvents.emitUserUpdated(updated);
+    return updated;
+  },
+
+  async getCustomerByPhone(phone: string): Promise<Customer | null> {
+    if (!repository.isReady()) {
+      console.log("[DELIVERY SERVICE] Storage not configured, returning null for customer lookup");
+      return null;
+    }
+
+    const normalizedPhone = normalizePhoneNumber(phone);
+    if (!normalizedPhone) {
+      console.log("[DELIVERY SERVICE] Invalid phone for customer lookup");
+      return null;
+    }
+
+    let customers: Customer[];
+    try {
+      customers = await repository.listCustomers();
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error fetching customers:", error);
+      return null;
+    }
+
+    const customer = customers.find((candidate) => phonesMatch(candidate.phone, normalizedPhone)) ?? null;
+    console.log("[DELIVERY SERVICE] Customer lookup:", normalizedPhone, customer ? customer.id : "not found");
+    return customer;
+  },
+
+  async saveCustomer(payload: {
+    phone: string;
+    name: string;
+    address?: string;
+    city?: string;
+    floor?: string;
+    notes?: string;
+    businessId?: string;
+  }): Promise<Customer> {
+    requireStorage();
+
+    const normalizedPhone = normalizePhoneNumber(payload.phone);
+    if (!normalizedPhone || !isValidNormalizedPhone(normalizedPhone)) {
+      throw new Error("מספר הטלפון שהוזן אינו תקין");
+    }
+
+    if (!payload.name.trim()) {
+      throw new Error("יש להזין שם לקוח");
+    }
+
+    const details = {
+      name: payload.name.trim(),
+      address: payload.address?.trim() || undefined,
+      city: payload.city?.trim() || undefined,
+      floor: payload.floor?.trim() || undefined,
+      notes: payload.notes?.trim() || undefined,
+      businessId: payload.businessId || undefined,
+    };
+
+    const existingCustomer = await this.getCustomerByPhone(normalizedPhone);
+    if (existingCustomer) {
+      const updated = await repository.updateCustomer(existingCustomer.id, details);
+      console.log("[DELIVERY SERVICE] Customer updated:", updated.id);
+      return updated;
+    }
+
+    const created = await repository.insertCustomer({
+      id: `customer-${generateId()}`,
+      phone: normalizedPhone,
+      ...details,
+    });
+    console.log("[DELIVERY SERVICE] Customer created:", created.id);
+    return created;
+  },
+
+  async getPricingRules(): Promise<PricingRules> {
+    return (await repository.getPricingRules()) ?? DEFAULT_PRICING_RULES;
+  },
+
+  async updatePricingRules(payload: { managerId: string; rules: PricingRules }): Promise<PricingRules> {
+    requireStorage();
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "updatePricingRules");
+
+    const rulesError = getPricingRulesError(payload.rules);
+    if (rulesError) {
+      throw new Error(rulesError);
+    }
+
+    const rules = await repository.savePricingRules({
+      ...payload.rules,
+      updatedBy: manager.id,
+      updatedAt: new Date().toISOString(),
+    });
+    console.log("[DELIVERY SERVICE] Pricing rules updated by", manager.id);
+    return rules;
+  },
+
+  async getBusinessPricingOverrides(): Promise<BusinessPricingOverride[]> {
+    return repository.listPricingOverrides();
+  },
+
+  async getBusinessPricingOverride(businessId: string): Promise<BusinessPricingOverride | null> {
+    return repository.getPricingOverride(businessId);
+  },
+
+  async setBusinessPricingOverride(payload: {
+    managerId: string;
+    businessId: string;
+    baseFee?: number;
+    ratePerKm?: number;
+    flatFee?: number;
+  }): Promise<BusinessPricingOverride | null> {
+    requireStorage();
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "setBusinessPricingOverride");
+
+    const business = await this.getUserById(payload.businessId);
+    if (!business || business.role !== "business") {
+      throw new Error("העסק לא נמצא");
+    }
+
+    if (payload.baseFee === undefined && payload.ratePerKm === undefined && payload.flatFee === undefined) {
+      await repository.deletePricingOverride(payload.businessId);
+      console.log("[DELIVERY SERVICE] Pricing override removed:", payload.businessId);
+      return null;
+    }
+
+    const override = await repository.savePricingOverride({
+      businessId: payload.businessId,
+      baseFee: payload.baseFee,
+      ratePerKm: payload.ratePerKm,
+      flatFee: payload.flatFee,
+      updatedBy: manager.id,
+      updatedAt: new Date().toISOString(),
+    });
+    console.log("[DELIVERY SERVICE] Pricing override saved:", payload.businessId);
+    return override;
+  },
+
+  async getCourierSettlements(courierId?: string): Promise<CourierSettlement[]> {
+    return repository.listSettlements(courierId);
+  },
+
+  async closeCourierSettlement(payload: {
+    managerId: string;
+    courierId: string;
+    periodStart: string;
+    periodEnd: string;
+    bonuses: CourierSettlementAdjustment[];
+    deductions: CourierSettlementAdjustment[];
+  }): Promise<CourierSettlement> {
+    requireStorage();
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "closeCourierSettlement");
+
+    const courier = await this.getUserById(payload.courierId);
+    assertRole(courier, "courier", "closeCourierSettlement");
+
+    const periodError = getSettlementPeriodError(payload);
+    if (periodError) {
+      throw new Error(periodError);
+    }
+
+    let completed: Delivery[];
+    try {
+      completed = await repository.listDeliveries({ courierId: courier.id, status: "completed", unsettled: true });
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error fetching deliveries for settlement:", error);
+      throw new Error("שגיאה בטעינת המשלוחים לתקופה");
+    }
+
+    const settled = selectSettleableDeliveries(completed, courier.id, payload.periodStart, payload.periodEnd);
+    if (settled.length === 0) {
+      throw new Error("אין בתקופה זו משלוחים שהושלמו וטרם נכללו בהתחשבנות");
+    }
+
+    const summary = summarizeSettlement({
+      deliveries: settled,
+      bonuses: payload.bonuses,
+      deductions: payload.deductions,
+    });
+    const settledIds = settled.map((delivery) => delivery.id);
+
+    const settlement = await repository.insertSettlement({
+      id: `settlement-${generateId()}`,
+      courierId: courier.id,
+      periodStart: payload.periodStart,
+      periodEnd: payload.periodEnd,
+      deliveryIds: settledIds,
+      deliveryCount: summary.deliveryCount,
+      totalDistanceKm: summary.totalDistanceKm,
+      deliveriesTotal: summary.deliveriesTotal,
+      bonuses: payload.bonuses,
+      deductions: payload.deductions,
+      total: summary.total,
+      status: "unpaid",
+      createdAt: new Date().toISOString(),
+      createdBy: manager.id,
+    });
+
+    let stamped: Delivery[] = [];
+    try {
+      stamped = await repository.updateDeliveries(settledIds, { settlementId: settlement.id }, { settlementId: null });
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error stamping settled deliveries:", error);
+    }
+
+    if (stamped.length !== settled.length) {
+      console.log("[DELIVERY SERVICE] Settlement stamping incomplete, rolling back:", settlement.id);
+      await repository.updateDeliveries(settledIds, { settlementId: undefined }, { settlementId: settlement.id });
+      await repository.deleteSettlement(settlement.id);
+      throw new Error("חלק מהמשלוחים עודכנו במקביל. נסו לסגור את התקופה שוב");
+    }
+
+    stamped.forEach((delivery) => systemEvents.emitDeliveryUpdated(delivery));
+    console.log("[DELIVERY SERVICE] Settlement closed:", settlement.id, courier.id, summary);
+    return settlement;
+  },
+
+  async markCourierSettlementPaid(payload: { managerId: string; settlementId: string }): Promise<CourierSettlement> {
+    requireStorage();
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "markCourierSettlementPaid");
+
+    const settlement = await repository.markSettlementPaid(payload.settlementId, manager.id, new Date().toISOString());
+    if (!settlement) {
+      throw new Error("דוח התשלום לא נמצא או שכבר סומן כשולם");
+    }
+
+    console.log("[DELIVERY SERVICE] Settlement marked paid:", payload.settlementId);
+    return settlement;
+  },
+
+  async getBusinessInvoices(businessId?: string): Promise<BusinessInvoice[]> {
+    return repository.listInvoices(businessId);
+  },
+
+  async createBusinessInvoice(payload: {
+    managerId: string;
+    businessId: string;
+    periodStart: string;
+    periodEnd: string;
+  }): Promise<BusinessInvoice> {
+    requireStorage();
+
+    const manager = await this.getUserById(payload.managerId);
+    assertRole(manager, "manager", "createBusinessInvoice");
+
+    const business = await this.getUserById(payload.businessId);
+    assertRole(business, "business", "createBusinessInvoice");
+
+    const periodError = getInvoicePeriodError(payload.periodStart, payload.periodEnd);
+    if (periodError) {
+      throw new Error(periodError);
+    }
+
+    const existingInvoices = await this.getBusinessInvoices(business.id);
+    if (existingInvoices.some((invoice) => invoicePeriodsOverlap(invoice, payload.periodStart, payload.periodEnd))) {
+      throw new Error("כבר הופקה לעסק זה חשבונית לתקופה חופפת");
+    }
+
+    let completed: Delivery[];
+    try {
+      completed = await repository.listDeliveries({ businessId: business.id, status: "completed" });
+    } catch (error) {
+      console.log("[DELIVERY SERVICE] Error fetching deliveries for invoice:", error);
+      throw new Error("שגיאה בטעינת המשלוחים לחיוב");
+    }
+
+    const invoiced = selectInvoiceableDeliveries(completed, business.id, payload.periodStart, payload.periodEnd);
+    if (invoiced.length === 0) {
+      throw new Error("אין משלוחים שהושלמו לחיוב בתקופה זו");
+    }
+
+    const invoice = await repository.insertInvoice({
+      id: `invoice-${generateId()}`,
+      businessId: business.id,
+      businessName: business.name,
+      periodStart: payload.periodStart,
+      periodEnd: payload.periodEnd,
+      ...buildInvoiceLines(invoiced),
+      createdBy: manager.id,
+    });
+
+    console.log("[DELIVERY SERVICE] Invoice created:", invoice.invoiceNumber, business.id, invoice.total);
+    return invoice;
+  },
+
+  async getDeliveryTemplates(businessId?: string): Promise<DeliveryTemplate[]> {
+    return repository.listDeliveryTemplates(businessId);
+  },
+
+  async saveDeliveryTemplate(payload: {
+    businessId: string;
+    templateId?: string;
+    name: string;
+    customerName: string;
+    customerPhone: string;
+    dropoffAddress: string;
+    notes: string;
+    preparationTimeMinutes: number;
+    recurrence: DeliveryTemplateRecurrence;
+  }): Promise<DeliveryTemplate> {
+    requireStorage();
+
+    const business = await this.getUserById(payload.businessId);
+    assertRole(business, "business", "saveDeliveryTemplate");
+
+    const templateError = getDeliveryTemplateError(payload);
+    if (templateError) {
+      throw new Error(templateError);
+    }
+
+    const fields = {
+      name: payload.name.trim(),
+      customerName: payload.customerName.trim(),
+      customerPhone: payload.customerPhone.trim(),
+      dropoffAddress: payload.dropoffAddress.trim(),
+      notes: payload.notes.trim(),
+      preparationTimeMinutes: payload.preparationTimeMinutes,
+      recurrence: {
+        frequency: payload.recurrence.frequency,
+        daysOfWeek: Array.from(new Set(getRecurrenceDays(payload.recurrence))).sort((a, b) => a - b),
+        timeOfDay: payload.recurrence.timeOfDay,
+      },
+    };
+
+    // Edits apply from the next occurrence on; deliveries already created from the template are left as they are.
+    if (payload.templateId) {
+      await loadOwnTemplate(business.id, payload.templateId);
+      const updated = await repository.updateDeliveryTemplate(payload.templateId, fields);
+      console.log("[DELIVERY SERVICE] Delivery template updated:", updated.id);
+      return updated;
+    }
+
+    const now = new Date().toISOString();
+    const created = await repository.insertDeliveryTemplate({
+      id: `template-${generateId()}`,
+      businessId: business.id,
+      ...fields,
+      isPaused: false,
+      skippedDates: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    console.log("[DELIVERY SERVICE] Delivery template created:", created.id, business.id);
+    return created;
+  },
+
+  async setDeliveryTemplatePaused(payload: { businessId: string; templateId: string; isPaused: boolean }): Promise<DeliveryTemplate> {
+    requireStorage();
+
+    await loadOwnTemplate(payload.businessId, payload.templateId);
+    const updated = await repository.updateDeliveryTemplate(payload.templateId, { isPaused: payload.isPaused });
+    console.log("[DELIVERY SERVICE] Delivery template", payload.isPaused ? "paused:" : "resumed:", updated.id);
+    return updated;
+  },
+
+  async setDeliveryTemplateOccurrenceSkipped(payload: {
+    businessId: string;
+    templateId: string;
+    date: string;
+    skipped: boolean;
+  }): Promise<DeliveryTemplate> {
+    requireStorage();
+
+    const template = await loadOwnTemplate(payload.businessId, payload.templateId);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(payload.date) || payload.date < getLocalDateParts(new Date()).date) {
+      throw new Error("ניתן לדלג רק על מועדים עתידיים");
+    }
+    if (payload.skipped && template.lastOccurrenceDate && payload.date <= template.lastOccurrenceDate) {
+      throw new Error("המשלוח למועד זה כבר נוצר. ניתן לבטל אותו מרשימת המשלוחים");
+    }
+
+    const remaining = template.skippedDates.filter((date) => date !== payload.date);
+    const skippedDates = pruneSkippedDates(payload.skipped ? [...remaining, payload.date] : remaining);
+    const updated = await repository.updateDeliveryTemplate(payload.templateId, { skippedDates });
+    console.log("[DELIVERY SERVICE] Delivery template occurrence", payload.skipped ? "skipped:" : "restored:", updated.id, payload.date);
+    return updated;
+  },
+
+  async deleteDeliveryTemplate(payload: { businessId: string; templateId: string }): Promise<void> {
+    requireStorage();
+
+    await loadOwnTemplate(payload.businessId, payload.templateId);
+    await repository.deleteDeliveryTemplate(payload.templateId);
+    console.log("[DELIVERY SERVICE] Delivery template deleted:", payload.templateId);
+  },
+
+  // Marks the day as used before the delivery is created, so a failed create never turns into a duplicate.
+  async claimDeliveryTemplateOccurrence(templateId: string, date: string): Promise<DeliveryTemplate> {
+    requireStorage();
+
+    const template = await repository.getDeliveryTemplate(templateId);
+    if (!template) {
+      throw new Error("התבנית לא נמצאה");
+    }
+    return repository.updateDeliveryTemplate(templateId, {
+      lastOccurrenceDate: date,
+      skippedDates: pruneSkippedDates(template.skippedDates),
+    });
+  },
+
+  // Undoes a claim whose delivery could not be created, unless a later occurrence has been claimed since.
+  async releaseDeliveryTemplateOccurrence(templateId: string, date: string, previousDate?: string): Promise<void> {
+    requireStorage();
+
+    const template = await repository.getDeliveryTemplate(templateId);
+    if (!template || template.lastOccurrenceDate !== date) {
+      return;
+    }
+    await repository.updateDeliveryTemplate(templateId, { lastOccurrenceDate: previousDate });
+  },
+
+  async updateCustomerSmsSettings(payload: {
+    businessId: string;
+    enabled: boolean;
+    language: CustomerMessageLanguage;
+  }): Promise<User> {
+    requireStorage();
+
+    const business = await this.getUserById(payload.businessId);
+    assertRole(business, "business", "updateCustomerSmsSettings");
+
+    if (!business.businessProfile) {
+      throw new Error("פרופיל העסק לא נמצא");
+    }
+
+    const updated = await saveUser(
+      payload.businessId,
+      { businessProfile: { customerSmsEnabled: payload.enabled, customerSmsLanguage: payload.language } },
+      "שגיאה בעדכון הגדרות ההודעות ללקוחות",
+    );
+
+    console.log("[DELIVERY SERVICE] Customer SMS settings updated:", payload.businessId, payload.enabled, payload.language);
+    systemEvents.emitUserUpdated(updated);
+    return updated;
+  },
+
+  async getCustomerNotifications(filter: CustomerNotificationFilter = {}): Promise<CustomerNotification[]> {
+    return repository.listCustomerNotifications(filter);
+  },
+
+  async recordCustomerNotification(notification: CustomerNotification): Promise<CustomerNotification> {
+    requireStorage();
+    return repository.insertCustomerNotification(notification);
+  },
+};
@@ -0,0 +1,254 @@
+import { Delivery, User } from "../../types/models";
+import { calculateAerialDistance, parseAddressCoordinates } from "../../utils/distanceCalculator";
+import { isHeldForSchedule } from "../../utils/scheduling";
+import { deliveryService } from "./deliveryService";
+import {
+  sendDispatchOfferNotification,
+  sendManagerAssignmentNotification,
+  sendNewDeliveryNotificationToAvailableCouriers,
+} from "./pushNotificationService";
+
+export const AVERAGE_COURIER_SPEED_KMH = 25;
+const LOAD_PENALTY_MINUTES = 10;
+const UNKNOWN_LOCATION_TRAVEL_MINUTES = 30;
+const EARLY_ARRIVAL_WEIGHT = 0.25;
+const DEFAULT_OFFER_WINDOW_SECONDS = 45;
+const MAX_OFFER_ATTEMPTS = 3;
+
+export type DispatchCandidate = {
+  courier: User;
+  distanceKm: number | null;
+  activeDeliveries: number;
+  score: number;
+};
+
+type DispatchSession = {
+  businessName: string;
+  candidates: DispatchCandidate[];
+  excludedCourierIds: string[];
+  declinedCourierIds: string[];
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+const sessions = new Map<string, DispatchSession>();
+
+export const isAutoDispatchEnabled = () => process.env.AUTO_DISPATCH_ENABLED === "true";
+
+const getOfferWindowSeconds = () => {
+  const configured = Number(process.env.AUTO_DISPATCH_OFFER_SECONDS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_OFFER_WINDOW_SECONDS;
+};
+
+export function rankCouriersForDelivery(
+  delivery: Delivery,
+  couriers: User[],
+  deliveries: Delivery[],
+): DispatchCandidate[] {
+  const pickupCoords = parseAddressCoordinates(delivery.pickupAddress);
+  const preparationMinutes = delivery.preparationTimeMinutes ?? 0;
+
+  return couriers
+    .filter((courier) => courier.role === "courier" && courier.courierProfile?.isAvailable === true)
+    .map((courier) => {
+      const activeDeliveries = deliveries.filter(
+        (item) => item.courierId === courier.id && item.status === "taken",
+      ).length;
+      const location = courier.courierProfile?.currentLocation;
+      const distanceKm = pickupCoords && location ? calculateAerialDistance(location, pickupCoords) : null;
+      const travelMinutes =
+        distanceKm === null ? UNKNOWN_LOCATION_TRAVEL_MINUTES : (distanceKm / AVERAGE_COURIER_SPEED_KMH) * 60;
+
+      // Showing up after the food is ready costs the customer; showing up early only idles the courier.
+      const lateMinutes = Math.max(0, travelMinutes - preparationMinutes);
+      const earlyMinutes = Math.max(0, preparationMinutes - travelMinutes);
+      const score = lateMinutes + earlyMinutes * EARLY_ARRIVAL_WEIGHT + activeDeliveries * LOAD_PENALTY_MINUTES;
+
+      return { courier, distanceKm, activeDeliveries, score };
+    })
+    .sort((a, b) => a.score - b.score);
+}
+
+export function stopDispatch(deliveryId: string) {
+  const session = sessions.get(deliveryId);
+  if (!session) {
+    return;
+  }
+  if (session.timer) {
+    clearTimeout(session.timer);
+  }
+  sessions.delete(deliveryId);
+  console.log("[DISPATCH] Session stopped", deliveryId);
+}
+
+async function broadcastDelivery(delivery: Delivery, businessName: string, skipCourierIds: string[]) {
+  const availableCouriers = await deliveryService.getAvailableCouriersWithTokens();
+  const recipients = availableCouriers.filter((courier) => !skipCourierIds.includes(courier.id));
+  await sendNewDeliveryNotificationToAvailableCouriers(delivery, recipients, businessName);
+}
+
+async function offerToNextCandidate(deliveryId: string) {
+  const session = sessions.get(deliveryId);
+  if (!session) {
+    return;
+  }
+
+  const current = await deliveryService.getDeliveryById(deliveryId);
+  if (!current || current.status !== "waiting" || current.courierId) {
+    console.log("[DISPATCH] Delivery no longer waiting, ending dispatch", deliveryId);
+    stopDispatch(deliveryId);
+    return;
+  }
+
+  const next = session.candidates.shift();
+  if (!next) {
+    console.log("[DISPATCH] No candidates left, falling back to broadcast", deliveryId);
+    stopDispatch(deliveryId);
+    await deliveryService.clearDispatchOffer(deliveryId);
+    await broadcastDelivery(current, session.businessName, [
+      ...session.excludedCourierIds,
+      ...session.declinedCourierIds,
+    ]);
+    return;
+  }
+
+  const offerWindowSeconds = getOfferWindowSeconds();
+  const expiresAt = new Date(Date.now() + offerWindowSeconds * 1000).toISOString();
+  const offered = await deliveryService.setDispatchOffer({
+    deliveryId,
+    courierId: next.courier.id,
+    expiresAt,
+  });
+
+  if (!offered) {
+    stopDispatch(deliveryId);
+    return;
+  }
+
+  console.log("[DISPATCH] Offering delivery", {
+    deliveryId,
+    courierId: next.courier.id,
+    score: Math.round(next.score),
+    distanceKm: next.distanceKm,
+    activeDeliveries: next.activeDeliveries,
+  });
+
+  session.timer = setTimeout(() => {
+    session.timer = null;
+    console.log("[DISPATCH] Offer timed out", deliveryId, next.courier.id);
+    offerToNextCandidate(deliveryId)
+      .catch((err) => console.log("[DISPATCH] Failed to advance after timeout", deliveryId, err));
+  }, offerWindowSeconds * 1000);
+
+  await sendDispatchOfferNotification(offered, next.courier, session.businessName, offerWindowSeconds);
+}
+
+export async function dispatchDelivery(
+  delivery: Delivery,
+  businessName: string,
+  options: { excludeCourierIds?: string[] } = {},
+): Promise<void> {
+  const excludedCourierIds = options.excludeCourierIds ?? [];
+
+  if (!isAutoDispatchEnabled()) {
+    await broadcastDelivery(delivery, businessName, excludedCourierIds);
+    return;
+  }
+
+  const [availableCouriers, deliveries] = await Promise.all([
+    deliveryService.getAvailableCouriersWithTokens(),
+    deliveryService.getDeliveries(),
+  ]);
+
+  const candidates = rankCouriersForDelivery(
+    delivery,
+    availableCouriers.filter((courier) => !excludedCourierIds.includes(courier.id)),
+    deliveries,
+  ).slice(0, MAX_OFFER_ATTEMPTS);
+
+  console.log("[DISPATCH] Starting auto-dispatch", delivery.id, "candidates:", candidates.length);
+
+  stopDispatch(delivery.id);
+  sessions.set(delivery.id, {
+    businessName,
+    candidates,
+    excludedCourierIds,
+    declinedCourierIds: [],
+    timer: null,
+  });
+
+  await offerToNextCandidate(delivery.id);
+}
+
+// Business-created and template deliveries both publish through here so couriers are notified the same way.
+export async function createAndDispatchDelivery(
+  payload: Parameters<typeof deliveryService.createDelivery>[0],
+  businessName: string,
+): Promise<Delivery> {
+  const delivery = await deliveryService.createDelivery(payload);
+
+  // Held pre-orders are pushed by the scheduler once their release time arrives.
+  if (isHeldForSchedule(delivery)) {
+    return delivery;
+  }
+
+  dispatchDelivery(delivery, businessName)
+    .catch((err) => console.log("[DISPATCH] Failed to dispatch new delivery", err));
+  return delivery;
+}
+
+export async function declineDispatchOffer(deliveryId: string, courierId: string): Promise<Delivery> {
+  const delivery = await deliveryService.courierDeclineDispatchOffer({ courierId, deliveryId });
+
+  const session = sessions.get(deliveryId);
+  if (session) {
+    if (session.timer) {
+      clearTimeout(session.timer);
+      session.timer = null;
+    }
+    session.declinedCourierIds.push(courierId);
+    offerToNextCandidate(deliveryId)
+      .catch((err) => console.log("[DISPATCH] Failed to advance after decline", deliveryId, err));
+    return delivery;
+  }
+
+  // The server restarted while the offer was open, so there is no queue left to walk.
+  const business = await deliveryService.getUserById(delivery.businessId);
+  broadcastDelivery(delivery, business?.name || "עסק", [courierId])
+    .catch((err) => console.log("[PUSH] Failed to send new delivery notifications", err));
+  return delivery;
+}
+
+// One-tap recovery for at-risk deliveries: hand it to the best-ranked available courier other than the current one.
+export async function reassignToBestCourier(payload: { managerId: string; deliveryId: string }): Promise<Delivery> {
+  const [delivery, users, deliveries] = await Promise.all([
+    deliveryService.getDeliveryById(payload.deliveryId),
+    deliveryService.getUsers(),
+    deliveryService.getDeliveries(),
+  ]);
+  if (!delivery) {
+    throw new Error("המשלוח לא נמצא");
+  }
+
+  const [best] = rankCouriersForDelivery(
+    delivery,
+    users.filter((user) => user.id !== delivery.courierId),
+    deliveries,
+  );
+  if (!best) {
+    throw new Error("אין שליחים זמינים לשיבוץ מחדש");
+  }
+
+  const updated = await deliveryService.managerUpdateDelivery({
+    managerId: payload.managerId,
+    deliveryId: payload.deliveryId,
+    status: "taken",
+    courierId: best.courier.id,
+  });
+  // An auto-dispatch still offering the delivery would otherwise keep pinging couriers.
+  stopDispatch(payload.deliveryId);
+
+  console.log("[DISPATCH] Reassigned by manager", payload.deliveryId, delivery.courierId, "->", best.courier.id);
+  sendManagerAssignmentNotification(updated, best.courier)
+    .catch((err) => console.log("[PUSH] Failed to notify reassigned courier", best.courier.id, err));
+  return updated;
+}
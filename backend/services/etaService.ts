@@ -0,0 +1,126 @@
+import { Delivery, User } from "../../types/models";
+import {
+  computeDeliveryEta,
+  DEFAULT_VEHICLE_SPEEDS_KMH,
+  EtaPosition,
+  getVehicleType,
+  hasEtaChanged,
+  VehicleType,
+} from "../../utils/eta";
+import { deliveryService } from "./deliveryService";
+
+const MINUTE_MS = 60 * 1000;
+const SPEED_HISTORY_DAYS = 30;
+const SPEED_CACHE_MINUTES = 15;
+const MIN_SPEED_SAMPLES = 5;
+const MIN_TRIP_MINUTES = 2;
+// Anything outside this range is a forgotten "complete" tap or a manual fix, not a ride.
+const PLAUSIBLE_SPEED_KMH = { min: 3, max: 80 };
+
+export type VehicleSpeeds = Record<VehicleType, number>;
+
+let speedCache: { speeds: VehicleSpeeds; computedAt: number } | null = null;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Pickup-to-completion speed over the aerial distance, so it already absorbs the detours of real streets.
+export function computeVehicleSpeeds(deliveries: Delivery[], couriers: User[], now = Date.now()): VehicleSpeeds {
+  const vehicleByCourier = new Map(couriers.map((courier) => [courier.id, getVehicleType(courier.courierProfile?.vehicle)]));
+  const since = now - SPEED_HISTORY_DAYS * 24 * 60 * MINUTE_MS;
+  const samples: Record<VehicleType, number[]> = { bicycle: [], motorcycle: [], car: [], other: [] };
+
+  for (const delivery of deliveries) {
+    // Batched stops share one pickup time, so their durations include the earlier stops.
+    if (delivery.status !== "completed" || !delivery.courierId || delivery.batchId) {
+      continue;
+    }
+    if (!delivery.pickedUpAt || !delivery.completedAt || !delivery.distanceKm) {
+      continue;
+    }
+    const completedAt = new Date(delivery.completedAt).getTime();
+    const minutes = (completedAt - new Date(delivery.pickedUpAt).getTime()) / MINUTE_MS;
+    if (completedAt < since || !(minutes >= MIN_TRIP_MINUTES)) {
+      continue;
+    }
+    const speedKmh = delivery.distanceKm / (minutes / 60);
+    if (speedKmh < PLAUSIBLE_SPEED_KMH.min || speedKmh > PLAUSIBLE_SPEED_KMH.max) {
+      continue;
+    }
+    samples[vehicleByCourier.get(delivery.courierId) ?? "other"].push(speedKmh);
+  }
+
+  const speeds = { ...DEFAULT_VEHICLE_SPEEDS_KMH };
+  (Object.keys(samples) as VehicleType[]).forEach((vehicleType) => {
+    if (samples[vehicleType].length >= MIN_SPEED_SAMPLES) {
+      speeds[vehicleType] = Math.round(median(samples[vehicleType]) * 10) / 10;
+    }
+  });
+  return speeds;
+}
+
+async function getVehicleSpeeds(): Promise<VehicleSpeeds> {
+  if (speedCache && Date.now() - speedCache.computedAt < SPEED_CACHE_MINUTES * MINUTE_MS) {
+    return speedCache.speeds;
+  }
+  const [deliveries, users] = await Promise.all([deliveryService.getDeliveries(), deliveryService.getUsers()]);
+  const speeds = computeVehicleSpeeds(deliveries, users.filter((user) => user.role === "courier"));
+  console.log("[ETA] Vehicle speeds recomputed:", speeds);
+  speedCache = { speeds, computedAt: Date.now() };
+  return speeds;
+}
+
+const getEtaPosition = (courier: User | undefined): EtaPosition | null => {
+  const location = courier?.courierProfile?.currentLocation;
+  return location ? { latitude: location.latitude, longitude: location.longitude, recordedAt: location.updatedAt } : null;
+};
+
+async function refreshEtas(deliveries: Delivery[], couriers: User[]): Promise<number> {
+  if (deliveries.length === 0) {
+    return 0;
+  }
+
+  const speeds = await getVehicleSpeeds();
+  const couriersById = new Map(couriers.map((courier) => [courier.id, courier]));
+  const now = Date.now();
+
+  let updatedCount = 0;
+  for (const delivery of deliveries) {
+    const courier = delivery.courierId ? couriersById.get(delivery.courierId) : undefined;
+    const eta = computeDeliveryEta({
+      delivery,
+      position: getEtaPosition(courier),
+      speedKmh: speeds[getVehicleType(courier?.courierProfile?.vehicle)],
+      now,
+    });
+    if (!eta || !delivery.courierId || !hasEtaChanged(delivery.eta, eta)) {
+      continue;
+    }
+    try {
+      const updated = await deliveryService.updateDeliveryEta({ deliveryId: delivery.id, courierId: delivery.courierId, eta });
+      if (updated) {
+        updatedCount += 1;
+      }
+    } catch (error) {
+      console.log("[ETA] Failed to update ETA", delivery.id, error);
+    }
+  }
+  return updatedCount;
+}
+
+export async function refreshCourierEtas(courierId: string): Promise<number> {
+  const [deliveries, courier] = await Promise.all([
+    deliveryService.getCourierActiveDeliveries(courierId),
+    deliveryService.getUserById(courierId),
+  ]);
+  return refreshEtas(deliveries, courier ? [courier] : []);
+}
+
+// Runs on the scheduler so planned ETAs keep moving (and turn late) even when a courier stops reporting.
+export async function refreshActiveEtas(): Promise<number> {
+  const [deliveries, users] = await Promise.all([deliveryService.getDeliveries(), deliveryService.getUsers()]);
+  return refreshEtas(deliveries.filter((delivery) => delivery.status === "taken"), users);
+}
@@ -2,7 +2,18 @@ import { EventEmitter } from "events";
 import { Delivery, User } from "../../types/models";
 
 export type DeliveryEvent = {
-  type: "DELIVERY_CREATED" | "DELIVERY_UPDATED" | "DELIVERY_ASSIGNED" | "DELIVERY_READY" | "DELIVERY_COMPLETED";
+  type:
+    | "DELIVERY_CREATED"
+    | "DELIVERY_UPDATED"
+    | "DELIVERY_ASSIGNED"
+    | "DELIVERY_READY"
+    | "DELIVERY_COMPLETED"
+    | "DELIVERY_CANCELLED"
+    | "DELIVERY_FAILED"
+    | "DELIVERY_RELEASED"
+    | "DELIVERY_OFFERED"
+    | "ETA_UPDATED"
+    | "SLA_BREACHED";
   delivery: Delivery;
   timestamp: string;
 };
@@ -71,6 +82,72 @@ class SystemEventEmitter extends EventEmitter {
     this.emit("delivery:completed", event);
   }
 
+  emitDeliveryCancelled(delivery: Delivery) {
+    const event: DeliveryEvent = {
+      type: "DELIVERY_CANCELLED",
+      delivery,
+      timestamp: new Date().toISOString(),
+    };
+    console.log("[EVENT] Emitting DELIVERY_CANCELLED", delivery.id);
+    this.emit("system:event", event);
+    this.emit("delivery:cancelled", event);
+  }
+
+  emitDeliveryFailed(delivery: Delivery) {
+    const event: DeliveryEvent = {
+      type: "DELIVERY_FAILED",
+      delivery,
+      timestamp: new Date().toISOString(),
+    };
+    console.log("[EVENT] Emitting DELIVERY_FAILED", delivery.id);
+    this.emit("system:event", event);
+    this.emit("delivery:failed", event);
+  }
+
+  emitDeliveryReleased(delivery: Delivery) {
+    const event: DeliveryEvent = {
+      type: "DELIVERY_RELEASED",
+      delivery,
+      timestamp: new Date().toISOString(),
+    };
+    console.log("[EVENT] Emitting DELIVERY_RELEASED", delivery.id);
+    this.emit("system:event", event);
+    this.emit("delivery:released", event);
+  }
+
+  emitDeliveryOffered(delivery: Delivery) {
+    const event: DeliveryEvent = {
+      type: "DELIVERY_OFFERED",
+      delivery,
+      timestamp: new Date().toISOString(),
+    };
+    console.log("[EVENT] Emitting DELIVERY_OFFERED", delivery.id, delivery.dispatchOfferCourierId);
+    this.emit("system:event", event);
+    this.emit("delivery:offered", event);
+  }
+
+  emitEtaUpdated(delivery: Delivery) {
+    const event: DeliveryEvent = {
+      type: "ETA_UPDATED",
+      delivery,
+      timestamp: new Date().toISOString(),
+    };
+    console.log("[EVENT] Emitting ETA_UPDATED", delivery.id, delivery.eta?.dropoffAt, delivery.eta?.isLate);
+    this.emit("system:event", event);
+    this.emit("delivery:eta", event);
+  }
+
+  emitSlaBreached(delivery: Delivery) {
+    const event: DeliveryEvent = {
+      type: "SLA_BREACHED",
+      delivery,
+      timestamp: new Date().toISOString(),
+    };
+    console.log("[EVENT] Emitting SLA_BREACHED", delivery.id, delivery.status);
+    this.emit("system:event", event);
+    this.emit("delivery:sla", event);
+  }
+
   emitUserCreated(user: User) {
     const event: UserEvent = {
       type: "USER_CREATED",
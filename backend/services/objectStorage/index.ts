@@ -0,0 +1,24 @@
+import { localObjectStorage } from "./localObjectStorage";
+import { supabaseObjectStorage } from "./supabaseObjectStorage";
+import { ObjectStorage, ObjectStorageProviderName } from "./types";
+
+export * from "./types";
+
+const providers: Record<ObjectStorageProviderName, ObjectStorage> = {
+  local: localObjectStorage,
+  supabase: supabaseObjectStorage,
+};
+
+export const resolveObjectStorageProvider = (value: string | undefined): ObjectStorageProviderName => {
+  const requested = value?.trim().toLowerCase();
+  if (!requested) {
+    return "local";
+  }
+  if (requested in providers) {
+    return requested as ObjectStorageProviderName;
+  }
+  console.log("[OBJECT STORAGE] Unknown OBJECT_STORAGE_PROVIDER, falling back to local:", requested);
+  return "local";
+};
+
+export const objectStorage: ObjectStorage = providers[resolveObjectStorageProvider(process.env.OBJECT_STORAGE_PROVIDER)];
@@ -0,0 +1,42 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { ObjectStorage } from "./types";
+
+const STORAGE_ROOT = process.env.OBJECT_STORAGE_PATH?.trim() || path.join(process.cwd(), "backend", "data", "uploads");
+
+const contentTypesByExtension: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+};
+
+const resolveObjectPath = (key: string) => {
+  const objectPath = path.resolve(STORAGE_ROOT, key);
+  if (!objectPath.startsWith(path.resolve(STORAGE_ROOT) + path.sep)) {
+    throw new Error(`Invalid object key: ${key}`);
+  }
+  return objectPath;
+};
+
+// Local stand-in for a bucket: objects are plain files under the data directory.
+export const localObjectStorage: ObjectStorage = {
+  provider: "local",
+
+  async put(key, object) {
+    const objectPath = resolveObjectPath(key);
+    await mkdir(path.dirname(objectPath), { recursive: true });
+    await writeFile(objectPath, object.data);
+    console.log("[OBJECT STORAGE] (local) Stored", key, object.data.byteLength);
+  },
+
+  async get(key) {
+    try {
+      const data = await readFile(resolveObjectPath(key));
+      return { data, contentType: contentTypesByExtension[path.extname(key)] ?? "application/octet-stream" };
+    } catch (error) {
+      console.log("[OBJECT STORAGE] (local) Failed to read", key, error);
+      return null;
+    }
+  },
+};
@@ -0,0 +1,35 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import { ObjectStorage } from "./types";
+
+const BUCKET = process.env.SUPABASE_STORAGE_BUCKET?.trim() || "delivery-proofs";
+
+export const supabaseObjectStorage: ObjectStorage = {
+  provider: "supabase",
+
+  async put(key, object) {
+    if (!isSupabaseConfigured()) {
+      throw new Error("Supabase storage is not configured");
+    }
+    const { error } = await supabase.storage.from(BUCKET).upload(key, object.data, {
+      contentType: object.contentType,
+      upsert: false,
+    });
+    if (error) {
+      console.log("[OBJECT STORAGE] (supabase) Upload failed", key, error.message);
+      throw new Error(error.message);
+    }
+    console.log("[OBJECT STORAGE] (supabase) Stored", key, object.data.byteLength);
+  },
+
+  async get(key) {
+    if (!isSupabaseConfigured()) {
+      return null;
+    }
+    const { data, error } = await supabase.storage.from(BUCKET).download(key);
+    if (error || !data) {
+      console.log("[OBJECT STORAGE] (supabase) Download failed", key, error?.message);
+      return null;
+    }
+    return { data: new Uint8Array(await data.arrayBuffer()), contentType: data.type || "application/octet-stream" };
+  },
+};
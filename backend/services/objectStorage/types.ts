@@ -0,0 +1,13 @@
+export type ObjectStorageProviderName = "local" | "supabase";
+
+export type StoredObject = {
+  data: Uint8Array;
+  contentType: string;
+};
+
+// Keys are generated by the backend, so providers can treat them as trusted relative paths.
+export type ObjectStorage = {
+  provider: ObjectStorageProviderName;
+  put(key: string, object: StoredObject): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+};
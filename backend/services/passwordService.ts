@@ -0,0 +1,85 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+export const TEMP_PASSWORD = "1234";
+export const PASSWORD_MIN_LENGTH = 4;
+
+const HASH_PREFIX = "scrypt";
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export type PasswordVerification = {
+  valid: boolean;
+  needsRehash: boolean;
+};
+
+const deriveKey = (password: string, salt: Buffer, cost: number, blockSize: number, parallelization: number): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      { N: cost, r: blockSize, p: parallelization, maxmem: 128 * cost * blockSize * 2 },
+      (error, derivedKey) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(derivedKey);
+      }
+    );
+  });
+};
+
+export const isHashedPassword = (stored: string | null | undefined): boolean => {
+  return typeof stored === "string" && stored.startsWith(`${HASH_PREFIX}$`);
+};
+
+export const isTemporaryPassword = (password: string): boolean => {
+  return password.trim() === TEMP_PASSWORD;
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  const derivedKey = await deriveKey(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION);
+  return [
+    HASH_PREFIX,
+    SCRYPT_COST,
+    SCRYPT_BLOCK_SIZE,
+    SCRYPT_PARALLELIZATION,
+    salt.toString("base64"),
+    derivedKey.toString("base64"),
+  ].join("$");
+};
+
+export const verifyPassword = async (password: string, stored: string | null | undefined): Promise<PasswordVerification> => {
+  if (!stored) {
+    return { valid: false, needsRehash: false };
+  }
+
+  if (!isHashedPassword(stored)) {
+    const expected = Buffer.from(stored);
+    const received = Buffer.from(password);
+    const valid = expected.length === received.length && timingSafeEqual(expected, received);
+    return { valid, needsRehash: valid };
+  }
+
+  const [, costRaw, blockSizeRaw, parallelizationRaw, saltRaw, hashRaw] = stored.split("$");
+  const cost = Number(costRaw);
+  const blockSize = Number(blockSizeRaw);
+  const parallelization = Number(parallelizationRaw);
+  if (!cost || !blockSize || !parallelization || !saltRaw || !hashRaw) {
+    console.log("[AUTH] Stored password hash is malformed");
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(hashRaw, "base64");
+  const derivedKey = await deriveKey(password, Buffer.from(saltRaw, "base64"), cost, blockSize, parallelization);
+  const valid = expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+  const needsRehash =
+    valid &&
+    (cost !== SCRYPT_COST || blockSize !== SCRYPT_BLOCK_SIZE || parallelization !== SCRYPT_PARALLELIZATION);
+  return { valid, needsRehash };
+};
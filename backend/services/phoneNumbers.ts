@@ -0,0 +1,56 @@
+export const PHONE_MIN_DIGITS = 9;
+
+export const normalizePhoneNumber = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+  const hasLeadingPlus = trimmed.startsWith("+");
+  const digits = trimmed.replace(/\D/g, "");
+  if (!digits) return "";
+  return hasLeadingPlus ? `+${digits}` : digits;
+};
+
+export const createPhoneComparisonKey = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+  const digits = trimmed.replace(/\D/g, "");
+  if (!digits) return "";
+  if (digits.startsWith("972") && digits.length >= 11) {
+    const rest = digits.slice(3);
+    return rest.startsWith("0") ? rest.slice(1) : rest;
+  }
+  if (digits.startsWith("0") && digits.length >= PHONE_MIN_DIGITS) {
+    return digits.slice(1);
+  }
+  return digits;
+};
+
+const countDigits = (value: string): number => value.replace(/\D/g, "").length;
+
+export const isValidNormalizedPhone = (phone: string): boolean => {
+  return countDigits(phone) >= PHONE_MIN_DIGITS;
+};
+
+// SMS gateways expect E.164; local numbers are stored the way businesses type them, e.g. 052-1234567.
+export const toInternationalPhoneNumber = (value: string): string | null => {
+  const normalized = normalizePhoneNumber(value);
+  if (!normalized || !isValidNormalizedPhone(normalized)) {
+    return null;
+  }
+  if (normalized.startsWith("+")) {
+    return normalized;
+  }
+  if (normalized.startsWith("972")) {
+    return `+${normalized}`;
+  }
+  return `+972${normalized.startsWith("0") ? normalized.slice(1) : normalized}`;
+};
+
+export const phonesMatch = (candidatePhone: string, normalizedPhone: string): boolean => {
+  const comparisonKey = createPhoneComparisonKey(normalizedPhone);
+  const candidateNormalized = normalizePhoneNumber(candidatePhone);
+  const candidateKey = createPhoneComparisonKey(candidateNormalized || candidatePhone);
+  return (
+    (!!candidateNormalized && candidateNormalized === normalizedPhone) ||
+    (!!candidateKey && !!comparisonKey && candidateKey === comparisonKey)
+  );
+};
@@ -0,0 +1,76 @@
+import { randomUUID } from "node:crypto";
+
+import { ProofOfDelivery, ProofOfDeliveryInput, ProofOfDeliveryView } from "../../types/models";
+import { SIGNATURE_CANVAS } from "../../utils/proofOfDelivery";
+import { DeliveryRejectedError } from "./deliveryRejection";
+import { objectStorage } from "./objectStorage";
+
+const photoFormats = [
+  { extension: "jpg", contentType: "image/jpeg", signature: [0xff, 0xd8, 0xff] },
+  { extension: "png", contentType: "image/png", signature: [0x89, 0x50, 0x4e, 0x47] },
+];
+
+const dataUriPrefix = /^data:([^;]+);base64,/;
+
+const stripDataUriPrefix = (value: string) => value.replace(dataUriPrefix, "");
+
+const buildSignatureSvg = (signaturePath: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SIGNATURE_CANVAS.width} ${SIGNATURE_CANVAS.height}" width="${SIGNATURE_CANVAS.width}" height="${SIGNATURE_CANVAS.height}">` +
+  `<path d="${signaturePath}" fill="none" stroke="#0f172a" stroke-width="3" stroke-linecap="round" stroke-linejoin="round"/>` +
+  `</svg>`;
+
+// Callers validate the input with getProofOfDeliveryError first; this only turns it into stored objects.
+export async function storeProofOfDelivery(
+  deliveryId: string,
+  input: ProofOfDeliveryInput,
+  capturedAt: string,
+): Promise<ProofOfDelivery> {
+  const proof: ProofOfDelivery = {
+    recipientName: input.recipientName?.trim() || undefined,
+    location: input.location,
+    capturedAt,
+  };
+
+  if (input.photoBase64) {
+    const data = new Uint8Array(Buffer.from(stripDataUriPrefix(input.photoBase64), "base64"));
+    const format = photoFormats.find((candidate) => candidate.signature.every((byte, index) => data[index] === byte));
+    if (!format) {
+      throw new DeliveryRejectedError("פורמט התמונה אינו נתמך");
+    }
+    // A data URI that names another type than the bytes carry is refused rather than stored under the wrong type.
+    const declaredType = dataUriPrefix.exec(input.photoBase64)?.[1];
+    if (declaredType && declaredType !== format.contentType) {
+      throw new DeliveryRejectedError("סוג התמונה אינו תואם את תוכן הקובץ");
+    }
+    const photoKey = `proofs/${deliveryId}/photo-${randomUUID()}.${format.extension}`;
+    await objectStorage.put(photoKey, { data, contentType: format.contentType });
+    proof.photoKey = photoKey;
+  }
+
+  if (input.signaturePath) {
+    const signatureKey = `proofs/${deliveryId}/signature-${randomUUID()}.svg`;
+    await objectStorage.put(signatureKey, {
+      data: new TextEncoder().encode(buildSignatureSvg(input.signaturePath.trim())),
+      contentType: "image/svg+xml",
+    });
+    proof.signatureKey = signatureKey;
+  }
+
+  console.log("[PROOF OF DELIVERY] Stored:", deliveryId, objectStorage.provider, !!proof.photoKey, !!proof.signatureKey);
+  return proof;
+}
+
+export async function getProofOfDeliveryView(proof: ProofOfDelivery): Promise<ProofOfDeliveryView> {
+  const [photo, signature] = await Promise.all([
+    proof.photoKey ? objectStorage.get(proof.photoKey) : Promise.resolve(null),
+    proof.signatureKey ? objectStorage.get(proof.signatureKey) : Promise.resolve(null),
+  ]);
+
+  return {
+    recipientName: proof.recipientName ?? null,
+    photoUri: photo ? `data:${photo.contentType};base64,${Buffer.from(photo.data).toString("base64")}` : null,
+    signatureSvg: signature ? new TextDecoder().decode(signature.data) : null,
+    location: proof.location ?? null,
+    capturedAt: proof.capturedAt,
+  };
+}
@@ -0,0 +1,19 @@
+import { PublicUser, User, UserDirectoryEntry } from "../../types/models";
+
+export const toPublicUser = ({ password: _password, ...user }: User): PublicUser => user;
+
+export const toDirectoryEntry = (user: User): UserDirectoryEntry => ({
+  id: user.id,
+  name: user.name,
+  phone: user.phone,
+  role: user.role,
+  ...(user.courierProfile ? { courierProfile: { vehicle: user.courierProfile.vehicle } } : {}),
+  ...(user.businessProfile
+    ? {
+        businessProfile: {
+          address: user.businessProfile.address,
+          proofOfDeliveryRequired: user.businessProfile.proofOfDeliveryRequired,
+        },
+      }
+    : {}),
+});
@@ -1,4 +1,5 @@
-import { User, Delivery } from "../../types/models";
+import { User, Delivery, SlaAlert } from "../../types/models";
+import { slaStageLabels } from "../../utils/sla";
 
 const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
 
@@ -97,6 +98,38 @@ export async function sendNewDeliveryNotificationToAvailableCouriers(
   await sendPushNotifications(messages);
 }
 
+export async function sendDispatchOfferNotification(
+  delivery: Delivery,
+  courier: User,
+  businessName: string,
+  offerWindowSeconds: number
+): Promise<void> {
+  if (!courier.pushToken) {
+    console.log("[PUSH] Courier has no push token", courier.id);
+    return;
+  }
+
+  console.log("[PUSH] Sending dispatch offer to courier", courier.id, delivery.id);
+
+  const messages: ExpoPushMessage[] = [{
+    to: courier.pushToken,
+    sound: "default" as const,
+    title: "🎯 משלוח הוצע לך!",
+    body: `${businessName} - ${delivery.dropoffAddress}. יש לך ${offerWindowSeconds} שניות לאשר`,
+    data: {
+      type: "dispatch_offer",
+      deliveryId: delivery.id,
+      pickupAddress: delivery.pickupAddress,
+      dropoffAddress: delivery.dropoffAddress,
+      expiresAt: delivery.dispatchOfferExpiresAt,
+    },
+    priority: "high" as const,
+    ttl: offerWindowSeconds,
+  }];
+
+  await sendPushNotifications(messages);
+}
+
 export async function sendDeliveryReadyNotification(
   delivery: Delivery,
   courier: User
@@ -148,3 +181,111 @@ export async function sendDeliveryAssignedNotification(
 
   await sendPushNotifications(messages);
 }
+
+export async function sendDeliveryCancelledNotification(
+  delivery: Delivery,
+  courier: User
+): Promise<void> {
+  if (!courier.pushToken) {
+    console.log("[PUSH] Courier has no push token", courier.id);
+    return;
+  }
+
+  console.log("[PUSH] Sending delivery cancelled notification to courier", courier.id);
+
+  const messages: ExpoPushMessage[] = [{
+    to: courier.pushToken,
+    sound: "default" as const,
+    title: "❌ המשלוח בוטל",
+    body: `העסק ביטל את המשלוח ל-${delivery.dropoffAddress}`,
+    data: {
+      type: "delivery_cancelled",
+      deliveryId: delivery.id,
+    },
+    priority: "high" as const,
+  }];
+
+  await sendPushNotifications(messages);
+}
+
+export async function sendDeliveryFailedNotification(
+  delivery: Delivery,
+  business: User
+): Promise<void> {
+  if (!business.pushToken) {
+    console.log("[PUSH] Business has no push token", business.id);
+    return;
+  }
+
+  console.log("[PUSH] Sending delivery failed notification to business", business.id);
+
+  const messages: ExpoPushMessage[] = [{
+    to: business.pushToken,
+    sound: "default" as const,
+    title: "⚠️ המשלוח לא נמסר",
+    body: `השליח דיווח על כישלון במסירה ל-${delivery.dropoffAddress}`,
+    data: {
+      type: "delivery_failed",
+      deliveryId: delivery.id,
+    },
+    priority: "high" as const,
+  }];
+
+  await sendPushNotifications(messages);
+}
+
+export async function sendSlaBreachNotification(
+  delivery: Delivery,
+  alert: SlaAlert,
+  managers: User[]
+): Promise<void> {
+  const managersWithTokens = managers.filter((manager) => manager.role === "manager" && manager.pushToken);
+
+  if (managersWithTokens.length === 0) {
+    console.log("[PUSH] No managers with push tokens to alert about SLA breach");
+    return;
+  }
+
+  console.log("[PUSH] Alerting", managersWithTokens.length, "managers about SLA breach", delivery.id, alert.stage);
+
+  const messages: ExpoPushMessage[] = managersWithTokens.map((manager) => ({
+    to: manager.pushToken!,
+    sound: "default" as const,
+    title: "⏱️ משלוח בחריגת זמנים",
+    body: `${slaStageLabels[alert.stage]}: ${alert.elapsedMinutes} דק׳ (יעד ${alert.limitMinutes} דק׳) - ${delivery.dropoffAddress}`,
+    data: {
+      type: "sla_breached",
+      deliveryId: delivery.id,
+      stage: alert.stage,
+    },
+    priority: "high" as const,
+  }));
+
+  await sendPushNotifications(messages);
+}
+
+export async function sendManagerAssignmentNotification(
+  delivery: Delivery,
+  courier: User
+): Promise<void> {
+  if (!courier.pushToken) {
+    console.log("[PUSH] Courier has no push token", courier.id);
+    return;
+  }
+
+  console.log("[PUSH] Sending manager assignment notification to courier", courier.id);
+
+  const messages: ExpoPushMessage[] = [{
+    to: courier.pushToken,
+    sound: "default" as const,
+    title: "📦 שובצת למשלוח",
+    body: `המנהל שיבץ אותך למשלוח מ-${delivery.pickupAddress} ל-${delivery.dropoffAddress}`,
+    data: {
+      type: "manager_assigned",
+      deliveryId: delivery.id,
+    },
+    priority: "high" as const,
+  }];
+
+  await sendPushNotifications(messages);
+}
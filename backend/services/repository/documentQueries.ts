@@ -0,0 +1,84 @@
+import { BusinessInvoice, CourierSettlement, CustomerNotification, Delivery, DeliveryTemplate, User } from "../../../types/models";
+import {
+  CustomerNotificationFilter,
+  DeliveryChanges,
+  DeliveryFilter,
+  DeliveryMatch,
+  DeliveryTemplateChanges,
+  UserChanges,
+} from "./types";
+
+// Shared by the adapters that keep whole records in memory or as JSON documents.
+
+export const matchesDeliveryFilter = (delivery: Delivery, filter: DeliveryFilter = {}): boolean => {
+  if (filter.ids && !filter.ids.includes(delivery.id)) return false;
+  if (filter.status && delivery.status !== filter.status) return false;
+  if (filter.courierId && delivery.courierId !== filter.courierId) return false;
+  if (filter.businessId && delivery.businessId !== filter.businessId) return false;
+  if (filter.batchId && delivery.batchId !== filter.batchId) return false;
+  if (filter.unsettled && delivery.settlementId) return false;
+  if (filter.trackingToken && delivery.trackingToken !== filter.trackingToken) return false;
+  return true;
+};
+
+export const matchesCustomerNotificationFilter = (
+  notification: CustomerNotification,
+  filter: CustomerNotificationFilter = {},
+): boolean => {
+  if (filter.deliveryId && notification.deliveryId !== filter.deliveryId) return false;
+  if (filter.businessId && notification.businessId !== filter.businessId) return false;
+  return true;
+};
+
+export const matchesDelivery = (delivery: Delivery, match: DeliveryMatch = {}): boolean => {
+  return (Object.keys(match) as (keyof DeliveryMatch)[]).every(
+    (key) => (delivery[key] ?? null) === (match[key] ?? null),
+  );
+};
+
+export const applyDeliveryChanges = (delivery: Delivery, changes: DeliveryChanges): Delivery => {
+  const next: Delivery = { ...delivery, ...changes };
+  (Object.keys(changes) as (keyof DeliveryChanges)[]).forEach((key) => {
+    if (changes[key] === undefined) {
+      delete next[key];
+    }
+  });
+  return next;
+};
+
+export const applyTemplateChanges = (template: DeliveryTemplate, changes: DeliveryTemplateChanges): DeliveryTemplate => {
+  const next: DeliveryTemplate = { ...template, ...changes, updatedAt: new Date().toISOString() };
+  if ("lastOccurrenceDate" in changes && changes.lastOccurrenceDate === undefined) {
+    delete next.lastOccurrenceDate;
+  }
+  return next;
+};
+
+export const applyUserChanges = (user: User, changes: UserChanges): User => {
+  const { courierProfile, businessProfile, ...fields } = changes;
+  const next: User = { ...user, ...fields };
+  if (courierProfile) {
+    next.courierProfile = { ...user.courierProfile, ...courierProfile } as User["courierProfile"];
+  }
+  if (businessProfile) {
+    next.businessProfile = { ...user.businessProfile, ...businessProfile } as User["businessProfile"];
+  }
+  return next;
+};
+
+export const withAvailabilityDefault = (user: User): User => {
+  if (user.role === "courier" && user.courierProfile && user.courierProfile.isAvailable === undefined) {
+    return { ...user, courierProfile: { ...user.courierProfile, isAvailable: false } };
+  }
+  return user;
+};
+
+export const byCreatedAtDesc = (a: { createdAt: string }, b: { createdAt: string }) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+export const byCreatedAtAsc = (a: { createdAt: string }, b: { createdAt: string }) =>
+  a.createdAt.localeCompare(b.createdAt);
+
+export const byPeriodEndDesc = (a: CourierSettlement, b: CourierSettlement) => b.periodEnd.localeCompare(a.periodEnd);
+
+export const byInvoiceNumberDesc = (a: BusinessInvoice, b: BusinessInvoice) => b.invoiceNumber - a.invoiceNumber;
@@ -0,0 +1,36 @@
+import { isBuiltin } from "node:module";
+
+import { jsonFileRepository } from "./jsonFileRepository";
+import { sqliteRepository } from "./sqliteRepository";
+import { supabaseRepository } from "./supabaseRepository";
+import { DeliveryRepository, StorageBackend } from "./types";
+
+export * from "./types";
+
+const repositories: Record<StorageBackend, DeliveryRepository> = {
+  supabase: supabaseRepository,
+  json: jsonFileRepository,
+  sqlite: sqliteRepository,
+};
+
+export const resolveStorageBackend = (value: string | undefined): StorageBackend => {
+  const requested = value?.trim().toLowerCase();
+  if (!requested) {
+    return "supabase";
+  }
+  // node:sqlite only ships with Node.js 22.5+ and Bun; without it every request would fail on first use.
+  if (requested === "sqlite" && !isBuiltin("node:sqlite")) {
+    throw new Error(
+      `STORAGE_BACKEND=sqlite needs the built-in node:sqlite module (Node.js 22.5 or newer, or Bun). This runtime is Node.js ${process.version}.`,
+    );
+  }
+  if (requested in repositories) {
+    return requested as StorageBackend;
+  }
+  console.log("[STORAGE] Unknown STORAGE_BACKEND, falling back to supabase:", requested);
+  return "supabase";
+};
+
+export const deliveryRepository: DeliveryRepository = repositories[resolveStorageBackend(process.env.STORAGE_BACKEND)];
+
+console.log("[STORAGE] Using storage backend:", deliveryRepository.backend);
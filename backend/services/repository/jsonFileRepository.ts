@@ -0,0 +1,537 @@
+import { mkdir, readFile, writeFile, rename, rm } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  BusinessInvoice,
+  BusinessPricingOverride,
+  CourierSettlement,
+  Customer,
+  CustomerNotification,
+  Delivery,
+  DeliveryHistoryEntry,
+  DeliveryTemplate,
+  PricingRules,
+  User,
+} from "../../../types/models";
+import { DEFAULT_PRICING_RULES } from "../../../utils/pricing";
+import { createPhoneComparisonKey, isValidNormalizedPhone, normalizePhoneNumber } from "../phoneNumbers";
+import {
+  applyDeliveryChanges,
+  applyTemplateChanges,
+  applyUserChanges,
+  byCreatedAtAsc,
+  byCreatedAtDesc,
+  byInvoiceNumberDesc,
+  byPeriodEndDesc,
+  matchesCustomerNotificationFilter,
+  matchesDelivery,
+  matchesDeliveryFilter,
+  withAvailabilityDefault,
+} from "./documentQueries";
+import { SEED_USERS } from "./seedUsers";
+import { DeliveryRepository } from "./types";
+
+const DATA_DIR = process.env.STORAGE_JSON_DIR?.trim() || path.join(process.cwd(), "backend", "data");
+const DATA_FILE_PATH = path.join(DATA_DIR, "store.json");
+const BACKUP_FILE_PATH = path.join(DATA_DIR, "store.backup.json");
+
+type DataStore = {
+  users: User[];
+  deliveries: Delivery[];
+  deliveryHistory: DeliveryHistoryEntry[];
+  pricingRules: PricingRules;
+  pricingOverrides: BusinessPricingOverride[];
+  settlements: CourierSettlement[];
+  invoices: BusinessInvoice[];
+  customers: Customer[];
+  deliveryTemplates: DeliveryTemplate[];
+  customerNotifications: CustomerNotification[];
+};
+
+let cache: DataStore | null = null;
+let pending: Promise<DataStore> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+const cloneData = <T>(data: T): T => (data === undefined ? data : (JSON.parse(JSON.stringify(data)) as T));
+
+const getErrorCode = (error: unknown): string | undefined => {
+  if (error && typeof error === "object" && "code" in error) {
+    const candidate = (error as { code?: unknown }).code;
+    if (typeof candidate === "string") {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+const createTempFilePath = (): string => {
+  const suffix = `${Date.now()}-${Math.round(Math.random() * 1000000)}`;
+  return path.join(DATA_DIR, `store-${suffix}.tmp`);
+};
+
+const parseDataStore = (raw: string): DataStore | null => {
+  try {
+    const parsed = JSON.parse(raw) as Partial<DataStore>;
+    if (!parsed || !Array.isArray(parsed.users) || !Array.isArray(parsed.deliveries)) {
+      return null;
+    }
+    return {
+      users: parsed.users as User[],
+      deliveries: parsed.deliveries as Delivery[],
+      deliveryHistory: Array.isArray(parsed.deliveryHistory) ? (parsed.deliveryHistory as DeliveryHistoryEntry[]) : [],
+      pricingRules: parsed.pricingRules ? { ...DEFAULT_PRICING_RULES, ...parsed.pricingRules } : DEFAULT_PRICING_RULES,
+      pricingOverrides: Array.isArray(parsed.pricingOverrides) ? (parsed.pricingOverrides as BusinessPricingOverride[]) : [],
+      settlements: Array.isArray(parsed.settlements) ? (parsed.settlements as CourierSettlement[]) : [],
+      invoices: Array.isArray(parsed.invoices) ? (parsed.invoices as BusinessInvoice[]) : [],
+      customers: Array.isArray(parsed.customers) ? (parsed.customers as Customer[]) : [],
+      deliveryTemplates: Array.isArray(parsed.deliveryTemplates) ? (parsed.deliveryTemplates as DeliveryTemplate[]) : [],
+      customerNotifications: Array.isArray(parsed.customerNotifications)
+        ? (parsed.customerNotifications as CustomerNotification[])
+        : [],
+    };
+  } catch (error) {
+    console.log("Persistent data JSON parse error", error);
+    return null;
+  }
+};
+
+const readDataFile = async (filePath: string, label: string): Promise<DataStore | null> => {
+  try {
+    const raw = await readFile(filePath, "utf-8");
+    if (!raw) {
+      console.log(`${label} persistent data file empty`, filePath);
+      return null;
+    }
+    const parsed = parseDataStore(raw);
+    if (!parsed) {
+      console.log(`${label} persistent data invalid`, filePath);
+      return null;
+    }
+    return parsed;
+  } catch (error) {
+    if (getErrorCode(error) === "ENOENT") {
+      console.log(`${label} persistent data file missing`, filePath);
+      return null;
+    }
+    console.log(`${label} persistent data read failed`, error);
+    return null;
+  }
+};
+
+const writeAtomicPayload = async (payload: string) => {
+  let tempPath: string | null = null;
+  try {
+    tempPath = createTempFilePath();
+    await writeFile(tempPath, payload, { encoding: "utf-8" });
+    await rm(BACKUP_FILE_PATH, { force: true });
+    try {
+      await rename(DATA_FILE_PATH, BACKUP_FILE_PATH);
+    } catch (error) {
+      if (getErrorCode(error) !== "ENOENT") {
+        throw error;
+      }
+    }
+    await rename(tempPath, DATA_FILE_PATH);
+  } catch (error) {
+    if (tempPath) {
+      try {
+        await rm(tempPath, { force: true });
+      } catch (cleanupError) {
+        console.log("Persistent temp file cleanup failed", cleanupError);
+      }
+    }
+    try {
+      await rename(BACKUP_FILE_PATH, DATA_FILE_PATH);
+    } catch (restoreError) {
+      const code = getErrorCode(restoreError);
+      if (code && code !== "ENOENT") {
+        console.log("Persistent data restore attempt failed", restoreError);
+      }
+    }
+    throw error;
+  }
+};
+
+const writePersistedData = async (data: DataStore) => {
+  try {
+    await mkdir(DATA_DIR, { recursive: true });
+    await writeAtomicPayload(JSON.stringify(data, null, 2));
+    console.log("Persistent data saved", {
+      users: data.users.length,
+      deliveries: data.deliveries.length,
+    });
+  } catch (error) {
+    console.log("Persistent data write failed", error);
+  }
+};
+
+const readPersistedData = async (): Promise<DataStore | null> => {
+  const primary = await readDataFile(DATA_FILE_PATH, "Primary");
+  if (primary) {
+    console.log("Persistent data loaded", {
+      users: primary.users.length,
+      deliveries: primary.deliveries.length,
+    });
+    return primary;
+  }
+  const backup = await readDataFile(BACKUP_FILE_PATH, "Backup");
+  if (backup) {
+    console.log("Persistent data recovered from backup", {
+      users: backup.users.length,
+      deliveries: backup.deliveries.length,
+    });
+    await writePersistedData(backup);
+    return backup;
+  }
+  return null;
+};
+
+// Older files may hold unnormalized or duplicate phone numbers; keep the first account per number.
+const normalizeAndDedupeUsers = (users: User[]): { normalized: User[]; changed: boolean } => {
+  const seen = new Set<string>();
+  let hasChanges = false;
+
+  const normalized = users.reduce<User[]>((accumulator, candidate) => {
+    const normalizedPhone = normalizePhoneNumber(candidate.phone);
+    if (!normalizedPhone || !isValidNormalizedPhone(normalizedPhone)) {
+      accumulator.push(candidate);
+      return accumulator;
+    }
+
+    const uniqueKey = createPhoneComparisonKey(normalizedPhone) || normalizedPhone;
+    if (seen.has(uniqueKey)) {
+      hasChanges = true;
+      return accumulator;
+    }
+    seen.add(uniqueKey);
+
+    if (candidate.phone !== normalizedPhone) {
+      hasChanges = true;
+      accumulator.push({ ...candidate, phone: normalizedPhone });
+      return accumulator;
+    }
+    accumulator.push(candidate);
+    return accumulator;
+  }, []);
+
+  return { normalized, changed: hasChanges };
+};
+
+const ensureManagerExists = (users: User[]): { normalized: User[]; changed: boolean } => {
+  if (users.some((candidate) => candidate.role === "manager")) {
+    return { normalized: users, changed: false };
+  }
+  return { normalized: [SEED_USERS[0], ...users], changed: true };
+};
+
+const loadData = async (): Promise<DataStore> => {
+  if (cache) {
+    return cache;
+  }
+  if (pending) {
+    return pending;
+  }
+
+  pending = (async () => {
+    console.log("[JSON STORE] Starting data load operation");
+    const persisted = await readPersistedData();
+    const base: DataStore = persisted ?? {
+      users: cloneData(SEED_USERS),
+      deliveries: [],
+      deliveryHistory: [],
+      pricingRules: DEFAULT_PRICING_RULES,
+      pricingOverrides: [],
+      settlements: [],
+      invoices: [],
+      customers: [],
+      deliveryTemplates: [],
+      customerNotifications: [],
+    };
+
+    const { normalized: dedupedUsers, changed: dedupeChanged } = normalizeAndDedupeUsers(base.users);
+    const { normalized: users, changed: seedChanged } = ensureManagerExists(dedupedUsers);
+    cache = { ...base, users };
+
+    if (!persisted || dedupeChanged || seedChanged) {
+      console.log("[JSON STORE] Writing normalized data to file");
+      await writePersistedData(cache);
+    }
+
+    pending = null;
+    console.log("[JSON STORE] Loaded:", cache.users.length, "users,", cache.deliveries.length, "deliveries");
+    return cache;
+  })();
+
+  return pending;
+};
+
+// Mutations run synchronously against the cache; file writes are queued so they land in order.
+const mutate = async <T>(apply: (data: DataStore) => T): Promise<T> => {
+  const data = await loadData();
+  const result = apply(data);
+  const snapshot = cloneData(data);
+  writeQueue = writeQueue.then(() => writePersistedData(snapshot));
+  await writeQueue;
+  return cloneData(result);
+};
+
+const findUserIndex = (data: DataStore, userId: string): number => {
+  const index = data.users.findIndex((candidate) => candidate.id === userId);
+  if (index === -1) {
+    throw new Error("המשתמש לא נמצא");
+  }
+  return index;
+};
+
+export const jsonFileRepository: DeliveryRepository = {
+  backend: "json",
+
+  isReady() {
+    return true;
+  },
+
+  async listUsers() {
+    const data = await loadData();
+    return cloneData(data.users).map(withAvailabilityDefault);
+  },
+
+  async getUser(userId) {
+    const data = await loadData();
+    const user = data.users.find((candidate) => candidate.id === userId);
+    return user ? withAvailabilityDefault(cloneData(user)) : undefined;
+  },
+
+  async insertUser(user) {
+    return mutate((data) => {
+      data.users = [...data.users, user];
+      return user;
+    });
+  },
+
+  async updateUser(userId, changes) {
+    return mutate((data) => {
+      const index = findUserIndex(data, userId);
+      const updated = applyUserChanges(data.users[index], changes);
+      data.users[index] = updated;
+      return withAvailabilityDefault(updated);
+    });
+  },
+
+  async listDeliveries(filter) {
+    const data = await loadData();
+    return cloneData(data.deliveries.filter((delivery) => matchesDeliveryFilter(delivery, filter))).sort(byCreatedAtDesc);
+  },
+
+  async getDelivery(deliveryId) {
+    const data = await loadData();
+    const delivery = data.deliveries.find((candidate) => candidate.id === deliveryId);
+    return delivery ? cloneData(delivery) : undefined;
+  },
+
+  async insertDelivery(delivery) {
+    return mutate((data) => {
+      data.deliveries = [delivery, ...data.deliveries];
+      return delivery;
+    });
+  },
+
+  async updateDelivery(deliveryId, changes, match) {
+    const [updated] = await this.updateDeliveries([deliveryId], changes, match);
+    return updated;
+  },
+
+  async updateDeliveries(deliveryIds, changes, match) {
+    return mutate((data) => {
+      const updated: Delivery[] = [];
+      data.deliveries = data.deliveries.map((delivery) => {
+        if (!deliveryIds.includes(delivery.id) || !matchesDelivery(delivery, match)) {
+          return delivery;
+        }
+        const next = applyDeliveryChanges(delivery, changes);
+        updated.push(next);
+        return next;
+      });
+      return updated;
+    });
+  },
+
+  async appendHistory(entry) {
+    await mutate((data) => {
+      data.deliveryHistory = [...data.deliveryHistory, entry];
+    });
+  },
+
+  async listHistory(deliveryId) {
+    const data = await loadData();
+    return cloneData(data.deliveryHistory.filter((entry) => entry.deliveryId === deliveryId)).sort(byCreatedAtAsc);
+  },
+
+  async getPricingRules() {
+    const data = await loadData();
+    return cloneData(data.pricingRules);
+  },
+
+  async savePricingRules(rules) {
+    return mutate((data) => {
+      data.pricingRules = rules;
+      return rules;
+    });
+  },
+
+  async listPricingOverrides() {
+    const data = await loadData();
+    return cloneData(data.pricingOverrides);
+  },
+
+  async getPricingOverride(businessId) {
+    const data = await loadData();
+    const override = data.pricingOverrides.find((candidate) => candidate.businessId === businessId);
+    return override ? cloneData(override) : null;
+  },
+
+  async savePricingOverride(override) {
+    return mutate((data) => {
+      data.pricingOverrides = [
+        ...data.pricingOverrides.filter((candidate) => candidate.businessId !== override.businessId),
+        override,
+      ];
+      return override;
+    });
+  },
+
+  async deletePricingOverride(businessId) {
+    await mutate((data) => {
+      data.pricingOverrides = data.pricingOverrides.filter((candidate) => candidate.businessId !== businessId);
+    });
+  },
+
+  async listSettlements(courierId) {
+    const data = await loadData();
+    return cloneData(
+      data.settlements.filter((settlement) => !courierId || settlement.courierId === courierId),
+    ).sort(byPeriodEndDesc);
+  },
+
+  async insertSettlement(settlement) {
+    return mutate((data) => {
+      data.settlements = [settlement, ...data.settlements];
+      return settlement;
+    });
+  },
+
+  async markSettlementPaid(settlementId, paidBy, paidAt) {
+    return mutate((data) => {
+      const index = data.settlements.findIndex(
+        (candidate) => candidate.id === settlementId && candidate.status === "unpaid",
+      );
+      if (index === -1) {
+        return undefined;
+      }
+      const updated: CourierSettlement = { ...data.settlements[index], status: "paid", paidBy, paidAt };
+      data.settlements[index] = updated;
+      return updated;
+    });
+  },
+
+  async deleteSettlement(settlementId) {
+    await mutate((data) => {
+      data.settlements = data.settlements.filter((candidate) => candidate.id !== settlementId);
+    });
+  },
+
+  async listInvoices(businessId) {
+    const data = await loadData();
+    return cloneData(data.invoices.filter((invoice) => !businessId || invoice.businessId === businessId)).sort(
+      byInvoiceNumberDesc,
+    );
+  },
+
+  async insertInvoice(invoice) {
+    return mutate((data) => {
+      const created: BusinessInvoice = {
+        ...invoice,
+        invoiceNumber: data.invoices.reduce((max, current) => Math.max(max, current.invoiceNumber), 0) + 1,
+        createdAt: new Date().toISOString(),
+      };
+      data.invoices = [created, ...data.invoices];
+      return created;
+    });
+  },
+
+  async listCustomers() {
+    const data = await loadData();
+    return cloneData(data.customers);
+  },
+
+  async insertCustomer(customer) {
+    return mutate((data) => {
+      const now = new Date().toISOString();
+      const created: Customer = { ...customer, createdAt: customer.createdAt ?? now, updatedAt: now };
+      data.customers = [...data.customers, created];
+      return created;
+    });
+  },
+
+  async updateCustomer(customerId, changes) {
+    return mutate((data) => {
+      const index = data.customers.findIndex((candidate) => candidate.id === customerId);
+      if (index === -1) {
+        throw new Error("הלקוח לא נמצא");
+      }
+      const updated: Customer = { ...data.customers[index], ...changes, updatedAt: new Date().toISOString() };
+      data.customers[index] = updated;
+      return updated;
+    });
+  },
+
+  async listDeliveryTemplates(businessId) {
+    const data = await loadData();
+    return cloneData(
+      data.deliveryTemplates.filter((template) => !businessId || template.businessId === businessId),
+    ).sort(byCreatedAtAsc);
+  },
+
+  async getDeliveryTemplate(templateId) {
+    const data = await loadData();
+    return cloneData(data.deliveryTemplates.find((template) => template.id === templateId));
+  },
+
+  async insertDeliveryTemplate(template) {
+    return mutate((data) => {
+      data.deliveryTemplates = [...data.deliveryTemplates, template];
+      return template;
+    });
+  },
+
+  async updateDeliveryTemplate(templateId, changes) {
+    return mutate((data) => {
+      const index = data.deliveryTemplates.findIndex((candidate) => candidate.id === templateId);
+      if (index === -1) {
+        throw new Error("התבנית לא נמצאה");
+      }
+      const updated = applyTemplateChanges(data.deliveryTemplates[index], changes);
+      data.deliveryTemplates[index] = updated;
+      return updated;
+    });
+  },
+
+  async deleteDeliveryTemplate(templateId) {
+    await mutate((data) => {
+      data.deliveryTemplates = data.deliveryTemplates.filter((candidate) => candidate.id !== templateId);
+    });
+  },
+
+  async listCustomerNotifications(filter) {
+    const data = await loadData();
+    return cloneData(
+      data.customerNotifications.filter((notification) => matchesCustomerNotificationFilter(notification, filter)),
+    ).sort(byCreatedAtDesc);
+  },
+
+  async insertCustomerNotification(notification) {
+    return mutate((data) => {
+      data.customerNotifications = [...data.customerNotifications, notification];
+      return notification;
+    });
+  },
+};
@@ -0,0 +1,54 @@
+import { User } from "../../../types/models";
+import { TEMP_PASSWORD } from "../passwordService";
+
+// Local backends start with these accounts so a fresh install always has a manager to sign in with.
+// Every password here is public, so each account has to pick its own before it can use the API.
+export const SEED_USERS: User[] = [
+  {
+    id: "manager-root",
+    name: "מנהל ראשי",
+    phone: "+972500000000",
+    password: TEMP_PASSWORD,
+    role: "manager",
+    mustChangePassword: true,
+    email: "admin@droppi.co.il",
+  },
+  {
+    id: "manager-operations",
+    name: "תמיכה מנהלתית",
+    phone: "+972500000009",
+    password: "5678",
+    role: "manager",
+    mustChangePassword: true,
+    email: "operations@droppi.co.il",
+  },
+  {
+    id: "manager-central",
+    name: "מנהלת סניף מרכז",
+    phone: "+972500000123",
+    password: "2468",
+    role: "manager",
+    mustChangePassword: true,
+    email: "central@droppi.co.il",
+  },
+  {
+    id: "courier-default",
+    name: "דניאל כהן",
+    phone: "+972500000200",
+    password: TEMP_PASSWORD,
+    role: "courier",
+    mustChangePassword: true,
+    email: "courier@droppi.co.il",
+    courierProfile: {
+      age: 28,
+      email: "courier@droppi.co.il",
+      vehicle: "אופנוע",
+      isAvailable: false,
+    },
+  },
+];
+
+// Stores seeded before every account carried the flag still hold these passwords, so signing in with one flags it again.
+export const hasSeedPassword = (user: User, password: string): boolean => {
+  return SEED_USERS.some((seed) => seed.id === user.id && seed.password === password.trim());
+};
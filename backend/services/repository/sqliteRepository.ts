@@ -0,0 +1,381 @@
+import path from "node:path";
+import { mkdir } from "node:fs/promises";
+import type { DatabaseSync } from "node:sqlite";
+
+import {
+  BusinessInvoice,
+  BusinessPricingOverride,
+  CourierSettlement,
+  Customer,
+  CustomerNotification,
+  Delivery,
+  DeliveryHistoryEntry,
+  DeliveryTemplate,
+  PricingRules,
+  User,
+} from "../../../types/models";
+import {
+  applyDeliveryChanges,
+  applyTemplateChanges,
+  applyUserChanges,
+  byCreatedAtAsc,
+  byCreatedAtDesc,
+  byInvoiceNumberDesc,
+  byPeriodEndDesc,
+  matchesCustomerNotificationFilter,
+  matchesDelivery,
+  matchesDeliveryFilter,
+  withAvailabilityDefault,
+} from "./documentQueries";
+import { SEED_USERS } from "./seedUsers";
+import { DeliveryRepository } from "./types";
+
+const DATABASE_PATH =
+  process.env.SQLITE_DATABASE_PATH?.trim() || path.join(process.cwd(), "backend", "data", "droppi.sqlite");
+
+// Every record is stored whole as JSON; lookups that need an index use json_extract.
+const TABLES = [
+  "users",
+  "deliveries",
+  "delivery_history",
+  "pricing_rules",
+  "pricing_overrides",
+  "settlements",
+  "invoices",
+  "customers",
+  "delivery_templates",
+  "customer_notifications",
+] as const;
+
+type Table = (typeof TABLES)[number];
+
+let database: DatabaseSync | null = null;
+let opening: Promise<DatabaseSync> | null = null;
+
+const openDatabase = async (): Promise<DatabaseSync> => {
+  if (database) {
+    return database;
+  }
+  if (opening) {
+    return opening;
+  }
+
+  opening = (async () => {
+    const { DatabaseSync: Database } = await import("node:sqlite");
+    await mkdir(path.dirname(DATABASE_PATH), { recursive: true });
+    const db = new Database(DATABASE_PATH);
+    db.exec("PRAGMA journal_mode = WAL");
+    TABLES.forEach((table) => {
+      db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+    });
+    db.exec("CREATE INDEX IF NOT EXISTS idx_delivery_history_delivery ON delivery_history (json_extract(data, '$.deliveryId'))");
+    db.exec("CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_number ON invoices (json_extract(data, '$.invoiceNumber'))");
+
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM users").get() as { count: number };
+    if (count === 0) {
+      console.log("[SQLITE] Empty database, seeding default users");
+      SEED_USERS.forEach((user) => writeDocument(db, "users", user.id, user));
+    }
+
+    console.log("[SQLITE] Database ready:", DATABASE_PATH);
+    database = db;
+    opening = null;
+    return db;
+  })();
+
+  return opening;
+};
+
+const readDocuments = <T>(db: DatabaseSync, table: Table, where = "", ...params: (string | number)[]): T[] => {
+  const rows = db.prepare(`SELECT data FROM ${table} ${where}`).all(...params) as { data: string }[];
+  return rows.map((row) => JSON.parse(row.data) as T);
+};
+
+const readDocument = <T>(db: DatabaseSync, table: Table, id: string): T | undefined => {
+  const row = db.prepare(`SELECT data FROM ${table} WHERE id = ?`).get(id) as { data: string } | undefined;
+  return row ? (JSON.parse(row.data) as T) : undefined;
+};
+
+const writeDocument = (db: DatabaseSync, table: Table, id: string, value: unknown) => {
+  db.prepare(`INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`).run(
+    id,
+    JSON.stringify(value),
+  );
+};
+
+const deleteDocument = (db: DatabaseSync, table: Table, id: string) => {
+  db.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+};
+
+// Read-check-write sequences run inside one immediate transaction so guarded updates stay atomic.
+const transaction = async <T>(apply: (db: DatabaseSync) => T): Promise<T> => {
+  const db = await openDatabase();
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const result = apply(db);
+    db.exec("COMMIT");
+    return result;
+  } catch (error) {
+    db.exec("ROLLBACK");
+    console.log("[SQLITE] Transaction rolled back:", error);
+    throw error;
+  }
+};
+
+export const sqliteRepository: DeliveryRepository = {
+  backend: "sqlite",
+
+  isReady() {
+    return true;
+  },
+
+  async listUsers() {
+    const db = await openDatabase();
+    return readDocuments<User>(db, "users", "ORDER BY rowid").map(withAvailabilityDefault);
+  },
+
+  async getUser(userId) {
+    const db = await openDatabase();
+    const user = readDocument<User>(db, "users", userId);
+    return user ? withAvailabilityDefault(user) : undefined;
+  },
+
+  async insertUser(user) {
+    return transaction((db) => {
+      if (readDocument<User>(db, "users", user.id)) {
+        throw new Error("שגיאה ביצירת המשתמש");
+      }
+      writeDocument(db, "users", user.id, user);
+      return user;
+    });
+  },
+
+  async updateUser(userId, changes) {
+    return transaction((db) => {
+      const user = readDocument<User>(db, "users", userId);
+      if (!user) {
+        throw new Error("המשתמש לא נמצא");
+      }
+      const updated = applyUserChanges(user, changes);
+      writeDocument(db, "users", userId, updated);
+      return withAvailabilityDefault(updated);
+    });
+  },
+
+  async listDeliveries(filter) {
+    const db = await openDatabase();
+    return readDocuments<Delivery>(db, "deliveries")
+      .filter((delivery) => matchesDeliveryFilter(delivery, filter))
+      .sort(byCreatedAtDesc);
+  },
+
+  async getDelivery(deliveryId) {
+    const db = await openDatabase();
+    return readDocument<Delivery>(db, "deliveries", deliveryId);
+  },
+
+  async insertDelivery(delivery) {
+    return transaction((db) => {
+      writeDocument(db, "deliveries", delivery.id, delivery);
+      return delivery;
+    });
+  },
+
+  async updateDelivery(deliveryId, changes, match) {
+    const [updated] = await this.updateDeliveries([deliveryId], changes, match);
+    return updated;
+  },
+
+  async updateDeliveries(deliveryIds, changes, match) {
+    return transaction((db) =>
+      deliveryIds.reduce<Delivery[]>((updated, deliveryId) => {
+        const delivery = readDocument<Delivery>(db, "deliveries", deliveryId);
+        if (!delivery || !matchesDelivery(delivery, match)) {
+          return updated;
+        }
+        const next = applyDeliveryChanges(delivery, changes);
+        writeDocument(db, "deliveries", deliveryId, next);
+        return [...updated, next];
+      }, []),
+    );
+  },
+
+  async appendHistory(entry) {
+    try {
+      const db = await openDatabase();
+      writeDocument(db, "delivery_history", entry.id, entry);
+    } catch (error) {
+      console.log("[SQLITE] Error appending delivery history:", entry.deliveryId, entry.action, error);
+    }
+  },
+
+  async listHistory(deliveryId) {
+    const db = await openDatabase();
+    return readDocuments<DeliveryHistoryEntry>(
+      db,
+      "delivery_history",
+      "WHERE json_extract(data, '$.deliveryId') = ?",
+      deliveryId,
+    ).sort(byCreatedAtAsc);
+  },
+
+  async getPricingRules() {
+    const db = await openDatabase();
+    return readDocument<PricingRules>(db, "pricing_rules", "default") ?? null;
+  },
+
+  async savePricingRules(rules) {
+    return transaction((db) => {
+      writeDocument(db, "pricing_rules", "default", rules);
+      return rules;
+    });
+  },
+
+  async listPricingOverrides() {
+    const db = await openDatabase();
+    return readDocuments<BusinessPricingOverride>(db, "pricing_overrides");
+  },
+
+  async getPricingOverride(businessId) {
+    const db = await openDatabase();
+    return readDocument<BusinessPricingOverride>(db, "pricing_overrides", businessId) ?? null;
+  },
+
+  async savePricingOverride(override) {
+    return transaction((db) => {
+      writeDocument(db, "pricing_overrides", override.businessId, override);
+      return override;
+    });
+  },
+
+  async deletePricingOverride(businessId) {
+    await transaction((db) => deleteDocument(db, "pricing_overrides", businessId));
+  },
+
+  async listSettlements(courierId) {
+    const db = await openDatabase();
+    return readDocuments<CourierSettlement>(db, "settlements")
+      .filter((settlement) => !courierId || settlement.courierId === courierId)
+      .sort(byPeriodEndDesc);
+  },
+
+  async insertSettlement(settlement) {
+    return transaction((db) => {
+      writeDocument(db, "settlements", settlement.id, settlement);
+      return settlement;
+    });
+  },
+
+  async markSettlementPaid(settlementId, paidBy, paidAt) {
+    return transaction((db) => {
+      const settlement = readDocument<CourierSettlement>(db, "settlements", settlementId);
+      if (!settlement || settlement.status !== "unpaid") {
+        return undefined;
+      }
+      const updated: CourierSettlement = { ...settlement, status: "paid", paidBy, paidAt };
+      writeDocument(db, "settlements", settlementId, updated);
+      return updated;
+    });
+  },
+
+  async deleteSettlement(settlementId) {
+    await transaction((db) => deleteDocument(db, "settlements", settlementId));
+  },
+
+  async listInvoices(businessId) {
+    const db = await openDatabase();
+    return readDocuments<BusinessInvoice>(db, "invoices")
+      .filter((invoice) => !businessId || invoice.businessId === businessId)
+      .sort(byInvoiceNumberDesc);
+  },
+
+  async insertInvoice(invoice) {
+    return transaction((db) => {
+      const { latest } = db
+        .prepare("SELECT MAX(json_extract(data, '$.invoiceNumber')) AS latest FROM invoices")
+        .get() as { latest: number | null };
+      const created: BusinessInvoice = {
+        ...invoice,
+        invoiceNumber: (latest ?? 0) + 1,
+        createdAt: new Date().toISOString(),
+      };
+      writeDocument(db, "invoices", created.id, created);
+      return created;
+    });
+  },
+
+  async listCustomers() {
+    const db = await openDatabase();
+    return readDocuments<Customer>(db, "customers");
+  },
+
+  async insertCustomer(customer) {
+    return transaction((db) => {
+      const now = new Date().toISOString();
+      const created: Customer = { ...customer, createdAt: customer.createdAt ?? now, updatedAt: now };
+      writeDocument(db, "customers", created.id, created);
+      return created;
+    });
+  },
+
+  async updateCustomer(customerId, changes) {
+    return transaction((db) => {
+      const customer = readDocument<Customer>(db, "customers", customerId);
+      if (!customer) {
+        throw new Error("הלקוח לא נמצא");
+      }
+      const updated: Customer = { ...customer, ...changes, updatedAt: new Date().toISOString() };
+      writeDocument(db, "customers", customerId, updated);
+      return updated;
+    });
+  },
+
+  async listDeliveryTemplates(businessId) {
+    const db = await openDatabase();
+    return readDocuments<DeliveryTemplate>(db, "delivery_templates")
+      .filter((template) => !businessId || template.businessId === businessId)
+      .sort(byCreatedAtAsc);
+  },
+
+  async getDeliveryTemplate(templateId) {
+    const db = await openDatabase();
+    return readDocument<DeliveryTemplate>(db, "delivery_templates", templateId);
+  },
+
+  async insertDeliveryTemplate(template) {
+    return transaction((db) => {
+      writeDocument(db, "delivery_templates", template.id, template);
+      return template;
+    });
+  },
+
+  async updateDeliveryTemplate(templateId, changes) {
+    return transaction((db) => {
+      const template = readDocument<DeliveryTemplate>(db, "delivery_templates", templateId);
+      if (!template) {
+        throw new Error("התבנית לא נמצאה");
+      }
+      const updated = applyTemplateChanges(template, changes);
+      writeDocument(db, "delivery_templates", templateId, updated);
+      return updated;
+    });
+  },
+
+  async deleteDeliveryTemplate(templateId) {
+    await transaction((db) => deleteDocument(db, "delivery_templates", templateId));
+  },
+
+  async listCustomerNotifications(filter) {
+    const db = await openDatabase();
+    return readDocuments<CustomerNotification>(db, "customer_notifications")
+      .filter((notification) => matchesCustomerNotificationFilter(notification, filter))
+      .sort(byCreatedAtDesc);
+  },
+
+  async insertCustomerNotification(notification) {
+    return transaction((db) => {
+      writeDocument(db, "customer_notifications", notification.id, notification);
+      return notification;
+    });
+  },
+};
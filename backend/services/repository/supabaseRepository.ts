@@ -0,0 +1,1288 @@
+import { isSupabaseConfigured, supabase } from "../supabaseClient";
+import { DbDelivery, dbDeliveryToDelivery, mapDeliveryRows } from "../../../utils/deliveryRows";
+import {
+  BusinessInvoice,
+  BusinessInvoiceLineItem,
+  BusinessPricingOverride,
+  BusinessProfile,
+  CourierProfile,
+  CourierSettlement,
+  CourierSettlementAdjustment,
+  CourierSettlementStatus,
+  Customer,
+  CustomerMessageLanguage,
+  CustomerNotification,
+  CustomerNotificationKind,
+  CustomerNotificationStatus,
+  DeliveryFieldChange,
+  DeliveryHistoryAction,
+  DeliveryHistoryEntry,
+  DeliveryStatus,
+  DeliveryTemplate,
+  DeliveryTemplateRecurrence,
+  PricingDistanceBand,
+  PricingRules,
+  User,
+  UserRole,
+} from "../../../types/models";
+import {
+  CustomerNotificationFilter,
+  DeliveryChanges,
+  DeliveryFilter,
+  DeliveryMatch,
+  DeliveryRepository,
+  DeliveryTemplateChanges,
+  UserChanges,
+} from "./types";
+
+
+type DbUser = {
+  id: string;
+  name: string;
+  phone: string;
+  password: string;
+  role: string;
+  email: string | null;
+  push_token: string | null;
+  must_change_password?: boolean | null;
+  created_at: string;
+  updated_at: string;
+  courier_profiles?: {
+    age: number;
+    email: string;
+    vehicle: string;
+    is_available: boolean;
+    id_number: string | null;
+    current_latitude: number | null;
+    current_longitude: number | null;
+    location_updated_at: string | null;
+    release_count?: number | null;
+  }[] | null;
+  business_profiles?: {
+    address: string;
+    email: string;
+    customer_sms_enabled?: boolean | null;
+    customer_sms_language?: string | null;
+    proof_of_delivery_required?: boolean | null;
+  }[] | null;
+};
+
+type DbCustomer = {
+  id: string;
+  phone: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  floor: string | null;
+  notes: string | null;
+  business_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type DbDeliveryTemplate = {
+  id: string;
+  business_id: string;
+  name: string;
+  customer_name: string;
+  customer_phone: string;
+  dropoff_address: string;
+  notes: string | null;
+  preparation_time_minutes: number;
+  recurrence: DeliveryTemplateRecurrence;
+  is_paused: boolean;
+  skipped_dates: string[] | null;
+  last_occurrence_date: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type DbCustomerNotification = {
+  id: string;
+  delivery_id: string;
+  business_id: string;
+  kind: string;
+  channel: string;
+  provider: string;
+  recipient: string;
+  language: string;
+  body: string;
+  status: string;
+  error: string | null;
+  provider_message_id: string | null;
+  created_at: string;
+};
+
+type DbDeliveryHistory = {
+  id: string;
+  delivery_id: string;
+  action: string;
+  actor_id: string;
+  actor_role: string;
+  previous_status: string | null;
+  next_status: string;
+  changed_fields: DeliveryFieldChange[] | null;
+  created_at: string;
+};
+
+type DbPricingRules = {
+  id: string;
+  base_fee: number;
+  minimum_fee: number;
+  distance_bands: PricingDistanceBand[] | null;
+  night_surcharge: number;
+  night_start_hour: number;
+  night_end_hour: number;
+  weekend_surcharge: number;
+  weekend_days: number[] | null;
+  updated_by: string | null;
+  updated_at: string | null;
+};
+
+type DbBusinessPricingOverride = {
+  business_id: string;
+  base_fee: number | null;
+  rate_per_km: number | null;
+  flat_fee: number | null;
+  updated_by: string | null;
+  updated_at: string | null;
+};
+
+type DbCourierSettlement = {
+  id: string;
+  courier_id: string;
+  period_start: string;
+  period_end: string;
+  delivery_ids: string[] | null;
+  delivery_count: number;
+  total_distance_km: number;
+  deliveries_total: number;
+  bonuses: CourierSettlementAdjustment[] | null;
+  deductions: CourierSettlementAdjustment[] | null;
+  total: number;
+  status: string;
+  created_by: string;
+  created_at: string;
+  paid_by: string | null;
+  paid_at: string | null;
+};
+
+type DbBusinessInvoice = {
+  id: string;
+  invoice_number: number;
+  business_id: string;
+  business_name: string;
+  period_start: string;
+  period_end: string;
+  line_items: BusinessInvoiceLineItem[] | null;
+  subtotal: number;
+  vat_rate: number;
+  vat_amount: number;
+  total: number;
+  created_by: string;
+  created_at: string;
+};
+
+const MAX_INVOICE_NUMBER_ATTEMPTS = 3;
+
+function dbUserToUser(dbUser: DbUser): User {
+  const user: User = {
+    id: dbUser.id,
+    name: dbUser.name,
+    phone: dbUser.phone,
+    password: dbUser.password,
+    role: dbUser.role as UserRole,
+    email: dbUser.email ?? undefined,
+    pushToken: dbUser.push_token ?? undefined,
+    mustChangePassword: dbUser.must_change_password ?? undefined,
+  };
+
+  if (dbUser.role === "courier" && dbUser.courier_profiles && dbUser.courier_profiles.length > 0) {
+    const profile = dbUser.courier_profiles[0];
+    user.courierProfile = {
+      age: profile.age,
+      email: profile.email,
+      vehicle: profile.vehicle,
+      isAvailable: profile.is_available,
+      idNumber: profile.id_number ?? undefined,
+      currentLocation: profile.current_latitude !== null && profile.current_longitude !== null ? {
+        latitude: profile.current_latitude,
+        longitude: profile.current_longitude,
+        updatedAt: profile.location_updated_at ?? new Date().toISOString(),
+      } : undefined,
+      releaseCount: profile.release_count ?? undefined,
+    };
+  }
+
+  if (dbUser.role === "business" && dbUser.business_profiles && dbUser.business_profiles.length > 0) {
+    const profile = dbUser.business_profiles[0];
+    user.businessProfile = {
+      address: profile.address,
+      email: profile.email,
+      customerSmsEnabled: profile.customer_sms_enabled ?? undefined,
+      customerSmsLanguage: (profile.customer_sms_language as CustomerMessageLanguage | null) ?? undefined,
+      proofOfDeliveryRequired: profile.proof_of_delivery_required ?? undefined,
+    };
+  }
+
+  return user;
+}
+
+function dbCustomerToCustomer(dbCustomer: DbCustomer): Customer {
+  return {
+    id: dbCustomer.id,
+    phone: dbCustomer.phone,
+    name: dbCustomer.name,
+    address: dbCustomer.address ?? undefined,
+    city: dbCustomer.city ?? undefined,
+    floor: dbCustomer.floor ?? undefined,
+    notes: dbCustomer.notes ?? undefined,
+    businessId: dbCustomer.business_id ?? undefined,
+    createdAt: dbCustomer.created_at,
+    updatedAt: dbCustomer.updated_at,
+  };
+}
+
+function dbDeliveryTemplateToTemplate(dbTemplate: DbDeliveryTemplate): DeliveryTemplate {
+  return {
+    id: dbTemplate.id,
+    businessId: dbTemplate.business_id,
+    name: dbTemplate.name,
+    customerName: dbTemplate.customer_name,
+    customerPhone: dbTemplate.customer_phone,
+    dropoffAddress: dbTemplate.dropoff_address,
+    notes: dbTemplate.notes ?? "",
+    preparationTimeMinutes: dbTemplate.preparation_time_minutes,
+    recurrence: dbTemplate.recurrence,
+    isPaused: dbTemplate.is_paused,
+    skippedDates: dbTemplate.skipped_dates ?? [],
+    lastOccurrenceDate: dbTemplate.last_occurrence_date ?? undefined,
+    createdAt: dbTemplate.created_at,
+    updatedAt: dbTemplate.updated_at,
+  };
+}
+
+function dbCustomerNotificationToNotification(dbNotification: DbCustomerNotification): CustomerNotification {
+  return {
+    id: dbNotification.id,
+    deliveryId: dbNotification.delivery_id,
+    businessId: dbNotification.business_id,
+    kind: dbNotification.kind as CustomerNotificationKind,
+    channel: "sms",
+    provider: dbNotification.provider,
+    recipient: dbNotification.recipient,
+    language: dbNotification.language as CustomerMessageLanguage,
+    body: dbNotification.body,
+    status: dbNotification.status as CustomerNotificationStatus,
+    error: dbNotification.error ?? undefined,
+    providerMessageId: dbNotification.provider_message_id ?? undefined,
+    createdAt: dbNotification.created_at,
+  };
+}
+
+function dbPricingRulesToRules(dbRules: DbPricingRules): PricingRules {
+  return {
+    baseFee: Number(dbRules.base_fee),
+    minimumFee: Number(dbRules.minimum_fee),
+    distanceBands: dbRules.distance_bands ?? [],
+    nightSurcharge: Number(dbRules.night_surcharge),
+    nightStartHour: dbRules.night_start_hour,
+    nightEndHour: dbRules.night_end_hour,
+    weekendSurcharge: Number(dbRules.weekend_surcharge),
+    weekendDays: dbRules.weekend_days ?? [],
+    updatedAt: dbRules.updated_at ?? undefined,
+    updatedBy: dbRules.updated_by ?? undefined,
+  };
+}
+
+function dbPricingOverrideToOverride(dbOverride: DbBusinessPricingOverride): BusinessPricingOverride {
+  return {
+    businessId: dbOverride.business_id,
+    baseFee: dbOverride.base_fee ?? undefined,
+    ratePerKm: dbOverride.rate_per_km ?? undefined,
+    flatFee: dbOverride.flat_fee ?? undefined,
+    updatedAt: dbOverride.updated_at ?? undefined,
+    updatedBy: dbOverride.updated_by ?? undefined,
+  };
+}
+
+function dbSettlementToSettlement(dbSettlement: DbCourierSettlement): CourierSettlement {
+  return {
+    id: dbSettlement.id,
+    courierId: dbSettlement.courier_id,
+    periodStart: dbSettlement.period_start,
+    periodEnd: dbSettlement.period_end,
+    deliveryIds: dbSettlement.delivery_ids ?? [],
+    deliveryCount: dbSettlement.delivery_count,
+    totalDistanceKm: Number(dbSettlement.total_distance_km),
+    deliveriesTotal: Number(dbSettlement.deliveries_total),
+    bonuses: dbSettlement.bonuses ?? [],
+    deductions: dbSettlement.deductions ?? [],
+    total: Number(dbSettlement.total),
+    status: dbSettlement.status as CourierSettlementStatus,
+    createdAt: dbSettlement.created_at,
+    createdBy: dbSettlement.created_by,
+    paidAt: dbSettlement.paid_at ?? undefined,
+    paidBy: dbSettlement.paid_by ?? undefined,
+  };
+}
+
+function dbInvoiceToInvoice(dbInvoice: DbBusinessInvoice): BusinessInvoice {
+  return {
+    id: dbInvoice.id,
+    invoiceNumber: dbInvoice.invoice_number,
+    businessId: dbInvoice.business_id,
+    businessName: dbInvoice.business_name,
+    periodStart: dbInvoice.period_start,
+    periodEnd: dbInvoice.period_end,
+    lineItems: dbInvoice.line_items ?? [],
+    subtotal: Number(dbInvoice.subtotal),
+    vatRate: Number(dbInvoice.vat_rate),
+    vatAmount: Number(dbInvoice.vat_amount),
+    total: Number(dbInvoice.total),
+    createdAt: dbInvoice.created_at,
+    createdBy: dbInvoice.created_by,
+  };
+}
+
+function dbDeliveryHistoryToEntry(dbEntry: DbDeliveryHistory): DeliveryHistoryEntry {
+  return {
+    id: dbEntry.id,
+    deliveryId: dbEntry.delivery_id,
+    action: dbEntry.action as DeliveryHistoryAction,
+    actorId: dbEntry.actor_id,
+    actorRole: dbEntry.actor_role as UserRole,
+    previousStatus: (dbEntry.previous_status as DeliveryStatus | null) ?? null,
+    nextStatus: dbEntry.next_status as DeliveryStatus,
+    changedFields: dbEntry.changed_fields ?? [],
+    createdAt: dbEntry.created_at,
+  };
+}
+
+type DbCourierProfile = NonNullable<DbUser["courier_profiles"]>[number];
+type DbBusinessProfile = NonNullable<DbUser["business_profiles"]>[number];
+
+const deliveryColumns: Record<keyof DeliveryChanges, keyof DbDelivery> = {
+  businessId: "business_id",
+  courierId: "courier_id",
+  pickupAddress: "pickup_address",
+  dropoffAddress: "dropoff_address",
+  notes: "notes",
+  status: "status",
+  preparationTimeMinutes: "preparation_time_minutes",
+  scheduledFor: "scheduled_for",
+  scheduledReleaseAt: "scheduled_release_at",
+  estimatedArrivalMinutes: "estimated_arrival_minutes",
+  businessConfirmed: "business_confirmed",
+  confirmedAt: "confirmed_at",
+  businessReady: "business_ready",
+  readyAt: "ready_at",
+  acceptedAt: "accepted_at",
+  pickupArrivedAt: "pickup_arrived_at",
+  pickedUpAt: "picked_up_at",
+  completedAt: "completed_at",
+  customerName: "customer_name",
+  customerPhone: "customer_phone",
+  payment: "payment",
+  distanceKm: "distance_km",
+  cancelledAt: "cancelled_at",
+  cancellationReason: "cancellation_reason",
+  failedAt: "failed_at",
+  failureReason: "failure_reason",
+  statusNote: "status_note",
+  releasedAt: "released_at",
+  releasedBy: "released_by",
+  releaseReason: "release_reason",
+  releaseNote: "release_note",
+  dispatchOfferCourierId: "dispatch_offer_courier_id",
+  dispatchOfferExpiresAt: "dispatch_offer_expires_at",
+  batchId: "batch_id",
+  batchSequence: "batch_sequence",
+  legDistanceKm: "leg_distance_km",
+  pricingBreakdown: "pricing_breakdown",
+  settlementId: "settlement_id",
+  trackingToken: "tracking_token",
+  proofOfDelivery: "proof_of_delivery",
+  pickupGeofence: "pickup_geofence",
+  dropoffGeofence: "dropoff_geofence",
+  geofenceOverrides: "geofence_overrides",
+  eta: "eta",
+  slaEscalations: "sla_escalations",
+  replayReceivedAt: "replay_received_at",
+};
+
+const toDeliveryRow = (changes: DeliveryChanges): Record<string, unknown> => {
+  return (Object.keys(changes) as (keyof DeliveryChanges)[]).reduce<Record<string, unknown>>((row, key) => {
+    row[deliveryColumns[key]] = changes[key] ?? null;
+    return row;
+  }, {});
+};
+
+const toCourierProfileRow = (profile: Partial<CourierProfile>): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  if (profile.age !== undefined) row.age = profile.age;
+  if (profile.email !== undefined) row.email = profile.email;
+  if (profile.vehicle !== undefined) row.vehicle = profile.vehicle;
+  if (profile.isAvailable !== undefined) row.is_available = profile.isAvailable;
+  if ("idNumber" in profile) row.id_number = profile.idNumber ?? null;
+  if (profile.releaseCount !== undefined) row.release_count = profile.releaseCount;
+  if (profile.currentLocation) {
+    row.current_latitude = profile.currentLocation.latitude;
+    row.current_longitude = profile.currentLocation.longitude;
+    row.location_updated_at = profile.currentLocation.updatedAt;
+  }
+  return row;
+};
+
+const toBusinessProfileRow = (profile: Partial<BusinessProfile>): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  if (profile.address !== undefined) row.address = profile.address;
+  if (profile.email !== undefined) row.email = profile.email;
+  if (profile.customerSmsEnabled !== undefined) row.customer_sms_enabled = profile.customerSmsEnabled;
+  if (profile.customerSmsLanguage !== undefined) row.customer_sms_language = profile.customerSmsLanguage;
+  if (profile.proofOfDeliveryRequired !== undefined) row.proof_of_delivery_required = profile.proofOfDeliveryRequired;
+  return row;
+};
+
+const toCustomerRow = (customer: Partial<Omit<Customer, "id">>): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  if (customer.phone !== undefined) row.phone = customer.phone;
+  if (customer.name !== undefined) row.name = customer.name;
+  if ("address" in customer) row.address = customer.address ?? null;
+  if ("city" in customer) row.city = customer.city ?? null;
+  if ("floor" in customer) row.floor = customer.floor ?? null;
+  if ("notes" in customer) row.notes = customer.notes ?? null;
+  if ("businessId" in customer) row.business_id = customer.businessId ?? null;
+  return row;
+};
+
+const toDeliveryTemplateRow = (template: DeliveryTemplateChanges): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  if (template.name !== undefined) row.name = template.name;
+  if (template.customerName !== undefined) row.customer_name = template.customerName;
+  if (template.customerPhone !== undefined) row.customer_phone = template.customerPhone;
+  if (template.dropoffAddress !== undefined) row.dropoff_address = template.dropoffAddress;
+  if (template.notes !== undefined) row.notes = template.notes;
+  if (template.preparationTimeMinutes !== undefined) row.preparation_time_minutes = template.preparationTimeMinutes;
+  if (template.recurrence !== undefined) row.recurrence = template.recurrence;
+  if (template.isPaused !== undefined) row.is_paused = template.isPaused;
+  if (template.skippedDates !== undefined) row.skipped_dates = template.skippedDates;
+  if ("lastOccurrenceDate" in template) row.last_occurrence_date = template.lastOccurrenceDate ?? null;
+  return row;
+};
+
+type FilterableQuery<T> = {
+  eq(column: string, value: unknown): T;
+  is(column: string, value: null): T;
+};
+
+function applyDeliveryMatch<T extends FilterableQuery<T>>(query: T, match: DeliveryMatch = {}): T {
+  return (Object.keys(match) as (keyof DeliveryMatch)[]).reduce((filtered, key) => {
+    const value = match[key];
+    return value === null || value === undefined
+      ? filtered.is(deliveryColumns[key], null)
+      : filtered.eq(deliveryColumns[key], value);
+  }, query);
+}
+
+const requireSupabase = () => {
+  if (!isSupabaseConfigured()) {
+    throw new Error("Supabase is not configured");
+  }
+};
+
+export const supabaseRepository: DeliveryRepository = {
+  backend: "supabase",
+
+  isReady() {
+    return isSupabaseConfigured();
+  },
+
+  async listUsers() {
+    if (!isSupabaseConfigured()) {
+      console.log("[SUPABASE] Not configured, returning empty users");
+      return [];
+    }
+
+    const { data: usersData, error: usersError } = await supabase
+      .from("users")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (usersError) {
+      console.log("[SUPABASE] Error fetching users:", usersError);
+      throw new Error("שגיאה בטעינת המשתמשים");
+    }
+
+    const { data: courierProfiles, error: courierError } = await supabase.from("courier_profiles").select("*");
+    if (courierError) {
+      console.log("[SUPABASE] Error fetching courier profiles:", courierError);
+    }
+
+    const { data: businessProfiles, error: businessError } = await supabase.from("business_profiles").select("*");
+    if (businessError) {
+      console.log("[SUPABASE] Error fetching business profiles:", businessError);
+    }
+
+    const courierProfileMap = new Map<string, DbCourierProfile>();
+    (courierProfiles || []).forEach((profile: DbCourierProfile & { user_id: string }) => {
+      courierProfileMap.set(profile.user_id, profile);
+    });
+
+    const businessProfileMap = new Map<string, DbBusinessProfile>();
+    (businessProfiles || []).forEach((profile: DbBusinessProfile & { user_id: string }) => {
+      businessProfileMap.set(profile.user_id, profile);
+    });
+
+    const seenUserIds = new Set<string>();
+    const users = (usersData || [])
+      .filter((dbUser: unknown) => {
+        const rawUser = dbUser as Omit<DbUser, "courier_profiles" | "business_profiles">;
+        if (!rawUser.id || typeof rawUser.id !== "string" || rawUser.id.trim() === "") {
+          console.log("[SUPABASE] Skipping user with invalid id:", rawUser);
+          return false;
+        }
+        if (seenUserIds.has(rawUser.id)) {
+          console.log("[SUPABASE] Skipping duplicate user id:", rawUser.id);
+          return false;
+        }
+        seenUserIds.add(rawUser.id);
+        return true;
+      })
+      .map((dbUser: unknown) => {
+        const rawUser = dbUser as Omit<DbUser, "courier_profiles" | "business_profiles">;
+        const courierProfile = courierProfileMap.get(rawUser.id);
+        const businessProfile = businessProfileMap.get(rawUser.id);
+        return dbUserToUser({
+          ...rawUser,
+          courier_profiles: courierProfile ? [courierProfile] : null,
+          business_profiles: businessProfile ? [businessProfile] : null,
+        });
+      });
+
+    console.log("[SUPABASE] Fetched", users.length, "users with profiles (filtered from", usersData?.length || 0, ")");
+    return users;
+  },
+
+  async getUser(userId) {
+    if (!isSupabaseConfigured()) return undefined;
+
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("*")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (userError || !userData) {
+      console.log("[SUPABASE] getUser - user not found:", userId, userError);
+      return undefined;
+    }
+
+    const rawUser = userData as Omit<DbUser, "courier_profiles" | "business_profiles">;
+    let courierProfile: DbCourierProfile | null = null;
+    let businessProfile: DbBusinessProfile | null = null;
+
+    if (rawUser.role === "courier") {
+      const { data: cpData, error: cpError } = await supabase
+        .from("courier_profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (cpError || !cpData) {
+        console.log("[SUPABASE] getUser - no courier profile found for:", userId, cpError);
+      } else {
+        courierProfile = cpData as DbCourierProfile;
+      }
+    }
+
+    if (rawUser.role === "business") {
+      const { data: bpData, error: bpError } = await supabase
+        .from("business_profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (bpError || !bpData) {
+        console.log("[SUPABASE] getUser - no business profile found for:", userId, bpError);
+      } else {
+        businessProfile = bpData as DbBusinessProfile;
+      }
+    }
+
+    return dbUserToUser({
+      ...rawUser,
+      courier_profiles: courierProfile ? [courierProfile] : null,
+      business_profiles: businessProfile ? [businessProfile] : null,
+    });
+  },
+
+  async insertUser(user) {
+    requireSupabase();
+
+    const { error: userError } = await supabase.from("users").insert({
+      id: user.id,
+      name: user.name,
+      phone: user.phone,
+      password: user.password,
+      must_change_password: user.mustChangePassword ?? false,
+      role: user.role,
+      email: user.email ?? null,
+    } as Record<string, unknown>);
+
+    if (userError) {
+      console.log("[SUPABASE] Error creating user:", user.role, userError);
+      throw new Error("שגיאה ביצירת המשתמש");
+    }
+
+    if (user.courierProfile) {
+      const { error: profileError } = await supabase
+        .from("courier_profiles")
+        .insert({ user_id: user.id, ...toCourierProfileRow(user.courierProfile) } as Record<string, unknown>);
+      if (profileError) {
+        console.log("[SUPABASE] Error creating courier profile:", profileError);
+        await supabase.from("users").delete().eq("id", user.id);
+        throw new Error("שגיאה ביצירת פרופיל השליח");
+      }
+    }
+
+    if (user.businessProfile) {
+      const { error: profileError } = await supabase
+        .from("business_profiles")
+        .insert({ user_id: user.id, ...toBusinessProfileRow(user.businessProfile) } as Record<string, unknown>);
+      if (profileError) {
+        console.log("[SUPABASE] Error creating business profile:", profileError);
+        await supabase.from("users").delete().eq("id", user.id);
+        throw new Error("שגיאה ביצירת פרופיל העסק");
+      }
+    }
+
+    const created = await this.getUser(user.id);
+    if (!created) {
+      throw new Error("שגיאה בטעינת המשתמש שנוצר");
+    }
+    return created;
+  },
+
+  async updateUser(userId, changes: UserChanges) {
+    requireSupabase();
+
+    const { courierProfile, businessProfile, ...fields } = changes;
+    const userRow: Record<string, unknown> = {};
+    if (fields.name !== undefined) userRow.name = fields.name;
+    if (fields.phone !== undefined) userRow.phone = fields.phone;
+    if (fields.password !== undefined) userRow.password = fields.password;
+    if (fields.mustChangePassword !== undefined) userRow.must_change_password = fields.mustChangePassword;
+    if ("email" in fields) userRow.email = fields.email ?? null;
+    if ("pushToken" in fields) userRow.push_token = fields.pushToken ?? null;
+
+    if (Object.keys(userRow).length > 0) {
+      const { error } = await supabase.from("users").update(userRow).eq("id", userId);
+      if (error) {
+        console.log("[SUPABASE] Error updating user:", userId, error);
+        throw new Error("שגיאה בעדכון פרטי המשתמש");
+      }
+    }
+
+    const profileUpdates: { table: "courier_profiles" | "business_profiles"; row: Record<string, unknown>; message: string }[] = [];
+    if (courierProfile) {
+      profileUpdates.push({ table: "courier_profiles", row: toCourierProfileRow(courierProfile), message: "שגיאה בעדכון פרופיל השליח" });
+    }
+    if (businessProfile) {
+      profileUpdates.push({ table: "business_profiles", row: toBusinessProfileRow(businessProfile), message: "שגיאה בעדכון פרופיל העסק" });
+    }
+
+    for (const update of profileUpdates) {
+      if (Object.keys(update.row).length === 0) {
+        continue;
+      }
+      const { data: existing } = await supabase.from(update.table).select("user_id").eq("user_id", userId).maybeSingle();
+      const { error } = existing
+        ? await supabase.from(update.table).update(update.row).eq("user_id", userId)
+        : await supabase.from(update.table).insert({ user_id: userId, ...update.row } as Record<string, unknown>);
+      if (error) {
+        console.log("[SUPABASE] Error updating profile:", update.table, userId, error);
+        throw new Error(update.message);
+      }
+    }
+
+    const updated = await this.getUser(userId);
+    if (!updated) {
+      throw new Error("שגיאה בטעינת המשתמש המעודכן");
+    }
+    return updated;
+  },
+
+  async listDeliveries(filter: DeliveryFilter = {}) {
+    if (!isSupabaseConfigured()) {
+      console.log("[SUPABASE] Not configured, returning empty deliveries");
+      return [];
+    }
+
+    let query = supabase.from("deliveries").select("*");
+    if (filter.ids) query = query.in("id", filter.ids);
+    if (filter.status) query = query.eq("status", filter.status);
+    if (filter.courierId) query = query.eq("courier_id", filter.courierId);
+    if (filter.businessId) query = query.eq("business_id", filter.businessId);
+    if (filter.batchId) query = query.eq("batch_id", filter.batchId);
+    if (filter.unsettled) query = query.is("settlement_id", null);
+    if (filter.trackingToken) query = query.eq("tracking_token", filter.trackingToken);
+
+    const { data, error } = await query.order("created_at", { ascending: false });
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching deliveries:", error);
+      throw new Error("שגיאה בטעינת המשלוחים");
+    }
+
+    const deliveries = mapDeliveryRows(data);
+    console.log("[SUPABASE] Fetched", deliveries.length, "deliveries (filtered from", data?.length || 0, ")");
+    return deliveries;
+  },
+
+  async getDelivery(deliveryId) {
+    if (!isSupabaseConfigured()) {
+      return undefined;
+    }
+
+    const { data, error } = await supabase.from("deliveries").select("*").eq("id", deliveryId).maybeSingle();
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching delivery:", deliveryId, error);
+      return undefined;
+    }
+
+    return data ? dbDeliveryToDelivery(data as unknown as DbDelivery) : undefined;
+  },
+
+  async insertDelivery(delivery) {
+    requireSupabase();
+
+    const { id, createdAt, ...fields } = delivery;
+    const { data, error } = await supabase
+      .from("deliveries")
+      .insert({ id, created_at: createdAt, ...toDeliveryRow(fields) })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error creating delivery:", error);
+      throw new Error("שגיאה ביצירת המשלוח");
+    }
+
+    return dbDeliveryToDelivery(data as unknown as DbDelivery);
+  },
+
+  async updateDelivery(deliveryId, changes, match) {
+    requireSupabase();
+
+    const { data, error } = await applyDeliveryMatch(
+      supabase.from("deliveries").update(toDeliveryRow(changes)).eq("id", deliveryId),
+      match,
+    )
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.log("[SUPABASE] Error updating delivery:", deliveryId, error);
+      throw new Error("שגיאה בעדכון המשלוח");
+    }
+
+    return data ? dbDeliveryToDelivery(data as unknown as DbDelivery) : undefined;
+  },
+
+  async updateDeliveries(deliveryIds, changes, match) {
+    requireSupabase();
+
+    const { data, error } = await applyDeliveryMatch(
+      supabase.from("deliveries").update(toDeliveryRow(changes)).in("id", deliveryIds),
+      match,
+    ).select();
+
+    if (error) {
+      console.log("[SUPABASE] Error updating deliveries:", deliveryIds, error);
+      throw new Error("שגיאה בעדכון המשלוחים");
+    }
+
+    return mapDeliveryRows(data);
+  },
+
+  async appendHistory(entry) {
+    if (!isSupabaseConfigured()) {
+      return;
+    }
+
+    const { error } = await supabase.from("delivery_status_history").insert({
+      id: entry.id,
+      delivery_id: entry.deliveryId,
+      action: entry.action,
+      actor_id: entry.actorId,
+      actor_role: entry.actorRole,
+      previous_status: entry.previousStatus,
+      next_status: entry.nextStatus,
+      changed_fields: entry.changedFields,
+      created_at: entry.createdAt,
+    } as Record<string, unknown>);
+
+    if (error) {
+      console.log("[SUPABASE] Error appending delivery history:", entry.deliveryId, entry.action, error);
+    }
+  },
+
+  async listHistory(deliveryId) {
+    if (!isSupabaseConfigured()) {
+      console.log("[SUPABASE] Not configured, returning empty delivery history");
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("delivery_status_history")
+      .select("*")
+      .eq("delivery_id", deliveryId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching delivery history:", error);
+      throw new Error("שגיאה בטעינת היסטוריית המשלוח");
+    }
+
+    return (data || []).map((row) => dbDeliveryHistoryToEntry(row as unknown as DbDeliveryHistory));
+  },
+
+  async getPricingRules() {
+    if (!isSupabaseConfigured()) {
+      return null;
+    }
+
+    const { data, error } = await supabase.from("pricing_rules").select("*").eq("id", "default").maybeSingle();
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching pricing rules:", error);
+      throw new Error("שגיאה בטעינת הגדרות התמחור");
+    }
+
+    return data ? dbPricingRulesToRules(data as unknown as DbPricingRules) : null;
+  },
+
+  async savePricingRules(rules) {
+    requireSupabase();
+
+    const { data, error } = await supabase
+      .from("pricing_rules")
+      .upsert({
+        id: "default",
+        base_fee: rules.baseFee,
+        minimum_fee: rules.minimumFee,
+        distance_bands: rules.distanceBands,
+        night_surcharge: rules.nightSurcharge,
+        night_start_hour: rules.nightStartHour,
+        night_end_hour: rules.nightEndHour,
+        weekend_surcharge: rules.weekendSurcharge,
+        weekend_days: rules.weekendDays,
+        updated_by: rules.updatedBy ?? null,
+        updated_at: rules.updatedAt ?? new Date().toISOString(),
+      } as Record<string, unknown>)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error updating pricing rules:", error);
+      throw new Error("שגיאה בשמירת הגדרות התמחור");
+    }
+
+    return dbPricingRulesToRules(data as unknown as DbPricingRules);
+  },
+
+  async listPricingOverrides() {
+    if (!isSupabaseConfigured()) {
+      return [];
+    }
+
+    const { data, error } = await supabase.from("business_pricing_overrides").select("*");
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching pricing overrides:", error);
+      throw new Error("שגיאה בטעינת הגדרות התמחור");
+    }
+
+    return (data || []).map((row) => dbPricingOverrideToOverride(row as unknown as DbBusinessPricingOverride));
+  },
+
+  async getPricingOverride(businessId) {
+    if (!isSupabaseConfigured()) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("business_pricing_overrides")
+      .select("*")
+      .eq("business_id", businessId)
+      .maybeSingle();
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching pricing override:", businessId, error);
+      return null;
+    }
+
+    return data ? dbPricingOverrideToOverride(data as unknown as DbBusinessPricingOverride) : null;
+  },
+
+  async savePricingOverride(override) {
+    requireSupabase();
+
+    const { data, error } = await supabase
+      .from("business_pricing_overrides")
+      .upsert({
+        business_id: override.businessId,
+        base_fee: override.baseFee ?? null,
+        rate_per_km: override.ratePerKm ?? null,
+        flat_fee: override.flatFee ?? null,
+        updated_by: override.updatedBy ?? null,
+        updated_at: override.updatedAt ?? new Date().toISOString(),
+      } as Record<string, unknown>)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error saving pricing override:", error);
+      throw new Error("שגיאה בשמירת התמחור המיוחד");
+    }
+
+    return dbPricingOverrideToOverride(data as unknown as DbBusinessPricingOverride);
+  },
+
+  async deletePricingOverride(businessId) {
+    requireSupabase();
+
+    const { error } = await supabase.from("business_pricing_overrides").delete().eq("business_id", businessId);
+
+    if (error) {
+      console.log("[SUPABASE] Error removing pricing override:", error);
+      throw new Error("שגיאה בהסרת התמחור המיוחד");
+    }
+  },
+
+  async listSettlements(courierId) {
+    if (!isSupabaseConfigured()) {
+      return [];
+    }
+
+    let query = supabase.from("courier_settlements").select("*").order("period_end", { ascending: false });
+    if (courierId) {
+      query = query.eq("courier_id", courierId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching settlements:", error);
+      throw new Error("שגיאה בטעינת דוחות התשלום");
+    }
+
+    return (data || []).map((row) => dbSettlementToSettlement(row as unknown as DbCourierSettlement));
+  },
+
+  async insertSettlement(settlement) {
+    requireSupabase();
+
+    const { data, error } = await supabase
+      .from("courier_settlements")
+      .insert({
+        id: settlement.id,
+        courier_id: settlement.courierId,
+        period_start: settlement.periodStart,
+        period_end: settlement.periodEnd,
+        delivery_ids: settlement.deliveryIds,
+        delivery_count: settlement.deliveryCount,
+        total_distance_km: settlement.totalDistanceKm,
+        deliveries_total: settlement.deliveriesTotal,
+        bonuses: settlement.bonuses,
+        deductions: settlement.deductions,
+        total: settlement.total,
+        status: settlement.status,
+        created_by: settlement.createdBy,
+        created_at: settlement.createdAt,
+      } as Record<string, unknown>)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error creating settlement:", error);
+      throw new Error("שגיאה בסגירת תקופת התשלום");
+    }
+
+    return dbSettlementToSettlement(data as unknown as DbCourierSettlement);
+  },
+
+  async markSettlementPaid(settlementId, paidBy, paidAt) {
+    requireSupabase();
+
+    const { data, error } = await supabase
+      .from("courier_settlements")
+      .update({ status: "paid", paid_by: paidBy, paid_at: paidAt })
+      .eq("id", settlementId)
+      .eq("status", "unpaid")
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.log("[SUPABASE] Error marking settlement paid:", error);
+      throw new Error("שגיאה בעדכון סטטוס התשלום");
+    }
+
+    return data ? dbSettlementToSettlement(data as unknown as DbCourierSettlement) : undefined;
+  },
+
+  async deleteSettlement(settlementId) {
+    requireSupabase();
+
+    const { error } = await supabase.from("courier_settlements").delete().eq("id", settlementId);
+    if (error) {
+      console.log("[SUPABASE] Error deleting settlement:", settlementId, error);
+    }
+  },
+
+  async listInvoices(businessId) {
+    if (!isSupabaseConfigured()) {
+      return [];
+    }
+
+    let query = supabase.from("business_invoices").select("*").order("invoice_number", { ascending: false });
+    if (businessId) {
+      query = query.eq("business_id", businessId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching invoices:", error);
+      throw new Error("שגיאה בטעינת החשבוניות");
+    }
+
+    return (data || []).map((row) => dbInvoiceToInvoice(row as unknown as DbBusinessInvoice));
+  },
+
+  async insertInvoice(invoice) {
+    requireSupabase();
+
+    // Invoice numbers come from max + 1; the unique constraint catches two managers issuing at once.
+    for (let attempt = 1; attempt <= MAX_INVOICE_NUMBER_ATTEMPTS; attempt += 1) {
+      const { data: latest } = await supabase
+        .from("business_invoices")
+        .select("invoice_number")
+        .order("invoice_number", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      const invoiceNumber = ((latest as { invoice_number: number } | null)?.invoice_number ?? 0) + 1;
+
+      const { data, error } = await supabase
+        .from("business_invoices")
+        .insert({
+          id: invoice.id,
+          invoice_number: invoiceNumber,
+          business_id: invoice.businessId,
+          business_name: invoice.businessName,
+          period_start: invoice.periodStart,
+          period_end: invoice.periodEnd,
+          line_items: invoice.lineItems,
+          subtotal: invoice.subtotal,
+          vat_rate: invoice.vatRate,
+          vat_amount: invoice.vatAmount,
+          total: invoice.total,
+          created_by: invoice.createdBy,
+        } as Record<string, unknown>)
+        .select()
+        .single();
+
+      if (!error && data) {
+        return dbInvoiceToInvoice(data as unknown as DbBusinessInvoice);
+      }
+
+      if (error?.code !== "23505") {
+        console.log("[SUPABASE] Error creating invoice:", error);
+        throw new Error("שגיאה בהפקת החשבונית");
+      }
+
+      console.log("[SUPABASE] Invoice number taken, retrying:", invoiceNumber, "attempt", attempt);
+    }
+
+    throw new Error("שגיאה בהפקת החשבונית. נסו שוב");
+  },
+
+  async listCustomers() {
+    if (!isSupabaseConfigured()) {
+      return [];
+    }
+
+    const { data, error } = await supabase.from("customers").select("*");
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching customers:", error);
+      throw new Error("שגיאה בטעינת פרטי הלקוחות");
+    }
+
+    return (data || []).map((row) => dbCustomerToCustomer(row as DbCustomer));
+  },
+
+  async insertCustomer(customer) {
+    requireSupabase();
+
+    const { id, ...fields } = customer;
+    const { data, error } = await supabase
+      .from("customers")
+      .insert({ id, ...toCustomerRow(fields) })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error creating customer:", error);
+      throw new Error("שגיאה בשמירת פרטי הלקוח");
+    }
+
+    return dbCustomerToCustomer(data as DbCustomer);
+  },
+
+  async updateCustomer(customerId, changes) {
+    requireSupabase();
+
+    const { data, error } = await supabase
+      .from("customers")
+      .update(toCustomerRow(changes))
+      .eq("id", customerId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error updating customer:", error);
+      throw new Error("שגיאה בעדכון פרטי הלקוח");
+    }
+
+    return dbCustomerToCustomer(data as DbCustomer);
+  },
+
+  async listDeliveryTemplates(businessId) {
+    if (!isSupabaseConfigured()) {
+      return [];
+    }
+
+    let query = supabase.from("delivery_templates").select("*").order("created_at", { ascending: true });
+    if (businessId) {
+      query = query.eq("business_id", businessId);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching delivery templates:", error);
+      throw new Error("שגיאה בטעינת תבניות המשלוח");
+    }
+
+    return (data || []).map((row) => dbDeliveryTemplateToTemplate(row as DbDeliveryTemplate));
+  },
+
+  async getDeliveryTemplate(templateId) {
+    requireSupabase();
+
+    const { data, error } = await supabase.from("delivery_templates").select("*").eq("id", templateId).maybeSingle();
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching delivery template:", templateId, error);
+      throw new Error("שגיאה בטעינת תבנית המשלוח");
+    }
+
+    return data ? dbDeliveryTemplateToTemplate(data as DbDeliveryTemplate) : undefined;
+  },
+
+  async insertDeliveryTemplate(template) {
+    requireSupabase();
+
+    const { id, businessId, createdAt, updatedAt, ...fields } = template;
+    const { data, error } = await supabase
+      .from("delivery_templates")
+      .insert({ id, business_id: businessId, created_at: createdAt, updated_at: updatedAt, ...toDeliveryTemplateRow(fields) })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error creating delivery template:", error);
+      throw new Error("שגיאה בשמירת תבנית המשלוח");
+    }
+
+    return dbDeliveryTemplateToTemplate(data as DbDeliveryTemplate);
+  },
+
+  async updateDeliveryTemplate(templateId, changes) {
+    requireSupabase();
+
+    const { data, error } = await supabase
+      .from("delivery_templates")
+      .update(toDeliveryTemplateRow(changes))
+      .eq("id", templateId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error updating delivery template:", templateId, error);
+      throw new Error("שגיאה בעדכון תבנית המשלוח");
+    }
+
+    return dbDeliveryTemplateToTemplate(data as DbDeliveryTemplate);
+  },
+
+  async deleteDeliveryTemplate(templateId) {
+    requireSupabase();
+
+    const { error } = await supabase.from("delivery_templates").delete().eq("id", templateId);
+    if (error) {
+      console.log("[SUPABASE] Error deleting delivery template:", templateId, error);
+      throw new Error("שגיאה במחיקת תבנית המשלוח");
+    }
+  },
+
+  async listCustomerNotifications(filter: CustomerNotificationFilter = {}) {
+    if (!isSupabaseConfigured()) {
+      return [];
+    }
+
+    let query = supabase.from("customer_notifications").select("*");
+    if (filter.deliveryId) query = query.eq("delivery_id", filter.deliveryId);
+    if (filter.businessId) query = query.eq("business_id", filter.businessId);
+
+    const { data, error } = await query.order("created_at", { ascending: false });
+
+    if (error) {
+      console.log("[SUPABASE] Error fetching customer notifications:", error);
+      throw new Error("שגיאה בטעינת יומן ההודעות ללקוחות");
+    }
+
+    return (data || []).map((row) => dbCustomerNotificationToNotification(row as DbCustomerNotification));
+  },
+
+  async insertCustomerNotification(notification) {
+    requireSupabase();
+
+    const { data, error } = await supabase
+      .from("customer_notifications")
+      .insert({
+        id: notification.id,
+        delivery_id: notification.deliveryId,
+        business_id: notification.businessId,
+        kind: notification.kind,
+        channel: notification.channel,
+        provider: notification.provider,
+        recipient: notification.recipient,
+        language: notification.language,
+        body: notification.body,
+        status: notification.status,
+        error: notification.error ?? null,
+        provider_message_id: notification.providerMessageId ?? null,
+        created_at: notification.createdAt,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.log("[SUPABASE] Error recording customer notification:", error);
+      throw new Error("שגיאה בשמירת יומן ההודעות ללקוחות");
+    }
+
+    return dbCustomerNotificationToNotification(data as DbCustomerNotification);
+  },
+};
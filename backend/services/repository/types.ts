@@ -0,0 +1,98 @@
+import {
+  BusinessInvoice,
+  BusinessPricingOverride,
+  BusinessProfile,
+  CourierProfile,
+  CourierSettlement,
+  Customer,
+  CustomerNotification,
+  Delivery,
+  DeliveryHistoryEntry,
+  DeliveryTemplate,
+  PricingRules,
+  User,
+} from "../../../types/models";
+
+export type StorageBackend = "supabase" | "json" | "sqlite";
+
+export type UserChanges = Partial<Pick<User, "name" | "phone" | "password" | "email" | "pushToken" | "mustChangePassword">> & {
+  courierProfile?: Partial<CourierProfile>;
+  businessProfile?: Partial<BusinessProfile>;
+};
+
+// A key that is present with an undefined value clears the stored field.
+export type DeliveryChanges = Partial<Omit<Delivery, "id" | "createdAt">>;
+
+// Conditions an update must still satisfy at write time; null means the field is empty.
+export type DeliveryMatch = Partial<{
+  status: Delivery["status"];
+  courierId: string | null;
+  settlementId: string | null;
+  scheduledReleaseAt: string | null;
+}>;
+
+export type DeliveryFilter = Partial<{
+  ids: string[];
+  status: Delivery["status"];
+  courierId: string;
+  businessId: string;
+  batchId: string;
+  unsettled: boolean;
+  trackingToken: string;
+}>;
+
+export type DeliveryTemplateChanges = Partial<Omit<DeliveryTemplate, "id" | "businessId" | "createdAt">>;
+
+export type CustomerNotificationFilter = Partial<{
+  deliveryId: string;
+  businessId: string;
+}>;
+
+export type NewBusinessInvoice = Omit<BusinessInvoice, "invoiceNumber" | "createdAt">;
+
+export type DeliveryRepository = {
+  backend: StorageBackend;
+  isReady(): boolean;
+
+  listUsers(): Promise<User[]>;
+  getUser(userId: string): Promise<User | undefined>;
+  insertUser(user: User): Promise<User>;
+  updateUser(userId: string, changes: UserChanges): Promise<User>;
+
+  listDeliveries(filter?: DeliveryFilter): Promise<Delivery[]>;
+  getDelivery(deliveryId: string): Promise<Delivery | undefined>;
+  insertDelivery(delivery: Delivery): Promise<Delivery>;
+  updateDelivery(deliveryId: string, changes: DeliveryChanges, match?: DeliveryMatch): Promise<Delivery | undefined>;
+  updateDeliveries(deliveryIds: string[], changes: DeliveryChanges, match?: DeliveryMatch): Promise<Delivery[]>;
+
+  appendHistory(entry: DeliveryHistoryEntry): Promise<void>;
+  listHistory(deliveryId: string): Promise<DeliveryHistoryEntry[]>;
+
+  getPricingRules(): Promise<PricingRules | null>;
+  savePricingRules(rules: PricingRules): Promise<PricingRules>;
+  listPricingOverrides(): Promise<BusinessPricingOverride[]>;
+  getPricingOverride(businessId: string): Promise<BusinessPricingOverride | null>;
+  savePricingOverride(override: BusinessPricingOverride): Promise<BusinessPricingOverride>;
+  deletePricingOverride(businessId: string): Promise<void>;
+
+  listSettlements(courierId?: string): Promise<CourierSettlement[]>;
+  insertSettlement(settlement: CourierSettlement): Promise<CourierSettlement>;
+  markSettlementPaid(settlementId: string, paidBy: string, paidAt: string): Promise<CourierSettlement | undefined>;
+  deleteSettlement(settlementId: string): Promise<void>;
+
+  listInvoices(businessId?: string): Promise<BusinessInvoice[]>;
+  insertInvoice(invoice: NewBusinessInvoice): Promise<BusinessInvoice>;
+
+  listCustomers(): Promise<Customer[]>;
+  insertCustomer(customer: Customer): Promise<Customer>;
+  updateCustomer(customerId: string, changes: Partial<Omit<Customer, "id">>): Promise<Customer>;
+
+  listDeliveryTemplates(businessId?: string): Promise<DeliveryTemplate[]>;
+  getDeliveryTemplate(templateId: string): Promise<DeliveryTemplate | undefined>;
+  insertDeliveryTemplate(template: DeliveryTemplate): Promise<DeliveryTemplate>;
+  updateDeliveryTemplate(templateId: string, changes: DeliveryTemplateChanges): Promise<DeliveryTemplate>;
+  deleteDeliveryTemplate(templateId: string): Promise<void>;
+
+  listCustomerNotifications(filter?: CustomerNotificationFilter): Promise<CustomerNotification[]>;
+  insertCustomerNotification(notification: CustomerNotification): Promise<CustomerNotification>;
+};
@@ -0,0 +1,67 @@
+import { Delivery, SlaAlert } from "../../types/models";
+import { resolveScheduleLeadMinutes } from "../../utils/scheduling";
+import { evaluateSla, resolveSlaSettings } from "../../utils/sla";
+import { deliveryService } from "./deliveryService";
+import { sendSlaBreachNotification } from "./pushNotificationService";
+
+const getSlaSettings = () =>
+  resolveSlaSettings({
+    assignment: process.env.SLA_ASSIGNMENT_MINUTES,
+    pickup: process.env.SLA_PICKUP_MINUTES,
+    dropoff: process.env.SLA_DROPOFF_MINUTES,
+  });
+
+const collectAlerts = (deliveries: Delivery[], now: number): { delivery: Delivery; alert: SlaAlert }[] => {
+  const settings = getSlaSettings();
+  const leadMinutes = resolveScheduleLeadMinutes(process.env.SCHEDULED_DELIVERY_LEAD_MINUTES);
+  return deliveries.flatMap((delivery) => {
+    const alert = evaluateSla(delivery, settings, leadMinutes, now);
+    return alert ? [{ delivery, alert }] : [];
+  });
+};
+
+// Breached first, then whatever is closest to its limit.
+export async function getSlaAlerts(now = Date.now()): Promise<SlaAlert[]> {
+  const deliveries = await deliveryService.getDeliveries();
+  return collectAlerts(deliveries, now)
+    .map(({ alert }) => alert)
+    .sort((a, b) => {
+      if (a.state !== b.state) {
+        return a.state === "breached" ? -1 : 1;
+      }
+      return b.elapsedMinutes / b.limitMinutes - a.elapsedMinutes / a.limitMinutes;
+    });
+}
+
+// Each stage of a delivery escalates once; returning it to the queue clears the record and restarts the clock.
+export async function escalateSlaBreaches(now = Date.now()): Promise<number> {
+  const deliveries = await deliveryService.getDeliveries();
+  const breaches = collectAlerts(deliveries, now).filter(
+    ({ delivery, alert }) => alert.state === "breached" && !delivery.slaEscalations?.[alert.stage],
+  );
+  if (breaches.length === 0) {
+    return 0;
+  }
+
+  const managers = (await deliveryService.getUsers()).filter((user) => user.role === "manager");
+  let escalatedCount = 0;
+  for (const { delivery, alert } of breaches) {
+    try {
+      const escalated = await deliveryService.recordSlaEscalation({
+        delivery,
+        stage: alert.stage,
+        escalatedAt: new Date(now).toISOString(),
+      });
+      if (!escalated) {
+        continue;
+      }
+      escalatedCount += 1;
+      sendSlaBreachNotification(escalated, alert, managers)
+        .catch((err) => console.log("[PUSH] Failed to send SLA breach notification", delivery.id, err));
+    } catch (error) {
+      console.log("[SLA] Failed to escalate breach", delivery.id, alert.stage, error);
+    }
+  }
+  console.log("[SLA] Escalated breaches:", escalatedCount);
+  return escalatedCount;
+}
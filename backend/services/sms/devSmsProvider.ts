@@ -0,0 +1,32 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+
+import { SmsChannel } from "./types";
+
+const OUTBOX_FILE_PATH =
+  process.env.SMS_OUTBOX_PATH?.trim() || path.join(process.cwd(), "backend", "data", "sms-outbox.jsonl");
+
+// Local stand-in: nothing leaves the machine, every message is printed and appended to an outbox file.
+export const devSmsProvider: SmsChannel = {
+  provider: "dev",
+
+  isReady() {
+    return true;
+  },
+
+  async send(message) {
+    const providerMessageId = `dev-${randomUUID()}`;
+    console.log("[SMS] (dev) To:", message.to, "|", message.body);
+
+    const line = JSON.stringify({ id: providerMessageId, to: message.to, body: message.body, sentAt: new Date().toISOString() });
+    try {
+      await mkdir(path.dirname(OUTBOX_FILE_PATH), { recursive: true });
+      await appendFile(OUTBOX_FILE_PATH, `${line}\n`, "utf8");
+    } catch (error) {
+      console.log("[SMS] (dev) Failed to write outbox file", OUTBOX_FILE_PATH, error);
+    }
+
+    return { providerMessageId };
+  },
+};
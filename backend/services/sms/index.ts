@@ -0,0 +1,22 @@
+import { devSmsProvider } from "./devSmsProvider";
+import { SmsChannel, SmsProviderName } from "./types";
+
+export * from "./types";
+
+const providers: Record<SmsProviderName, SmsChannel> = {
+  dev: devSmsProvider,
+};
+
+export const resolveSmsProvider = (value: string | undefined): SmsProviderName => {
+  const requested = value?.trim().toLowerCase();
+  if (!requested) {
+    return "dev";
+  }
+  if (requested in providers) {
+    return requested as SmsProviderName;
+  }
+  console.log("[SMS] Unknown SMS_PROVIDER, falling back to dev:", requested);
+  return "dev";
+};
+
+export const smsChannel: SmsChannel = providers[resolveSmsProvider(process.env.SMS_PROVIDER)];
@@ -0,0 +1,17 @@
+export type SmsProviderName = "dev";
+
+export type SmsMessage = {
+  to: string;
+  body: string;
+};
+
+export type SmsSendResult = {
+  providerMessageId?: string;
+};
+
+// A provider either resolves once the message was accepted for delivery or throws with the reason it was not.
+export type SmsChannel = {
+  provider: SmsProviderName;
+  isReady(): boolean;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+};
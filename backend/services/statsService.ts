@@ -0,0 +1,146 @@
+import {
+  CourierScorecard,
+  Delivery,
+  DeliveryStatsBreakdownRow,
+  DeliveryStatsPoint,
+  DeliveryStatsSummary,
+  KitchenMetrics,
+  PrepTimeSuggestion,
+  StatsGranularity,
+  StatsPeriod,
+  User,
+} from "../../types/models";
+import { buildCourierScorecardTrend, computeCourierScorecardMetrics } from "../../utils/courierScorecard";
+import {
+  buildStatsBreakdown,
+  buildStatsSeries,
+  countSeriesBuckets,
+  filterDeliveriesByInterval,
+  resolveSeriesInterval,
+  resolveStatsInterval,
+  StatsDateRange,
+  summarizeDeliveries,
+} from "../../utils/deliveryStats";
+import { computeKitchenMetrics, suggestPrepTime } from "../../utils/kitchenMetrics";
+import { resolveScheduleLeadMinutes } from "../../utils/scheduling";
+import { deliveryService } from "./deliveryService";
+
+// Keeps a year of days or two weeks of hours, which is more than any chart can show.
+const MAX_SERIES_POINTS = 400;
+const SCORECARD_TREND_WEEKS = 8;
+const PREP_SUGGESTION_HISTORY_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StatsViewer = Pick<User, "id" | "role">;
+
+export type StatsPeriodParams = StatsDateRange & {
+  period: StatsPeriod;
+};
+
+export type StatsSeriesParams = StatsDateRange & {
+  granularity: StatsGranularity;
+};
+
+// Businesses and couriers only ever aggregate their own deliveries.
+async function getVisibleDeliveries(viewer: StatsViewer): Promise<Delivery[]> {
+  const deliveries = await deliveryService.getDeliveries();
+  if (viewer.role === "business") {
+    return deliveries.filter((delivery) => delivery.businessId === viewer.id);
+  }
+  if (viewer.role === "courier") {
+    return deliveries.filter((delivery) => delivery.courierId === viewer.id);
+  }
+  return deliveries;
+}
+
+export async function getStatsSummary(viewer: StatsViewer, params: StatsPeriodParams, now = Date.now()): Promise<DeliveryStatsSummary> {
+  const interval = resolveStatsInterval(params.period, params, now);
+  const deliveries = filterDeliveriesByInterval(await getVisibleDeliveries(viewer), interval);
+  console.log("[STATS] Summary", { userId: viewer.id, period: params.period, deliveries: deliveries.length });
+  return summarizeDeliveries(deliveries);
+}
+
+export async function getStatsSeries(viewer: StatsViewer, params: StatsSeriesParams, now = Date.now()): Promise<DeliveryStatsPoint[]> {
+  const interval = resolveSeriesInterval(params.granularity, params, now);
+  if (interval.from >= interval.to) {
+    throw new Error("תאריך הסיום חייב להיות אחרי תאריך ההתחלה");
+  }
+  if (countSeriesBuckets(interval, params.granularity) > MAX_SERIES_POINTS) {
+    throw new Error("טווח התאריכים ארוך מדי לתצוגה זו");
+  }
+  const deliveries = await getVisibleDeliveries(viewer);
+  console.log("[STATS] Series", { userId: viewer.id, granularity: params.granularity });
+  return buildStatsSeries(deliveries, interval, params.granularity);
+}
+
+export async function getCourierStats(params: StatsPeriodParams, now = Date.now()): Promise<DeliveryStatsBreakdownRow[]> {
+  const interval = resolveStatsInterval(params.period, params, now);
+  const deliveries = filterDeliveriesByInterval(await deliveryService.getDeliveries(), interval);
+  return buildStatsBreakdown(deliveries, (delivery) => delivery.courierId);
+}
+
+export async function getBusinessStats(params: StatsPeriodParams, now = Date.now()): Promise<DeliveryStatsBreakdownRow[]> {
+  const interval = resolveStatsInterval(params.period, params, now);
+  const deliveries = filterDeliveriesByInterval(await deliveryService.getDeliveries(), interval);
+  return buildStatsBreakdown(deliveries, (delivery) => delivery.businessId);
+}
+
+// A courier may open their own scorecard; managers can open anyone's.
+export async function getCourierScorecard(
+  viewer: StatsViewer,
+  params: StatsPeriodParams & { courierId: string },
+  now = Date.now(),
+): Promise<CourierScorecard> {
+  if (viewer.role !== "manager" && viewer.id !== params.courierId) {
+    throw new Error("אין לך הרשאה לצפות בנתוני שליח זה");
+  }
+  const courier = await deliveryService.getUserById(params.courierId);
+  if (!courier || courier.role !== "courier") {
+    throw new Error("השליח לא נמצא");
+  }
+
+  const deliveries = (await deliveryService.getDeliveries()).filter(
+    (delivery) => delivery.courierId === courier.id || delivery.releasedBy === courier.id,
+  );
+  const leadMinutes = resolveScheduleLeadMinutes(process.env.SCHEDULED_DELIVERY_LEAD_MINUTES);
+  const interval = resolveStatsInterval(params.period, params, now);
+  const trendInterval = resolveSeriesInterval("week", {}, now, SCORECARD_TREND_WEEKS);
+  console.log("[STATS] Courier scorecard", { courierId: courier.id, period: params.period, deliveries: deliveries.length });
+
+  return {
+    courierId: courier.id,
+    metrics: computeCourierScorecardMetrics(filterDeliveriesByInterval(deliveries, interval), courier.id, leadMinutes),
+    trend: buildCourierScorecardTrend(deliveries, courier.id, trendInterval, "week", leadMinutes),
+  };
+}
+
+// A business sees its own kitchen; managers get every business, or just the one they picked.
+export async function getKitchenMetrics(
+  viewer: StatsViewer,
+  params: StatsPeriodParams & { businessId?: string },
+  now = Date.now(),
+): Promise<KitchenMetrics[]> {
+  if (viewer.role === "courier") {
+    throw new Error("אין לך הרשאה לצפות בנתוני המטבח");
+  }
+  const businessId = viewer.role === "business" ? viewer.id : params.businessId;
+  const interval = resolveStatsInterval(params.period, params, now);
+  const deliveries = filterDeliveriesByInterval(await deliveryService.getDeliveries(), interval).filter(
+    (delivery) => !businessId || delivery.businessId === businessId,
+  );
+  const businessIds = businessId ? [businessId] : Array.from(new Set(deliveries.map((delivery) => delivery.businessId)));
+  console.log("[STATS] Kitchen metrics", { userId: viewer.id, period: params.period, businesses: businessIds.length });
+
+  return businessIds
+    .map((id) => computeKitchenMetrics(deliveries, id))
+    .sort((a, b) => b.measured - a.measured);
+}
+
+export async function getPrepTimeSuggestion(businessId: string, now = Date.now()): Promise<PrepTimeSuggestion | null> {
+  const deliveries = filterDeliveriesByInterval(await deliveryService.getDeliveries(), {
+    from: now - PREP_SUGGESTION_HISTORY_DAYS * DAY_MS,
+  }).filter((delivery) => delivery.businessId === businessId);
+  const suggestion = suggestPrepTime(deliveries, now);
+  console.log("[STATS] Prep time suggestion", { businessId, minutes: suggestion?.minutes ?? null });
+  return suggestion;
+}
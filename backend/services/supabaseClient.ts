@@ -0,0 +1,23 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+// The server talks to Supabase with the service-role key, which bypasses row level security. The tables deny the
+// public anon key entirely, so every read and write has to come through the API and its role checks.
+const supabaseUrl = process.env.SUPABASE_URL?.trim() || process.env.EXPO_PUBLIC_SUPABASE_URL?.trim();
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim();
+
+if (supabaseUrl && !serviceRoleKey) {
+  console.log("[SUPABASE] SUPABASE_SERVICE_ROLE_KEY is not set; the Supabase backend stays unavailable");
+}
+
+export const supabase: SupabaseClient = createClient(
+  supabaseUrl && serviceRoleKey ? supabaseUrl : "https://placeholder.supabase.co",
+  serviceRoleKey || "placeholder-key",
+  {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  },
+);
+
+export const isSupabaseConfigured = (): boolean => Boolean(supabaseUrl && serviceRoleKey);
@@ -0,0 +1,188 @@
+import { PublicTrackingView } from "./trackingService";
+
+const POLL_INTERVAL_MS = 15 * 1000;
+
+const toInlineJson = (value: unknown) =>
+  JSON.stringify(value).replace(/</g, "\\u003c").replace(/>/g, "\\u003e").replace(/&/g, "\\u0026");
+
+const pageShell = (body: string, head = "") => `<!DOCTYPE html>
+<html lang="he" dir="rtl">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>מעקב משלוח</title>
+  ${head}
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'SF Pro Text', 'Segoe UI', Roboto, sans-serif;
+      background: #f6f7fb;
+      color: #0f172a;
+      direction: rtl;
+    }
+    .card {
+      max-width: 480px;
+      margin: 16px auto;
+      background: #ffffff;
+      border-radius: 20px;
+      padding: 20px;
+      box-shadow: 0 4px 24px rgba(15, 23, 42, 0.06);
+    }
+    .business { font-size: 13px; color: #475569; margin-bottom: 6px; }
+    .stage { font-size: 22px; font-weight: 800; margin-bottom: 8px; }
+    .detail { font-size: 15px; color: #475569; margin-top: 4px; }
+    .eta { font-size: 17px; font-weight: 700; color: #1d4ed8; margin-top: 10px; }
+    .updated { font-size: 12px; color: #94a3b8; margin-top: 12px; }
+    #map { max-width: 480px; height: 320px; margin: 0 auto 16px; border-radius: 20px; overflow: hidden; display: none; }
+    .courier-marker {
+      width: 14px;
+      height: 14px;
+      background: #007AFF;
+      border: 2px solid white;
+      border-radius: 50%;
+      box-shadow: 0 2px 8px rgba(0, 122, 255, 0.4);
+    }
+    .destination-marker {
+      width: 14px;
+      height: 14px;
+      background: #10b981;
+      border: 2px solid white;
+      border-radius: 50%;
+      box-shadow: 0 2px 8px rgba(16, 185, 129, 0.4);
+    }
+    .leaflet-control-attribution { display: none; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+export function renderTrackingUnavailablePage(): string {
+  return pageShell(`  <div class="card">
+    <div class="stage">הקישור אינו זמין</div>
+    <div class="detail">קישור המעקב פג תוקף או שאינו קיים. לפרטים נוספים פנו לעסק ממנו הזמנתם.</div>
+  </div>`);
+}
+
+// Same Leaflet + Carto tiles setup as the courier map in the app, refreshed by polling the status endpoint.
+export function renderTrackingPage(view: PublicTrackingView): string {
+  const head = `<link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css" />
+  <script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>`;
+
+  return pageShell(
+    `  <div class="card">
+    <div class="business" id="business"></div>
+    <div class="stage" id="stage"></div>
+    <div class="detail" id="detail"></div>
+    <div class="eta" id="eta"></div>
+    <div class="updated" id="updated"></div>
+  </div>
+  <div id="map"></div>
+  <script>
+    (function() {
+      var view = ${toInlineJson(view)};
+      var statusUrl = window.location.pathname.replace(/\\/$/, '') + '/status';
+      var stageLabels = {
+        scheduled: 'ההזמנה מתוזמנת',
+        preparing: 'ההזמנה בהכנה',
+        on_the_way: 'השליח בדרך אליך',
+        delivered: 'ההזמנה נמסרה',
+        closed: 'ההזמנה נסגרה'
+      };
+      var map = null;
+      var courierMarker = null;
+      var destinationMarker = null;
+      var timer = null;
+
+      function formatTime(value) {
+        try {
+          return new Date(value).toLocaleString('he-IL', { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+        } catch (e) {
+          return value;
+        }
+      }
+
+      function markerIcon(className) {
+        return L.divIcon({ className: '', html: '<div class="' + className + '"></div>', iconSize: [14, 14], iconAnchor: [7, 7] });
+      }
+
+      function renderMap() {
+        var mapElement = document.getElementById('map');
+        if (!view.courierLocation || typeof L === 'undefined') {
+          mapElement.style.display = 'none';
+          return;
+        }
+        mapElement.style.display = 'block';
+        var courierPosition = [view.courierLocation.latitude, view.courierLocation.longitude];
+        if (!map) {
+          map = L.map('map', { center: courierPosition, zoom: 14, zoomControl: true });
+          L.tileLayer('https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png', {
+            maxZoom: 19,
+            subdomains: 'abcd'
+          }).addTo(map);
+        }
+        if (courierMarker) {
+          courierMarker.setLatLng(courierPosition);
+        } else {
+          courierMarker = L.marker(courierPosition, { icon: markerIcon('courier-marker') }).addTo(map);
+        }
+        if (view.destination && !destinationMarker) {
+          var destinationPosition = [view.destination.latitude, view.destination.longitude];
+          destinationMarker = L.marker(destinationPosition, { icon: markerIcon('destination-marker') }).addTo(map);
+          map.fitBounds([courierPosition, destinationPosition], { padding: [40, 40] });
+        }
+      }
+
+      function render() {
+        document.getElementById('business').textContent = view.businessName;
+        document.getElementById('stage').textContent = stageLabels[view.stage] || '';
+
+        var detail = '';
+        if (view.stage === 'scheduled' && view.scheduledFor) {
+          detail = 'מועד מתוכנן: ' + formatTime(view.scheduledFor);
+        } else if (view.stage === 'preparing') {
+          detail = view.courierName ? 'השליח ' + view.courierName + ' יאסוף את ההזמנה בקרוב' : 'מחפשים שליח להזמנה שלך';
+        } else if (view.stage === 'on_the_way' && view.courierName) {
+          detail = view.courierName + ' בדרך עם ההזמנה שלך';
+        } else if (view.stage === 'delivered' && view.completedAt) {
+          detail = 'נמסרה ב-' + formatTime(view.completedAt);
+        }
+        document.getElementById('detail').textContent = detail;
+        document.getElementById('eta').textContent = view.etaMinutes ? 'זמן הגעה משוער: כ-' + view.etaMinutes + ' דקות' : '';
+        document.getElementById('updated').textContent = 'עודכן: ' + formatTime(view.generatedAt);
+        renderMap();
+      }
+
+      function poll() {
+        fetch(statusUrl, { cache: 'no-store' })
+          .then(function(response) {
+            if (response.status === 404) {
+              window.location.reload();
+              return null;
+            }
+            return response.ok ? response.json() : null;
+          })
+          .then(function(next) {
+            if (!next) {
+              return;
+            }
+            view = next;
+            render();
+            if (view.stage === 'delivered' || view.stage === 'closed') {
+              clearInterval(timer);
+            }
+          })
+          .catch(function() {});
+      }
+
+      render();
+      if (view.stage !== 'delivered' && view.stage !== 'closed') {
+        timer = setInterval(poll, ${POLL_INTERVAL_MS});
+      }
+    })();
+  </script>`,
+    head,
+  );
+}
@@ -0,0 +1,120 @@
+import { CourierLocation, Delivery } from "../../types/models";
+import { calculateAerialDistance, Coordinates, parseAddressCoordinates } from "../../utils/distanceCalculator";
+import { isHeldForSchedule } from "../../utils/scheduling";
+import { deliveryService } from "./deliveryService";
+import { AVERAGE_COURIER_SPEED_KMH } from "./dispatchService";
+
+const MINUTE_MS = 60 * 1000;
+// The customer can still see "delivered" for a short while before the link stops working.
+const TRACKING_LINK_GRACE_MINUTES = 30;
+const TRACKING_TOKEN_PATTERN = /^[a-f0-9]{32}$/;
+
+export type PublicTrackingStage = "scheduled" | "preparing" | "on_the_way" | "delivered" | "closed";
+
+// Everything here is visible to anyone holding the link, so it never includes customer or courier contact details.
+export type PublicTrackingView = {
+  stage: PublicTrackingStage;
+  businessName: string;
+  courierName: string | null;
+  scheduledFor: string | null;
+  etaMinutes: number | null;
+  courierLocation: CourierLocation | null;
+  destination: Coordinates | null;
+  completedAt: string | null;
+  generatedAt: string;
+};
+
+const getClosedAt = (delivery: Delivery): string | undefined => {
+  return delivery.completedAt ?? delivery.cancelledAt ?? delivery.failedAt;
+};
+
+export const isTrackingLinkExpired = (delivery: Delivery, now = Date.now()): boolean => {
+  const closedAt = getClosedAt(delivery);
+  if (!closedAt) {
+    return delivery.status === "completed" || delivery.status === "cancelled" || delivery.status === "failed";
+  }
+  return new Date(closedAt).getTime() + TRACKING_LINK_GRACE_MINUTES * MINUTE_MS <= now;
+};
+
+const getTrackingStage = (delivery: Delivery): PublicTrackingStage => {
+  if (delivery.status === "completed") {
+    return "delivered";
+  }
+  if (delivery.status === "cancelled" || delivery.status === "failed") {
+    return "closed";
+  }
+  if (isHeldForSchedule(delivery)) {
+    return "scheduled";
+  }
+  return delivery.status === "taken" && delivery.pickedUpAt ? "on_the_way" : "preparing";
+};
+
+export const estimateTravelMinutes = (distanceKm: number) =>
+  Math.max(1, Math.ceil((distanceKm / AVERAGE_COURIER_SPEED_KMH) * 60));
+
+export const toPublicCourierName = (name: string) => name.trim().split(/\s+/)[0];
+
+export const getPublicTrackingUrl = (trackingToken: string | undefined): string | null => {
+  const baseUrl = process.env.PUBLIC_TRACKING_BASE_URL?.trim().replace(/\/$/, "");
+  return baseUrl && trackingToken ? `${baseUrl}/${trackingToken}` : null;
+};
+
+const estimateMinutesToCustomer = (
+  delivery: Delivery,
+  stage: PublicTrackingStage,
+  courierLocation: CourierLocation | null,
+  destination: Coordinates | null,
+  now: number,
+): number | null => {
+  if (delivery.eta && (stage === "on_the_way" || stage === "preparing")) {
+    return Math.max(1, Math.ceil((new Date(delivery.eta.dropoffAt).getTime() - now) / MINUTE_MS));
+  }
+  if (stage === "on_the_way") {
+    if (!courierLocation || !destination) {
+      return null;
+    }
+    return estimateTravelMinutes(calculateAerialDistance(courierLocation, destination));
+  }
+  if (stage !== "preparing" || !delivery.courierId || !delivery.confirmedAt || delivery.distanceKm === undefined) {
+    return null;
+  }
+
+  // The courier leaves the business once both they have arrived and the order is ready.
+  const courierArrivesAt = new Date(delivery.confirmedAt).getTime() + (delivery.estimatedArrivalMinutes ?? 0) * MINUTE_MS;
+  const orderReadyAt = new Date(delivery.createdAt).getTime() + (delivery.preparationTimeMinutes ?? 0) * MINUTE_MS;
+  const departsAt = Math.max(now, courierArrivesAt, orderReadyAt);
+  return Math.ceil((departsAt - now) / MINUTE_MS) + estimateTravelMinutes(delivery.distanceKm);
+};
+
+export async function getPublicTrackingView(trackingToken: string, now = Date.now()): Promise<PublicTrackingView | null> {
+  if (!TRACKING_TOKEN_PATTERN.test(trackingToken)) {
+    return null;
+  }
+
+  const delivery = await deliveryService.getDeliveryByTrackingToken(trackingToken);
+  if (!delivery || isTrackingLinkExpired(delivery, now)) {
+    return null;
+  }
+
+  const [business, courier] = await Promise.all([
+    deliveryService.getUserById(delivery.businessId),
+    delivery.courierId ? deliveryService.getUserById(delivery.courierId) : Promise.resolve(undefined),
+  ]);
+
+  const stage = getTrackingStage(delivery);
+  const destination = parseAddressCoordinates(delivery.dropoffAddress);
+  // Live position is shared only while the order is in the courier's hands.
+  const courierLocation = stage === "on_the_way" ? courier?.courierProfile?.currentLocation ?? null : null;
+
+  return {
+    stage,
+    businessName: business?.name || "עסק",
+    courierName: courier ? toPublicCourierName(courier.name) : null,
+    scheduledFor: delivery.scheduledFor ?? null,
+    etaMinutes: estimateMinutesToCustomer(delivery, stage, courierLocation, destination, now),
+    courierLocation,
+    destination,
+    completedAt: delivery.completedAt ?? null,
+    generatedAt: new Date(now).toISOString(),
+  };
+}
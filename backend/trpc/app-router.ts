@@ -1,26 +1,64 @@
 import { createTRPCRouter } from "./create-context";
 import hiRoute from "./routes/example/hi/route";
 import usersListRoute from "./routes/users/list/route";
+import usersDirectoryRoute from "./routes/users/directory/route";
 import registerPushTokenRoute from "./routes/users/registerPushToken/route";
 import testPushRoute from "./routes/users/testPush/route";
 import deliveriesListRoute from "./routes/deliveries/list/route";
+import deliveryHistoryRoute from "./routes/deliveries/history/route";
+import proofOfDeliveryRoute from "./routes/deliveries/proofOfDelivery/route";
 import loginRoute from "./routes/auth/login/route";
+import impersonateRoute from "./routes/auth/impersonate/route";
+import changePasswordRoute from "./routes/auth/changePassword/route";
+import supabaseTokenRoute from "./routes/auth/supabaseToken/route";
 import registerCourierRoute from "./routes/manager/registerCourier/route";
 import registerBusinessRoute from "./routes/manager/registerBusiness/route";
 import registerManagerRoute from "./routes/manager/registerManager/route";
 import updateDeliveryRoute from "./routes/manager/updateDelivery/route";
 import updateUserRoute from "./routes/manager/updateUser/route";
+import managerCreateBatchRoute from "./routes/manager/createBatch/route";
+import overrideGeofenceRoute from "./routes/manager/overrideGeofence/route";
+import reassignDeliveryRoute from "./routes/manager/reassignDelivery/route";
 import createDeliveryRoute from "./routes/business/createDelivery/route";
 import confirmDeliveryRoute from "./routes/business/confirmDelivery/route";
 import markReadyRoute from "./routes/business/markReady/route";
+import cancelDeliveryRoute from "./routes/business/cancelDelivery/route";
 import takeDeliveryRoute from "./routes/courier/takeDelivery/route";
 import pickupDeliveryRoute from "./routes/courier/pickupDelivery/route";
 import completeDeliveryRoute from "./routes/courier/completeDelivery/route";
+import reportFailureRoute from "./routes/courier/reportFailure/route";
+import releaseDeliveryRoute from "./routes/courier/releaseDelivery/route";
+import declineOfferRoute from "./routes/courier/declineOffer/route";
+import courierCreateBatchRoute from "./routes/courier/createBatch/route";
+import pickupBatchRoute from "./routes/courier/pickupBatch/route";
 import updateAvailabilityRoute from "./routes/courier/updateAvailability/route";
 import updateLocationRoute from "./routes/courier/updateLocation/route";
 import subscribeRoute from "./routes/events/subscribe/route";
 import lookupCustomerRoute from "./routes/customers/lookup/route";
 import saveCustomerRoute from "./routes/customers/save/route";
+import getPricingRoute from "./routes/pricing/get/route";
+import updatePricingRulesRoute from "./routes/pricing/updateRules/route";
+import setBusinessPricingOverrideRoute from "./routes/pricing/setBusinessOverride/route";
+import listSettlementsRoute from "./routes/settlements/list/route";
+import closeSettlementRoute from "./routes/settlements/close/route";
+import markSettlementPaidRoute from "./routes/settlements/markPaid/route";
+import listInvoicesRoute from "./routes/invoices/list/route";
+import createInvoiceRoute from "./routes/invoices/create/route";
+import listTemplatesRoute from "./routes/templates/list/route";
+import saveTemplateRoute from "./routes/templates/save/route";
+import setTemplatePausedRoute from "./routes/templates/setPaused/route";
+import skipTemplateOccurrenceRoute from "./routes/templates/skipOccurrence/route";
+import deleteTemplateRoute from "./routes/templates/delete/route";
+import listCustomerNotificationsRoute from "./routes/customerNotifications/list/route";
+import updateCustomerSmsSettingsRoute from "./routes/customerNotifications/updateSettings/route";
+import slaAlertsRoute from "./routes/sla/alerts/route";
+import statsSummaryRoute from "./routes/stats/summary/route";
+import statsSeriesRoute from "./routes/stats/series/route";
+import statsCouriersRoute from "./routes/stats/couriers/route";
+import statsBusinessesRoute from "./routes/stats/businesses/route";
+import courierScorecardRoute from "./routes/stats/courierScorecard/route";
+import statsKitchenRoute from "./routes/stats/kitchen/route";
+import statsPrepSuggestionRoute from "./routes/stats/prepSuggestion/route";
 
 export const appRouter = createTRPCRouter({
   example: createTRPCRouter({
@@ -28,14 +66,20 @@ export const appRouter = createTRPCRouter({
   }),
   users: createTRPCRouter({
     list: usersListRoute,
+    directory: usersDirectoryRoute,
     registerPushToken: registerPushTokenRoute,
     testPush: testPushRoute,
   }),
   deliveries: createTRPCRouter({
     list: deliveriesListRoute,
+    history: deliveryHistoryRoute,
+    proofOfDelivery: proofOfDeliveryRoute,
   }),
   auth: createTRPCRouter({
     login: loginRoute,
+    impersonate: impersonateRoute,
+    changePassword: changePasswordRoute,
+    supabaseToken: supabaseTokenRoute,
   }),
   manager: createTRPCRouter({
     registerCourier: registerCourierRoute,
@@ -43,16 +87,25 @@ export const appRouter = createTRPCRouter({
     registerManager: registerManagerRoute,
     updateDelivery: updateDeliveryRoute,
     updateUser: updateUserRoute,
+    createBatch: managerCreateBatchRoute,
+    overrideGeofence: overrideGeofenceRoute,
+    reassignDelivery: reassignDeliveryRoute,
   }),
   business: createTRPCRouter({
     createDelivery: createDeliveryRoute,
     confirmDelivery: confirmDeliveryRoute,
     markReady: markReadyRoute,
+    cancelDelivery: cancelDeliveryRoute,
   }),
   courier: createTRPCRouter({
     takeDelivery: takeDeliveryRoute,
     pickupDelivery: pickupDeliveryRoute,
     completeDelivery: completeDeliveryRoute,
+    reportFailure: reportFailureRoute,
+    releaseDelivery: releaseDeliveryRoute,
+    declineOffer: declineOfferRoute,
+    createBatch: courierCreateBatchRoute,
+    pickupBatch: pickupBatchRoute,
     updateAvailability: updateAvailabilityRoute,
     updateLocation: updateLocationRoute,
   }),
@@ -63,6 +116,43 @@ export const appRouter = createTRPCRouter({
     lookup: lookupCustomerRoute,
     save: saveCustomerRoute,
   }),
+  pricing: createTRPCRouter({
+    get: getPricingRoute,
+    updateRules: updatePricingRulesRoute,
+    setBusinessOverride: setBusinessPricingOverrideRoute,
+  }),
+  settlements: createTRPCRouter({
+    list: listSettlementsRoute,
+    close: closeSettlementRoute,
+    markPaid: markSettlementPaidRoute,
+  }),
+  invoices: createTRPCRouter({
+    list: listInvoicesRoute,
+    create: createInvoiceRoute,
+  }),
+  templates: createTRPCRouter({
+    list: listTemplatesRoute,
+    save: saveTemplateRoute,
+    setPaused: setTemplatePausedRoute,
+    skipOccurrence: skipTemplateOccurrenceRoute,
+    delete: deleteTemplateRoute,
+  }),
+  customerNotifications: createTRPCRouter({
+    list: listCustomerNotificationsRoute,
+    updateSettings: updateCustomerSmsSettingsRoute,
+  }),
+  sla: createTRPCRouter({
+    alerts: slaAlertsRoute,
+  }),
+  stats: createTRPCRouter({
+    summary: statsSummaryRoute,
+    series: statsSeriesRoute,
+    couriers: statsCouriersRoute,
+    businesses: statsBusinessesRoute,
+    courierScorecard: courierScorecardRoute,
+    kitchen: statsKitchenRoute,
+    prepSuggestion: statsPrepSuggestionRoute,
+  }),
 });
 
 export type AppRouter = typeof appRouter;
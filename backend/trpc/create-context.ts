@@ -1,10 +1,45 @@
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 
+import { User, UserRole } from "../../types/models";
+import { deliveryService } from "../services/deliveryService";
+import { DeliveryRejectedError } from "../services/deliveryRejection";
+import { extractBearerToken, isCredentialCurrent, verifySessionToken } from "../services/authService";
+
+const resolveSessionUser = async (opts: FetchCreateContextFnOptions): Promise<{ user: User | null; impersonatedBy: string | null }> => {
+  const headerToken = extractBearerToken(opts.req.headers.get("authorization"));
+  const paramsToken = opts.info?.connectionParams?.token ?? null;
+  const token = headerToken ?? paramsToken;
+
+  if (!token) {
+    return { user: null, impersonatedBy: null };
+  }
+
+  const claims = verifySessionToken(token);
+  if (!claims) {
+    return { user: null, impersonatedBy: null };
+  }
+
+  const user = await deliveryService.getUserById(claims.sub);
+  if (!user || user.role !== claims.role) {
+    console.log("[AUTH] Session user missing or role changed:", claims.sub);
+    return { user: null, impersonatedBy: null };
+  }
+  if (!isCredentialCurrent(claims, user)) {
+    console.log("[AUTH] Session revoked by a password change:", claims.sub);
+    return { user: null, impersonatedBy: null };
+  }
+
+  return { user, impersonatedBy: claims.impersonatedBy ?? null };
+};
+
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
+  const session = await resolveSessionUser(opts);
   return {
     req: opts.req,
+    user: session.user,
+    impersonatedBy: session.impersonatedBy,
   };
 };
 
@@ -15,4 +50,47 @@ const t = initTRPC.context<Context>().create({
 });
 
 export const createTRPCRouter = t.router;
-export const publicProcedure = t.procedure;
+
+// Rule rejections go out as 4xx; every other thrown error stays a 500 the client may retry.
+export const publicProcedure = t.procedure.use(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof DeliveryRejectedError) {
+    throw new TRPCError({ code: result.error.cause.code, message: result.error.cause.message, cause: result.error.cause });
+  }
+  return result;
+});
+
+const roleErrorMessages: Record<UserRole, string> = {
+  manager: "גישה מותרת רק למנהלים מחוברים",
+  business: "הפעולה זמינה רק לחשבונות עסק",
+  courier: "גישה מותרת רק לשליחים",
+};
+
+// Signed in, even on a temporary password; only changing that password is allowed at this level.
+export const passwordChangeProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "נדרשת התחברות מחדש" });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+// A manager impersonating the account is not its owner, so the temporary password does not block them.
+export const protectedProcedure = passwordChangeProcedure.use(({ ctx, next }) => {
+  if (ctx.user.mustChangePassword && !ctx.impersonatedBy) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "יש להחליף את הסיסמה הזמנית לפני שממשיכים" });
+  }
+  return next({ ctx });
+});
+
+const createRoleProcedure = (role: UserRole) =>
+  protectedProcedure.use(({ ctx, next }) => {
+    if (ctx.user.role !== role) {
+      console.log("[AUTH] Role mismatch", { expectedRole: role, actualRole: ctx.user.role, userId: ctx.user.id });
+      throw new TRPCError({ code: "FORBIDDEN", message: roleErrorMessages[role] });
+    }
+    return next({ ctx });
+  });
+
+export const courierProcedure = createRoleProcedure("courier");
+export const businessProcedure = createRoleProcedure("business");
+export const managerProcedure = createRoleProcedure("manager");
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { issueSessionToken } from "../../../../services/authService";
+import { passwordChangeProcedure } from "../../../create-context";
+
+const changePasswordInput = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(4),
+});
+
+const changePasswordRoute = passwordChangeProcedure.input(changePasswordInput).mutation(async ({ ctx, input }) => {
+  const user = await deliveryService.changePassword({
+    userId: ctx.user.id,
+    currentPassword: input.currentPassword,
+    newPassword: input.newPassword,
+  });
+  // The change revokes every earlier token, including the one this request came in with.
+  const token = issueSessionToken(user, { impersonatedBy: ctx.impersonatedBy ?? undefined });
+  return { user: toPublicUser(user), token };
+});
+
+export default changePasswordRoute;
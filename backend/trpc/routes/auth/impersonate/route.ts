@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { issueSessionToken } from "../../../../services/authService";
+import { managerProcedure } from "../../../create-context";
+
+const impersonateInput = z.object({
+  userId: z.string().min(1),
+});
+
+const impersonateRoute = managerProcedure.input(impersonateInput).mutation(async ({ ctx, input }) => {
+  const target = await deliveryService.getUserById(input.userId);
+  if (!target) {
+    throw new Error("המשתמש לא נמצא");
+  }
+  console.log("[AUTH] Manager impersonating user", ctx.user.id, "->", target.id);
+  const token = issueSessionToken(target, { impersonatedBy: ctx.user.id });
+  return { user: toPublicUser(target), token };
+});
+
+export default impersonateRoute;
@@ -1,6 +1,8 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { issueSessionToken } from "../../../../services/authService";
 import { publicProcedure } from "../../../create-context";
 
 const loginInput = z.object({
@@ -9,8 +11,9 @@ const loginInput = z.object({
 });
 
 const loginRoute = publicProcedure.input(loginInput).mutation(async ({ input }) => {
-  const user = await supabaseStore.login(input.phone, input.password);
-  return user;
+  const user = await deliveryService.login(input.phone, input.password);
+  const token = issueSessionToken(user);
+  return { user: toPublicUser(user), token };
 });
 
 export default loginRoute;
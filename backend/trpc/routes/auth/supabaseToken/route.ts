@@ -0,0 +1,13 @@
+import { issueSupabaseAccessToken } from "../../../../services/authService";
+import { protectedProcedure } from "../../../create-context";
+
+const supabaseTokenRoute = protectedProcedure.query(({ ctx }) => {
+  const access = issueSupabaseAccessToken(ctx.user);
+  if (!access) {
+    console.log("[AUTH] Supabase access requested but SUPABASE_JWT_SECRET is not set");
+    throw new Error("קריאה ישירה מ-Supabase אינה מוגדרת בשרת");
+  }
+  return access;
+});
+
+export default supabaseTokenRoute;
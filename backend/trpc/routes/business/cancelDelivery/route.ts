@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
+import { sendDeliveryCancelledNotification } from "../../../../services/pushNotificationService";
+import { stopDispatch } from "../../../../services/dispatchService";
+import { cancellationReasons } from "../../../../../constants/deliveryReasons";
+
+const cancelDeliveryInput = z.object({
+  deliveryId: z.string().min(1),
+  reason: z.enum(cancellationReasons),
+  note: z.string().max(500).optional(),
+  occurredAt: z.string().datetime().optional(),
+  replay: z.boolean().optional(),
+});
+
+const cancelDeliveryRoute = businessProcedure.input(cancelDeliveryInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.businessCancelDelivery({ ...input, businessId: ctx.user.id });
+  stopDispatch(delivery.id);
+
+  if (delivery.courierId) {
+    const courier = await deliveryService.getUserById(delivery.courierId);
+    if (courier) {
+      sendDeliveryCancelledNotification(delivery, courier)
+        .catch((err) => console.log("[PUSH] Failed to send delivery cancelled notification", err));
+    }
+  }
+
+  return delivery;
+});
+
+export default cancelDeliveryRoute;
@@ -1,17 +1,20 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
 
 const confirmDeliveryInput = z.object({
-  businessId: z.string().min(1),
   deliveryId: z.string().min(1),
+  occurredAt: z.string().datetime().optional(),
+  replay: z.boolean().optional(),
 });
 
-const confirmDeliveryRoute = publicProcedure.input(confirmDeliveryInput).mutation(async ({ input }) => {
-  const delivery = await supabaseStore.businessConfirmDelivery({
-    businessId: input.businessId,
+const confirmDeliveryRoute = businessProcedure.input(confirmDeliveryInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.businessConfirmDelivery({
+    businessId: ctx.user.id,
     deliveryId: input.deliveryId,
+    occurredAt: input.occurredAt,
+    replay: input.replay,
   });
   return delivery;
 });
@@ -1,17 +1,20 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
 
 const markReadyInput = z.object({
-  businessId: z.string().min(1),
   deliveryId: z.string().min(1),
+  occurredAt: z.string().datetime().optional(),
+  replay: z.boolean().optional(),
 });
 
-const markReadyRoute = publicProcedure.input(markReadyInput).mutation(async ({ input }) => {
-  const delivery = await supabaseStore.businessMarkReady({
-    businessId: input.businessId,
+const markReadyRoute = businessProcedure.input(markReadyInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.businessMarkReady({
+    businessId: ctx.user.id,
     deliveryId: input.deliveryId,
+    occurredAt: input.occurredAt,
+    replay: input.replay,
   });
   return delivery;
 });
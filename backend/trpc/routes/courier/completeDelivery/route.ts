@@ -1,15 +1,33 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { MAX_PROOF_PHOTO_BYTES, MAX_RECIPIENT_NAME_LENGTH } from "../../../../../utils/proofOfDelivery";
+import { courierProcedure } from "../../../create-context";
+
+const proofOfDeliveryInput = z.object({
+  recipientName: z.string().max(MAX_RECIPIENT_NAME_LENGTH).optional(),
+  // Base64 grows the payload by a third; the decoded size is checked again by the service.
+  photoBase64: z.string().max(Math.ceil((MAX_PROOF_PHOTO_BYTES * 4) / 3) + 64).optional(),
+  signaturePath: z.string().optional(),
+  location: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      accuracy: z.number().nonnegative().optional(),
+    })
+    .optional(),
+  capturedAt: z.string().datetime().optional(),
+});
 
 const completeDeliveryInput = z.object({
-  courierId: z.string().min(1),
   deliveryId: z.string().min(1),
+  occurredAt: z.string().datetime().optional(),
+  replay: z.boolean().optional(),
+  proof: proofOfDeliveryInput.optional(),
 });
 
-const completeDeliveryRoute = publicProcedure.input(completeDeliveryInput).mutation(async ({ input }) => {
-  const delivery = await supabaseStore.courierCompleteDelivery(input);
+const completeDeliveryRoute = courierProcedure.input(completeDeliveryInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.courierCompleteDelivery({ ...input, courierId: ctx.user.id });
   return delivery;
 });
 
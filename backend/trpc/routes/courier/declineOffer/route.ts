@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+import { courierProcedure } from "../../../create-context";
+import { declineDispatchOffer } from "../../../../services/dispatchService";
+
+const declineOfferInput = z.object({
+  deliveryId: z.string().min(1),
+});
+
+const declineOfferRoute = courierProcedure.input(declineOfferInput).mutation(async ({ ctx, input }) => {
+  const delivery = await declineDispatchOffer(input.deliveryId, ctx.user.id);
+  return delivery;
+});
+
+export default declineOfferRoute;
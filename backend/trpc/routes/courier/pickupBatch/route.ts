@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { courierProcedure } from "../../../create-context";
+import { notifyCustomerPickedUp } from "../../../../services/customerNotificationService";
+
+const pickupBatchInput = z.object({
+  batchId: z.string().min(1),
+});
+
+const pickupBatchRoute = courierProcedure.input(pickupBatchInput).mutation(async ({ ctx, input }) => {
+  const deliveries = await deliveryService.courierPickupBatch({ courierId: ctx.user.id, batchId: input.batchId });
+
+  deliveries.forEach((delivery) => {
+    notifyCustomerPickedUp(delivery)
+      .catch((err) => console.log("[SMS] Failed to send picked up message", delivery.id, err));
+  });
+
+  return deliveries;
+});
+
+export default pickupBatchRoute;
@@ -1,15 +1,21 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { courierProcedure } from "../../../create-context";
+import { notifyCustomerPickedUp } from "../../../../services/customerNotificationService";
 
 const pickupDeliveryInput = z.object({
-  courierId: z.string().min(1),
   deliveryId: z.string().min(1),
+  occurredAt: z.string().datetime().optional(),
+  replay: z.boolean().optional(),
 });
 
-const pickupDeliveryRoute = publicProcedure.input(pickupDeliveryInput).mutation(async ({ input }) => {
-  const delivery = await supabaseStore.courierPickupDelivery(input);
+const pickupDeliveryRoute = courierProcedure.input(pickupDeliveryInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.courierPickupDelivery({ ...input, courierId: ctx.user.id });
+
+  notifyCustomerPickedUp(delivery)
+    .catch((err) => console.log("[SMS] Failed to send picked up message", delivery.id, err));
+
   return delivery;
 });
 
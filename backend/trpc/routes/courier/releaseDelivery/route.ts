@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { courierProcedure } from "../../../create-context";
+import { dispatchDelivery } from "../../../../services/dispatchService";
+import { releaseReasons } from "../../../../../constants/deliveryReasons";
+
+const releaseDeliveryInput = z.object({
+  deliveryId: z.string().min(1),
+  reason: z.enum(releaseReasons),
+  note: z.string().max(500).optional(),
+});
+
+const releaseDeliveryRoute = courierProcedure.input(releaseDeliveryInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.courierReleaseDelivery({ ...input, courierId: ctx.user.id });
+
+  const business = await deliveryService.getUserById(delivery.businessId);
+  const businessName = business?.name || "עסק";
+
+  dispatchDelivery(delivery, businessName, { excludeCourierIds: [ctx.user.id] })
+    .catch((err) => console.log("[DISPATCH] Failed to dispatch released delivery", err));
+
+  return delivery;
+});
+
+export default releaseDeliveryRoute;
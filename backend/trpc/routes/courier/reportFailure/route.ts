@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { courierProcedure } from "../../../create-context";
+import { sendDeliveryFailedNotification } from "../../../../services/pushNotificationService";
+import { failureReasons } from "../../../../../constants/deliveryReasons";
+
+const reportFailureInput = z.object({
+  deliveryId: z.string().min(1),
+  reason: z.enum(failureReasons),
+  note: z.string().max(500).optional(),
+  occurredAt: z.string().datetime().optional(),
+  replay: z.boolean().optional(),
+});
+
+const reportFailureRoute = courierProcedure.input(reportFailureInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.courierReportFailure({ ...input, courierId: ctx.user.id });
+
+  const business = await deliveryService.getUserById(delivery.businessId);
+  if (business) {
+    sendDeliveryFailedNotification(delivery, business)
+      .catch((err) => console.log("[PUSH] Failed to send delivery failed notification", err));
+  }
+
+  return delivery;
+});
+
+export default reportFailureRoute;
@@ -1,20 +1,21 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { courierProcedure } from "../../../create-context";
+import { stopDispatch } from "../../../../services/dispatchService";
 
 const takeDeliveryInput = z.object({
-  courierId: z.string().min(1),
   deliveryId: z.string().min(1),
   estimatedArrivalMinutes: z.number().int().min(1).max(60),
 });
 
-const takeDeliveryRoute = publicProcedure.input(takeDeliveryInput).mutation(async ({ input }) => {
-  const delivery = await supabaseStore.courierTakeDelivery({
-    courierId: input.courierId,
+const takeDeliveryRoute = courierProcedure.input(takeDeliveryInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.courierTakeDelivery({
+    courierId: ctx.user.id,
     deliveryId: input.deliveryId,
     estimatedArrivalMinutes: input.estimatedArrivalMinutes,
   });
+  stopDispatch(delivery.id);
   return delivery;
 });
 
@@ -1,16 +1,16 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { courierProcedure } from "../../../create-context";
 
 const updateAvailabilityInput = z.object({
-  courierId: z.string().min(1),
   isAvailable: z.boolean(),
 });
 
-const updateAvailabilityRoute = publicProcedure.input(updateAvailabilityInput).mutation(async ({ input }) => {
-  const user = await supabaseStore.courierUpdateAvailability(input);
-  return user;
+const updateAvailabilityRoute = courierProcedure.input(updateAvailabilityInput).mutation(async ({ ctx, input }) => {
+  const user = await deliveryService.courierUpdateAvailability({ ...input, courierId: ctx.user.id });
+  return toPublicUser(user);
 });
 
 export default updateAvailabilityRoute;
@@ -1,23 +1,35 @@
 import { z } from "zod";
-import { publicProcedure } from "../../../create-context";
-import { supabaseStore } from "../../../../services/supabaseStore";
+import { courierProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { notifyCustomersOfNearbyCourier } from "../../../../services/customerNotificationService";
+import { refreshCourierEtas } from "../../../../services/etaService";
 
 const updateLocationSchema = z.object({
-  courierId: z.string().min(1, "מזהה שליח נדרש"),
   latitude: z.number().min(-90).max(90),
   longitude: z.number().min(-180).max(180),
 });
 
-const updateLocationRoute = publicProcedure
+const updateLocationRoute = courierProcedure
   .input(updateLocationSchema)
-  .mutation(async ({ input }) => {
-    console.log("[ROUTE] courier.updateLocation called", input.courierId, input.latitude, input.longitude);
-    const result = await supabaseStore.courierUpdateLocation({
-      courierId: input.courierId,
+  .mutation(async ({ ctx, input }) => {
+    console.log("[ROUTE] courier.updateLocation called", ctx.user.id, input.latitude, input.longitude);
+    const result = await deliveryService.courierUpdateLocation({
+      courierId: ctx.user.id,
       latitude: input.latitude,
       longitude: input.longitude,
     });
-    return result;
+
+    refreshCourierEtas(ctx.user.id)
+      .catch((err) => console.log("[ETA] Failed to refresh courier ETAs", ctx.user.id, err));
+
+    deliveryService.recordPickupArrivals({ courierId: ctx.user.id, ...input })
+      .catch((err) => console.log("[DELIVERY SERVICE] Failed to record pickup arrivals", ctx.user.id, err));
+
+    notifyCustomersOfNearbyCourier(ctx.user.id, input)
+      .catch((err) => console.log("[SMS] Failed to check for nearby customers", ctx.user.id, err));
+
+    return toPublicUser(result);
   });
 
 export default updateLocationRoute;
@@ -0,0 +1,27 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { protectedProcedure } from "../../../create-context";
+
+const listCustomerNotificationsInput = z
+  .object({
+    businessId: z.string().min(1).optional(),
+    deliveryId: z.string().min(1).optional(),
+  })
+  .optional();
+
+const listCustomerNotificationsRoute = protectedProcedure
+  .input(listCustomerNotificationsInput)
+  .query(async ({ ctx, input }) => {
+    if (ctx.user.role === "courier") {
+      throw new TRPCError({ code: "FORBIDDEN", message: "אין לך הרשאה לצפות ביומן ההודעות" });
+    }
+
+    // Businesses only ever see messages sent to their own customers.
+    const businessId = ctx.user.role === "business" ? ctx.user.id : input?.businessId;
+    const notifications = await deliveryService.getCustomerNotifications({ businessId, deliveryId: input?.deliveryId });
+    return notifications;
+  });
+
+export default listCustomerNotificationsRoute;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { businessProcedure } from "../../../create-context";
+
+const updateSettingsInput = z.object({
+  enabled: z.boolean(),
+  language: z.enum(["he", "en"]),
+});
+
+const updateCustomerSmsSettingsRoute = businessProcedure.input(updateSettingsInput).mutation(async ({ ctx, input }) => {
+  const business = await deliveryService.updateCustomerSmsSettings({ ...input, businessId: ctx.user.id });
+  return toPublicUser(business);
+});
+
+export default updateCustomerSmsSettingsRoute;
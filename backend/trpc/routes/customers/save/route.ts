@@ -1,7 +1,7 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
 
 const saveCustomerInput = z.object({
   phone: z.string().min(1),
@@ -10,12 +10,11 @@ const saveCustomerInput = z.object({
   city: z.string().optional(),
   floor: z.string().optional(),
   notes: z.string().optional(),
-  businessId: z.string().optional(),
 });
 
-const saveCustomerRoute = publicProcedure.input(saveCustomerInput).mutation(async ({ input }) => {
+const saveCustomerRoute = businessProcedure.input(saveCustomerInput).mutation(async ({ ctx, input }) => {
   console.log("[CUSTOMER] Saving customer:", input.phone, input.name);
-  const customer = await supabaseStore.saveCustomer(input);
+  const customer = await deliveryService.saveCustomer({ ...input, businessId: ctx.user.id });
   return customer;
 });
 
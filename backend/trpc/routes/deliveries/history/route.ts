@@ -0,0 +1,21 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { protectedProcedure } from "../../../create-context";
+
+const deliveryHistoryInput = z.object({
+  deliveryId: z.string().min(1),
+});
+
+const deliveryHistoryRoute = protectedProcedure.input(deliveryHistoryInput).query(async ({ ctx, input }) => {
+  if (ctx.user.role !== "manager" && !ctx.impersonatedBy) {
+    console.log("[AUTH] Delivery history denied", { userId: ctx.user.id, role: ctx.user.role });
+    throw new TRPCError({ code: "FORBIDDEN", message: "גישה מותרת רק למנהלים מחוברים" });
+  }
+
+  const history = await deliveryService.getDeliveryHistory(input.deliveryId);
+  return history;
+});
+
+export default deliveryHistoryRoute;
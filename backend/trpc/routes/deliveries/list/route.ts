@@ -1,8 +1,8 @@
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { protectedProcedure } from "../../../create-context";
 
-const deliveriesListRoute = publicProcedure.query(async () => {
-  const deliveries = await supabaseStore.getDeliveries();
+const deliveriesListRoute = protectedProcedure.query(async ({ ctx }) => {
+  const deliveries = await deliveryService.getVisibleDeliveries(ctx.user);
   return deliveries;
 });
 
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { protectedProcedure } from "../../../create-context";
+
+const proofOfDeliveryInput = z.object({
+  deliveryId: z.string().min(1),
+});
+
+const proofOfDeliveryRoute = protectedProcedure.input(proofOfDeliveryInput).query(async ({ ctx, input }) => {
+  const proof = await deliveryService.getProofOfDelivery({ userId: ctx.user.id, deliveryId: input.deliveryId });
+  return proof;
+});
+
+export default proofOfDeliveryRoute;
@@ -1,14 +1,32 @@
-import { publicProcedure } from "../../../create-context";
-import { systemEvents, SystemEvent } from "../../../../services/eventEmitter";
+import { protectedProcedure } from "../../../create-context";
+import { DeliveryEvent, systemEvents, SystemEvent, UserEvent } from "../../../../services/eventEmitter";
+import { toDirectoryEntry, toPublicUser } from "../../../../services/publicUsers";
+import { canViewDelivery } from "../../../../services/deliveryAccess";
 import { observable } from "@trpc/server/observable";
+import { UserDirectoryEntry } from "../../../../../types/models";
 
-export const subscribeRoute = publicProcedure.subscription(() => {
+type ClientEvent = DeliveryEvent | (Omit<UserEvent, "user"> & { user: UserDirectoryEntry });
+
+export const subscribeRoute = protectedProcedure.subscription(({ ctx }) => {
   console.log("[SUBSCRIPTION] Client connected to system events");
 
-  return observable<SystemEvent>((emit) => {
+  // User events carry the same projection as the users routes: never the password, and only the directory view of others.
+  const toClientEvent = (event: SystemEvent): ClientEvent => {
+    if (!("user" in event)) {
+      return event;
+    }
+    const canSeeAccount = ctx.user.role === "manager" || event.user.id === ctx.user.id;
+    return { ...event, user: canSeeAccount ? toPublicUser(event.user) : toDirectoryEntry(event.user) };
+  };
+
+  return observable<ClientEvent>((emit) => {
     const onEvent = (event: SystemEvent) => {
+      // Delivery events follow deliveries.list: nobody hears about orders they could not load.
+      if ("delivery" in event && !canViewDelivery(ctx.user, event.delivery)) {
+        return;
+      }
       console.log("[SUBSCRIPTION] Emitting event to client:", event.type);
-      emit.next(event);
+      emit.next(toClientEvent(event));
     };
 
     systemEvents.on("system:event", onEvent);
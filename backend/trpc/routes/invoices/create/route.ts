@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const createInvoiceInput = z.object({
+  businessId: z.string().min(1),
+  periodStart: z.string().min(1),
+  periodEnd: z.string().min(1),
+});
+
+const createInvoiceRoute = managerProcedure.input(createInvoiceInput).mutation(async ({ ctx, input }) => {
+  const invoice = await deliveryService.createBusinessInvoice({ managerId: ctx.user.id, ...input });
+  return invoice;
+});
+
+export default createInvoiceRoute;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const listInvoicesInput = z
+  .object({
+    businessId: z.string().min(1).optional(),
+  })
+  .optional();
+
+const listInvoicesRoute = managerProcedure.input(listInvoicesInput).query(async ({ input }) => {
+  const invoices = await deliveryService.getBusinessInvoices(input?.businessId);
+  return invoices;
+});
+
+export default listInvoicesRoute;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+import { MAX_BATCH_SIZE } from "../../../../../utils/deliveryBatching";
+
+const createBatchInput = z.object({
+  deliveryIds: z.array(z.string().min(1)).min(2).max(MAX_BATCH_SIZE),
+});
+
+const createBatchRoute = managerProcedure.input(createBatchInput).mutation(async ({ ctx, input }) => {
+  const deliveries = await deliveryService.createDeliveryBatch({ actorId: ctx.user.id, deliveryIds: input.deliveryIds });
+  return deliveries;
+});
+
+export default createBatchRoute;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const overrideGeofenceInput = z.object({
+  deliveryId: z.string().min(1),
+  stage: z.enum(["pickup", "dropoff"]),
+  reason: z.string().trim().min(1).max(300),
+});
+
+const overrideGeofenceRoute = managerProcedure.input(overrideGeofenceInput).mutation(async ({ ctx, input }) => {
+  const delivery = await deliveryService.managerOverrideGeofence({ ...input, managerId: ctx.user.id });
+  return delivery;
+});
+
+export default overrideGeofenceRoute;
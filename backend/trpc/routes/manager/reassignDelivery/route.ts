@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+import { reassignToBestCourier } from "../../../../services/dispatchService";
+import { managerProcedure } from "../../../create-context";
+
+const reassignDeliveryInput = z.object({
+  deliveryId: z.string().min(1),
+});
+
+const reassignDeliveryRoute = managerProcedure.input(reassignDeliveryInput).mutation(async ({ ctx, input }) => {
+  const delivery = await reassignToBestCourier({ managerId: ctx.user.id, deliveryId: input.deliveryId });
+  return delivery;
+});
+
+export default reassignDeliveryRoute;
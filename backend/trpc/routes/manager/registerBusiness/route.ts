@@ -1,10 +1,10 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { managerProcedure } from "../../../create-context";
 
 const registerBusinessInput = z.object({
-  managerId: z.string().min(1),
   name: z.string().min(1),
   address: z.string().min(1),
   phone: z.string().min(1),
@@ -12,11 +12,11 @@ const registerBusinessInput = z.object({
   password: z.string().min(4),
 });
 
-const registerBusinessRoute = publicProcedure.input(registerBusinessInput).mutation(async ({ input }) => {
-  console.log("[TRPC ROUTE] registerBusiness called with:", input);
-  const business = await supabaseStore.registerBusiness(input);
+const registerBusinessRoute = managerProcedure.input(registerBusinessInput).mutation(async ({ ctx, input }) => {
+  console.log("[TRPC ROUTE] registerBusiness called for:", input.phone);
+  const business = await deliveryService.registerBusiness({ ...input, managerId: ctx.user.id });
   console.log("[TRPC ROUTE] registerBusiness completed:", business.id);
-  return business;
+  return toPublicUser(business);
 });
 
 export default registerBusinessRoute;
@@ -1,10 +1,10 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { managerProcedure } from "../../../create-context";
 
 const registerCourierInput = z.object({
-  managerId: z.string().min(1),
   name: z.string().min(1),
   age: z.number().int().min(18),
   phone: z.string().min(1),
@@ -14,11 +14,11 @@ const registerCourierInput = z.object({
   idNumber: z.string().optional(),
 });
 
-const registerCourierRoute = publicProcedure.input(registerCourierInput).mutation(async ({ input }) => {
-  console.log("[TRPC ROUTE] registerCourier called with:", input);
-  const courier = await supabaseStore.registerCourier(input);
+const registerCourierRoute = managerProcedure.input(registerCourierInput).mutation(async ({ ctx, input }) => {
+  console.log("[TRPC ROUTE] registerCourier called for:", input.phone);
+  const courier = await deliveryService.registerCourier({ ...input, managerId: ctx.user.id });
   console.log("[TRPC ROUTE] registerCourier completed:", courier.id);
-  return courier;
+  return toPublicUser(courier);
 });
 
 export default registerCourierRoute;
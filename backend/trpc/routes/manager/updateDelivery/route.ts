@@ -1,21 +1,22 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
 
 const updateDeliveryInput = z.object({
-  managerId: z.string().min(1),
   deliveryId: z.string().min(1),
   status: z.enum(["waiting", "taken", "completed"]).optional(),
   courierId: z.string().nullable().optional(),
+  payment: z.number().min(0).optional(),
 });
 
-const updateDeliveryRoute = publicProcedure.input(updateDeliveryInput).mutation(async ({ input }) => {
-  const updated = await supabaseStore.managerUpdateDelivery({
-    managerId: input.managerId,
+const updateDeliveryRoute = managerProcedure.input(updateDeliveryInput).mutation(async ({ ctx, input }) => {
+  const updated = await deliveryService.managerUpdateDelivery({
+    managerId: ctx.user.id,
     deliveryId: input.deliveryId,
     status: input.status,
     courierId: typeof input.courierId === "undefined" ? undefined : input.courierId,
+    payment: input.payment,
   });
   return updated;
 });
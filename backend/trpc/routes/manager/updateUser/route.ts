@@ -1,9 +1,9 @@
 import { z } from "zod";
-import { publicProcedure } from "../../../create-context";
-import { supabaseStore } from "../../../../services/supabaseStore";
+import { managerProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
 
 const updateUserInput = z.object({
-  managerId: z.string(),
   userId: z.string(),
   name: z.string().optional(),
   phone: z.string().optional(),
@@ -17,15 +17,16 @@ const updateUserInput = z.object({
   businessProfile: z.object({
     address: z.string().optional(),
     email: z.string().optional(),
+    proofOfDeliveryRequired: z.boolean().optional(),
   }).optional(),
 });
 
-const updateUserRoute = publicProcedure
+const updateUserRoute = managerProcedure
   .input(updateUserInput)
-  .mutation(async ({ input }) => {
+  .mutation(async ({ ctx, input }) => {
     console.log("[updateUser] Manager updating user:", input.userId);
-    const result = await supabaseStore.managerUpdateUser(input);
-    return result;
+    const result = await deliveryService.managerUpdateUser({ ...input, managerId: ctx.user.id });
+    return toPublicUser(result);
   });
 
 export default updateUserRoute;
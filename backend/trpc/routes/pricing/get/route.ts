@@ -0,0 +1,12 @@
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const getPricingRoute = managerProcedure.query(async () => {
+  const [rules, overrides] = await Promise.all([
+    deliveryService.getPricingRules(),
+    deliveryService.getBusinessPricingOverrides(),
+  ]);
+  return { rules, overrides };
+});
+
+export default getPricingRoute;
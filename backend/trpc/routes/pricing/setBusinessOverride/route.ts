@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const setBusinessOverrideInput = z.object({
+  businessId: z.string().min(1),
+  baseFee: z.number().min(0).optional(),
+  ratePerKm: z.number().min(0).optional(),
+  flatFee: z.number().min(0).optional(),
+});
+
+const setBusinessOverrideRoute = managerProcedure
+  .input(setBusinessOverrideInput)
+  .mutation(async ({ ctx, input }) => {
+    const override = await deliveryService.setBusinessPricingOverride({ managerId: ctx.user.id, ...input });
+    return override;
+  });
+
+export default setBusinessOverrideRoute;
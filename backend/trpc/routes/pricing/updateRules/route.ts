@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const hourSchema = z.number().int().min(0).max(23);
+
+const updateRulesInput = z.object({
+  baseFee: z.number().min(0),
+  minimumFee: z.number().min(0),
+  distanceBands: z.array(
+    z.object({
+      upToKm: z.number().positive().nullable(),
+      ratePerKm: z.number().min(0),
+    }),
+  ),
+  nightSurcharge: z.number().min(0),
+  nightStartHour: hourSchema,
+  nightEndHour: hourSchema,
+  weekendSurcharge: z.number().min(0),
+  weekendDays: z.array(z.number().int().min(0).max(6)),
+});
+
+const updateRulesRoute = managerProcedure.input(updateRulesInput).mutation(async ({ ctx, input }) => {
+  const rules = await deliveryService.updatePricingRules({ managerId: ctx.user.id, rules: input });
+  return rules;
+});
+
+export default updateRulesRoute;
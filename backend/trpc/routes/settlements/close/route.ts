@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const adjustmentSchema = z.object({
+  label: z.string().trim().min(1),
+  amount: z.number().positive(),
+});
+
+const closeSettlementInput = z.object({
+  courierId: z.string().min(1),
+  periodStart: z.string().min(1),
+  periodEnd: z.string().min(1),
+  bonuses: z.array(adjustmentSchema).default([]),
+  deductions: z.array(adjustmentSchema).default([]),
+});
+
+const closeSettlementRoute = managerProcedure.input(closeSettlementInput).mutation(async ({ ctx, input }) => {
+  const settlement = await deliveryService.closeCourierSettlement({ managerId: ctx.user.id, ...input });
+  return settlement;
+});
+
+export default closeSettlementRoute;
@@ -0,0 +1,26 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { protectedProcedure } from "../../../create-context";
+
+const listSettlementsInput = z
+  .object({
+    courierId: z.string().min(1).optional(),
+  })
+  .optional();
+
+const listSettlementsRoute = protectedProcedure.input(listSettlementsInput).query(async ({ ctx, input }) => {
+  if (ctx.user.role === "courier") {
+    return deliveryService.getCourierSettlements(ctx.user.id);
+  }
+
+  if (ctx.user.role !== "manager") {
+    console.log("[AUTH] Settlement list denied", { userId: ctx.user.id, role: ctx.user.role });
+    throw new TRPCError({ code: "FORBIDDEN", message: "גישה מותרת רק לשליחים ולמנהלים" });
+  }
+
+  return deliveryService.getCourierSettlements(input?.courierId);
+});
+
+export default listSettlementsRoute;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { managerProcedure } from "../../../create-context";
+
+const markPaidInput = z.object({
+  settlementId: z.string().min(1),
+});
+
+const markPaidRoute = managerProcedure.input(markPaidInput).mutation(async ({ ctx, input }) => {
+  const settlement = await deliveryService.markCourierSettlementPaid({
+    managerId: ctx.user.id,
+    settlementId: input.settlementId,
+  });
+  return settlement;
+});
+
+export default markPaidRoute;
@@ -0,0 +1,9 @@
+import { getSlaAlerts } from "../../../../services/slaService";
+import { managerProcedure } from "../../../create-context";
+
+const slaAlertsRoute = managerProcedure.query(async () => {
+  const alerts = await getSlaAlerts();
+  return alerts;
+});
+
+export default slaAlertsRoute;
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+import { getBusinessStats } from "../../../../services/statsService";
+import { managerProcedure } from "../../../create-context";
+
+const dateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const statsBusinessesInput = z.object({
+  period: z.enum(["daily", "weekly", "monthly", "custom"]),
+  startDate: dateInput.optional(),
+  endDate: dateInput.optional(),
+});
+
+const statsBusinessesRoute = managerProcedure.input(statsBusinessesInput).query(async ({ input }) => {
+  const rows = await getBusinessStats(input);
+  return rows;
+});
+
+export default statsBusinessesRoute;
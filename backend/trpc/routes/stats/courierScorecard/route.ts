@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+import { getCourierScorecard } from "../../../../services/statsService";
+import { protectedProcedure } from "../../../create-context";
+
+const dateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const courierScorecardInput = z.object({
+  courierId: z.string().min(1),
+  period: z.enum(["daily", "weekly", "monthly", "custom"]),
+  startDate: dateInput.optional(),
+  endDate: dateInput.optional(),
+});
+
+const courierScorecardRoute = protectedProcedure.input(courierScorecardInput).query(async ({ ctx, input }) => {
+  const scorecard = await getCourierScorecard(ctx.user, input);
+  return scorecard;
+});
+
+export default courierScorecardRoute;
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+import { getCourierStats } from "../../../../services/statsService";
+import { managerProcedure } from "../../../create-context";
+
+const dateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const statsCouriersInput = z.object({
+  period: z.enum(["daily", "weekly", "monthly", "custom"]),
+  startDate: dateInput.optional(),
+  endDate: dateInput.optional(),
+});
+
+const statsCouriersRoute = managerProcedure.input(statsCouriersInput).query(async ({ input }) => {
+  const rows = await getCourierStats(input);
+  return rows;
+});
+
+export default statsCouriersRoute;
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+import { getKitchenMetrics } from "../../../../services/statsService";
+import { protectedProcedure } from "../../../create-context";
+
+const dateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const kitchenInput = z.object({
+  businessId: z.string().min(1).optional(),
+  period: z.enum(["daily", "weekly", "monthly", "custom"]),
+  startDate: dateInput.optional(),
+  endDate: dateInput.optional(),
+});
+
+const statsKitchenRoute = protectedProcedure.input(kitchenInput).query(async ({ ctx, input }) => {
+  const metrics = await getKitchenMetrics(ctx.user, input);
+  return metrics;
+});
+
+export default statsKitchenRoute;
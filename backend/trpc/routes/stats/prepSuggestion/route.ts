@@ -0,0 +1,9 @@
+import { getPrepTimeSuggestion } from "../../../../services/statsService";
+import { businessProcedure } from "../../../create-context";
+
+const statsPrepSuggestionRoute = businessProcedure.query(async ({ ctx }) => {
+  const suggestion = await getPrepTimeSuggestion(ctx.user.id);
+  return suggestion;
+});
+
+export default statsPrepSuggestionRoute;
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+import { getStatsSeries } from "../../../../services/statsService";
+import { protectedProcedure } from "../../../create-context";
+
+const dateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const statsSeriesInput = z.object({
+  granularity: z.enum(["hour", "day", "week", "month"]),
+  startDate: dateInput.optional(),
+  endDate: dateInput.optional(),
+});
+
+const statsSeriesRoute = protectedProcedure.input(statsSeriesInput).query(async ({ ctx, input }) => {
+  const points = await getStatsSeries(ctx.user, input);
+  return points;
+});
+
+export default statsSeriesRoute;
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+import { getStatsSummary } from "../../../../services/statsService";
+import { protectedProcedure } from "../../../create-context";
+
+const dateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const statsSummaryInput = z.object({
+  period: z.enum(["daily", "weekly", "monthly", "custom"]),
+  startDate: dateInput.optional(),
+  endDate: dateInput.optional(),
+});
+
+const statsSummaryRoute = protectedProcedure.input(statsSummaryInput).query(async ({ ctx, input }) => {
+  const summary = await getStatsSummary(ctx.user, input);
+  return summary;
+});
+
+export default statsSummaryRoute;
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
+
+const deleteTemplateInput = z.object({
+  templateId: z.string().min(1),
+});
+
+const deleteTemplateRoute = businessProcedure.input(deleteTemplateInput).mutation(async ({ ctx, input }) => {
+  await deliveryService.deleteDeliveryTemplate({ ...input, businessId: ctx.user.id });
+  return { success: true };
+});
+
+export default deleteTemplateRoute;
@@ -0,0 +1,9 @@
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
+
+const listTemplatesRoute = businessProcedure.query(async ({ ctx }) => {
+  const templates = await deliveryService.getDeliveryTemplates(ctx.user.id);
+  return templates;
+});
+
+export default listTemplatesRoute;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
+
+const saveTemplateInput = z.object({
+  templateId: z.string().min(1).optional(),
+  name: z.string().min(1),
+  customerName: z.string().min(1),
+  customerPhone: z.string().min(1),
+  dropoffAddress: z.string().min(1),
+  notes: z.string().default(""),
+  preparationTimeMinutes: z.number().int().min(1).max(60),
+  recurrence: z.object({
+    frequency: z.enum(["daily", "weekdays", "custom"]),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)),
+    timeOfDay: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/),
+  }),
+});
+
+const saveTemplateRoute = businessProcedure.input(saveTemplateInput).mutation(async ({ ctx, input }) => {
+  const template = await deliveryService.saveDeliveryTemplate({ ...input, businessId: ctx.user.id });
+  return template;
+});
+
+export default saveTemplateRoute;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
+
+const setPausedInput = z.object({
+  templateId: z.string().min(1),
+  isPaused: z.boolean(),
+});
+
+const setPausedRoute = businessProcedure.input(setPausedInput).mutation(async ({ ctx, input }) => {
+  const template = await deliveryService.setDeliveryTemplatePaused({ ...input, businessId: ctx.user.id });
+  return template;
+});
+
+export default setPausedRoute;
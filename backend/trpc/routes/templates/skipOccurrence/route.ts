@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+import { deliveryService } from "../../../../services/deliveryService";
+import { businessProcedure } from "../../../create-context";
+
+const skipOccurrenceInput = z.object({
+  templateId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  skipped: z.boolean().default(true),
+});
+
+const skipOccurrenceRoute = businessProcedure.input(skipOccurrenceInput).mutation(async ({ ctx, input }) => {
+  const template = await deliveryService.setDeliveryTemplateOccurrenceSkipped({ ...input, businessId: ctx.user.id });
+  return template;
+});
+
+export default skipOccurrenceRoute;
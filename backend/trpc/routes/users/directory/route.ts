@@ -0,0 +1,10 @@
+import { deliveryService } from "../../../../services/deliveryService";
+import { toDirectoryEntry, toPublicUser } from "../../../../services/publicUsers";
+import { protectedProcedure } from "../../../create-context";
+
+const usersDirectoryRoute = protectedProcedure.query(async ({ ctx }) => {
+  const users = await deliveryService.getUsers();
+  return { self: toPublicUser(ctx.user), users: users.map(toDirectoryEntry) };
+});
+
+export default usersDirectoryRoute;
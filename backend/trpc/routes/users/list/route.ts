@@ -1,9 +1,10 @@
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { managerProcedure } from "../../../create-context";
 
-const usersListRoute = publicProcedure.query(async () => {
-  const users = await supabaseStore.getUsers();
-  return users;
+const usersListRoute = managerProcedure.query(async () => {
+  const users = await deliveryService.getUsers();
+  return users.map(toPublicUser);
 });
 
 export default usersListRoute;
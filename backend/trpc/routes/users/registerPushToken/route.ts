@@ -1,16 +1,16 @@
 import { z } from "zod";
 
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { toPublicUser } from "../../../../services/publicUsers";
+import { protectedProcedure } from "../../../create-context";
 
 const registerPushTokenInput = z.object({
-  userId: z.string().min(1),
   pushToken: z.string().min(1),
 });
 
-const registerPushTokenRoute = publicProcedure.input(registerPushTokenInput).mutation(async ({ input }) => {
-  const updatedUser = await supabaseStore.registerPushToken(input.userId, input.pushToken);
-  return updatedUser;
+const registerPushTokenRoute = protectedProcedure.input(registerPushTokenInput).mutation(async ({ ctx, input }) => {
+  const updatedUser = await deliveryService.registerPushToken(ctx.user.id, input.pushToken);
+  return toPublicUser(updatedUser);
 });
 
 export default registerPushTokenRoute;
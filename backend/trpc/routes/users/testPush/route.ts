@@ -1,17 +1,11 @@
-import { z } from "zod";
-
-import { supabaseStore } from "../../../../services/supabaseStore";
-import { publicProcedure } from "../../../create-context";
+import { deliveryService } from "../../../../services/deliveryService";
+import { protectedProcedure } from "../../../create-context";
 
 const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
 
-const testPushInput = z.object({
-  userId: z.string().min(1),
-});
-
-const testPushRoute = publicProcedure.input(testPushInput).mutation(async ({ input }) => {
-  const users = await supabaseStore.getUsers();
-  const user = users.find((u) => u.id === input.userId);
+const testPushRoute = protectedProcedure.mutation(async ({ ctx }) => {
+  const users = await deliveryService.getUsers();
+  const user = users.find((u) => u.id === ctx.user.id);
 
   if (!user) {
     throw new Error("משתמש לא נמצא");
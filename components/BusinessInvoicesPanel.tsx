@@ -0,0 +1,381 @@
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { Download, Printer, Receipt } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { exportTextFile, printHtmlDocument } from "../lib/documentExport";
+import { BusinessInvoice, Delivery, PublicUser } from "../types/models";
+import { parseDateInput, toDateInput } from "../utils/dateInput";
+import {
+  buildInvoiceLines,
+  formatInvoiceNumber,
+  invoiceToCsv,
+  invoiceToHtml,
+  selectInvoiceableDeliveries,
+} from "../utils/invoicing";
+
+const placeholderColor = "rgba(15, 23, 42, 0.35)";
+
+const formatDate = (value: string) => {
+  try {
+    return new Intl.DateTimeFormat("he-IL", { day: "2-digit", month: "2-digit", year: "numeric" }).format(
+      new Date(value),
+    );
+  } catch (error) {
+    console.log("Invoice date formatting failed", error);
+    return value;
+  }
+};
+
+type BusinessInvoicesPanelProps = {
+  businesses: PublicUser[];
+  deliveries: Delivery[];
+  testID?: string;
+};
+
+export function BusinessInvoicesPanel({ businesses, deliveries, testID }: BusinessInvoicesPanelProps) {
+  const queryClient = useQueryClient();
+  const [selectedBusinessId, setSelectedBusinessId] = useState<string | null>(null);
+  const [periodStart, setPeriodStart] = useState<string>(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+  });
+  const [periodEnd, setPeriodEnd] = useState<string>(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 0));
+  });
+
+  const invoicesQuery = useQuery<BusinessInvoice[]>({
+    queryKey: ["invoices"],
+    queryFn: () => trpcClient.invoices.list.query(),
+  });
+  const invoices = invoicesQuery.data ?? [];
+
+  const { mutateAsync: createInvoiceMutateAsync, status: createInvoiceStatus } = useMutation({
+    mutationFn: (payload: { businessId: string; periodStart: string; periodEnd: string }) =>
+      trpcClient.invoices.create.mutate(payload),
+    onSuccess: (invoice) => {
+      console.log("Invoice created", invoice.invoiceNumber);
+      queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    },
+    onError: (error: Error) => {
+      Alert.alert("שגיאה", error.message);
+    },
+  });
+
+  const periodStartIso = parseDateInput(periodStart);
+  const periodEndIso = parseDateInput(periodEnd, 1);
+
+  const preview = useMemo(() => {
+    if (!selectedBusinessId || !periodStartIso || !periodEndIso) {
+      return null;
+    }
+    return buildInvoiceLines(selectInvoiceableDeliveries(deliveries, selectedBusinessId, periodStartIso, periodEndIso));
+  }, [deliveries, periodEndIso, periodStartIso, selectedBusinessId]);
+
+  const handleCreateInvoice = async () => {
+    if (!selectedBusinessId || !periodStartIso || !periodEndIso) {
+      Alert.alert("שגיאה", "יש לבחור עסק ותאריכים בפורמט YYYY-MM-DD");
+      return;
+    }
+    try {
+      await createInvoiceMutateAsync({
+        businessId: selectedBusinessId,
+        periodStart: periodStartIso,
+        periodEnd: periodEndIso,
+      });
+    } catch (error) {
+      console.log("Create invoice failed", error);
+    }
+  };
+
+  const handleExportCsv = async (invoice: BusinessInvoice) => {
+    try {
+      await exportTextFile({
+        filename: `${formatInvoiceNumber(invoice.invoiceNumber)}.csv`,
+        mimeType: "text/csv",
+        content: invoiceToCsv(invoice),
+      });
+    } catch (error) {
+      console.log("Invoice CSV export failed", error);
+      Alert.alert("שגיאה", error instanceof Error ? error.message : "ייצוא הקובץ נכשל");
+    }
+  };
+
+  const handlePrint = async (invoice: BusinessInvoice) => {
+    try {
+      await printHtmlDocument({ title: formatInvoiceNumber(invoice.invoiceNumber), html: invoiceToHtml(invoice) });
+    } catch (error) {
+      console.log("Invoice print failed", error);
+      Alert.alert("שגיאה", error instanceof Error ? error.message : "הפקת המסמך נכשלה");
+    }
+  };
+
+  const visibleInvoices = invoices.filter(
+    (invoice) => !selectedBusinessId || invoice.businessId === selectedBusinessId,
+  );
+  const isCreateDisabled = createInvoiceStatus === "pending" || !preview || preview.lineItems.length === 0;
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Receipt color={Colors.light.tint} size={20} />
+          <Text style={styles.sectionTitle}>הפקת חשבונית לעסק</Text>
+        </View>
+        <Text style={styles.sectionSubtitle}>החשבונית כוללת משלוחים שהושלמו בתקופה, בתוספת מע״מ</Text>
+
+        <View style={styles.chipRow}>
+          {businesses.length === 0 ? <Text style={styles.emptyText}>אין עסקים רשומים</Text> : null}
+          {businesses.map((business) => {
+            const isSelected = business.id === selectedBusinessId;
+            return (
+              <Pressable
+                key={business.id}
+                onPress={() => setSelectedBusinessId(isSelected ? null : business.id)}
+                style={[styles.chip, isSelected && styles.chipActive]}
+                testID={`invoice-business-${business.id}`}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{business.name}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <View style={styles.fieldRow}>
+          <View style={styles.field}>
+            <Text style={styles.label}>מתאריך</Text>
+            <TextInput
+              value={periodStart}
+              onChangeText={setPeriodStart}
+              style={styles.input}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={placeholderColor}
+              testID="invoice-period-start"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>עד תאריך (כולל)</Text>
+            <TextInput
+              value={periodEnd}
+              onChangeText={setPeriodEnd}
+              style={styles.input}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={placeholderColor}
+              testID="invoice-period-end"
+            />
+          </View>
+        </View>
+
+        {preview ? (
+          <Text style={styles.previewText}>
+            {preview.lineItems.length} משלוחים · ₪{preview.subtotal} + מע״מ ₪{preview.vatAmount} = ₪{preview.total}
+          </Text>
+        ) : null}
+
+        <Pressable
+          onPress={handleCreateInvoice}
+          style={[styles.primaryButton, isCreateDisabled && styles.disabledButton]}
+          disabled={isCreateDisabled}
+          testID="invoice-create"
+        >
+          {createInvoiceStatus === "pending" ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>הפק חשבונית</Text>
+          )}
+        </Pressable>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>חשבוניות שהופקו</Text>
+        {invoicesQuery.isLoading ? <ActivityIndicator color={Colors.light.tint} /> : null}
+        {!invoicesQuery.isLoading && visibleInvoices.length === 0 ? (
+          <Text style={styles.emptyText}>לא הופקו חשבוניות</Text>
+        ) : null}
+        {visibleInvoices.map((invoice) => (
+          <View key={invoice.id} style={styles.invoiceRow} testID={`invoice-${invoice.id}`}>
+            <View style={styles.invoiceInfo}>
+              <Text style={styles.invoiceTitle}>
+                {formatInvoiceNumber(invoice.invoiceNumber)} · {invoice.businessName}
+              </Text>
+              <Text style={styles.invoiceMeta}>
+                {formatDate(invoice.periodStart)} - {formatDate(new Date(new Date(invoice.periodEnd).getTime() - 1).toISOString())}
+                {" · "}
+                {invoice.lineItems.length} משלוחים · ₪{invoice.total}
+              </Text>
+            </View>
+            <View style={styles.invoiceActions}>
+              <Pressable
+                onPress={() => handleExportCsv(invoice)}
+                style={styles.iconButton}
+                testID={`invoice-${invoice.id}-csv`}
+              >
+                <Download size={18} color={Colors.light.tint} />
+                <Text style={styles.iconButtonText}>CSV</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => handlePrint(invoice)}
+                style={styles.iconButton}
+                testID={`invoice-${invoice.id}-print`}
+              >
+                <Printer size={18} color={Colors.light.tint} />
+                <Text style={styles.iconButtonText}>הדפסה</Text>
+              </Pressable>
+            </View>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 20,
+  },
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+  },
+  sectionHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  chipRow: {
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  chipTextActive: {
+    color: "#ffffff",
+  },
+  fieldRow: {
+    flexDirection: "row-reverse",
+    gap: 10,
+  },
+  field: {
+    flex: 1,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  input: {
+    backgroundColor: "#f8faff",
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "rgba(59, 130, 246, 0.18)",
+    textAlign: "right",
+    writingDirection: "rtl",
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  previewText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  primaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 18,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  invoiceRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  invoiceInfo: {
+    flex: 1,
+    alignItems: "flex-end",
+  },
+  invoiceTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  invoiceMeta: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  invoiceActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  iconButton: {
+    alignItems: "center",
+    gap: 2,
+    padding: 6,
+  },
+  iconButtonText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: Colors.light.tint,
+  },
+});
+
+export default BusinessInvoicesPanel;
@@ -3,20 +3,25 @@ import { StyleSheet, Text, View } from "react-native";
 import { Clock } from "lucide-react-native";
 
 import Colors from "../constants/colors";
+import { EtaCountdown } from "../utils/eta";
 
 type CountdownTimerProps = {
-  confirmedAt: string;
-  estimatedArrivalMinutes: number;
+  countdown: EtaCountdown;
   testID?: string;
 };
 
-export function CountdownTimer({ confirmedAt, estimatedArrivalMinutes, testID }: CountdownTimerProps) {
+const stageLabels: Record<EtaCountdown["stage"], string> = {
+  pickup: "זמן הגעה משוער לאיסוף",
+  dropoff: "זמן הגעה משוער ללקוח",
+};
+
+export function CountdownTimer({ countdown, testID }: CountdownTimerProps) {
   const [remainingSeconds, setRemainingSeconds] = useState<number>(0);
+  const { targetAt, stage, isLate, isLive } = countdown;
 
   useEffect(() => {
     const calculateRemaining = () => {
-      const confirmedTime = new Date(confirmedAt).getTime();
-      const arrivalTime = confirmedTime + estimatedArrivalMinutes * 60 * 1000;
+      const arrivalTime = new Date(targetAt).getTime();
       const now = Date.now();
       const diff = Math.max(0, Math.floor((arrivalTime - now) / 1000));
       return diff;
@@ -34,7 +39,7 @@ export function CountdownTimer({ confirmedAt, estimatedArrivalMinutes, testID }:
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [confirmedAt, estimatedArrivalMinutes]);
+  }, [targetAt]);
 
   const minutes = Math.floor(remainingSeconds / 60);
   const seconds = remainingSeconds % 60;
@@ -43,10 +48,18 @@ export function CountdownTimer({ confirmedAt, estimatedArrivalMinutes, testID }:
   const isExpired = remainingSeconds === 0;
 
   return (
-    <View style={[styles.container, isExpired && styles.expiredContainer]} testID={testID}>
-      <Clock size={18} color={isExpired ? "#ef4444" : isLowTime ? "#f59e0b" : Colors.light.tint} />
+    <View style={[styles.container, (isExpired || isLate) && styles.expiredContainer]} testID={testID}>
+      <Clock size={18} color={isExpired || isLate ? "#ef4444" : isLowTime ? "#f59e0b" : Colors.light.tint} />
       <View style={styles.textContainer}>
-        <Text style={styles.label}>זמן הגעה משוער</Text>
+        <View style={styles.labelRow}>
+          <Text style={styles.label}>{stageLabels[stage]}</Text>
+          {isLive ? <Text style={styles.liveBadge}>חי</Text> : null}
+          {isLate ? (
+            <Text style={styles.lateBadge} testID={testID ? `${testID}-late` : undefined}>
+              באיחור
+            </Text>
+          ) : null}
+        </View>
         <Text style={[styles.timer, isExpired && styles.expiredText, isLowTime && !isExpired && styles.lowTimeText]}>
           {isExpired ? "הזמן עבר" : `${minutes}:${seconds.toString().padStart(2, "0")}`}
         </Text>
@@ -73,11 +86,38 @@ const styles = StyleSheet.create({
     alignItems: "flex-end",
     gap: 4,
   },
+  labelRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 6,
+  },
   label: {
     fontSize: 13,
     color: Colors.light.secondaryText,
     writingDirection: "rtl",
   },
+  liveBadge: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: Colors.light.tint,
+    backgroundColor: "rgba(59, 130, 246, 0.12)",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: "hidden",
+    writingDirection: "rtl",
+  },
+  lateBadge: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#ffffff",
+    backgroundColor: "#ef4444",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: "hidden",
+    writingDirection: "rtl",
+  },
   timer: {
     fontSize: 20,
     fontWeight: "700",
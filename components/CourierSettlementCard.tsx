@@ -0,0 +1,222 @@
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { CheckCircle, FileText } from "lucide-react-native";
+
+import Colors from "../constants/colors";
+import { CourierSettlement, CourierSettlementAdjustment } from "../types/models";
+
+const formatDate = (value: string) => {
+  try {
+    return new Intl.DateTimeFormat("he-IL", { day: "2-digit", month: "2-digit", year: "numeric" }).format(
+      new Date(value),
+    );
+  } catch (error) {
+    console.log("Settlement date formatting failed", error);
+    return value;
+  }
+};
+
+// Periods are stored with an exclusive end, so the last covered day is the one before it.
+const formatPeriod = (settlement: CourierSettlement) => {
+  const lastDay = new Date(new Date(settlement.periodEnd).getTime() - 1).toISOString();
+  return `${formatDate(settlement.periodStart)} - ${formatDate(lastDay)}`;
+};
+
+type CourierSettlementCardProps = {
+  settlement: CourierSettlement;
+  courierName?: string;
+  onMarkPaid?: () => Promise<void> | void;
+  isSubmitting?: boolean;
+  testID?: string;
+};
+
+function AdjustmentLines({ adjustments, sign }: { adjustments: CourierSettlementAdjustment[]; sign: "+" | "-" }) {
+  return (
+    <>
+      {adjustments.map((adjustment, index) => (
+        <View key={`${sign}-${index}`} style={styles.row}>
+          <Text style={styles.rowLabel}>{adjustment.label}</Text>
+          <Text style={[styles.rowValue, sign === "-" && styles.deduction]}>
+            {sign}₪{adjustment.amount}
+          </Text>
+        </View>
+      ))}
+    </>
+  );
+}
+
+export function CourierSettlementCard({
+  settlement,
+  courierName,
+  onMarkPaid,
+  isSubmitting = false,
+  testID,
+}: CourierSettlementCardProps) {
+  const isPaid = settlement.status === "paid";
+
+  return (
+    <View style={styles.card} testID={testID}>
+      <View style={styles.header}>
+        <FileText size={18} color={Colors.light.tint} />
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{courierName ? `${courierName} · ` : ""}{formatPeriod(settlement)}</Text>
+          <Text style={styles.subtitle}>
+            {settlement.deliveryCount} משלוחים · {settlement.totalDistanceKm} ק״מ
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, isPaid ? styles.statusPaid : styles.statusUnpaid]}>
+          <Text style={[styles.statusText, isPaid ? styles.statusTextPaid : styles.statusTextUnpaid]}>
+            {isPaid ? "שולם" : "ממתין לתשלום"}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.lines}>
+        <View style={styles.row}>
+          <Text style={styles.rowLabel}>משלוחים</Text>
+          <Text style={styles.rowValue}>₪{settlement.deliveriesTotal}</Text>
+        </View>
+        <AdjustmentLines adjustments={settlement.bonuses} sign="+" />
+        <AdjustmentLines adjustments={settlement.deductions} sign="-" />
+        <View style={[styles.row, styles.totalRow]}>
+          <Text style={styles.totalLabel}>סה״כ לתשלום</Text>
+          <Text style={styles.totalValue}>₪{settlement.total}</Text>
+        </View>
+      </View>
+
+      {isPaid && settlement.paidAt ? <Text style={styles.paidAt}>שולם ב-{formatDate(settlement.paidAt)}</Text> : null}
+
+      {!isPaid && onMarkPaid ? (
+        <Pressable
+          onPress={() => onMarkPaid()}
+          style={[styles.payButton, isSubmitting && styles.disabledButton]}
+          disabled={isSubmitting}
+          testID={`${testID}-mark-paid`}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <>
+              <CheckCircle size={16} color="#ffffff" />
+              <Text style={styles.payButtonText}>סמן כשולם</Text>
+            </>
+          )}
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 20,
+    padding: 16,
+    gap: 12,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  header: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  headerText: {
+    flex: 1,
+    alignItems: "flex-end",
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  subtitle: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  statusBadge: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  statusPaid: {
+    backgroundColor: "rgba(16, 185, 129, 0.12)",
+  },
+  statusUnpaid: {
+    backgroundColor: "rgba(245, 158, 11, 0.14)",
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: "700",
+    writingDirection: "rtl",
+  },
+  statusTextPaid: {
+    color: Colors.light.completed,
+  },
+  statusTextUnpaid: {
+    color: Colors.light.taken,
+  },
+  lines: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row-reverse",
+    justifyContent: "space-between",
+  },
+  rowLabel: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  rowValue: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.text,
+  },
+  deduction: {
+    color: Colors.light.failed,
+  },
+  totalRow: {
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  totalValue: {
+    fontSize: 17,
+    fontWeight: "800",
+    color: Colors.light.tint,
+  },
+  paidAt: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  payButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    backgroundColor: Colors.light.completed,
+    paddingVertical: 12,
+    borderRadius: 16,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  payButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+});
+
+export default CourierSettlementCard;
@@ -0,0 +1,438 @@
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { FileText, Minus, Plus } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { CourierSettlement, CourierSettlementAdjustment, Delivery, PublicUser } from "../types/models";
+import { parseDateInput, toDateInput } from "../utils/dateInput";
+import { getSettlementPeriodError, selectSettleableDeliveries, summarizeSettlement } from "../utils/settlements";
+import { CourierSettlementCard } from "./CourierSettlementCard";
+
+const placeholderColor = "rgba(15, 23, 42, 0.35)";
+
+type AdjustmentFormState = { label: string; amount: string };
+
+const toAdjustments = (rows: AdjustmentFormState[]): CourierSettlementAdjustment[] =>
+  rows
+    .filter((row) => row.label.trim() || row.amount.trim())
+    .map((row) => ({ label: row.label.trim(), amount: Number(row.amount) }));
+
+type CourierSettlementsPanelProps = {
+  couriers: PublicUser[];
+  deliveries: Delivery[];
+  testID?: string;
+};
+
+export function CourierSettlementsPanel({ couriers, deliveries, testID }: CourierSettlementsPanelProps) {
+  const queryClient = useQueryClient();
+  const [selectedCourierId, setSelectedCourierId] = useState<string | null>(null);
+  const [periodStart, setPeriodStart] = useState<string>(() => {
+    const now = new Date();
+    return toDateInput(new Date(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [periodEnd, setPeriodEnd] = useState<string>(() => toDateInput(new Date()));
+  const [bonuses, setBonuses] = useState<AdjustmentFormState[]>([]);
+  const [deductions, setDeductions] = useState<AdjustmentFormState[]>([]);
+  const [payingSettlementId, setPayingSettlementId] = useState<string | null>(null);
+
+  const settlementsQuery = useQuery<CourierSettlement[]>({
+    queryKey: ["settlements", "all"],
+    queryFn: () => trpcClient.settlements.list.query(),
+  });
+  const settlements = useMemo(() => settlementsQuery.data ?? [], [settlementsQuery.data]);
+
+  const courierNames = useMemo(() => {
+    const map = new Map<string, string>();
+    couriers.forEach((courier) => map.set(courier.id, courier.name));
+    return map;
+  }, [couriers]);
+
+  const { mutateAsync: closeSettlementMutateAsync, status: closeSettlementStatus } = useMutation({
+    mutationFn: (payload: {
+      courierId: string;
+      periodStart: string;
+      periodEnd: string;
+      bonuses: CourierSettlementAdjustment[];
+      deductions: CourierSettlementAdjustment[];
+    }) => trpcClient.settlements.close.mutate(payload),
+    onSuccess: (settlement) => {
+      console.log("Settlement closed", settlement.id);
+      queryClient.invalidateQueries({ queryKey: ["settlements"] });
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] });
+    },
+    onError: (error: Error) => {
+      Alert.alert("שגיאה", error.message);
+    },
+  });
+
+  const { mutateAsync: markPaidMutateAsync } = useMutation({
+    mutationFn: (settlementId: string) => trpcClient.settlements.markPaid.mutate({ settlementId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["settlements"] });
+    },
+    onError: (error: Error) => {
+      Alert.alert("שגיאה", error.message);
+    },
+  });
+
+  const handleSelectCourier = (courierId: string) => {
+    setSelectedCourierId(courierId);
+    const lastSettlement = settlements.find((settlement) => settlement.courierId === courierId);
+    if (lastSettlement) {
+      setPeriodStart(toDateInput(new Date(lastSettlement.periodEnd)));
+    }
+  };
+
+  const periodStartIso = parseDateInput(periodStart);
+  const periodEndIso = parseDateInput(periodEnd, 1);
+
+  const preview = useMemo(() => {
+    if (!selectedCourierId || !periodStartIso || !periodEndIso) {
+      return null;
+    }
+    const settleable = selectSettleableDeliveries(deliveries, selectedCourierId, periodStartIso, periodEndIso);
+    return summarizeSettlement({
+      deliveries: settleable,
+      bonuses: toAdjustments(bonuses),
+      deductions: toAdjustments(deductions),
+    });
+  }, [bonuses, deductions, deliveries, periodEndIso, periodStartIso, selectedCourierId]);
+
+  const handleClosePeriod = async () => {
+    if (!selectedCourierId || !periodStartIso || !periodEndIso) {
+      Alert.alert("שגיאה", "יש לבחור שליח ותאריכים בפורמט YYYY-MM-DD");
+      return;
+    }
+    const payload = {
+      courierId: selectedCourierId,
+      periodStart: periodStartIso,
+      periodEnd: periodEndIso,
+      bonuses: toAdjustments(bonuses),
+      deductions: toAdjustments(deductions),
+    };
+    const periodError = getSettlementPeriodError(payload);
+    if (periodError) {
+      Alert.alert("שגיאה", periodError);
+      return;
+    }
+    try {
+      await closeSettlementMutateAsync(payload);
+      setBonuses([]);
+      setDeductions([]);
+      setPeriodStart(toDateInput(new Date(payload.periodEnd)));
+    } catch (error) {
+      console.log("Close settlement failed", error);
+    }
+  };
+
+  const handleMarkPaid = async (settlementId: string) => {
+    setPayingSettlementId(settlementId);
+    try {
+      await markPaidMutateAsync(settlementId);
+    } catch (error) {
+      console.log("Mark settlement paid failed", error);
+    } finally {
+      setPayingSettlementId(null);
+    }
+  };
+
+  const renderAdjustmentRows = (
+    rows: AdjustmentFormState[],
+    setRows: (updater: (prev: AdjustmentFormState[]) => AdjustmentFormState[]) => void,
+    kind: "bonus" | "deduction",
+  ) =>
+    rows.map((row, index) => (
+      <View key={`${kind}-${index}`} style={styles.adjustmentRow} testID={`settlement-${kind}-${index}`}>
+        <TextInput
+          value={row.label}
+          onChangeText={(value) =>
+            setRows((prev) => prev.map((item, itemIndex) => (itemIndex === index ? { ...item, label: value } : item)))
+          }
+          style={[styles.input, styles.adjustmentLabel]}
+          placeholder="תיאור"
+          placeholderTextColor={placeholderColor}
+        />
+        <TextInput
+          value={row.amount}
+          onChangeText={(value) =>
+            setRows((prev) => prev.map((item, itemIndex) => (itemIndex === index ? { ...item, amount: value } : item)))
+          }
+          style={[styles.input, styles.adjustmentAmount]}
+          placeholder="₪"
+          placeholderTextColor={placeholderColor}
+          keyboardType="decimal-pad"
+        />
+        <Pressable
+          onPress={() => setRows((prev) => prev.filter((_, itemIndex) => itemIndex !== index))}
+          style={styles.iconButton}
+        >
+          <Minus size={16} color={Colors.light.failed} />
+        </Pressable>
+      </View>
+    ));
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <FileText color={Colors.light.tint} size={20} />
+          <Text style={styles.sectionTitle}>סגירת תקופת תשלום</Text>
+        </View>
+        <Text style={styles.sectionSubtitle}>משלוחים שנכללו בדוח נעולים לשינוי תשלום</Text>
+
+        <View style={styles.chipRow}>
+          {couriers.length === 0 ? <Text style={styles.emptyText}>אין שליחים רשומים</Text> : null}
+          {couriers.map((courier) => {
+            const isSelected = courier.id === selectedCourierId;
+            return (
+              <Pressable
+                key={courier.id}
+                onPress={() => handleSelectCourier(courier.id)}
+                style={[styles.chip, isSelected && styles.chipActive]}
+                testID={`settlement-courier-${courier.id}`}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{courier.name}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <View style={styles.fieldRow}>
+          <View style={styles.field}>
+            <Text style={styles.label}>מתאריך</Text>
+            <TextInput
+              value={periodStart}
+              onChangeText={setPeriodStart}
+              style={styles.input}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={placeholderColor}
+              testID="settlement-period-start"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>עד תאריך (כולל)</Text>
+            <TextInput
+              value={periodEnd}
+              onChangeText={setPeriodEnd}
+              style={styles.input}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={placeholderColor}
+              testID="settlement-period-end"
+            />
+          </View>
+        </View>
+
+        <Text style={styles.groupTitle}>בונוסים</Text>
+        {renderAdjustmentRows(bonuses, setBonuses, "bonus")}
+        <Pressable
+          onPress={() => setBonuses((prev) => [...prev, { label: "", amount: "" }])}
+          style={styles.addButton}
+          testID="settlement-add-bonus"
+        >
+          <Plus size={16} color={Colors.light.tint} />
+          <Text style={styles.addButtonText}>הוסף בונוס</Text>
+        </Pressable>
+
+        <Text style={styles.groupTitle}>ניכויים</Text>
+        {renderAdjustmentRows(deductions, setDeductions, "deduction")}
+        <Pressable
+          onPress={() => setDeductions((prev) => [...prev, { label: "", amount: "" }])}
+          style={styles.addButton}
+          testID="settlement-add-deduction"
+        >
+          <Plus size={16} color={Colors.light.tint} />
+          <Text style={styles.addButtonText}>הוסף ניכוי</Text>
+        </Pressable>
+
+        {preview ? (
+          <Text style={styles.previewText}>
+            {preview.deliveryCount} משלוחים פתוחים · {preview.totalDistanceKm} ק״מ · סה״כ ₪{preview.total}
+          </Text>
+        ) : null}
+
+        <Pressable
+          onPress={handleClosePeriod}
+          style={[
+            styles.primaryButton,
+            (closeSettlementStatus === "pending" || !preview || preview.deliveryCount === 0) && styles.disabledButton,
+          ]}
+          disabled={closeSettlementStatus === "pending" || !preview || preview.deliveryCount === 0}
+          testID="settlement-close-period"
+        >
+          {closeSettlementStatus === "pending" ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>סגור תקופה והפק דוח</Text>
+          )}
+        </Pressable>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>דוחות תשלום</Text>
+        {settlementsQuery.isLoading ? <ActivityIndicator color={Colors.light.tint} /> : null}
+        {!settlementsQuery.isLoading && settlements.length === 0 ? (
+          <Text style={styles.emptyText}>עדיין לא נסגרו תקופות תשלום</Text>
+        ) : null}
+        {settlements
+          .filter((settlement) => !selectedCourierId || settlement.courierId === selectedCourierId)
+          .map((settlement) => (
+            <CourierSettlementCard
+              key={settlement.id}
+              settlement={settlement}
+              courierName={courierNames.get(settlement.courierId)}
+              onMarkPaid={() => handleMarkPaid(settlement.id)}
+              isSubmitting={payingSettlementId === settlement.id}
+              testID={`settlement-${settlement.id}`}
+            />
+          ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 20,
+  },
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+  },
+  sectionHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  groupTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  chipTextActive: {
+    color: "#ffffff",
+  },
+  fieldRow: {
+    flexDirection: "row-reverse",
+    gap: 10,
+  },
+  field: {
+    flex: 1,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  input: {
+    backgroundColor: "#f8faff",
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "rgba(59, 130, 246, 0.18)",
+    textAlign: "right",
+    writingDirection: "rtl",
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  adjustmentRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  adjustmentLabel: {
+    flex: 2,
+  },
+  adjustmentAmount: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  addButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 6,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  previewText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  primaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 18,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+});
+
+export default CourierSettlementsPanel;
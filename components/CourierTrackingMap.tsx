@@ -4,10 +4,12 @@ import { WebView } from "react-native-webview";
 import { MapPin, Navigation, RefreshCw, Users } from "lucide-react-native";
 
 import Colors from "@/constants/colors";
-import { User } from "@/types/models";
+import { Delivery, PublicUser } from "@/types/models";
+import { EtaCountdown, getEtaCountdown } from "@/utils/eta";
 
 type CourierTrackingMapProps = {
-  couriers: User[];
+  couriers: PublicUser[];
+  deliveries?: Delivery[];
   fullScreen?: boolean;
 };
 
@@ -18,13 +20,30 @@ type CourierMapData = {
   latitude: number;
   longitude: number;
   updatedAt: string;
+  etaText: string | null;
+  isLate: boolean;
 };
 
-export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrackingMapProps) {
+const formatEta = (countdown: EtaCountdown): string => {
+  const minutes = Math.max(0, Math.ceil((new Date(countdown.targetAt).getTime() - Date.now()) / 60000));
+  return `${countdown.stage === "pickup" ? "לאיסוף" : "ללקוח"} בעוד ${minutes} דק׳${countdown.isLate ? " · באיחור" : ""}`;
+};
+
+export function CourierTrackingMap({ couriers, deliveries = [], fullScreen = false }: CourierTrackingMapProps) {
   const webViewRef = useRef<WebView>(null);
   const [isMapLoading, setIsMapLoading] = useState(true);
 
   const availableCouriersWithLocation = useMemo<CourierMapData[]>(() => {
+    // Each courier shows the ETA of the stop they will reach first.
+    const nextEtaByCourier = new Map<string, EtaCountdown>();
+    deliveries.forEach((delivery) => {
+      const countdown = delivery.courierId ? getEtaCountdown(delivery) : null;
+      const current = countdown ? nextEtaByCourier.get(delivery.courierId!) : undefined;
+      if (countdown && (!current || countdown.targetAt < current.targetAt)) {
+        nextEtaByCourier.set(delivery.courierId!, countdown);
+      }
+    });
+
     return couriers
       .filter((courier) => {
         const isAvailable = courier.courierProfile?.isAvailable ?? false;
@@ -40,8 +59,10 @@ export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrac
         latitude: courier.courierProfile!.currentLocation!.latitude,
         longitude: courier.courierProfile!.currentLocation!.longitude,
         updatedAt: courier.courierProfile!.currentLocation!.updatedAt ?? new Date().toISOString(),
+        etaText: nextEtaByCourier.has(courier.id) ? formatEta(nextEtaByCourier.get(courier.id)!) : null,
+        isLate: nextEtaByCourier.get(courier.id)?.isLate ?? false,
       }));
-  }, [couriers]);
+  }, [couriers, deliveries]);
 
   const formatLastUpdate = (updatedAt: string | undefined): string => {
     if (!updatedAt) return "לא ידוע";
@@ -116,6 +137,8 @@ export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrac
     .info-name { font-size: 14px; font-weight: 700; color: #1e293b; margin-bottom: 4px; }
     .info-vehicle { font-size: 12px; color: #64748b; margin-bottom: 4px; }
     .info-time { font-size: 11px; color: #94a3b8; }
+    .info-eta { font-size: 12px; font-weight: 600; color: #2563eb; margin-bottom: 4px; }
+    .info-eta.late { color: #ef4444; }
     .no-couriers-overlay {
       position: absolute;
       top: 50%;
@@ -188,6 +211,7 @@ export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrac
               '<div class="info-window">' +
                 '<div class="info-name">' + courier.name + '</div>' +
                 '<div class="info-vehicle">' + courier.vehicle + '</div>' +
+                (courier.etaText ? '<div class="info-eta' + (courier.isLate ? ' late' : '') + '">' + courier.etaText + '</div>' : '') +
                 '<div class="info-time">עדכון: ' + timeText + '</div>' +
               '</div>'
             );
@@ -242,6 +266,15 @@ export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrac
       font-size: 11px;
       color: #aeaeb2;
     }
+    .courier-popup-eta {
+      font-size: 12px;
+      font-weight: 600;
+      color: #2563eb;
+      margin-bottom: 4px;
+    }
+    .courier-popup-eta.late {
+      color: #ef4444;
+    }
     .courier-marker {
       width: 12px;
       height: 12px;
@@ -359,6 +392,7 @@ export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrac
             '<div class="courier-popup">' +
               '<div class="courier-popup-name">' + courier.name + '</div>' +
               '<div class="courier-popup-vehicle">' + courier.vehicle + '</div>' +
+              (courier.etaText ? '<div class="courier-popup-eta' + (courier.isLate ? ' late' : '') + '">' + courier.etaText + '</div>' : '') +
               '<div class="courier-popup-time">עדכון: ' + timeText + '</div>' +
             '</div>'
           );
@@ -470,6 +504,9 @@ export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrac
                 <View style={styles.fullScreenCourierInfo}>
                   <Text style={styles.fullScreenCourierName}>{courier.name}</Text>
                   <Text style={styles.fullScreenCourierVehicle}>{courier.vehicle}</Text>
+                  {courier.etaText ? (
+                    <Text style={[styles.courierEta, courier.isLate && styles.courierEtaLate]}>{courier.etaText}</Text>
+                  ) : null}
                 </View>
                 <Text style={styles.fullScreenCourierTime}>
                   {formatLastUpdate(courier.updatedAt)}
@@ -541,6 +578,9 @@ export function CourierTrackingMap({ couriers, fullScreen = false }: CourierTrac
               <View style={styles.courierLocationInfo}>
                 <Text style={styles.courierLocationName}>{courier.name}</Text>
                 <Text style={styles.courierLocationVehicle}>{courier.vehicle}</Text>
+                {courier.etaText ? (
+                  <Text style={[styles.courierEta, courier.isLate && styles.courierEtaLate]}>{courier.etaText}</Text>
+                ) : null}
               </View>
             </View>
             <View style={styles.courierLocationDetails}>
@@ -743,6 +783,15 @@ const styles = StyleSheet.create({
     color: Colors.light.secondaryText,
     writingDirection: "rtl",
   },
+  courierEta: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  courierEtaLate: {
+    color: "#ef4444",
+  },
   courierLocationDetails: {
     flexDirection: "row-reverse",
     alignItems: "center",
@@ -0,0 +1,219 @@
+import { ActivityIndicator, Pressable, StyleSheet, Switch, Text, View } from "react-native";
+import { MessageSquare } from "lucide-react-native";
+import { useQuery } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { useDelivery } from "../providers/DeliveryProvider";
+import { CustomerMessageLanguage, CustomerNotification, CustomerNotificationKind } from "../types/models";
+
+const RECENT_LOG_LIMIT = 10;
+
+const languageLabels: Record<CustomerMessageLanguage, string> = {
+  he: "עברית",
+  en: "English",
+};
+
+const kindLabels: Record<CustomerNotificationKind, string> = {
+  picked_up: "נאסף",
+  courier_nearby: "השליח מתקרב",
+};
+
+const formatSentAt = (value: string) => {
+  try {
+    return new Intl.DateTimeFormat("he-IL", {
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+  } catch (error) {
+    console.log("Customer notification date formatting failed", error);
+    return value;
+  }
+};
+
+type CustomerNotificationsPanelProps = {
+  testID?: string;
+};
+
+export function CustomerNotificationsPanel({ testID }: CustomerNotificationsPanelProps) {
+  const { user, updateCustomerSmsSettings, updateCustomerSmsSettingsMutationStatus } = useDelivery();
+  const enabled = user?.businessProfile?.customerSmsEnabled ?? false;
+  const language = user?.businessProfile?.customerSmsLanguage ?? "he";
+  const isSaving = updateCustomerSmsSettingsMutationStatus === "pending";
+
+  const notificationsQuery = useQuery<CustomerNotification[]>({
+    queryKey: ["customerNotifications"],
+    queryFn: () => trpcClient.customerNotifications.list.query(),
+    enabled,
+  });
+  const recentNotifications = (notificationsQuery.data ?? []).slice(0, RECENT_LOG_LIMIT);
+
+  const saveSettings = (next: { enabled: boolean; language: CustomerMessageLanguage }) => {
+    updateCustomerSmsSettings(next).catch((error) => {
+      console.log("Customer SMS settings update failed", error);
+    });
+  };
+
+  return (
+    <View style={styles.section} testID={testID}>
+      <View style={styles.sectionHeader}>
+        <MessageSquare color={Colors.light.tint} size={20} />
+        <Text style={styles.sectionTitle}>הודעות SMS ללקוחות</Text>
+      </View>
+
+      <View style={styles.toggleRow}>
+        <Switch
+          value={enabled}
+          onValueChange={(value) => saveSettings({ enabled: value, language })}
+          disabled={isSaving}
+          trackColor={{ true: Colors.light.tint, false: Colors.light.border }}
+          testID="customer-sms-toggle"
+        />
+        <Text style={styles.sectionSubtitle}>שליחת הודעה ללקוח כשההזמנה נאספת וכשהשליח מתקרב</Text>
+      </View>
+
+      {enabled ? (
+        <View style={styles.chipRow}>
+          {(Object.keys(languageLabels) as CustomerMessageLanguage[]).map((option) => {
+            const isSelected = option === language;
+            return (
+              <Pressable
+                key={option}
+                onPress={() => saveSettings({ enabled, language: option })}
+                disabled={isSaving || isSelected}
+                style={[styles.chip, isSelected && styles.chipActive]}
+                testID={`customer-sms-language-${option}`}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{languageLabels[option]}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+
+      {enabled && notificationsQuery.isLoading ? <ActivityIndicator color={Colors.light.tint} /> : null}
+      {enabled && !notificationsQuery.isLoading && recentNotifications.length === 0 ? (
+        <Text style={styles.emptyText}>עדיין לא נשלחו הודעות ללקוחות</Text>
+      ) : null}
+
+      {enabled
+        ? recentNotifications.map((notification) => (
+            <View key={notification.id} style={styles.logRow} testID={`customer-notification-${notification.id}`}>
+              <View style={styles.logHeader}>
+                <Text style={styles.logKind}>{kindLabels[notification.kind]}</Text>
+                <Text style={[styles.logStatus, notification.status === "failed" && styles.logStatusFailed]}>
+                  {notification.status === "sent" ? "נשלח" : "נכשל"}
+                </Text>
+                <Text style={styles.logMeta}>{formatSentAt(notification.createdAt)}</Text>
+              </View>
+              <Text style={styles.logBody} numberOfLines={2}>
+                {notification.error ?? notification.body}
+              </Text>
+            </View>
+          ))
+        : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+    marginTop: 24,
+  },
+  sectionHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  toggleRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 12,
+  },
+  chipRow: {
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.text,
+  },
+  chipTextActive: {
+    color: "#ffffff",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  logRow: {
+    gap: 4,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  logHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  logKind: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  logStatus: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: Colors.light.completed,
+  },
+  logStatusFailed: {
+    color: Colors.light.failed,
+  },
+  logMeta: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+  },
+  logBody: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+  },
+});
+
+export default CustomerNotificationsPanel;
@@ -0,0 +1,200 @@
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { CheckCircle, Package, Route } from "lucide-react-native";
+
+import Colors from "../constants/colors";
+import { Delivery } from "../types/models";
+import { removeCoordinatesFromAddress } from "../utils/distanceCalculator";
+
+const legStatusLabels: Record<Delivery["status"], string> = {
+  waiting: "ממתין",
+  taken: "בדרך",
+  completed: "נמסר",
+  cancelled: "בוטל",
+  failed: "נכשל",
+};
+
+type DeliveryBatchCardProps = {
+  legs: Delivery[];
+  businessName?: string;
+  canPickupAll?: boolean;
+  isSubmitting?: boolean;
+  onPickupAll?: () => Promise<void> | void;
+  testID?: string;
+};
+
+export function DeliveryBatchCard({
+  legs,
+  businessName,
+  canPickupAll = false,
+  isSubmitting = false,
+  onPickupAll,
+  testID,
+}: DeliveryBatchCardProps) {
+  const totalDistanceKm = legs.reduce((sum, leg) => sum + (leg.legDistanceKm ?? 0), 0);
+  const totalPayment = legs.reduce((sum, leg) => sum + (leg.payment ?? 0), 0);
+  const remainingLegs = legs.filter((leg) => leg.status === "taken").length;
+
+  return (
+    <View style={styles.card} testID={testID}>
+      <View style={styles.header}>
+        <Route size={20} color={Colors.light.tint} />
+        <Text style={styles.title}>מסלול משותף · {legs.length} עצירות</Text>
+      </View>
+      {businessName ? <Text style={styles.subtitle}>איסוף מ{businessName}</Text> : null}
+
+      <View style={styles.legs}>
+        {legs.map((leg) => (
+          <View key={leg.id} style={styles.legRow} testID={`${testID}-leg-${leg.id}`}>
+            <View style={styles.legIndex}>
+              <Text style={styles.legIndexText}>{leg.batchSequence ?? "-"}</Text>
+            </View>
+            <View style={styles.legContent}>
+              <Text style={styles.legAddress} numberOfLines={1}>
+                {removeCoordinatesFromAddress(leg.dropoffAddress)}
+              </Text>
+              <Text style={styles.legMeta}>
+                {legStatusLabels[leg.status]}
+                {leg.legDistanceKm !== undefined ? ` · ${leg.legDistanceKm} ק״מ` : ""}
+                {leg.payment !== undefined ? ` · ₪${leg.payment}` : ""}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.footer}>
+        <Text style={styles.totals}>
+          {remainingLegs} פעילים · {Math.round(totalDistanceKm * 10) / 10} ק״מ · ₪{totalPayment}
+        </Text>
+        {canPickupAll && onPickupAll ? (
+          <Pressable
+            onPress={() => onPickupAll()}
+            style={[styles.pickupButton, isSubmitting && styles.disabledButton]}
+            disabled={isSubmitting}
+            testID={`${testID}-pickup-all`}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <>
+                <CheckCircle size={18} color="#ffffff" />
+                <Text style={styles.pickupText}>נאספו כל ההזמנות</Text>
+              </>
+            )}
+          </Pressable>
+        ) : (
+          <View style={styles.pendingHint}>
+            <Package size={16} color={Colors.light.secondaryText} />
+            <Text style={styles.pendingText}>כל עצירה מסומנת כהושלמה בנפרד</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+    borderWidth: 2,
+    borderColor: Colors.light.tint,
+  },
+  header: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  subtitle: {
+    fontSize: 14,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  legs: {
+    gap: 10,
+  },
+  legRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 12,
+  },
+  legIndex: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: "rgba(29, 78, 216, 0.12)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  legIndexText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.light.tint,
+  },
+  legContent: {
+    flex: 1,
+    alignItems: "flex-end",
+  },
+  legAddress: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  legMeta: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  footer: {
+    gap: 10,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  totals: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  pickupButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 18,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  pickupText: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+  pendingHint: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 6,
+  },
+  pendingText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+});
+
+export default DeliveryBatchCard;
@@ -1,23 +1,31 @@
 import { useEffect, useMemo, useState } from "react";
-import { Image, Linking, Platform, Pressable, StyleSheet, Text, View } from "react-native";
-import { ArrowLeftRight, Bike, CheckCircle, Clock, FileText, MapPin, Phone, User, Navigation } from "lucide-react-native";
+import { Image, Linking, Platform, Pressable, Share, StyleSheet, Text, View } from "react-native";
+import { AlertTriangle, ArrowLeftRight, Bike, CalendarClock, CheckCircle, Clock, CloudOff, FileCheck, FileText, MapPin, Phone, Route, Share2, User, Navigation, XCircle } from "lucide-react-native";
 import * as Haptics from "expo-haptics";
 
 import Colors from "../constants/colors";
+import { cancellationReasonLabels, failureReasonLabels } from "../constants/deliveryReasons";
 import { Delivery } from "../types/models";
 import { CountdownTimer } from "./CountdownTimer";
+import { DeliveryHistoryTimeline } from "./DeliveryHistoryTimeline";
 import { removeCoordinatesFromAddress, parseAddressCoordinates } from "../utils/distanceCalculator";
+import { getEtaCountdown } from "../utils/eta";
+import { isHeldForSchedule } from "../utils/scheduling";
 
 const statusLabels: Record<Delivery["status"], string> = {
   waiting: "ממתין",
   taken: "נלקח",
   completed: "הושלם",
+  cancelled: "בוטל",
+  failed: "נכשל",
 };
 
 const statusColors: Record<Delivery["status"], { background: string; color: string }> = {
   waiting: { background: "rgba(37, 99, 235, 0.12)", color: Colors.light.waiting },
   taken: { background: "rgba(245, 158, 11, 0.12)", color: Colors.light.taken },
   completed: { background: "rgba(16, 185, 129, 0.12)", color: Colors.light.completed },
+  cancelled: { background: "rgba(100, 116, 139, 0.12)", color: Colors.light.cancelled },
+  failed: { background: "rgba(239, 68, 68, 0.12)", color: Colors.light.failed },
 };
 
 type DeliveryCardProps = {
@@ -37,7 +45,12 @@ type DeliveryCardProps = {
   showNavigationButtons?: boolean;
   showCustomerInfo?: boolean;
   showCustomerInfoForBusiness?: boolean;
+  trackingUrl?: string;
+  onViewProofOfDelivery?: () => void;
   showNotes?: boolean;
+  showHistory?: boolean;
+  resolveActorName?: (actorId: string) => string | undefined;
+  isPendingSync?: boolean;
 };
 
 export function DeliveryCard({
@@ -57,7 +70,12 @@ export function DeliveryCard({
   showNavigationButtons = false,
   showCustomerInfo = false,
   showCustomerInfoForBusiness = false,
+  trackingUrl,
+  onViewProofOfDelivery,
   showNotes = true,
+  showHistory = false,
+  resolveActorName,
+  isPendingSync = false,
 }: DeliveryCardProps) {
   const formattedDate = useMemo(() => {
     try {
@@ -73,6 +91,25 @@ export function DeliveryCard({
     }
   }, [delivery.createdAt]);
 
+  const etaCountdown = getEtaCountdown(delivery);
+
+  const formattedScheduledFor = useMemo(() => {
+    if (!delivery.scheduledFor) {
+      return null;
+    }
+    try {
+      return new Intl.DateTimeFormat("he-IL", {
+        hour: "2-digit",
+        minute: "2-digit",
+        day: "2-digit",
+        month: "2-digit",
+      }).format(new Date(delivery.scheduledFor));
+    } catch (error) {
+      console.log("Scheduled date formatting failed", error);
+      return delivery.scheduledFor;
+    }
+  }, [delivery.scheduledFor]);
+
   const statusStyle = statusColors[delivery.status];
 
   const handleAction = async (action?: () => Promise<void> | void) => {
@@ -166,6 +203,18 @@ export function DeliveryCard({
     }
   };
 
+  const handleShareTracking = async () => {
+    if (!trackingUrl) {
+      return;
+    }
+    try {
+      await Share.share({ message: `אפשר לעקוב אחרי המשלוח שלך כאן: ${trackingUrl}` });
+      console.log("Tracking link shared", delivery.id);
+    } catch (error) {
+      console.log("Tracking link share failed", error);
+    }
+  };
+
   const handleWazeNavigation = async (address: string) => {
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch((error) => {
@@ -270,11 +319,52 @@ export function DeliveryCard({
         </View>
       </View>
 
+      {isPendingSync ? (
+        <View style={styles.pendingSyncBadge} testID={`${testID}-pending-sync`}>
+          <CloudOff size={16} color={Colors.light.taken} />
+          <Text style={styles.pendingSyncText}>ממתין לסנכרון</Text>
+        </View>
+      ) : null}
+
+      {delivery.batchId && delivery.batchSequence ? (
+        <View style={styles.batchBadge} testID={`${testID}-batch`}>
+          <Route size={16} color={Colors.light.tintDark} />
+          <Text style={styles.batchText}>
+            עצירה {delivery.batchSequence} במסלול
+            {delivery.legDistanceKm !== undefined ? ` · ${delivery.legDistanceKm} ק״מ מהעצירה הקודמת` : ""}
+          </Text>
+        </View>
+      ) : null}
+
       {delivery.status === "completed" ? (
         <View style={styles.completedBadge}>
           <CheckCircle size={16} color={Colors.light.completed} />
           <Text style={styles.completedText}>הושלם</Text>
         </View>
+      ) : delivery.status === "cancelled" ? (
+        <View style={styles.closedSection}>
+          <View style={styles.cancelledBadge}>
+            <XCircle size={16} color={Colors.light.cancelled} />
+            <Text style={styles.cancelledText}>
+              בוטל{delivery.cancellationReason ? ` - ${cancellationReasonLabels[delivery.cancellationReason]}` : ""}
+            </Text>
+          </View>
+          {delivery.statusNote ? (
+            <Text style={styles.statusNoteText}>{delivery.statusNote}</Text>
+          ) : null}
+        </View>
+      ) : delivery.status === "failed" ? (
+        <View style={styles.closedSection}>
+          <View style={styles.failedBadge}>
+            <AlertTriangle size={16} color={Colors.light.failed} />
+            <Text style={styles.failedText}>
+              נכשל במסירה{delivery.failureReason ? ` - ${failureReasonLabels[delivery.failureReason]}` : ""}
+            </Text>
+          </View>
+          {delivery.statusNote ? (
+            <Text style={styles.statusNoteText}>{delivery.statusNote}</Text>
+          ) : null}
+        </View>
       ) : delivery.pickedUpAt && showNavigationButtons ? (
         <View style={styles.pickedUpSection}>
           <View style={styles.pickedUpBadge}>
@@ -471,6 +561,28 @@ export function DeliveryCard({
         </Pressable>
       ) : null}
 
+      {trackingUrl ? (
+        <Pressable
+          onPress={handleShareTracking}
+          style={styles.trackingButton}
+          testID={`${testID}-share-tracking`}
+        >
+          <Share2 size={18} color={Colors.light.tint} />
+          <Text style={styles.trackingButtonText}>שליחת קישור מעקב ללקוח</Text>
+        </Pressable>
+      ) : null}
+
+      {onViewProofOfDelivery && delivery.status === "completed" && delivery.proofOfDelivery ? (
+        <Pressable
+          onPress={onViewProofOfDelivery}
+          style={styles.proofButton}
+          testID={`${testID}-proof-of-delivery`}
+        >
+          <FileCheck size={18} color={Colors.light.completed} />
+          <Text style={styles.proofButtonText}>צפייה באישור המסירה</Text>
+        </Pressable>
+      ) : null}
+
       {courierName ? (
         <View style={styles.row}>
           <Bike size={18} color={Colors.light.tintDark} />
@@ -525,12 +637,8 @@ export function DeliveryCard({
         </View>
       ) : null}
 
-      {delivery.confirmedAt && delivery.estimatedArrivalMinutes && delivery.businessConfirmed && !delivery.pickedUpAt ? (
-        <CountdownTimer
-          confirmedAt={delivery.confirmedAt}
-          estimatedArrivalMinutes={delivery.estimatedArrivalMinutes}
-          testID={`${testID}-countdown`}
-        />
+      {etaCountdown ? (
+        <CountdownTimer countdown={etaCountdown} testID={`${testID}-countdown`} />
       ) : delivery.estimatedArrivalMinutes && delivery.status === "taken" && !delivery.confirmedAt ? (
         <View style={styles.row}>
           <Clock size={18} color={Colors.light.tintDark} />
@@ -541,6 +649,16 @@ export function DeliveryCard({
         </View>
       ) : null}
 
+      {formattedScheduledFor && delivery.status === "waiting" ? (
+        <View style={styles.row} testID={`${testID}-scheduled-for`}>
+          <CalendarClock size={18} color={Colors.light.tintDark} />
+          <View style={styles.rowContent}>
+            <Text style={styles.label}>{isHeldForSchedule(delivery) ? "מתוזמן לאיסוף" : "מועד איסוף מתוכנן"}</Text>
+            <Text style={styles.value}>{formattedScheduledFor}</Text>
+          </View>
+        </View>
+      ) : null}
+
       <View style={styles.footer}>
         <Text style={styles.timeLabel}>עודכן {formattedDate}</Text>
         <View style={styles.actionsRow}>
@@ -569,6 +687,14 @@ export function DeliveryCard({
           ) : null}
         </View>
       </View>
+
+      {showHistory ? (
+        <DeliveryHistoryTimeline
+          deliveryId={delivery.id}
+          resolveActorName={resolveActorName}
+          testID={`${testID}-history`}
+        />
+      ) : null}
     </View>
   );
 }
@@ -846,6 +972,42 @@ const styles = StyleSheet.create({
     color: "#ffffff",
     writingDirection: "rtl",
   },
+  trackingButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 18,
+    alignSelf: "stretch",
+  },
+  trackingButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  proofButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+    borderWidth: 1,
+    borderColor: Colors.light.completed,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 18,
+    alignSelf: "stretch",
+  },
+  proofButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.completed,
+    writingDirection: "rtl",
+  },
   completedBadge: {
     flexDirection: "row-reverse",
     alignItems: "center",
@@ -862,6 +1024,80 @@ const styles = StyleSheet.create({
     color: Colors.light.completed,
     writingDirection: "rtl",
   },
+  pendingSyncBadge: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "rgba(245, 158, 11, 0.12)",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 14,
+    alignSelf: "flex-end",
+  },
+  pendingSyncText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.taken,
+    writingDirection: "rtl",
+  },
+  batchBadge: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "rgba(30, 58, 138, 0.08)",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 14,
+    alignSelf: "flex-end",
+  },
+  batchText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.tintDark,
+    writingDirection: "rtl",
+  },
+  closedSection: {
+    alignItems: "flex-end",
+    gap: 6,
+  },
+  cancelledBadge: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "rgba(100, 116, 139, 0.12)",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    alignSelf: "flex-end",
+  },
+  cancelledText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.cancelled,
+    writingDirection: "rtl",
+  },
+  failedBadge: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "rgba(239, 68, 68, 0.12)",
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    alignSelf: "flex-end",
+  },
+  failedText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.failed,
+    writingDirection: "rtl",
+  },
+  statusNoteText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
   waitingBusinessBadge: {
     flexDirection: "row-reverse",
     alignItems: "center",
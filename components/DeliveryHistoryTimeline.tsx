@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { ChevronDown, ChevronUp, History } from "lucide-react-native";
+import { useQuery } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { DeliveryHistoryAction, DeliveryHistoryEntry, UserRole } from "../types/models";
+
+const actionLabels: Record<DeliveryHistoryAction, string> = {
+  created: "נוצר",
+  confirmed: "אושר על ידי העסק",
+  ready: "סומן כמוכן",
+  taken: "נלקח על ידי שליח",
+  picked_up: "נאסף",
+  completed: "נמסר",
+  cancelled: "בוטל",
+  failed: "נכשל במסירה",
+  released: "שוחרר חזרה לשליחים",
+  manager_edit: "עריכת מנהל",
+};
+
+const roleLabels: Record<UserRole, string> = {
+  manager: "מנהל",
+  business: "עסק",
+  courier: "שליח",
+};
+
+const formatTimestamp = (value: string) => {
+  try {
+    return new Intl.DateTimeFormat("he-IL", {
+      hour: "2-digit",
+      minute: "2-digit",
+      day: "2-digit",
+      month: "2-digit",
+    }).format(new Date(value));
+  } catch (error) {
+    console.log("History date formatting failed", error);
+    return value;
+  }
+};
+
+type DeliveryHistoryTimelineProps = {
+  deliveryId: string;
+  resolveActorName?: (actorId: string) => string | undefined;
+  testID?: string;
+};
+
+export function DeliveryHistoryTimeline({ deliveryId, resolveActorName, testID }: DeliveryHistoryTimelineProps) {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  const historyQuery = useQuery<DeliveryHistoryEntry[]>({
+    queryKey: ["deliveryHistory", deliveryId],
+    queryFn: () => trpcClient.deliveries.history.query({ deliveryId }),
+    enabled: isExpanded,
+  });
+
+  const entries = historyQuery.data ?? [];
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Pressable
+        onPress={() => setIsExpanded((prev) => !prev)}
+        style={styles.toggle}
+        testID={`${testID}-toggle`}
+      >
+        <History size={16} color={Colors.light.tint} />
+        <Text style={styles.toggleText}>היסטוריית משלוח</Text>
+        {isExpanded ? (
+          <ChevronUp size={16} color={Colors.light.tint} />
+        ) : (
+          <ChevronDown size={16} color={Colors.light.tint} />
+        )}
+      </Pressable>
+
+      {isExpanded ? (
+        historyQuery.isLoading ? (
+          <ActivityIndicator color={Colors.light.tint} />
+        ) : historyQuery.isError ? (
+          <Text style={styles.emptyText}>טעינת ההיסטוריה נכשלה</Text>
+        ) : entries.length === 0 ? (
+          <Text style={styles.emptyText}>אין רשומות היסטוריה</Text>
+        ) : (
+          <View style={styles.timeline}>
+            {entries.map((entry, index) => {
+              const actorName = resolveActorName?.(entry.actorId);
+              const changedFields = entry.changedFields
+                .map((change) => change.field)
+                .filter((field) => field !== "status");
+              return (
+                <View key={entry.id} style={styles.entry}>
+                  <View style={styles.markerColumn}>
+                    <View style={styles.marker} />
+                    {index < entries.length - 1 ? <View style={styles.connector} /> : null}
+                  </View>
+                  <View style={styles.entryContent}>
+                    <Text style={styles.entryTitle}>{actionLabels[entry.action]}</Text>
+                    <Text style={styles.entryMeta}>
+                      {formatTimestamp(entry.createdAt)} · {roleLabels[entry.actorRole]}
+                      {actorName ? ` ${actorName}` : ""}
+                    </Text>
+                    {changedFields.length > 0 ? (
+                      <Text style={styles.entryFields}>{changedFields.join(", ")}</Text>
+                    ) : null}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  toggle: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 6,
+    alignSelf: "flex-end",
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  timeline: {
+    gap: 0,
+  },
+  entry: {
+    flexDirection: "row-reverse",
+    gap: 10,
+  },
+  markerColumn: {
+    alignItems: "center",
+    width: 12,
+  },
+  marker: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.light.tint,
+    marginTop: 4,
+  },
+  connector: {
+    flex: 1,
+    width: 2,
+    backgroundColor: Colors.light.border,
+  },
+  entryContent: {
+    flex: 1,
+    alignItems: "flex-end",
+    paddingBottom: 12,
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  entryFields: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+});
+
+export default DeliveryHistoryTimeline;
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  ScrollView,
+  Pressable,
+} from "react-native";
+import { X } from "lucide-react-native";
+
+import Colors from "../constants/colors";
+
+interface DeliveryReasonModalProps<TReason extends string> {
+  visible: boolean;
+  title: string;
+  subtitle?: string;
+  reasons: readonly TReason[];
+  reasonLabels: Record<TReason, string>;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (reason: TReason, note?: string) => void;
+}
+
+export function DeliveryReasonModal<TReason extends string>({
+  visible,
+  title,
+  subtitle,
+  reasons,
+  reasonLabels,
+  submitLabel,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}: DeliveryReasonModalProps<TReason>) {
+  const [selectedReason, setSelectedReason] = useState<TReason | null>(null);
+  const [note, setNote] = useState<string>("");
+
+  useEffect(() => {
+    if (!visible) {
+      setSelectedReason(null);
+      setNote("");
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    if (!selectedReason) {
+      return;
+    }
+    const trimmedNote = note.trim();
+    onSubmit(selectedReason, trimmedNote ? trimmedNote : undefined);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+      testID="delivery-reason-modal"
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <View
+          style={styles.modalContent}
+          onStartShouldSetResponder={() => true}
+          onTouchEnd={(e) => e.stopPropagation()}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity
+              onPress={onClose}
+              style={styles.closeButton}
+              testID="close-reason-modal"
+            >
+              <X size={24} color={Colors.light.text} />
+            </TouchableOpacity>
+            <Text style={styles.title}>{title}</Text>
+          </View>
+
+          {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.optionsContainer}
+          >
+            {reasons.map((reason) => {
+              const isSelected = selectedReason === reason;
+              return (
+                <TouchableOpacity
+                  key={reason}
+                  style={[styles.reasonOption, isSelected && styles.reasonOptionSelected]}
+                  onPress={() => setSelectedReason(reason)}
+                  testID={`reason-option-${reason}`}
+                >
+                  <Text style={[styles.reasonText, isSelected && styles.reasonTextSelected]}>
+                    {reasonLabels[reason]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            <TextInput
+              value={note}
+              onChangeText={setNote}
+              placeholder="הערה (לא חובה)"
+              placeholderTextColor="#9ba3b8"
+              style={styles.noteInput}
+              multiline
+              maxLength={500}
+              testID="reason-note-input"
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, (!selectedReason || isSubmitting) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!selectedReason || isSubmitting}
+            testID="reason-submit-button"
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.submitButtonText}>{submitLabel}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: Colors.light.background,
+    borderRadius: 24,
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "80%",
+    paddingVertical: 24,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    marginBottom: 12,
+    position: "relative" as const,
+  },
+  closeButton: {
+    position: "absolute" as const,
+    left: 24,
+    padding: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "center",
+    writingDirection: "rtl",
+  },
+  subtitle: {
+    fontSize: 15,
+    color: Colors.light.secondaryText,
+    textAlign: "center",
+    paddingHorizontal: 24,
+    marginBottom: 20,
+    writingDirection: "rtl",
+  },
+  scrollView: {
+    maxHeight: 400,
+  },
+  optionsContainer: {
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  reasonOption: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: Colors.light.border,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    alignItems: "flex-end",
+  },
+  reasonOptionSelected: {
+    borderColor: Colors.light.tint,
+  },
+  reasonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  reasonTextSelected: {
+    color: Colors.light.tint,
+  },
+  noteInput: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    minHeight: 72,
+    fontSize: 15,
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  submitButton: {
+    backgroundColor: Colors.light.tint,
+    marginHorizontal: 24,
+    marginTop: 20,
+    paddingVertical: 16,
+    borderRadius: 20,
+    alignItems: "center",
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+});
+
+export default DeliveryReasonModal;
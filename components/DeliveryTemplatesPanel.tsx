@@ -0,0 +1,596 @@
+import { useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { Pause, Pencil, Play, Repeat, SkipForward, Trash2 } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { DeliveryTemplate, DeliveryTemplateFrequency } from "../types/models";
+import {
+  describeRecurrence,
+  frequencyLabels,
+  getDeliveryTemplateError,
+  getNextTemplateOccurrence,
+  weekdayShortLabels,
+} from "../utils/deliveryTemplates";
+import { removeCoordinatesFromAddress } from "../utils/distanceCalculator";
+
+const placeholderColor = "rgba(15, 23, 42, 0.35)";
+
+const FREQUENCIES: DeliveryTemplateFrequency[] = ["daily", "weekdays", "custom"];
+
+const formatOccurrence = (value: string) => {
+  try {
+    return new Intl.DateTimeFormat("he-IL", {
+      weekday: "short",
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+  } catch (error) {
+    console.log("Template occurrence formatting failed", error);
+    return value;
+  }
+};
+
+const formatSkippedDate = (date: string) => {
+  const [year, month, day] = date.split("-");
+  return year && month && day ? `${day}/${month}` : date;
+};
+
+export type DeliveryTemplateDraft = Pick<
+  DeliveryTemplate,
+  "customerName" | "customerPhone" | "dropoffAddress" | "notes" | "preparationTimeMinutes"
+>;
+
+type TemplateForm = {
+  templateId?: string;
+  name: string;
+  customerName: string;
+  customerPhone: string;
+  dropoffAddress: string;
+  notes: string;
+  preparationTime: string;
+  frequency: DeliveryTemplateFrequency;
+  daysOfWeek: number[];
+  timeOfDay: string;
+};
+
+const formFromTemplate = (template: DeliveryTemplate): TemplateForm => ({
+  templateId: template.id,
+  name: template.name,
+  customerName: template.customerName,
+  customerPhone: template.customerPhone,
+  dropoffAddress: template.dropoffAddress,
+  notes: template.notes,
+  preparationTime: String(template.preparationTimeMinutes),
+  frequency: template.recurrence.frequency,
+  daysOfWeek: template.recurrence.daysOfWeek,
+  timeOfDay: template.recurrence.timeOfDay,
+});
+
+const formFromDraft = (draft: DeliveryTemplateDraft): TemplateForm => ({
+  name: draft.customerName,
+  customerName: draft.customerName,
+  customerPhone: draft.customerPhone,
+  dropoffAddress: draft.dropoffAddress,
+  notes: draft.notes,
+  preparationTime: String(draft.preparationTimeMinutes),
+  frequency: "weekdays",
+  daysOfWeek: [],
+  timeOfDay: "12:00",
+});
+
+type DeliveryTemplatesPanelProps = {
+  draft: DeliveryTemplateDraft | null;
+  testID?: string;
+};
+
+export function DeliveryTemplatesPanel({ draft, testID }: DeliveryTemplatesPanelProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<TemplateForm | null>(null);
+
+  const templatesQuery = useQuery<DeliveryTemplate[]>({
+    queryKey: ["deliveryTemplates"],
+    queryFn: () => trpcClient.templates.list.query(),
+  });
+  const templates = templatesQuery.data ?? [];
+
+  const onMutationSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["deliveryTemplates"] });
+  };
+  const onMutationError = (error: Error) => {
+    Alert.alert("שגיאה", error.message);
+  };
+
+  const { mutateAsync: saveTemplateMutateAsync, status: saveTemplateStatus } = useMutation({
+    mutationFn: (payload: Parameters<typeof trpcClient.templates.save.mutate>[0]) =>
+      trpcClient.templates.save.mutate(payload),
+    onSuccess: (template) => {
+      console.log("Delivery template saved", template.id);
+      onMutationSuccess();
+    },
+    onError: onMutationError,
+  });
+
+  const { mutate: setPaused } = useMutation({
+    mutationFn: (payload: { templateId: string; isPaused: boolean }) => trpcClient.templates.setPaused.mutate(payload),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const { mutate: skipOccurrence } = useMutation({
+    mutationFn: (payload: { templateId: string; date: string; skipped: boolean }) =>
+      trpcClient.templates.skipOccurrence.mutate(payload),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const { mutate: deleteTemplate } = useMutation({
+    mutationFn: (templateId: string) => trpcClient.templates.delete.mutate({ templateId }),
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const updateForm = (changes: Partial<TemplateForm>) => {
+    setForm((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const toggleDay = (day: number) => {
+    if (!form) {
+      return;
+    }
+    const daysOfWeek = form.daysOfWeek.includes(day)
+      ? form.daysOfWeek.filter((candidate) => candidate !== day)
+      : [...form.daysOfWeek, day];
+    updateForm({ daysOfWeek });
+  };
+
+  const handleSave = async () => {
+    if (!form) {
+      return;
+    }
+    const payload = {
+      templateId: form.templateId,
+      name: form.name,
+      customerName: form.customerName,
+      customerPhone: form.customerPhone,
+      dropoffAddress: form.dropoffAddress,
+      notes: form.notes,
+      preparationTimeMinutes: Number(form.preparationTime),
+      recurrence: { frequency: form.frequency, daysOfWeek: form.daysOfWeek, timeOfDay: form.timeOfDay.trim() },
+    };
+    const validationError = getDeliveryTemplateError(payload);
+    if (validationError) {
+      Alert.alert("שגיאה", validationError);
+      return;
+    }
+    try {
+      await saveTemplateMutateAsync(payload);
+      setForm(null);
+    } catch (error) {
+      console.log("Save delivery template failed", error);
+    }
+  };
+
+  return (
+    <View style={styles.section} testID={testID}>
+      <View style={styles.sectionHeader}>
+        <Repeat color={Colors.light.tint} size={20} />
+        <Text style={styles.sectionTitle}>משלוחים קבועים</Text>
+      </View>
+      <Text style={styles.sectionSubtitle}>משלוחים שחוזרים על עצמם נוצרים אוטומטית לפי הימים והשעה שנקבעו</Text>
+
+      {!form && draft ? (
+        <Pressable
+          onPress={() => setForm(formFromDraft(draft))}
+          style={styles.secondaryButton}
+          testID="template-from-form"
+        >
+          <Text style={styles.secondaryButtonText}>שמור את פרטי הטופס כמשלוח קבוע</Text>
+        </Pressable>
+      ) : null}
+
+      {form ? (
+        <View style={styles.editor} testID="template-editor">
+          <View style={styles.field}>
+            <Text style={styles.label}>שם התבנית</Text>
+            <TextInput
+              value={form.name}
+              onChangeText={(name) => updateForm({ name })}
+              style={styles.input}
+              placeholder="למשל: ארוחת צהריים למשרד"
+              placeholderTextColor={placeholderColor}
+              testID="template-name"
+            />
+          </View>
+          <View style={styles.fieldRow}>
+            <View style={styles.field}>
+              <Text style={styles.label}>שם הלקוח</Text>
+              <TextInput
+                value={form.customerName}
+                onChangeText={(customerName) => updateForm({ customerName })}
+                style={styles.input}
+                testID="template-customer-name"
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>טלפון</Text>
+              <TextInput
+                value={form.customerPhone}
+                onChangeText={(customerPhone) => updateForm({ customerPhone })}
+                style={styles.input}
+                keyboardType="phone-pad"
+                testID="template-customer-phone"
+              />
+            </View>
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>כתובת יעד</Text>
+            <TextInput
+              value={form.dropoffAddress}
+              onChangeText={(dropoffAddress) => updateForm({ dropoffAddress })}
+              style={styles.input}
+              testID="template-dropoff"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>הערות</Text>
+            <TextInput
+              value={form.notes}
+              onChangeText={(notes) => updateForm({ notes })}
+              style={styles.input}
+              testID="template-notes"
+            />
+          </View>
+          <View style={styles.chipRow}>
+            {FREQUENCIES.map((frequency) => {
+              const isSelected = form.frequency === frequency;
+              return (
+                <Pressable
+                  key={frequency}
+                  onPress={() => updateForm({ frequency })}
+                  style={[styles.chip, isSelected && styles.chipActive]}
+                  testID={`template-frequency-${frequency}`}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{frequencyLabels[frequency]}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          {form.frequency === "custom" ? (
+            <View style={styles.chipRow}>
+              {weekdayShortLabels.map((label, day) => {
+                const isSelected = form.daysOfWeek.includes(day);
+                return (
+                  <Pressable
+                    key={label}
+                    onPress={() => toggleDay(day)}
+                    style={[styles.dayChip, isSelected && styles.chipActive]}
+                    testID={`template-day-${day}`}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          ) : null}
+          <View style={styles.fieldRow}>
+            <View style={styles.field}>
+              <Text style={styles.label}>שעת איסוף</Text>
+              <TextInput
+                value={form.timeOfDay}
+                onChangeText={(timeOfDay) => updateForm({ timeOfDay })}
+                style={styles.input}
+                placeholder="HH:MM"
+                placeholderTextColor={placeholderColor}
+                keyboardType="numbers-and-punctuation"
+                testID="template-time"
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>זמן הכנה (דקות)</Text>
+              <TextInput
+                value={form.preparationTime}
+                onChangeText={(preparationTime) => updateForm({ preparationTime })}
+                style={styles.input}
+                keyboardType="numeric"
+                testID="template-preparation-time"
+              />
+            </View>
+          </View>
+          <View style={styles.editorActions}>
+            <Pressable
+              onPress={handleSave}
+              style={[styles.primaryButton, saveTemplateStatus === "pending" && styles.disabledButton]}
+              disabled={saveTemplateStatus === "pending"}
+              testID="template-save"
+            >
+              {saveTemplateStatus === "pending" ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>{form.templateId ? "עדכן מועדים עתידיים" : "שמור תבנית"}</Text>
+              )}
+            </Pressable>
+            <Pressable onPress={() => setForm(null)} style={styles.secondaryButton} testID="template-cancel">
+              <Text style={styles.secondaryButtonText}>ביטול</Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : null}
+
+      {templatesQuery.isLoading ? <ActivityIndicator color={Colors.light.tint} /> : null}
+      {!templatesQuery.isLoading && templates.length === 0 && !form ? (
+        <Text style={styles.emptyText}>אין משלוחים קבועים. מלאו את הטופס ושמרו אותו כתבנית</Text>
+      ) : null}
+
+      {templates.map((template) => {
+        const next = template.isPaused ? null : getNextTemplateOccurrence(template);
+        return (
+          <View key={template.id} style={styles.templateRow} testID={`template-${template.id}`}>
+            <View style={styles.templateInfo}>
+              <Text style={styles.templateTitle}>{template.name}</Text>
+              <Text style={styles.templateMeta} numberOfLines={1}>
+                {template.customerName} · {removeCoordinatesFromAddress(template.dropoffAddress)}
+              </Text>
+              <Text style={styles.templateMeta}>{describeRecurrence(template.recurrence)}</Text>
+              <Text style={[styles.templateMeta, template.isPaused && styles.pausedText]}>
+                {template.isPaused ? "מושהה" : next ? `הבא: ${formatOccurrence(next.scheduledFor)}` : "אין מועד קרוב"}
+              </Text>
+              {template.skippedDates.length > 0 ? (
+                <View style={styles.chipRow}>
+                  {template.skippedDates.map((date) => (
+                    <Pressable
+                      key={date}
+                      onPress={() => skipOccurrence({ templateId: template.id, date, skipped: false })}
+                      style={styles.skippedChip}
+                      testID={`template-${template.id}-restore-${date}`}
+                    >
+                      <Text style={styles.skippedChipText}>דילוג {formatSkippedDate(date)} ✕</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              ) : null}
+            </View>
+            <View style={styles.templateActions}>
+              <Pressable
+                onPress={() => setPaused({ templateId: template.id, isPaused: !template.isPaused })}
+                style={styles.iconButton}
+                testID={`template-${template.id}-pause`}
+              >
+                {template.isPaused ? (
+                  <Play size={18} color={Colors.light.tint} />
+                ) : (
+                  <Pause size={18} color={Colors.light.tint} />
+                )}
+                <Text style={styles.iconButtonText}>{template.isPaused ? "הפעל" : "השהה"}</Text>
+              </Pressable>
+              {next ? (
+                <Pressable
+                  onPress={() => skipOccurrence({ templateId: template.id, date: next.date, skipped: true })}
+                  style={styles.iconButton}
+                  testID={`template-${template.id}-skip`}
+                >
+                  <SkipForward size={18} color={Colors.light.tint} />
+                  <Text style={styles.iconButtonText}>דלג</Text>
+                </Pressable>
+              ) : null}
+              <Pressable
+                onPress={() => setForm(formFromTemplate(template))}
+                style={styles.iconButton}
+                testID={`template-${template.id}-edit`}
+              >
+                <Pencil size={18} color={Colors.light.tint} />
+                <Text style={styles.iconButtonText}>עריכה</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => deleteTemplate(template.id)}
+                style={styles.iconButton}
+                testID={`template-${template.id}-delete`}
+              >
+                <Trash2 size={18} color={Colors.light.failed} />
+                <Text style={[styles.iconButtonText, styles.deleteText]}>מחק</Text>
+              </Pressable>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+    marginTop: 24,
+  },
+  sectionHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  editor: {
+    gap: 10,
+    paddingTop: 4,
+  },
+  fieldRow: {
+    flexDirection: "row-reverse",
+    gap: 10,
+  },
+  field: {
+    flex: 1,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  input: {
+    backgroundColor: "#f8faff",
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "rgba(59, 130, 246, 0.18)",
+    textAlign: "right",
+    writingDirection: "rtl",
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  chipRow: {
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  dayChip: {
+    width: 40,
+    paddingVertical: 8,
+    alignItems: "center",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  chipTextActive: {
+    color: "#ffffff",
+  },
+  editorActions: {
+    flexDirection: "row-reverse",
+    gap: 10,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 18,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+  secondaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  templateRow: {
+    flexDirection: "row-reverse",
+    alignItems: "flex-start",
+    gap: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  templateInfo: {
+    flex: 1,
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  templateTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  templateMeta: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  pausedText: {
+    color: Colors.light.taken,
+    fontWeight: "700",
+  },
+  skippedChip: {
+    marginTop: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: "rgba(245, 158, 11, 0.12)",
+  },
+  skippedChipText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: Colors.light.taken,
+    writingDirection: "rtl",
+  },
+  templateActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    width: 96,
+    gap: 4,
+  },
+  iconButton: {
+    alignItems: "center",
+    gap: 2,
+    padding: 6,
+  },
+  iconButtonText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: Colors.light.tint,
+  },
+  deleteText: {
+    color: Colors.light.failed,
+  },
+});
+
+export default DeliveryTemplatesPanel;
@@ -0,0 +1,263 @@
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { MapPinOff } from "lucide-react-native";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { Delivery, GeofenceCheck, GeofenceStage, PublicUser } from "../types/models";
+import { describeGeofenceCheck, geofenceStageLabels, getGeofenceFlags } from "../utils/geofence";
+
+const placeholderColor = "rgba(15, 23, 42, 0.35)";
+
+type GeofenceFlag = {
+  key: string;
+  delivery: Delivery;
+  stage: GeofenceStage;
+  check: GeofenceCheck;
+};
+
+const formatCheckedAt = (value: string) => {
+  try {
+    return new Intl.DateTimeFormat("he-IL", {
+      hour: "2-digit",
+      minute: "2-digit",
+      day: "2-digit",
+      month: "2-digit",
+    }).format(new Date(value));
+  } catch (error) {
+    console.log("Geofence date formatting failed", error);
+    return value;
+  }
+};
+
+type GeofenceFlagsPanelProps = {
+  deliveries: Delivery[];
+  users: PublicUser[];
+  testID?: string;
+};
+
+export function GeofenceFlagsPanel({ deliveries, users, testID }: GeofenceFlagsPanelProps) {
+  const queryClient = useQueryClient();
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [overridingKey, setOverridingKey] = useState<string | null>(null);
+
+  const flags = useMemo<GeofenceFlag[]>(
+    () =>
+      deliveries
+        .flatMap((delivery) =>
+          getGeofenceFlags(delivery).map((stage) => ({
+            key: `${delivery.id}:${stage}`,
+            delivery,
+            stage,
+            check: (stage === "pickup" ? delivery.pickupGeofence : delivery.dropoffGeofence)!,
+          })),
+        )
+        .sort((a, b) => b.check.checkedAt.localeCompare(a.check.checkedAt)),
+    [deliveries],
+  );
+
+  const userNames = useMemo(() => {
+    const map = new Map<string, string>();
+    users.forEach((user) => map.set(user.id, user.name));
+    return map;
+  }, [users]);
+
+  const { mutateAsync: overrideMutateAsync } = useMutation({
+    mutationFn: (payload: { deliveryId: string; stage: GeofenceStage; reason: string }) =>
+      trpcClient.manager.overrideGeofence.mutate(payload),
+    onSuccess: (delivery) => {
+      console.log("Geofence override saved", delivery.id);
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] });
+    },
+    onError: (error: Error) => {
+      Alert.alert("שגיאה", error.message);
+    },
+  });
+
+  const handleOverride = async (flag: GeofenceFlag) => {
+    const reason = reasons[flag.key]?.trim();
+    if (!reason) {
+      Alert.alert("שגיאה", "יש לציין סיבה לאישור החריגה");
+      return;
+    }
+    setOverridingKey(flag.key);
+    try {
+      await overrideMutateAsync({ deliveryId: flag.delivery.id, stage: flag.stage, reason });
+      setReasons((current) => {
+        const next = { ...current };
+        delete next[flag.key];
+        return next;
+      });
+    } catch (error) {
+      console.log("Geofence override failed", error);
+    } finally {
+      setOverridingKey(null);
+    }
+  };
+
+  return (
+    <View style={styles.section} testID={testID}>
+      <View style={styles.sectionHeader}>
+        <MapPinOff color={Colors.light.taken} size={20} />
+        <Text style={styles.sectionTitle}>חריגות מיקום</Text>
+      </View>
+      <Text style={styles.sectionSubtitle}>
+        איסופים ומסירות שבוצעו מחוץ לתחום הכתובת או ללא מיקום עדכני. אישור עם סיבה מסיר את הסימון ומאפשר לשליח להמשיך
+      </Text>
+
+      {flags.length === 0 ? <Text style={styles.emptyText}>אין חריגות מיקום פתוחות</Text> : null}
+
+      {flags.map((flag) => {
+        const businessName = userNames.get(flag.delivery.businessId) ?? "עסק";
+        const courierName = flag.delivery.courierId ? userNames.get(flag.delivery.courierId) : undefined;
+        const isOverriding = overridingKey === flag.key;
+        return (
+          <View key={flag.key} style={styles.flagRow} testID={`geofence-flag-${flag.key}`}>
+            <View style={styles.flagHeader}>
+              <Text style={styles.flagTitle}>
+                #{flag.delivery.id.slice(-4)} · {businessName}
+                {courierName ? ` · ${courierName}` : ""}
+              </Text>
+              <Text style={styles.flagStage}>{geofenceStageLabels[flag.stage]}</Text>
+            </View>
+            <Text style={styles.flagDetail}>
+              {describeGeofenceCheck(flag.check)} · {formatCheckedAt(flag.check.checkedAt)}
+              {flag.delivery.status !== "completed" && flag.stage === "dropoff" ? " · המסירה נחסמה" : ""}
+              {!flag.delivery.pickedUpAt && flag.stage === "pickup" ? " · האיסוף נחסם" : ""}
+            </Text>
+            <View style={styles.overrideRow}>
+              <Pressable
+                onPress={() => handleOverride(flag)}
+                disabled={isOverriding}
+                style={[styles.overrideButton, isOverriding && styles.overrideButtonDisabled]}
+                testID={`geofence-override-${flag.key}`}
+              >
+                {isOverriding ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <Text style={styles.overrideButtonText}>אישור חריגה</Text>
+                )}
+              </Pressable>
+              <TextInput
+                value={reasons[flag.key] ?? ""}
+                onChangeText={(value) => setReasons((current) => ({ ...current, [flag.key]: value }))}
+                placeholder="סיבת האישור"
+                placeholderTextColor={placeholderColor}
+                style={styles.input}
+                maxLength={300}
+                testID={`geofence-reason-${flag.key}`}
+              />
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+  },
+  sectionHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  flagRow: {
+    gap: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  flagHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  flagTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  flagStage: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: Colors.light.taken,
+    backgroundColor: "rgba(245, 158, 11, 0.12)",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    overflow: "hidden",
+  },
+  flagDetail: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  overrideRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: "#f8faff",
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "rgba(59, 130, 246, 0.18)",
+    textAlign: "right",
+    writingDirection: "rtl",
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  overrideButton: {
+    backgroundColor: Colors.light.tint,
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    minWidth: 96,
+    alignItems: "center",
+  },
+  overrideButtonDisabled: {
+    opacity: 0.6,
+  },
+  overrideButtonText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+});
+
+export default GeofenceFlagsPanel;
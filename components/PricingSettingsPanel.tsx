@@ -0,0 +1,687 @@
+import { useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from "react-native";
+import { Plus, Store, Trash2, Wallet } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { BusinessPricingOverride, PricingRules, PublicUser } from "../types/models";
+import { calculateDeliveryPrice, DEFAULT_PRICING_RULES, getPricingRulesError } from "../utils/pricing";
+
+const WEEKDAY_LABELS = ["א׳", "ב׳", "ג׳", "ד׳", "ה׳", "ו׳", "ש׳"];
+const PREVIEW_DISTANCE_KM = 5;
+const placeholderColor = "rgba(15, 23, 42, 0.35)";
+
+type BandFormState = { upToKm: string; ratePerKm: string };
+
+type RulesFormState = {
+  baseFee: string;
+  minimumFee: string;
+  nightSurcharge: string;
+  nightStartHour: string;
+  nightEndHour: string;
+  weekendSurcharge: string;
+  weekendDays: number[];
+  distanceBands: BandFormState[];
+};
+
+type OverrideFormState = { baseFee: string; ratePerKm: string; flatFee: string };
+
+type PricingData = { rules: PricingRules; overrides: BusinessPricingOverride[] };
+
+const toRulesForm = (rules: PricingRules): RulesFormState => ({
+  baseFee: String(rules.baseFee),
+  minimumFee: String(rules.minimumFee),
+  nightSurcharge: String(rules.nightSurcharge),
+  nightStartHour: String(rules.nightStartHour),
+  nightEndHour: String(rules.nightEndHour),
+  weekendSurcharge: String(rules.weekendSurcharge),
+  weekendDays: rules.weekendDays,
+  distanceBands: rules.distanceBands.map((band) => ({
+    upToKm: band.upToKm === null ? "" : String(band.upToKm),
+    ratePerKm: String(band.ratePerKm),
+  })),
+});
+
+const parseAmount = (value: string): number => {
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : NaN;
+};
+
+const parseOptionalAmount = (value: string): number | undefined => {
+  if (!value.trim()) {
+    return undefined;
+  }
+  return parseAmount(value);
+};
+
+const fromRulesForm = (form: RulesFormState): PricingRules => ({
+  baseFee: parseAmount(form.baseFee),
+  minimumFee: parseAmount(form.minimumFee),
+  nightSurcharge: parseAmount(form.nightSurcharge),
+  nightStartHour: Math.round(parseAmount(form.nightStartHour)),
+  nightEndHour: Math.round(parseAmount(form.nightEndHour)),
+  weekendSurcharge: parseAmount(form.weekendSurcharge),
+  weekendDays: form.weekendDays,
+  distanceBands: form.distanceBands.map((band) => ({
+    upToKm: band.upToKm.trim() ? parseAmount(band.upToKm) : null,
+    ratePerKm: parseAmount(band.ratePerKm),
+  })),
+});
+
+const hasInvalidNumber = (rules: PricingRules): boolean =>
+  [
+    rules.baseFee,
+    rules.minimumFee,
+    rules.nightSurcharge,
+    rules.nightStartHour,
+    rules.nightEndHour,
+    rules.weekendSurcharge,
+    ...rules.distanceBands.flatMap((band) => [band.upToKm ?? 0, band.ratePerKm]),
+  ].some((value) => Number.isNaN(value)) ||
+  rules.nightStartHour > 23 ||
+  rules.nightEndHour > 23;
+
+const describeOverride = (override: BusinessPricingOverride | undefined): string => {
+  if (!override) {
+    return "תמחור כללי";
+  }
+  if (override.flatFee !== undefined) {
+    return `מחיר קבוע ₪${override.flatFee}`;
+  }
+  const parts: string[] = [];
+  if (override.baseFee !== undefined) {
+    parts.push(`בסיס ₪${override.baseFee}`);
+  }
+  if (override.ratePerKm !== undefined) {
+    parts.push(`₪${override.ratePerKm} לק״מ`);
+  }
+  return parts.join(" · ");
+};
+
+type PricingSettingsPanelProps = {
+  businesses: PublicUser[];
+  testID?: string;
+};
+
+export function PricingSettingsPanel({ businesses, testID }: PricingSettingsPanelProps) {
+  const queryClient = useQueryClient();
+  const [rulesForm, setRulesForm] = useState<RulesFormState>(toRulesForm(DEFAULT_PRICING_RULES));
+  const [editingBusinessId, setEditingBusinessId] = useState<string | null>(null);
+  const [overrideForm, setOverrideForm] = useState<OverrideFormState>({ baseFee: "", ratePerKm: "", flatFee: "" });
+
+  const pricingQuery = useQuery<PricingData>({
+    queryKey: ["pricing"],
+    queryFn: () => trpcClient.pricing.get.query(),
+  });
+
+  useEffect(() => {
+    if (pricingQuery.data) {
+      setRulesForm(toRulesForm(pricingQuery.data.rules));
+    }
+  }, [pricingQuery.data]);
+
+  const overridesByBusiness = useMemo(() => {
+    const map = new Map<string, BusinessPricingOverride>();
+    (pricingQuery.data?.overrides ?? []).forEach((override) => map.set(override.businessId, override));
+    return map;
+  }, [pricingQuery.data]);
+
+  const { mutateAsync: updateRulesMutateAsync, status: updateRulesStatus } = useMutation({
+    mutationFn: (rules: PricingRules) => trpcClient.pricing.updateRules.mutate(rules),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["pricing"] });
+    },
+    onError: (error: Error) => {
+      Alert.alert("שגיאה", error.message);
+    },
+  });
+
+  const { mutateAsync: setOverrideMutateAsync, status: setOverrideStatus } = useMutation({
+    mutationFn: (payload: { businessId: string; baseFee?: number; ratePerKm?: number; flatFee?: number }) =>
+      trpcClient.pricing.setBusinessOverride.mutate(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["pricing"] });
+    },
+    onError: (error: Error) => {
+      Alert.alert("שגיאה", error.message);
+    },
+  });
+
+  const draftRules = useMemo(() => fromRulesForm(rulesForm), [rulesForm]);
+  const previewPrice = useMemo(
+    () =>
+      hasInvalidNumber(draftRules)
+        ? null
+        : calculateDeliveryPrice({ rules: draftRules, distanceKm: PREVIEW_DISTANCE_KM }).total,
+    [draftRules],
+  );
+
+  const updateRulesField = (field: Exclude<keyof RulesFormState, "weekendDays" | "distanceBands">) => (value: string) =>
+    setRulesForm((prev) => ({ ...prev, [field]: value }));
+
+  const updateBand = (index: number, field: keyof BandFormState, value: string) =>
+    setRulesForm((prev) => ({
+      ...prev,
+      distanceBands: prev.distanceBands.map((band, bandIndex) =>
+        bandIndex === index ? { ...band, [field]: value } : band,
+      ),
+    }));
+
+  const toggleWeekendDay = (day: number) =>
+    setRulesForm((prev) => ({
+      ...prev,
+      weekendDays: prev.weekendDays.includes(day)
+        ? prev.weekendDays.filter((item) => item !== day)
+        : [...prev.weekendDays, day].sort(),
+    }));
+
+  const handleSaveRules = async () => {
+    if (hasInvalidNumber(draftRules)) {
+      Alert.alert("שגיאה", "יש להזין מספרים תקינים בכל השדות");
+      return;
+    }
+    const rulesError = getPricingRulesError(draftRules);
+    if (rulesError) {
+      Alert.alert("שגיאה", rulesError);
+      return;
+    }
+    try {
+      await updateRulesMutateAsync(draftRules);
+      Alert.alert("נשמר", "הגדרות התמחור עודכנו. המחיר החדש יחול על משלוחים חדשים בלבד.");
+    } catch (error) {
+      console.log("Pricing rules save failed", error);
+    }
+  };
+
+  const handleEditOverride = (businessId: string) => {
+    const existing = overridesByBusiness.get(businessId);
+    setEditingBusinessId(businessId);
+    setOverrideForm({
+      baseFee: existing?.baseFee !== undefined ? String(existing.baseFee) : "",
+      ratePerKm: existing?.ratePerKm !== undefined ? String(existing.ratePerKm) : "",
+      flatFee: existing?.flatFee !== undefined ? String(existing.flatFee) : "",
+    });
+  };
+
+  const handleSaveOverride = async (clear: boolean) => {
+    if (!editingBusinessId) {
+      return;
+    }
+    const payload = clear
+      ? { businessId: editingBusinessId }
+      : {
+          businessId: editingBusinessId,
+          baseFee: parseOptionalAmount(overrideForm.baseFee),
+          ratePerKm: parseOptionalAmount(overrideForm.ratePerKm),
+          flatFee: parseOptionalAmount(overrideForm.flatFee),
+        };
+    if ([payload.baseFee, payload.ratePerKm, payload.flatFee].some((value) => Number.isNaN(value))) {
+      Alert.alert("שגיאה", "יש להזין מספרים תקינים");
+      return;
+    }
+    try {
+      await setOverrideMutateAsync(payload);
+      setEditingBusinessId(null);
+    } catch (error) {
+      console.log("Pricing override save failed", error);
+    }
+  };
+
+  if (pricingQuery.isLoading) {
+    return (
+      <View style={styles.loading} testID={testID}>
+        <ActivityIndicator color={Colors.light.tint} />
+      </View>
+    );
+  }
+
+  if (pricingQuery.isError) {
+    return (
+      <View style={styles.section} testID={testID}>
+        <Text style={styles.emptyText}>טעינת הגדרות התמחור נכשלה</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Wallet color={Colors.light.tint} size={20} />
+          <Text style={styles.sectionTitle}>תמחור משלוחים</Text>
+        </View>
+        <Text style={styles.sectionSubtitle}>המחיר מחושב ונשמר על המשלוח ברגע יצירתו</Text>
+
+        <View style={styles.fieldRow}>
+          <View style={styles.field}>
+            <Text style={styles.label}>דמי בסיס (₪)</Text>
+            <TextInput
+              value={rulesForm.baseFee}
+              onChangeText={updateRulesField("baseFee")}
+              style={styles.input}
+              keyboardType="decimal-pad"
+              testID="pricing-base-fee"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>מחיר מינימום (₪)</Text>
+            <TextInput
+              value={rulesForm.minimumFee}
+              onChangeText={updateRulesField("minimumFee")}
+              style={styles.input}
+              keyboardType="decimal-pad"
+              testID="pricing-minimum-fee"
+            />
+          </View>
+        </View>
+
+        <Text style={styles.groupTitle}>מדרגות מרחק</Text>
+        {rulesForm.distanceBands.length === 0 ? (
+          <Text style={styles.emptyText}>ללא תוספת מרחק</Text>
+        ) : null}
+        {rulesForm.distanceBands.map((band, index) => (
+          <View key={index} style={styles.bandRow} testID={`pricing-band-${index}`}>
+            <View style={styles.field}>
+              <Text style={styles.label}>עד ק״מ (ריק = ללא הגבלה)</Text>
+              <TextInput
+                value={band.upToKm}
+                onChangeText={(value) => updateBand(index, "upToKm", value)}
+                style={styles.input}
+                keyboardType="decimal-pad"
+                placeholder="∞"
+                placeholderTextColor={placeholderColor}
+              />
+            </View>
+            <View style={styles.field}>
+              <Text style={styles.label}>₪ לק״מ</Text>
+              <TextInput
+                value={band.ratePerKm}
+                onChangeText={(value) => updateBand(index, "ratePerKm", value)}
+                style={styles.input}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <Pressable
+              onPress={() =>
+                setRulesForm((prev) => ({
+                  ...prev,
+                  distanceBands: prev.distanceBands.filter((_, bandIndex) => bandIndex !== index),
+                }))
+              }
+              style={styles.iconButton}
+              testID={`pricing-band-${index}-remove`}
+            >
+              <Trash2 size={18} color={Colors.light.failed} />
+            </Pressable>
+          </View>
+        ))}
+        <Pressable
+          onPress={() =>
+            setRulesForm((prev) => ({
+              ...prev,
+              distanceBands: [...prev.distanceBands, { upToKm: "", ratePerKm: "" }],
+            }))
+          }
+          style={styles.addButton}
+          testID="pricing-add-band"
+        >
+          <Plus size={16} color={Colors.light.tint} />
+          <Text style={styles.addButtonText}>הוסף מדרגה</Text>
+        </Pressable>
+
+        <Text style={styles.groupTitle}>תוספת לילה</Text>
+        <View style={styles.fieldRow}>
+          <View style={styles.field}>
+            <Text style={styles.label}>תוספת (₪)</Text>
+            <TextInput
+              value={rulesForm.nightSurcharge}
+              onChangeText={updateRulesField("nightSurcharge")}
+              style={styles.input}
+              keyboardType="decimal-pad"
+              testID="pricing-night-surcharge"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>משעה</Text>
+            <TextInput
+              value={rulesForm.nightStartHour}
+              onChangeText={updateRulesField("nightStartHour")}
+              style={styles.input}
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={styles.field}>
+            <Text style={styles.label}>עד שעה</Text>
+            <TextInput
+              value={rulesForm.nightEndHour}
+              onChangeText={updateRulesField("nightEndHour")}
+              style={styles.input}
+              keyboardType="number-pad"
+            />
+          </View>
+        </View>
+
+        <Text style={styles.groupTitle}>תוספת סוף שבוע</Text>
+        <View style={styles.field}>
+          <Text style={styles.label}>תוספת (₪)</Text>
+          <TextInput
+            value={rulesForm.weekendSurcharge}
+            onChangeText={updateRulesField("weekendSurcharge")}
+            style={styles.input}
+            keyboardType="decimal-pad"
+            testID="pricing-weekend-surcharge"
+          />
+        </View>
+        <View style={styles.dayRow}>
+          {WEEKDAY_LABELS.map((label, day) => {
+            const isSelected = rulesForm.weekendDays.includes(day);
+            return (
+              <Pressable
+                key={label}
+                onPress={() => toggleWeekendDay(day)}
+                style={[styles.dayChip, isSelected && styles.dayChipActive]}
+                testID={`pricing-weekend-day-${day}`}
+              >
+                <Text style={[styles.dayChipText, isSelected && styles.dayChipTextActive]}>{label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Text style={styles.previewText}>
+          {previewPrice === null
+            ? "יש להזין ערכים תקינים לחישוב דוגמה"
+            : `דוגמה: משלוח של ${PREVIEW_DISTANCE_KM} ק״מ כעת יעלה ₪${previewPrice}`}
+        </Text>
+
+        <Pressable
+          onPress={handleSaveRules}
+          style={[styles.primaryButton, updateRulesStatus === "pending" && styles.disabledButton]}
+          disabled={updateRulesStatus === "pending"}
+          testID="pricing-save-rules"
+        >
+          {updateRulesStatus === "pending" ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>שמור תמחור</Text>
+          )}
+        </Pressable>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Store color={Colors.light.tint} size={20} />
+          <Text style={styles.sectionTitle}>תמחור מיוחד לעסקים</Text>
+        </View>
+        <Text style={styles.sectionSubtitle}>מחיר קבוע גובר על כל שאר ההגדרות של העסק</Text>
+        {businesses.length === 0 ? <Text style={styles.emptyText}>אין עסקים רשומים</Text> : null}
+        {businesses.map((business) => {
+          const isEditing = editingBusinessId === business.id;
+          return (
+            <View key={business.id} style={styles.businessRow} testID={`pricing-business-${business.id}`}>
+              <Pressable onPress={() => handleEditOverride(business.id)} style={styles.businessHeader}>
+                <Text style={styles.businessName}>{business.name}</Text>
+                <Text style={styles.businessMeta}>{describeOverride(overridesByBusiness.get(business.id))}</Text>
+              </Pressable>
+              {isEditing ? (
+                <View style={styles.overrideForm}>
+                  <View style={styles.fieldRow}>
+                    <View style={styles.field}>
+                      <Text style={styles.label}>דמי בסיס</Text>
+                      <TextInput
+                        value={overrideForm.baseFee}
+                        onChangeText={(value) => setOverrideForm((prev) => ({ ...prev, baseFee: value }))}
+                        style={styles.input}
+                        keyboardType="decimal-pad"
+                        placeholder="כללי"
+                        placeholderTextColor={placeholderColor}
+                      />
+                    </View>
+                    <View style={styles.field}>
+                      <Text style={styles.label}>₪ לק״מ</Text>
+                      <TextInput
+                        value={overrideForm.ratePerKm}
+                        onChangeText={(value) => setOverrideForm((prev) => ({ ...prev, ratePerKm: value }))}
+                        style={styles.input}
+                        keyboardType="decimal-pad"
+                        placeholder="כללי"
+                        placeholderTextColor={placeholderColor}
+                      />
+                    </View>
+                    <View style={styles.field}>
+                      <Text style={styles.label}>מחיר קבוע</Text>
+                      <TextInput
+                        value={overrideForm.flatFee}
+                        onChangeText={(value) => setOverrideForm((prev) => ({ ...prev, flatFee: value }))}
+                        style={styles.input}
+                        keyboardType="decimal-pad"
+                        placeholder="—"
+                        placeholderTextColor={placeholderColor}
+                      />
+                    </View>
+                  </View>
+                  <View style={styles.overrideActions}>
+                    <Pressable
+                      onPress={() => handleSaveOverride(false)}
+                      style={[styles.primaryButton, styles.overrideButton]}
+                      disabled={setOverrideStatus === "pending"}
+                      testID={`pricing-business-${business.id}-save`}
+                    >
+                      <Text style={styles.primaryButtonText}>שמור</Text>
+                    </Pressable>
+                    <Pressable
+                      onPress={() => handleSaveOverride(true)}
+                      style={[styles.secondaryButton, styles.overrideButton]}
+                      disabled={setOverrideStatus === "pending"}
+                      testID={`pricing-business-${business.id}-clear`}
+                    >
+                      <Text style={styles.secondaryButtonText}>חזור לתמחור כללי</Text>
+                    </Pressable>
+                    <Pressable onPress={() => setEditingBusinessId(null)} style={styles.overrideButton}>
+                      <Text style={styles.cancelText}>ביטול</Text>
+                    </Pressable>
+                  </View>
+                </View>
+              ) : null}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 20,
+  },
+  loading: {
+    paddingVertical: 40,
+    alignItems: "center",
+  },
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+  },
+  sectionHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  groupTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+    marginTop: 4,
+  },
+  fieldRow: {
+    flexDirection: "row-reverse",
+    gap: 10,
+  },
+  field: {
+    flex: 1,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  input: {
+    backgroundColor: "#f8faff",
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "rgba(59, 130, 246, 0.18)",
+    textAlign: "right",
+    writingDirection: "rtl",
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  bandRow: {
+    flexDirection: "row-reverse",
+    alignItems: "flex-end",
+    gap: 10,
+  },
+  iconButton: {
+    padding: 10,
+  },
+  addButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 6,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  dayRow: {
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  dayChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  dayChipActive: {
+    backgroundColor: Colors.light.tint,
+    borderColor: Colors.light.tint,
+  },
+  dayChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.text,
+  },
+  dayChipTextActive: {
+    color: "#ffffff",
+  },
+  previewText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  primaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 18,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+  secondaryButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 18,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  businessRow: {
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+    gap: 10,
+  },
+  businessHeader: {
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  businessName: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  businessMeta: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  overrideForm: {
+    gap: 10,
+  },
+  overrideActions: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 10,
+  },
+  overrideButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  cancelText: {
+    fontSize: 14,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+});
+
+export default PricingSettingsPanel;
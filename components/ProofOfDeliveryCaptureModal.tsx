@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import * as ImagePicker from "expo-image-picker";
+import * as Location from "expo-location";
+import { Camera, MapPin, X } from "lucide-react-native";
+
+import Colors from "../constants/colors";
+import { ProofOfDeliveryInput, ProofOfDeliveryLocation } from "../types/models";
+import { getProofOfDeliveryError, hasProofOfDelivery, MAX_RECIPIENT_NAME_LENGTH } from "../utils/proofOfDelivery";
+import { SignaturePad } from "./SignaturePad";
+
+// Keeps a phone camera shot well under the upload limit without an extra resize step.
+const PHOTO_QUALITY = 0.3;
+
+type CapturedPhoto = {
+  uri: string;
+  base64: string;
+};
+
+type LocationState = "locating" | "found" | "unavailable";
+
+type ProofOfDeliveryCaptureModalProps = {
+  visible: boolean;
+  required: boolean;
+  isSubmitting?: boolean;
+  onClose: () => void;
+  onSubmit: (proof?: ProofOfDeliveryInput) => void;
+};
+
+export function ProofOfDeliveryCaptureModal({
+  visible,
+  required,
+  isSubmitting = false,
+  onClose,
+  onSubmit,
+}: ProofOfDeliveryCaptureModalProps) {
+  const [recipientName, setRecipientName] = useState<string>("");
+  const [photo, setPhoto] = useState<CapturedPhoto | null>(null);
+  const [signaturePath, setSignaturePath] = useState<string>("");
+  const [location, setLocation] = useState<ProofOfDeliveryLocation | null>(null);
+  const [locationState, setLocationState] = useState<LocationState>("locating");
+  const [photoError, setPhotoError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setRecipientName("");
+      setPhoto(null);
+      setSignaturePath("");
+      setLocation(null);
+      setLocationState("locating");
+      setPhotoError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const captureLocation = async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== Location.PermissionStatus.GRANTED) {
+          console.log("[PROOF OF DELIVERY] Location permission denied:", status);
+          if (!cancelled) setLocationState("unavailable");
+          return;
+        }
+        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+        if (!cancelled) {
+          setLocation({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy ?? undefined,
+          });
+          setLocationState("found");
+        }
+      } catch (error) {
+        console.log("[PROOF OF DELIVERY] Location fix failed", error);
+        if (!cancelled) setLocationState("unavailable");
+      }
+    };
+    captureLocation();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const proof = useMemo<ProofOfDeliveryInput>(
+    () => ({
+      recipientName: recipientName.trim() || undefined,
+      photoBase64: photo?.base64,
+      signaturePath: signaturePath || undefined,
+      location: location ?? undefined,
+    }),
+    [location, photo, recipientName, signaturePath],
+  );
+  const proofError = getProofOfDeliveryError(proof, required);
+
+  const handleTakePhoto = async () => {
+    setPhotoError(null);
+    try {
+      const permission = await ImagePicker.requestCameraPermissionsAsync();
+      if (!permission.granted) {
+        setPhotoError("לא ניתנה הרשאה לשימוש במצלמה");
+        return;
+      }
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ["images"],
+        quality: PHOTO_QUALITY,
+        base64: true,
+      });
+      const asset = result.canceled ? undefined : result.assets[0];
+      if (!asset?.base64) {
+        return;
+      }
+      setPhoto({ uri: asset.uri, base64: asset.base64 });
+    } catch (error) {
+      console.log("[PROOF OF DELIVERY] Camera failed", error);
+      setPhotoError("לא ניתן היה לצלם תמונה");
+    }
+  };
+
+  const handleSubmit = () => {
+    if (proofError) {
+      return;
+    }
+    onSubmit(hasProofOfDelivery(proof) ? { ...proof, capturedAt: new Date().toISOString() } : undefined);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose} testID="proof-of-delivery-modal">
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <View style={styles.modalContent} onStartShouldSetResponder={() => true} onTouchEnd={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} testID="close-proof-modal">
+              <X size={24} color={Colors.light.text} />
+            </TouchableOpacity>
+            <Text style={styles.title}>אישור מסירה</Text>
+          </View>
+          <Text style={styles.subtitle}>
+            {required ? "העסק מחייב שם מקבל ותמונה או חתימה" : "אישור המסירה אינו חובה עבור עסק זה"}
+          </Text>
+
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.body}>
+            <TextInput
+              value={recipientName}
+              onChangeText={setRecipientName}
+              placeholder="שם המקבל"
+              placeholderTextColor="#9ba3b8"
+              style={styles.input}
+              maxLength={MAX_RECIPIENT_NAME_LENGTH}
+              testID="proof-recipient-name"
+            />
+
+            {photo ? (
+              <Pressable onPress={handleTakePhoto} testID="proof-photo-retake">
+                <Image source={{ uri: photo.uri }} style={styles.photo} resizeMode="cover" />
+              </Pressable>
+            ) : (
+              <TouchableOpacity style={styles.photoButton} onPress={handleTakePhoto} testID="proof-photo-button">
+                <Camera size={20} color={Colors.light.tint} />
+                <Text style={styles.photoButtonText}>צילום המשלוח במקום המסירה</Text>
+              </TouchableOpacity>
+            )}
+            {photoError ? <Text style={styles.errorText}>{photoError}</Text> : null}
+
+            <SignaturePad value={signaturePath} onChange={setSignaturePath} testID="proof-signature" />
+
+            <View style={styles.locationRow}>
+              <MapPin size={16} color={Colors.light.secondaryText} />
+              <Text style={styles.locationText}>
+                {locationState === "locating"
+                  ? "מאתר מיקום..."
+                  : locationState === "found"
+                  ? "מיקום המסירה נשמר"
+                  : "לא ניתן לאתר את המיקום"}
+              </Text>
+            </View>
+          </ScrollView>
+
+          {proofError && (required || hasProofOfDelivery(proof)) ? (
+            <Text style={[styles.errorText, styles.submitError]}>{proofError}</Text>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.submitButton, (!!proofError || isSubmitting) && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!!proofError || isSubmitting}
+            testID="proof-submit-button"
+          >
+            {isSubmitting ? <ActivityIndicator color="#ffffff" /> : <Text style={styles.submitButtonText}>סמן כהושלם</Text>}
+          </TouchableOpacity>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: Colors.light.background,
+    borderRadius: 24,
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "90%",
+    paddingVertical: 24,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    marginBottom: 12,
+    position: "relative" as const,
+  },
+  closeButton: {
+    position: "absolute" as const,
+    left: 24,
+    padding: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "center",
+    writingDirection: "rtl",
+  },
+  subtitle: {
+    fontSize: 15,
+    color: Colors.light.secondaryText,
+    textAlign: "center",
+    paddingHorizontal: 24,
+    marginBottom: 20,
+    writingDirection: "rtl",
+  },
+  scrollView: {
+    flexGrow: 0,
+  },
+  body: {
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  input: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  photoButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: Colors.light.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    paddingVertical: 16,
+  },
+  photoButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.light.tint,
+    writingDirection: "rtl",
+  },
+  photo: {
+    width: "100%",
+    height: 180,
+    borderRadius: 16,
+  },
+  locationRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 6,
+  },
+  locationText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.light.failed,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  submitError: {
+    paddingHorizontal: 24,
+    marginTop: 12,
+  },
+  submitButton: {
+    backgroundColor: Colors.light.tint,
+    marginHorizontal: 24,
+    marginTop: 20,
+    paddingVertical: 16,
+    borderRadius: 20,
+    alignItems: "center",
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+});
+
+export default ProofOfDeliveryCaptureModal;
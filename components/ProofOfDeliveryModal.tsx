@@ -0,0 +1,220 @@
+import { useMemo } from "react";
+import {
+  ActivityIndicator,
+  Image,
+  Linking,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SvgXml } from "react-native-svg";
+import { useQuery } from "@tanstack/react-query";
+import { MapPin, User, X } from "lucide-react-native";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { Delivery, ProofOfDeliveryView } from "../types/models";
+
+type ProofOfDeliveryModalProps = {
+  delivery: Delivery | null;
+  onClose: () => void;
+};
+
+export function ProofOfDeliveryModal({ delivery, onClose }: ProofOfDeliveryModalProps) {
+  const proof = delivery?.proofOfDelivery;
+  // Recipient, time and location are already on the delivery; only the stored images need a round trip.
+  const hasStoredObjects = !!proof?.photoKey || !!proof?.signatureKey;
+
+  const proofQuery = useQuery<ProofOfDeliveryView>({
+    queryKey: ["proofOfDelivery", delivery?.id],
+    queryFn: () => trpcClient.deliveries.proofOfDelivery.query({ deliveryId: delivery!.id }),
+    enabled: !!delivery && hasStoredObjects,
+    staleTime: Infinity,
+  });
+
+  const formattedCapturedAt = useMemo(() => {
+    if (!proof) {
+      return null;
+    }
+    try {
+      return new Intl.DateTimeFormat("he-IL", {
+        hour: "2-digit",
+        minute: "2-digit",
+        day: "2-digit",
+        month: "2-digit",
+      }).format(new Date(proof.capturedAt));
+    } catch (error) {
+      console.log("Proof of delivery date formatting failed", error);
+      return proof.capturedAt;
+    }
+  }, [proof]);
+
+  const handleOpenLocation = async () => {
+    if (!proof?.location) {
+      return;
+    }
+    const { latitude, longitude } = proof.location;
+    try {
+      await Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`);
+    } catch (error) {
+      console.log("Proof of delivery location open failed", error);
+    }
+  };
+
+  return (
+    <Modal visible={!!delivery} transparent animationType="fade" onRequestClose={onClose} testID="proof-of-delivery-view-modal">
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <View style={styles.modalContent} onStartShouldSetResponder={() => true} onTouchEnd={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} testID="close-proof-view-modal">
+              <X size={24} color={Colors.light.text} />
+            </TouchableOpacity>
+            <Text style={styles.title}>אישור מסירה</Text>
+          </View>
+          {delivery ? (
+            <Text style={styles.subtitle}>
+              משלוח #{delivery.id.slice(-4)}
+              {formattedCapturedAt ? ` · ${formattedCapturedAt}` : ""}
+            </Text>
+          ) : null}
+
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.body}>
+            {proof?.recipientName ? (
+              <View style={styles.detailRow}>
+                <User size={16} color={Colors.light.secondaryText} />
+                <Text style={styles.detailText}>נמסר ל{proof.recipientName}</Text>
+              </View>
+            ) : null}
+
+            {proof?.location ? (
+              <Pressable onPress={handleOpenLocation} style={styles.detailRow} testID="proof-view-location">
+                <MapPin size={16} color={Colors.light.tint} />
+                <Text style={[styles.detailText, styles.linkText]}>
+                  מיקום המסירה
+                  {proof.location.accuracy !== undefined ? ` (דיוק ${Math.round(proof.location.accuracy)} מ׳)` : ""}
+                </Text>
+              </Pressable>
+            ) : null}
+
+            {hasStoredObjects && proofQuery.isLoading ? <ActivityIndicator color={Colors.light.tint} /> : null}
+            {proofQuery.error ? <Text style={styles.errorText}>{proofQuery.error.message}</Text> : null}
+
+            {proofQuery.data?.photoUri ? (
+              <Image source={{ uri: proofQuery.data.photoUri }} style={styles.photo} resizeMode="contain" testID="proof-view-photo" />
+            ) : null}
+
+            {proofQuery.data?.signatureSvg ? (
+              <View style={styles.signature} testID="proof-view-signature">
+                <SvgXml xml={proofQuery.data.signatureSvg} width="100%" height="100%" />
+              </View>
+            ) : null}
+
+            {!proof?.recipientName && !proof?.location && !hasStoredObjects ? (
+              <Text style={styles.emptyText}>לא נשמרו פרטים באישור המסירה</Text>
+            ) : null}
+          </ScrollView>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: Colors.light.background,
+    borderRadius: 24,
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "90%",
+    paddingVertical: 24,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    marginBottom: 12,
+    position: "relative" as const,
+  },
+  closeButton: {
+    position: "absolute" as const,
+    left: 24,
+    padding: 4,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "center",
+    writingDirection: "rtl",
+  },
+  subtitle: {
+    fontSize: 15,
+    color: Colors.light.secondaryText,
+    textAlign: "center",
+    paddingHorizontal: 24,
+    marginBottom: 20,
+    writingDirection: "rtl",
+  },
+  scrollView: {
+    flexGrow: 0,
+  },
+  body: {
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  detailRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  detailText: {
+    fontSize: 15,
+    color: Colors.light.text,
+    writingDirection: "rtl",
+  },
+  linkText: {
+    color: Colors.light.tint,
+    fontWeight: "600",
+  },
+  photo: {
+    width: "100%",
+    height: 240,
+    borderRadius: 16,
+    backgroundColor: Colors.light.surface,
+  },
+  signature: {
+    width: "100%",
+    aspectRatio: 2,
+    backgroundColor: Colors.light.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    overflow: "hidden",
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.light.failed,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.light.secondaryText,
+    textAlign: "center",
+    writingDirection: "rtl",
+  },
+});
+
+export default ProofOfDeliveryModal;
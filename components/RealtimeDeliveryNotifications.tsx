@@ -4,6 +4,7 @@ import { useRouter } from "expo-router";
 import * as Haptics from "expo-haptics";
 import { Audio } from "expo-av";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useQueryClient } from "@tanstack/react-query";
 
 import { trpc } from "../lib/trpc";
 import { NewDeliveryFullScreenPopup } from "./NewDeliveryFullScreenPopup";
@@ -12,6 +13,7 @@ import { TimeSelectionModal } from "./TimeSelectionModal";
 import { useDelivery } from "../providers/DeliveryProvider";
 import { Delivery } from "../types/models";
 import { DeliveryEvent } from "../backend/services/eventEmitter";
+import { isHeldForSchedule } from "../utils/scheduling";
 
 export function RealtimeDeliveryNotifications() {
   const router = useRouter();
@@ -23,9 +25,11 @@ export function RealtimeDeliveryNotifications() {
     confirmedBusinessDeliveryIds,
     confirmBusinessNotification,
     takeDelivery,
-    takeDeliveryMutationStatus
+    takeDeliveryMutationStatus,
+    isImpersonating
   } = useDelivery();
   const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
 
   const [newDeliveryForCourier, setNewDeliveryForCourier] = useState<Delivery | null>(null);
   const [assignedDeliveryForBusiness, setAssignedDeliveryForBusiness] = useState<Delivery | null>(null);
@@ -81,7 +85,7 @@ export function RealtimeDeliveryNotifications() {
   }, [soundRef]);
 
   trpc.events.subscribe.useSubscription(undefined, {
-    enabled: !!user,
+    enabled: !!user && (!user.mustChangePassword || isImpersonating),
     onData: (event) => {
       console.log("[REALTIME] Received event:", event.type);
 
@@ -93,6 +97,28 @@ export function RealtimeDeliveryNotifications() {
       const deliveryEvent = event as DeliveryEvent;
       console.log("[REALTIME] Delivery event:", deliveryEvent.delivery.id);
 
+      // ETAs change every few seconds, so they patch the cached delivery instead of waiting for the next poll.
+      if (deliveryEvent.type === "ETA_UPDATED") {
+        queryClient.setQueryData<Delivery[]>(["deliveries"], (current) =>
+          current?.map((delivery) =>
+            delivery.id === deliveryEvent.delivery.id ? { ...delivery, eta: deliveryEvent.delivery.eta } : delivery,
+          ),
+        );
+        return;
+      }
+
+      if (deliveryEvent.type === "SLA_BREACHED") {
+        if (user?.role === "manager") {
+          queryClient.invalidateQueries({ queryKey: ["slaAlerts"] });
+        }
+        return;
+      }
+
+      // Stats are aggregated on the server, so any change to a delivery makes the open charts stale.
+      if (user?.role === "manager" || user?.role === "business") {
+        queryClient.invalidateQueries({ queryKey: ["stats"] });
+      }
+
       if (deliveryEvent.type === "DELIVERY_CREATED" && user?.role === "courier") {
         const isAvailable = user.courierProfile?.isAvailable ?? false;
         if (!isAvailable) {
@@ -105,6 +131,11 @@ export function RealtimeDeliveryNotifications() {
           return;
         }
 
+        if (isHeldForSchedule(deliveryEvent.delivery)) {
+          console.log("[REALTIME] Delivery is scheduled for later, skipping");
+          return;
+        }
+
         console.log("[REALTIME] Showing new delivery modal for courier");
         setNewDeliveryForCourier(deliveryEvent.delivery);
         setIsNewDeliveryVisible(true);
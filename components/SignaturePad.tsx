@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef } from "react";
+import { GestureResponderEvent, LayoutChangeEvent, PanResponder, Pressable, StyleSheet, Text, View } from "react-native";
+import Svg, { Path } from "react-native-svg";
+import { Eraser } from "lucide-react-native";
+
+import Colors from "../constants/colors";
+import { SIGNATURE_CANVAS } from "../utils/proofOfDelivery";
+
+type SignaturePadProps = {
+  value: string;
+  onChange: (path: string) => void;
+  testID?: string;
+};
+
+const formatPoint = (value: number, max: number) => Math.min(max, Math.max(0, value)).toFixed(1);
+
+export function SignaturePad({ value, onChange, testID }: SignaturePadProps) {
+  const pathRef = useRef<string>(value);
+  const onChangeRef = useRef(onChange);
+  const widthRef = useRef<number>(SIGNATURE_CANVAS.width);
+
+  useEffect(() => {
+    pathRef.current = value;
+  }, [value]);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const panResponder = useMemo(() => {
+    // Strokes are recorded in canvas units so the stored signature does not depend on the device's screen width.
+    const toCanvasPoint = (event: GestureResponderEvent) => {
+      const scale = SIGNATURE_CANVAS.width / widthRef.current;
+      const x = formatPoint(event.nativeEvent.locationX * scale, SIGNATURE_CANVAS.width);
+      const y = formatPoint(event.nativeEvent.locationY * scale, SIGNATURE_CANVAS.height);
+      return `${x} ${y}`;
+    };
+    const append = (segment: string) => {
+      pathRef.current = pathRef.current ? `${pathRef.current} ${segment}` : segment;
+      onChangeRef.current(pathRef.current);
+    };
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => append(`M ${toCanvasPoint(event)}`),
+      onPanResponderMove: (event) => append(`L ${toCanvasPoint(event)}`),
+    });
+  }, []);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    widthRef.current = event.nativeEvent.layout.width || SIGNATURE_CANVAS.width;
+  };
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <View style={styles.pad} onLayout={handleLayout} {...panResponder.panHandlers}>
+        <Svg
+          style={StyleSheet.absoluteFill}
+          viewBox={`0 0 ${SIGNATURE_CANVAS.width} ${SIGNATURE_CANVAS.height}`}
+          pointerEvents="none"
+        >
+          {value ? (
+            <Path
+              d={value}
+              fill="none"
+              stroke={Colors.light.text}
+              strokeWidth={3}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ) : null}
+        </Svg>
+        {!value ? (
+          <Text style={styles.placeholder} pointerEvents="none">
+            חתימת המקבל
+          </Text>
+        ) : null}
+      </View>
+      {value ? (
+        <Pressable onPress={() => onChange("")} style={styles.clearButton} testID={testID ? `${testID}-clear` : undefined}>
+          <Eraser size={16} color={Colors.light.secondaryText} />
+          <Text style={styles.clearText}>ניקוי חתימה</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  pad: {
+    width: "100%",
+    aspectRatio: SIGNATURE_CANVAS.width / SIGNATURE_CANVAS.height,
+    backgroundColor: Colors.light.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    borderStyle: "dashed",
+    overflow: "hidden",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  placeholder: {
+    position: "absolute",
+    fontSize: 14,
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+  clearButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    alignSelf: "flex-end",
+    gap: 6,
+    paddingVertical: 4,
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.secondaryText,
+    writingDirection: "rtl",
+  },
+});
+
+export default SignaturePad;
@@ -0,0 +1,242 @@
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, View } from "react-native";
+import { Siren, UserRoundCog } from "lucide-react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import Colors from "../constants/colors";
+import { trpcClient } from "../lib/trpc";
+import { Delivery, PublicUser, SlaAlert } from "../types/models";
+import { removeCoordinatesFromAddress } from "../utils/distanceCalculator";
+import { slaStageLabels } from "../utils/sla";
+
+const SLA_REFRESH_INTERVAL_MS = 30 * 1000;
+
+type SlaAtRiskPanelProps = {
+  deliveries: Delivery[];
+  users: PublicUser[];
+  testID?: string;
+};
+
+export function SlaAtRiskPanel({ deliveries, users, testID }: SlaAtRiskPanelProps) {
+  const queryClient = useQueryClient();
+  const [reassigningId, setReassigningId] = useState<string | null>(null);
+
+  const alertsQuery = useQuery<SlaAlert[]>({
+    queryKey: ["slaAlerts"],
+    queryFn: () => trpcClient.sla.alerts.query(),
+    refetchInterval: SLA_REFRESH_INTERVAL_MS,
+  });
+
+  const deliveriesById = useMemo(() => new Map(deliveries.map((delivery) => [delivery.id, delivery])), [deliveries]);
+  const userNames = useMemo(() => {
+    const map = new Map<string, string>();
+    users.forEach((user) => map.set(user.id, user.name));
+    return map;
+  }, [users]);
+
+  // Alerts can outlive a delivery the manager just fixed until the next refetch, so only known open deliveries are listed.
+  const rows = useMemo(
+    () =>
+      (alertsQuery.data ?? []).flatMap((alert) => {
+        const delivery = deliveriesById.get(alert.deliveryId);
+        return delivery && (delivery.status === "waiting" || delivery.status === "taken") ? [{ alert, delivery }] : [];
+      }),
+    [alertsQuery.data, deliveriesById],
+  );
+
+  const { mutateAsync: reassignMutateAsync } = useMutation({
+    mutationFn: (deliveryId: string) => trpcClient.manager.reassignDelivery.mutate({ deliveryId }),
+    onSuccess: (delivery) => {
+      console.log("Delivery reassigned", delivery.id, delivery.courierId);
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] });
+      queryClient.invalidateQueries({ queryKey: ["slaAlerts"] });
+      const courierName = delivery.courierId ? userNames.get(delivery.courierId) : undefined;
+      Alert.alert("שובץ מחדש", courierName ? `המשלוח שובץ ל${courierName}` : "המשלוח שובץ לשליח חדש");
+    },
+    onError: (error: Error) => {
+      Alert.alert("שגיאה", error.message);
+    },
+  });
+
+  const handleReassign = async (deliveryId: string) => {
+    setReassigningId(deliveryId);
+    try {
+      await reassignMutateAsync(deliveryId);
+    } catch (error) {
+      console.log("Reassign failed", error);
+    } finally {
+      setReassigningId(null);
+    }
+  };
+
+  return (
+    <View style={styles.section} testID={testID}>
+      <View style={styles.sectionHeader}>
+        <Siren color={Colors.light.failed} size={20} />
+        <Text style={styles.sectionTitle}>משלוחים בסיכון</Text>
+      </View>
+      <Text style={styles.sectionSubtitle}>
+        משלוחים שמתקרבים ליעד הזמנים של השלב הנוכחי או חרגו ממנו. שיבוץ מחדש מעביר את המשלוח לשליח הזמין המתאים ביותר
+      </Text>
+
+      {alertsQuery.isLoading ? <ActivityIndicator color={Colors.light.tint} /> : null}
+      {alertsQuery.error ? <Text style={styles.errorText}>{alertsQuery.error.message}</Text> : null}
+      {!alertsQuery.isLoading && rows.length === 0 ? <Text style={styles.emptyText}>כל המשלוחים בזמן</Text> : null}
+
+      {rows.map(({ alert, delivery }) => {
+        const isBreached = alert.state === "breached";
+        const businessName = userNames.get(delivery.businessId) ?? "עסק";
+        const courierName = delivery.courierId ? userNames.get(delivery.courierId) : undefined;
+        // Once the food is with the courier there is nobody to hand it to.
+        const canReassign = alert.stage !== "dropoff";
+        const isReassigning = reassigningId === delivery.id;
+        return (
+          <View key={`${alert.deliveryId}:${alert.stage}`} style={styles.alertRow} testID={`sla-alert-${delivery.id}`}>
+            <View style={styles.alertHeader}>
+              <Text style={styles.alertTitle}>
+                #{delivery.id.slice(-4)} · {businessName}
+                {courierName ? ` · ${courierName}` : ""}
+              </Text>
+              <Text style={[styles.stateBadge, isBreached ? styles.breachedBadge : styles.atRiskBadge]}>
+                {isBreached ? "חריגה" : "בסיכון"}
+              </Text>
+            </View>
+            <Text style={styles.alertDetail}>
+              {slaStageLabels[alert.stage]} · {alert.elapsedMinutes} מתוך {alert.limitMinutes} דק׳
+            </Text>
+            <Text style={styles.alertAddress} numberOfLines={1}>
+              {removeCoordinatesFromAddress(delivery.dropoffAddress)}
+            </Text>
+            {canReassign ? (
+              <Pressable
+                onPress={() => handleReassign(delivery.id)}
+                disabled={isReassigning}
+                style={[styles.reassignButton, isReassigning && styles.reassignButtonDisabled]}
+                testID={`sla-reassign-${delivery.id}`}
+              >
+                {isReassigning ? (
+                  <ActivityIndicator color="#ffffff" size="small" />
+                ) : (
+                  <>
+                    <UserRoundCog color="#ffffff" size={16} />
+                    <Text style={styles.reassignButtonText}>{delivery.courierId ? "שיבוץ מחדש" : "שיבוץ לשליח"}</Text>
+                  </>
+                )}
+              </Pressable>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 24,
+    padding: 20,
+    gap: 12,
+  },
+  sectionHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.light.failed,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  alertRow: {
+    gap: 6,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  alertHeader: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  alertTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  stateBadge: {
+    fontSize: 12,
+    fontWeight: "700",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    overflow: "hidden",
+  },
+  atRiskBadge: {
+    color: Colors.light.taken,
+    backgroundColor: "rgba(245, 158, 11, 0.12)",
+  },
+  breachedBadge: {
+    color: "#ffffff",
+    backgroundColor: Colors.light.failed,
+  },
+  alertDetail: {
+    fontSize: 13,
+    color: Colors.light.text,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  alertAddress: {
+    fontSize: 12,
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  reassignButton: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    justifyContent: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    backgroundColor: Colors.light.tint,
+    borderRadius: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    minWidth: 120,
+  },
+  reassignButtonDisabled: {
+    opacity: 0.6,
+  },
+  reassignButtonText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#ffffff",
+    writingDirection: "rtl",
+  },
+});
+
+export default SlaAtRiskPanel;
@@ -5,6 +5,7 @@ import {
   Pressable,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   View,
@@ -12,7 +13,7 @@ import {
 import { X } from "lucide-react-native";
 
 import Colors from "../constants/colors";
-import { User, UserRole } from "../types/models";
+import { PublicUser, UserRole } from "../types/models";
 
 type CourierEditFormState = {
   name: string;
@@ -42,7 +43,7 @@ type ManagerEditFormState = {
 
 type UserEditModalProps = {
   visible: boolean;
-  user: User | null;
+  user: PublicUser | null;
   isLoading: boolean;
   onClose: () => void;
   onSave: (payload: {
@@ -59,6 +60,7 @@ type UserEditModalProps = {
     businessProfile?: {
       address?: string;
       email?: string;
+      proofOfDeliveryRequired?: boolean;
     };
   }) => Promise<void>;
 };
@@ -104,6 +106,8 @@ export function UserEditModal({
     profileEmail: "",
   });
 
+  const [proofOfDeliveryRequired, setProofOfDeliveryRequired] = useState<boolean>(false);
+
   const [managerForm, setManagerForm] = useState<ManagerEditFormState>({
     name: "",
     phone: "",
@@ -133,6 +137,7 @@ export function UserEditModal({
         address: user.businessProfile?.address ?? "",
         profileEmail: user.businessProfile?.email ?? "",
       });
+      setProofOfDeliveryRequired(user.businessProfile?.proofOfDeliveryRequired ?? false);
     } else if (user.role === "manager") {
       setManagerForm({
         name: user.name ?? "",
@@ -229,6 +234,9 @@ export function UserEditModal({
       if (businessForm.profileEmail.trim() && businessForm.profileEmail.trim() !== user.businessProfile?.email) {
         businessProfileUpdates.email = businessForm.profileEmail.trim();
       }
+      if (proofOfDeliveryRequired !== (user.businessProfile?.proofOfDeliveryRequired ?? false)) {
+        businessProfileUpdates.proofOfDeliveryRequired = proofOfDeliveryRequired;
+      }
 
       if (Object.keys(businessProfileUpdates).length > 0) {
         payload.businessProfile = businessProfileUpdates;
@@ -255,7 +263,7 @@ export function UserEditModal({
 
       await onSave(payload);
     }
-  }, [user, courierForm, businessForm, managerForm, onSave]);
+  }, [user, courierForm, businessForm, proofOfDeliveryRequired, managerForm, onSave]);
 
   if (!user) return null;
 
@@ -415,6 +423,15 @@ export function UserEditModal({
                   testID="edit-business-address"
                 />
               </View>
+              <View style={styles.switchRow}>
+                <Switch
+                  value={proofOfDeliveryRequired}
+                  onValueChange={setProofOfDeliveryRequired}
+                  trackColor={{ true: Colors.light.tint, false: Colors.light.border }}
+                  testID="edit-business-proof-required"
+                />
+                <Text style={styles.switchLabel}>חובת אישור מסירה (שם המקבל ותמונה או חתימה)</Text>
+              </View>
               <View style={styles.inputGroup}>
                 <Text style={styles.inputLabel}>סיסמה חדשה (השאר ריק לשמור הנוכחית)</Text>
                 <TextInput
@@ -574,6 +591,19 @@ const styles = StyleSheet.create({
   inputHalf: {
     flex: 1,
   },
+  switchRow: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.light.secondaryText,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
   inputLabel: {
     fontSize: 13,
     fontWeight: "600",
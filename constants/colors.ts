@@ -10,6 +10,8 @@ const palette = {
   waiting: "#2563eb",
   taken: "#f59e0b",
   completed: "#10b981",
+  cancelled: "#64748b",
+  failed: "#ef4444",
 };
 
 export default {
@@ -25,6 +27,8 @@ export default {
     waiting: palette.waiting,
     taken: palette.taken,
     completed: palette.completed,
+    cancelled: palette.cancelled,
+    failed: palette.failed,
     tabIconDefault: "#a5b4fc",
     tabIconSelected: palette.primary,
   },
@@ -0,0 +1,49 @@
+import { DeliveryCancellationReason, DeliveryFailureReason, DeliveryReleaseReason } from "../types/models";
+
+export const cancellationReasons = [
+  "customer_cancelled",
+  "business_cancelled",
+  "duplicate_order",
+  "out_of_stock",
+  "other",
+] as const satisfies readonly DeliveryCancellationReason[];
+
+export const failureReasons = [
+  "customer_unreachable",
+  "wrong_address",
+  "customer_refused",
+  "damaged_order",
+  "other",
+] as const satisfies readonly DeliveryFailureReason[];
+
+export const releaseReasons = [
+  "vehicle_issue",
+  "personal_emergency",
+  "too_far",
+  "long_wait",
+  "other",
+] as const satisfies readonly DeliveryReleaseReason[];
+
+export const cancellationReasonLabels: Record<DeliveryCancellationReason, string> = {
+  customer_cancelled: "הלקוח ביטל את ההזמנה",
+  business_cancelled: "העסק ביטל את ההזמנה",
+  duplicate_order: "הזמנה כפולה",
+  out_of_stock: "מוצר חסר במלאי",
+  other: "סיבה אחרת",
+};
+
+export const failureReasonLabels: Record<DeliveryFailureReason, string> = {
+  customer_unreachable: "לא ניתן ליצור קשר עם הלקוח",
+  wrong_address: "כתובת שגויה",
+  customer_refused: "הלקוח סירב לקבל",
+  damaged_order: "ההזמנה ניזוקה בדרך",
+  other: "סיבה אחרת",
+};
+
+export const releaseReasonLabels: Record<DeliveryReleaseReason, string> = {
+  vehicle_issue: "תקלה ברכב",
+  personal_emergency: "מקרה חירום אישי",
+  too_far: "המשלוח רחוק מדי",
+  long_wait: "זמן המתנה ארוך בעסק",
+  other: "סיבה אחרת",
+};
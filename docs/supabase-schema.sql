@@ -6,7 +6,7 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
 -- Create enum types
 CREATE TYPE user_role AS ENUM ('business', 'courier', 'manager');
-CREATE TYPE delivery_status AS ENUM ('waiting', 'taken', 'completed');
+CREATE TYPE delivery_status AS ENUM ('waiting', 'taken', 'completed', 'cancelled', 'failed');
 
 -- Users table
 CREATE TABLE IF NOT EXISTS users (
@@ -17,6 +17,7 @@ CREATE TABLE IF NOT EXISTS users (
   role user_role NOT NULL,
   email TEXT,
   push_token TEXT,
+  must_change_password BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -37,6 +38,7 @@ CREATE TABLE IF NOT EXISTS courier_profiles (
   current_latitude NUMERIC(10,7),
   current_longitude NUMERIC(10,7),
   location_updated_at TIMESTAMPTZ,
+  release_count INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   CONSTRAINT courier_profiles_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
@@ -51,6 +53,9 @@ CREATE TABLE IF NOT EXISTS business_profiles (
   user_id TEXT NOT NULL UNIQUE,
   address TEXT NOT NULL,
   email TEXT NOT NULL,
+  customer_sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  customer_sms_language TEXT NOT NULL DEFAULT 'he',
+  proof_of_delivery_required BOOLEAN NOT NULL DEFAULT false,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   CONSTRAINT business_profiles_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
@@ -68,16 +73,45 @@ CREATE TABLE IF NOT EXISTS deliveries (
   notes TEXT DEFAULT '',
   status delivery_status DEFAULT 'waiting',
   preparation_time_minutes INTEGER,
+  scheduled_for TIMESTAMPTZ,
+  scheduled_release_at TIMESTAMPTZ,
   estimated_arrival_minutes INTEGER,
   business_confirmed BOOLEAN DEFAULT false,
   confirmed_at TIMESTAMPTZ,
   business_ready BOOLEAN DEFAULT false,
+  ready_at TIMESTAMPTZ,
+  accepted_at TIMESTAMPTZ,
+  pickup_arrived_at TIMESTAMPTZ,
   picked_up_at TIMESTAMPTZ,
   completed_at TIMESTAMPTZ,
   customer_name TEXT NOT NULL,
   customer_phone TEXT NOT NULL,
   payment NUMERIC(10,2) DEFAULT 25,
   distance_km NUMERIC(10,2),
+  cancelled_at TIMESTAMPTZ,
+  cancellation_reason TEXT,
+  failed_at TIMESTAMPTZ,
+  failure_reason TEXT,
+  status_note TEXT,
+  released_at TIMESTAMPTZ,
+  released_by TEXT REFERENCES users(id),
+  release_reason TEXT,
+  release_note TEXT,
+  dispatch_offer_courier_id TEXT REFERENCES users(id),
+  dispatch_offer_expires_at TIMESTAMPTZ,
+  batch_id TEXT,
+  batch_sequence INTEGER,
+  leg_distance_km NUMERIC(10,2),
+  pricing_breakdown JSONB,
+  settlement_id TEXT,
+  tracking_token TEXT UNIQUE,
+  proof_of_delivery JSONB,
+  pickup_geofence JSONB,
+  dropoff_geofence JSONB,
+  geofence_overrides JSONB,
+  eta JSONB,
+  sla_escalations JSONB,
+  replay_received_at JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -86,6 +120,8 @@ CREATE INDEX IF NOT EXISTS idx_deliveries_business_id ON deliveries(business_id)
 CREATE INDEX IF NOT EXISTS idx_deliveries_courier_id ON deliveries(courier_id);
 CREATE INDEX IF NOT EXISTS idx_deliveries_status ON deliveries(status);
 CREATE INDEX IF NOT EXISTS idx_deliveries_created_at ON deliveries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deliveries_batch_id ON deliveries(batch_id);
+CREATE INDEX IF NOT EXISTS idx_deliveries_scheduled_release_at ON deliveries(scheduled_release_at);
 
 -- Updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -123,27 +159,24 @@ ALTER TABLE courier_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE business_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE deliveries ENABLE ROW LEVEL SECURITY;
 
--- Create policies for public access (since we're using anon key without Supabase Auth)
--- In production, you might want to implement proper authentication
-CREATE POLICY "Allow public read access to users" ON users FOR SELECT USING (true);
-CREATE POLICY "Allow public insert access to users" ON users FOR INSERT WITH CHECK (true);
-CREATE POLICY "Allow public update access to users" ON users FOR UPDATE USING (true);
-CREATE POLICY "Allow public delete access to users" ON users FOR DELETE USING (true);
-
-CREATE POLICY "Allow public read access to courier_profiles" ON courier_profiles FOR SELECT USING (true);
-CREATE POLICY "Allow public insert access to courier_profiles" ON courier_profiles FOR INSERT WITH CHECK (true);
-CREATE POLICY "Allow public update access to courier_profiles" ON courier_profiles FOR UPDATE USING (true);
-CREATE POLICY "Allow public delete access to courier_profiles" ON courier_profiles FOR DELETE USING (true);
-
-CREATE POLICY "Allow public read access to business_profiles" ON business_profiles FOR SELECT USING (true);
-CREATE POLICY "Allow public insert access to business_profiles" ON business_profiles FOR INSERT WITH CHECK (true);
-CREATE POLICY "Allow public update access to business_profiles" ON business_profiles FOR UPDATE USING (true);
-CREATE POLICY "Allow public delete access to business_profiles" ON business_profiles FOR DELETE USING (true);
-
-CREATE POLICY "Allow public read access to deliveries" ON deliveries FOR SELECT USING (true);
-CREATE POLICY "Allow public insert access to deliveries" ON deliveries FOR INSERT WITH CHECK (true);
-CREATE POLICY "Allow public update access to deliveries" ON deliveries FOR UPDATE USING (true);
-CREATE POLICY "Allow public delete access to deliveries" ON deliveries FOR DELETE USING (true);
+-- The anon key is denied every row. The API server, using the service-role key (which bypasses RLS), does all
+-- writes, so its role checks cannot be skipped. The one policy lets the app read deliveries directly with the
+-- short-lived token the API signs for the signed-in user (EXPO_PUBLIC_DATA_SOURCE=supabase), and mirrors
+-- canViewDelivery in backend/services/deliveryAccess.ts.
+DROP POLICY IF EXISTS "Signed-in users read the deliveries they may see" ON deliveries;
+CREATE POLICY "Signed-in users read the deliveries they may see" ON deliveries
+  FOR SELECT TO authenticated
+  USING (
+    (auth.jwt() ->> 'app_role') = 'manager'
+    OR ((auth.jwt() ->> 'app_role') = 'business' AND business_id = (auth.jwt() ->> 'sub'))
+    OR (
+      (auth.jwt() ->> 'app_role') = 'courier'
+      AND (
+        courier_id = (auth.jwt() ->> 'sub')
+        OR (status = 'waiting' AND courier_id IS NULL AND scheduled_release_at IS NULL)
+      )
+    )
+  );
 
 -- Customers table (for storing customer details by phone number)
 CREATE TABLE IF NOT EXISTS customers (
@@ -172,10 +205,160 @@ CREATE TRIGGER update_customers_updated_at
 ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for customers table
-CREATE POLICY "Allow public read access to customers" ON customers FOR SELECT USING (true);
-CREATE POLICY "Allow public insert access to customers" ON customers FOR INSERT WITH CHECK (true);
-CREATE POLICY "Allow public update access to customers" ON customers FOR UPDATE USING (true);
-CREATE POLICY "Allow public delete access to customers" ON customers FOR DELETE USING (true);
+
+-- Delivery status history (append-only audit trail of every delivery transition)
+CREATE TABLE IF NOT EXISTS delivery_status_history (
+  id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+  delivery_id TEXT NOT NULL REFERENCES deliveries(id),
+  action TEXT NOT NULL,
+  actor_id TEXT NOT NULL REFERENCES users(id),
+  actor_role user_role NOT NULL,
+  previous_status delivery_status,
+  next_status delivery_status NOT NULL,
+  changed_fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_status_history_delivery_id ON delivery_status_history(delivery_id, created_at);
+
+-- Reject updates and deletes so history rows stay immutable
+CREATE OR REPLACE FUNCTION prevent_delivery_status_history_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'delivery_status_history is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER delivery_status_history_append_only
+  BEFORE UPDATE OR DELETE ON delivery_status_history
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_delivery_status_history_mutation();
+
+-- Enable RLS for delivery status history (read and insert only)
+ALTER TABLE delivery_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Pricing rules (single active row, snapshotted onto each delivery when it is created)
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id TEXT PRIMARY KEY DEFAULT 'default',
+  base_fee NUMERIC(10,2) NOT NULL DEFAULT 25,
+  minimum_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+  distance_bands JSONB NOT NULL DEFAULT '[]'::jsonb,
+  night_surcharge NUMERIC(10,2) NOT NULL DEFAULT 0,
+  night_start_hour INTEGER NOT NULL DEFAULT 23,
+  night_end_hour INTEGER NOT NULL DEFAULT 6,
+  weekend_surcharge NUMERIC(10,2) NOT NULL DEFAULT 0,
+  weekend_days INTEGER[] NOT NULL DEFAULT '{5,6}',
+  updated_by TEXT REFERENCES users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS business_pricing_overrides (
+  business_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  base_fee NUMERIC(10,2),
+  rate_per_km NUMERIC(10,2),
+  flat_fee NUMERIC(10,2),
+  updated_by TEXT REFERENCES users(id),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE business_pricing_overrides ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO pricing_rules (id) VALUES ('default') ON CONFLICT (id) DO NOTHING;
+
+-- Courier settlements (a closed pay period is immutable apart from being marked paid)
+CREATE TABLE IF NOT EXISTS courier_settlements (
+  id TEXT PRIMARY KEY,
+  courier_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  delivery_ids TEXT[] NOT NULL DEFAULT '{}',
+  delivery_count INTEGER NOT NULL DEFAULT 0,
+  total_distance_km NUMERIC(10,2) NOT NULL DEFAULT 0,
+  deliveries_total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  bonuses JSONB NOT NULL DEFAULT '[]'::jsonb,
+  deductions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total NUMERIC(10,2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unpaid' CHECK (status IN ('unpaid', 'paid')),
+  created_by TEXT NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  paid_by TEXT REFERENCES users(id),
+  paid_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_courier_settlements_courier_id ON courier_settlements(courier_id);
+
+ALTER TABLE courier_settlements ENABLE ROW LEVEL SECURITY;
+
+-- Business invoices (numbered sequentially, line items frozen when the invoice is issued)
+CREATE TABLE IF NOT EXISTS business_invoices (
+  id TEXT PRIMARY KEY,
+  invoice_number INTEGER NOT NULL UNIQUE,
+  business_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  business_name TEXT NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC(10,2) NOT NULL,
+  vat_rate NUMERIC(5,4) NOT NULL,
+  vat_amount NUMERIC(10,2) NOT NULL,
+  total NUMERIC(10,2) NOT NULL,
+  created_by TEXT NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_invoices_business_id ON business_invoices(business_id);
+
+ALTER TABLE business_invoices ENABLE ROW LEVEL SECURITY;
+
+-- Recurring delivery templates (materialized into deliveries by the backend scheduler)
+CREATE TABLE IF NOT EXISTS delivery_templates (
+  id TEXT PRIMARY KEY,
+  business_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT NOT NULL,
+  dropoff_address TEXT NOT NULL,
+  notes TEXT DEFAULT '',
+  preparation_time_minutes INTEGER NOT NULL,
+  recurrence JSONB NOT NULL,
+  is_paused BOOLEAN NOT NULL DEFAULT false,
+  skipped_dates TEXT[] NOT NULL DEFAULT '{}',
+  last_occurrence_date TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_templates_business_id ON delivery_templates(business_id);
+
+CREATE TRIGGER update_delivery_templates_updated_at
+  BEFORE UPDATE ON delivery_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE delivery_templates ENABLE ROW LEVEL SECURITY;
+
+-- Log of SMS messages sent to end customers about their delivery
+CREATE TABLE IF NOT EXISTS customer_notifications (
+  id TEXT PRIMARY KEY,
+  delivery_id TEXT NOT NULL REFERENCES deliveries(id) ON DELETE CASCADE,
+  business_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'sms',
+  provider TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  language TEXT NOT NULL,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL,
+  error TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_notifications_delivery_id ON customer_notifications(delivery_id);
+CREATE INDEX IF NOT EXISTS idx_customer_notifications_business_id ON customer_notifications(business_id);
+
+ALTER TABLE customer_notifications ENABLE ROW LEVEL SECURITY;
 
 -- Enable realtime for tables
 ALTER PUBLICATION supabase_realtime ADD TABLE users;
@@ -185,14 +368,15 @@ ALTER PUBLICATION supabase_realtime ADD TABLE deliveries;
 ALTER PUBLICATION supabase_realtime ADD TABLE customers;
 
 -- Insert seed data (default users)
-INSERT INTO users (id, name, phone, password, role, email) VALUES
-  ('manager-root', 'מנהל ראשי', '+972500000000', '1234', 'manager', 'admin@droppi.co.il'),
-  ('manager-operations', 'תמיכה מנהלתית', '+972500000009', '5678', 'manager', 'operations@droppi.co.il'),
-  ('manager-central', 'מנהלת סניף מרכז', '+972500000123', '2468', 'manager', 'central@droppi.co.il'),
-  ('courier-default', 'דניאל כהן', '+972500000200', '1234', 'courier', 'courier@droppi.co.il'),
-  ('courier-noam', 'נועם לוי', '+972500000201', '1234', 'courier', 'noam@droppi.co.il'),
-  ('business-default', 'מסעדת הדובדבן', '+972500000300', '1234', 'business', 'hadubdevan@restaurant.co.il'),
-  ('business-hummus', 'חומוס אליהו', '+972500000301', '1234', 'business', 'eliyahu@hummus.co.il')
+-- Seed passwords are legacy plaintext; the backend rehashes them on the first successful login
+INSERT INTO users (id, name, phone, password, role, email, must_change_password) VALUES
+  ('manager-root', 'מנהל ראשי', '+972500000000', '1234', 'manager', 'admin@droppi.co.il', TRUE),
+  ('manager-operations', 'תמיכה מנהלתית', '+972500000009', '5678', 'manager', 'operations@droppi.co.il', TRUE),
+  ('manager-central', 'מנהלת סניף מרכז', '+972500000123', '2468', 'manager', 'central@droppi.co.il', TRUE),
+  ('courier-default', 'דניאל כהן', '+972500000200', '1234', 'courier', 'courier@droppi.co.il', TRUE),
+  ('courier-noam', 'נועם לוי', '+972500000201', '1234', 'courier', 'noam@droppi.co.il', TRUE),
+  ('business-default', 'מסעדת הדובדבן', '+972500000300', '1234', 'business', 'hadubdevan@restaurant.co.il', TRUE),
+  ('business-hummus', 'חומוס אליהו', '+972500000301', '1234', 'business', 'eliyahu@hummus.co.il', TRUE)
 ON CONFLICT (id) DO NOTHING;
 
 -- Insert courier profiles for courier users
@@ -206,3 +390,124 @@ INSERT INTO business_profiles (user_id, address, email) VALUES
   ('business-default', 'רחוב דיזנגוף 100, תל אביב (32.0853, 34.7818)', 'hadubdevan@restaurant.co.il'),
   ('business-hummus', 'רחוב בן יהודה 45, תל אביב (32.0802, 34.7706)', 'eliyahu@hummus.co.il')
 ON CONFLICT (user_id) DO NOTHING;
+
+-- Migration for existing databases: passwords are stored as scrypt hashes and
+-- accounts still on the temporary password must change it after logging in
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password BOOLEAN NOT NULL DEFAULT FALSE;
+UPDATE users SET must_change_password = TRUE WHERE password = '1234';
+-- Seeded accounts still on their published plaintext password must change it too
+UPDATE users SET must_change_password = TRUE
+  WHERE (id = 'manager-operations' AND password = '5678') OR (id = 'manager-central' AND password = '2468');
+
+-- Migration for existing databases: cancelled and failed delivery states
+ALTER TYPE delivery_status ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE delivery_status ADD VALUE IF NOT EXISTS 'failed';
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS status_note TEXT;
+
+-- Migration for existing databases: couriers can hand a taken delivery back to the open pool
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS released_at TIMESTAMPTZ;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS released_by TEXT REFERENCES users(id);
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS release_reason TEXT;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS release_note TEXT;
+ALTER TABLE courier_profiles ADD COLUMN IF NOT EXISTS release_count INTEGER NOT NULL DEFAULT 0;
+
+-- Migration for existing databases: auto-dispatch offers a waiting delivery to one courier at a time
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS dispatch_offer_courier_id TEXT REFERENCES users(id);
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS dispatch_offer_expires_at TIMESTAMPTZ;
+
+-- Migration for existing databases: several deliveries from one pickup can share a courier trip
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS batch_id TEXT;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS batch_sequence INTEGER;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS leg_distance_km NUMERIC(10,2);
+CREATE INDEX IF NOT EXISTS idx_deliveries_batch_id ON deliveries(batch_id);
+
+-- Migration for existing databases: configurable pricing with a per-delivery snapshot
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS pricing_breakdown JSONB;
+
+-- Migration for existing databases: courier pay periods are closed into settlement statements
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS settlement_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_deliveries_settlement_id ON deliveries(settlement_id);
+
+-- Migration for existing databases: pre-orders stay hidden from couriers until shortly before their slot
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS scheduled_release_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_deliveries_scheduled_release_at ON deliveries(scheduled_release_at);
+
+-- Migration for existing databases: customers follow their order through an unguessable public link
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS tracking_token TEXT UNIQUE;
+
+-- Migration for existing databases: businesses opt in to SMS updates for their customers
+ALTER TABLE business_profiles ADD COLUMN IF NOT EXISTS customer_sms_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE business_profiles ADD COLUMN IF NOT EXISTS customer_sms_language TEXT NOT NULL DEFAULT 'he';
+
+-- Migration for existing databases: couriers attach a photo, signature and recipient name when completing
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS proof_of_delivery JSONB;
+ALTER TABLE business_profiles ADD COLUMN IF NOT EXISTS proof_of_delivery_required BOOLEAN NOT NULL DEFAULT false;
+
+-- Migration for existing databases: pickup and drop-off are checked against the courier's position
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS pickup_geofence JSONB;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS dropoff_geofence JSONB;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS geofence_overrides JSONB;
+
+-- Migration for existing databases: live pickup and drop-off ETAs computed by the server
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS eta JSONB;
+
+-- Migration for existing databases: SLA clocks need the ready time and remember which stages were escalated
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS ready_at TIMESTAMPTZ;
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS sla_escalations JSONB;
+
+-- Migration for existing databases: courier scorecards measure how fast a courier accepted a delivery
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMPTZ;
+
+-- Migration for existing databases: kitchen metrics measure how long couriers wait at the pickup
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS pickup_arrived_at TIMESTAMPTZ;
+
+-- Migration for existing databases: steps replayed from the offline outbox keep the time the server received them
+ALTER TABLE deliveries ADD COLUMN IF NOT EXISTS replay_received_at JSONB;
+
+-- Migration: close direct access for the anon key on databases created with the old public policies.
+-- The API server must now be configured with SUPABASE_SERVICE_ROLE_KEY.
+DROP POLICY IF EXISTS "Allow public read access to users" ON users;
+DROP POLICY IF EXISTS "Allow public insert access to users" ON users;
+DROP POLICY IF EXISTS "Allow public update access to users" ON users;
+DROP POLICY IF EXISTS "Allow public delete access to users" ON users;
+DROP POLICY IF EXISTS "Allow public read access to courier_profiles" ON courier_profiles;
+DROP POLICY IF EXISTS "Allow public insert access to courier_profiles" ON courier_profiles;
+DROP POLICY IF EXISTS "Allow public update access to courier_profiles" ON courier_profiles;
+DROP POLICY IF EXISTS "Allow public delete access to courier_profiles" ON courier_profiles;
+DROP POLICY IF EXISTS "Allow public read access to business_profiles" ON business_profiles;
+DROP POLICY IF EXISTS "Allow public insert access to business_profiles" ON business_profiles;
+DROP POLICY IF EXISTS "Allow public update access to business_profiles" ON business_profiles;
+DROP POLICY IF EXISTS "Allow public delete access to business_profiles" ON business_profiles;
+DROP POLICY IF EXISTS "Allow public read access to deliveries" ON deliveries;
+DROP POLICY IF EXISTS "Allow public insert access to deliveries" ON deliveries;
+DROP POLICY IF EXISTS "Allow public update access to deliveries" ON deliveries;
+DROP POLICY IF EXISTS "Allow public delete access to deliveries" ON deliveries;
+DROP POLICY IF EXISTS "Allow public read access to customers" ON customers;
+DROP POLICY IF EXISTS "Allow public insert access to customers" ON customers;
+DROP POLICY IF EXISTS "Allow public update access to customers" ON customers;
+DROP POLICY IF EXISTS "Allow public delete access to customers" ON customers;
+DROP POLICY IF EXISTS "Allow public read access to delivery_status_history" ON delivery_status_history;
+DROP POLICY IF EXISTS "Allow public insert access to delivery_status_history" ON delivery_status_history;
+DROP POLICY IF EXISTS "Allow public read access to pricing_rules" ON pricing_rules;
+DROP POLICY IF EXISTS "Allow public insert access to pricing_rules" ON pricing_rules;
+DROP POLICY IF EXISTS "Allow public update access to pricing_rules" ON pricing_rules;
+DROP POLICY IF EXISTS "Allow public read access to business_pricing_overrides" ON business_pricing_overrides;
+DROP POLICY IF EXISTS "Allow public insert access to business_pricing_overrides" ON business_pricing_overrides;
+DROP POLICY IF EXISTS "Allow public update access to business_pricing_overrides" ON business_pricing_overrides;
+DROP POLICY IF EXISTS "Allow public delete access to business_pricing_overrides" ON business_pricing_overrides;
+DROP POLICY IF EXISTS "Allow public read access to courier_settlements" ON courier_settlements;
+DROP POLICY IF EXISTS "Allow public insert access to courier_settlements" ON courier_settlements;
+DROP POLICY IF EXISTS "Allow public update access to courier_settlements" ON courier_settlements;
+DROP POLICY IF EXISTS "Allow public read access to business_invoices" ON business_invoices;
+DROP POLICY IF EXISTS "Allow public insert access to business_invoices" ON business_invoices;
+DROP POLICY IF EXISTS "Allow public read access to delivery_templates" ON delivery_templates;
+DROP POLICY IF EXISTS "Allow public insert access to delivery_templates" ON delivery_templates;
+DROP POLICY IF EXISTS "Allow public update access to delivery_templates" ON delivery_templates;
+DROP POLICY IF EXISTS "Allow public delete access to delivery_templates" ON delivery_templates;
+DROP POLICY IF EXISTS "Allow public read access to customer_notifications" ON customer_notifications;
+DROP POLICY IF EXISTS "Allow public insert access to customer_notifications" ON customer_notifications;
@@ -0,0 +1,38 @@
+import { Platform, Share } from "react-native";
+
+export async function exportTextFile(params: { filename: string; mimeType: string; content: string }) {
+  if (Platform.OS === "web" && typeof document !== "undefined") {
+    const blob = new Blob([params.content], { type: `${params.mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = params.filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    console.log("Document downloaded", params.filename);
+    return;
+  }
+
+  // Without a file system module on native, the share sheet is the way to hand the file off.
+  await Share.share({ title: params.filename, message: params.content });
+  console.log("Document shared", params.filename);
+}
+
+export async function printHtmlDocument(params: { title: string; html: string }) {
+  if (Platform.OS === "web" && typeof window !== "undefined") {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      throw new Error("הדפדפן חסם את חלון ההדפסה. אפשרו חלונות קופצים ונסו שוב");
+    }
+    printWindow.document.write(params.html);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    console.log("Print dialog opened", params.title);
+    return;
+  }
+
+  await exportTextFile({ filename: `${params.title}.html`, mimeType: "text/html", content: params.html });
+}
@@ -0,0 +1,18 @@
+import { createSupabaseRepository } from "./supabaseRepository";
+import { trpcRepository } from "./trpcRepository";
+import { DataRepository } from "./types";
+
+export * from "./types";
+export { createSupabaseRepository } from "./supabaseRepository";
+export { trpcRepository } from "./trpcRepository";
+
+const dataSource = process.env.EXPO_PUBLIC_DATA_SOURCE;
+const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+
+export const dataRepository: DataRepository =
+  dataSource === "supabase" && supabaseUrl && supabaseAnonKey
+    ? createSupabaseRepository(trpcRepository, { url: supabaseUrl, anonKey: supabaseAnonKey })
+    : trpcRepository;
+
+console.log("Data repository selected", dataRepository === trpcRepository ? "trpc" : "supabase reads");
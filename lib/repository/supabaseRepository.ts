@@ -0,0 +1,45 @@
+import { createClient } from "@supabase/supabase-js";
+
+import { trpcClient } from "@/lib/trpc";
+import { mapDeliveryRows } from "@/utils/deliveryRows";
+
+import { DataRepository } from "./types";
+
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+type SupabaseConfig = {
+  url: string;
+  anonKey: string;
+};
+
+// Delivery reads go straight to Supabase with a short-lived token the API issues for the signed-in user; row level
+// security limits them to the deliveries the API itself would return. Users and writes always go through the
+// backend, which strips passwords and runs its business rules.
+export function createSupabaseRepository(backend: DataRepository, config: SupabaseConfig): DataRepository {
+  let access: { token: string; expiresAt: string } | null = null;
+
+  const getAccessToken = async () => {
+    if (!access || new Date(access.expiresAt).getTime() - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      access = await trpcClient.auth.supabaseToken.query();
+    }
+    return access.token;
+  };
+
+  const client = createClient(config.url, config.anonKey, { accessToken: getAccessToken });
+
+  return {
+    ...backend,
+    setSessionToken: (token) => {
+      access = null;
+      backend.setSessionToken(token);
+    },
+    listDeliveries: async () => {
+      const { data, error } = await client.from("deliveries").select("*").order("created_at", { ascending: false });
+      if (error) {
+        console.log("[SUPABASE] Error fetching deliveries:", error);
+        throw new Error("שגיאה בטעינת המשלוחים");
+      }
+      return mapDeliveryRows(data);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { setAuthToken, trpcClient } from "@/lib/trpc";
+
+import { DataRepository } from "./types";
+
+export const trpcRepository: DataRepository = {
+  setSessionToken: setAuthToken,
+  login: (payload) => trpcClient.auth.login.mutate(payload),
+  impersonate: (userId) => trpcClient.auth.impersonate.mutate({ userId }),
+  changePassword: (payload) => trpcClient.auth.changePassword.mutate(payload),
+  listUsers: () => trpcClient.users.list.query(),
+  getUserDirectory: () => trpcClient.users.directory.query(),
+  listDeliveries: () => trpcClient.deliveries.list.query(),
+  createDelivery: (payload) => trpcClient.business.createDelivery.mutate(payload),
+  confirmDelivery: (payload) => trpcClient.business.confirmDelivery.mutate(payload),
+  markReady: (payload) => trpcClient.business.markReady.mutate(payload),
+  cancelDelivery: (payload) => trpcClient.business.cancelDelivery.mutate(payload),
+  takeDelivery: (payload) => trpcClient.courier.takeDelivery.mutate(payload),
+  pickupDelivery: (payload) => trpcClient.courier.pickupDelivery.mutate(payload),
+  completeDelivery: (payload) => trpcClient.courier.completeDelivery.mutate(payload),
+  reportFailure: (payload) => trpcClient.courier.reportFailure.mutate(payload),
+  releaseDelivery: (payload) => trpcClient.courier.releaseDelivery.mutate(payload),
+  declineDispatchOffer: (payload) => trpcClient.courier.declineOffer.mutate(payload),
+  createDeliveryBatch: ({ deliveryIds, actorRole }) =>
+    actorRole === "manager"
+      ? trpcClient.manager.createBatch.mutate({ deliveryIds })
+      : trpcClient.courier.createBatch.mutate({ deliveryIds }),
+  pickupBatch: (payload) => trpcClient.courier.pickupBatch.mutate(payload),
+  updateAvailability: (payload) => trpcClient.courier.updateAvailability.mutate(payload),
+  updateCustomerSmsSettings: (payload) => trpcClient.customerNotifications.updateSettings.mutate(payload),
+  managerUpdateDelivery: (payload) => trpcClient.manager.updateDelivery.mutate(payload),
+  managerRegisterCourier: (payload) => trpcClient.manager.registerCourier.mutate(payload),
+  managerRegisterBusiness: (payload) => trpcClient.manager.registerBusiness.mutate(payload),
+  managerRegisterManager: (payload) => trpcClient.manager.registerManager.mutate(payload),
+  managerUpdateUser: (payload) => trpcClient.manager.updateUser.mutate(payload),
+  lookupCustomer: (phone) => trpcClient.customers.lookup.query({ phone }),
+  saveCustomer: (payload) => trpcClient.customers.save.mutate(payload),
+};
@@ -0,0 +1,178 @@
+import {
+  Customer,
+  CustomerMessageLanguage,
+  Delivery,
+  DeliveryCancellationReason,
+  DeliveryFailureReason,
+  DeliveryReleaseReason,
+  DeliveryStatus,
+  ProofOfDeliveryInput,
+  PublicUser,
+  UserDirectory,
+} from "@/types/models";
+
+export type LoginPayload = {
+  phone: string;
+  password: string;
+};
+
+export type AuthSession = {
+  user: PublicUser;
+  token: string;
+};
+
+export type ChangePasswordPayload = {
+  currentPassword: string;
+  newPassword: string;
+};
+
+export type CreateDeliveryPayload = {
+  pickupAddress: string;
+  dropoffAddress: string;
+  notes: string;
+  customerName: string;
+  customerPhone: string;
+  preparationTimeMinutes: number;
+  scheduledFor?: string;
+};
+
+export type TakeDeliveryPayload = {
+  deliveryId: string;
+  estimatedArrivalMinutes: number;
+};
+
+// occurredAt is honoured only on replayed outbox entries; live actions are dated by the server.
+export type CourierStepPayload = {
+  deliveryId: string;
+  occurredAt?: string;
+  replay?: boolean;
+};
+
+export type CompleteDeliveryPayload = CourierStepPayload & {
+  proof?: ProofOfDeliveryInput;
+};
+
+export type BusinessStepPayload = {
+  deliveryId: string;
+  occurredAt?: string;
+  replay?: boolean;
+};
+
+export type CancelDeliveryPayload = BusinessStepPayload & {
+  reason: DeliveryCancellationReason;
+  note?: string;
+};
+
+export type ReportFailurePayload = CourierStepPayload & {
+  reason: DeliveryFailureReason;
+  note?: string;
+};
+
+export type ReleaseDeliveryPayload = {
+  deliveryId: string;
+  reason: DeliveryReleaseReason;
+  note?: string;
+};
+
+export type CreateDeliveryBatchPayload = {
+  deliveryIds: string[];
+  actorRole: "courier" | "manager";
+};
+
+export type ManagerUpdateDeliveryPayload = {
+  deliveryId: string;
+  status?: Extract<DeliveryStatus, "waiting" | "taken" | "completed">;
+  courierId?: string | null;
+  payment?: number;
+};
+
+export type ManagerRegisterCourierPayload = {
+  name: string;
+  age: number;
+  phone: string;
+  email: string;
+  vehicle: string;
+  password: string;
+  idNumber?: string;
+};
+
+export type ManagerRegisterBusinessPayload = {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+  password: string;
+};
+
+export type ManagerRegisterManagerPayload = {
+  name: string;
+  phone: string;
+  email: string;
+  password: string;
+};
+
+export type ManagerUpdateUserPayload = {
+  userId: string;
+  name?: string;
+  phone?: string;
+  email?: string;
+  password?: string;
+  courierProfile?: {
+    age?: number;
+    vehicle?: string;
+    email?: string;
+  };
+  businessProfile?: {
+    address?: string;
+    email?: string;
+    proofOfDeliveryRequired?: boolean;
+  };
+};
+
+export type SaveCustomerPayload = {
+  phone: string;
+  name: string;
+  address?: string;
+  city?: string;
+  floor?: string;
+  notes?: string;
+};
+
+export type CustomerSmsSettingsPayload = {
+  enabled: boolean;
+  language: CustomerMessageLanguage;
+};
+
+// The shared user and delivery data the provider keeps in sync goes through this contract, so every read and
+// write hits the backend's role checks, validation, history, events and push notifications.
+// Screen-specific panels (stats, settlements, templates, SLA) call their tRPC procedures directly.
+export type DataRepository = {
+  setSessionToken: (token: string | null) => void;
+  login: (payload: LoginPayload) => Promise<AuthSession>;
+  impersonate: (userId: string) => Promise<AuthSession>;
+  changePassword: (payload: ChangePasswordPayload) => Promise<AuthSession>;
+  listUsers: () => Promise<PublicUser[]>;
+  getUserDirectory: () => Promise<UserDirectory>;
+  listDeliveries: () => Promise<Delivery[]>;
+  createDelivery: (payload: CreateDeliveryPayload) => Promise<Delivery>;
+  confirmDelivery: (payload: BusinessStepPayload) => Promise<Delivery>;
+  markReady: (payload: BusinessStepPayload) => Promise<Delivery>;
+  cancelDelivery: (payload: CancelDeliveryPayload) => Promise<Delivery>;
+  takeDelivery: (payload: TakeDeliveryPayload) => Promise<Delivery>;
+  pickupDelivery: (payload: CourierStepPayload) => Promise<Delivery>;
+  completeDelivery: (payload: CompleteDeliveryPayload) => Promise<Delivery>;
+  reportFailure: (payload: ReportFailurePayload) => Promise<Delivery>;
+  releaseDelivery: (payload: ReleaseDeliveryPayload) => Promise<Delivery>;
+  declineDispatchOffer: (payload: { deliveryId: string }) => Promise<Delivery>;
+  createDeliveryBatch: (payload: CreateDeliveryBatchPayload) => Promise<Delivery[]>;
+  pickupBatch: (payload: { batchId: string }) => Promise<Delivery[]>;
+  updateAvailability: (payload: { isAvailable: boolean }) => Promise<PublicUser>;
+  updateCustomerSmsSettings: (payload: CustomerSmsSettingsPayload) => Promise<PublicUser>;
+  managerUpdateDelivery: (payload: ManagerUpdateDeliveryPayload) => Promise<Delivery>;
+  managerRegisterCourier: (payload: ManagerRegisterCourierPayload) => Promise<PublicUser>;
+  managerRegisterBusiness: (payload: ManagerRegisterBusinessPayload) => Promise<PublicUser>;
+  managerRegisterManager: (payload: ManagerRegisterManagerPayload) => Promise<PublicUser>;
+  managerUpdateUser: (payload: ManagerUpdateUserPayload) => Promise<PublicUser>;
+  lookupCustomer: (phone: string) => Promise<Customer | null>;
+  saveCustomer: (payload: SaveCustomerPayload) => Promise<Customer>;
+};
@@ -5,6 +5,15 @@ import superjson from "superjson";
 
 export const trpc = createTRPCReact<AppRouter>();
 
+let authToken: string | null = null;
+
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+  console.log("[TRPC] Auth token", token ? "set" : "cleared");
+};
+
+export const getAuthToken = (): string | null => authToken;
+
 const getBaseUrl = () => {
   const envUrl = process.env.EXPO_PUBLIC_RORK_API_BASE_URL;
   if (envUrl) {
@@ -22,6 +31,8 @@ const getBaseUrl = () => {
   return "";
 };
 
+export const getTrackingUrl = (trackingToken: string) => `${getBaseUrl()}/api/track/${trackingToken}`;
+
 const createFetchWithTimeout = () => {
   return async (url: RequestInfo | URL, options?: RequestInit): Promise<Response> => {
     const timeoutMs = 30000;
@@ -57,11 +68,13 @@ export const trpcClient = trpc.createClient({
       true: unstable_httpSubscriptionLink({
         url: `${getBaseUrl()}/api/trpc`,
         transformer: superjson,
+        connectionParams: () => (authToken ? { token: authToken } : null),
       }),
       false: httpLink({
         url: `${getBaseUrl()}/api/trpc`,
         transformer: superjson,
         fetch: createFetchWithTimeout(),
+        headers: () => (authToken ? { Authorization: `Bearer ${authToken}` } : {}),
       }),
     }),
   ],
@@ -0,0 +1,57 @@
+import { DataRepository } from "../lib/repository/types";
+import { Delivery } from "../types/models";
+
+export type FakeRepositoryCall = {
+  method: keyof DataRepository;
+  payload: unknown;
+};
+
+// Records what the client sends and answers delivery steps with the stored delivery unchanged.
+// It applies no business rules; behaviour belongs to the backend and is tested there.
+export function createFakeRepository(deliveries: Delivery[] = []) {
+  const calls: FakeRepositoryCall[] = [];
+
+  const unsupported = (method: keyof DataRepository) => () =>
+    Promise.reject(new Error(`The fake repository does not support ${method}`));
+
+  const step =
+    (method: keyof DataRepository) =>
+    (payload: { deliveryId: string }): Promise<Delivery> => {
+      calls.push({ method, payload });
+      const delivery = deliveries.find((item) => item.id === payload.deliveryId);
+      return delivery ? Promise.resolve({ ...delivery }) : Promise.reject(new Error("משלוח לא נמצא"));
+    };
+
+  const repository: DataRepository = {
+    setSessionToken: () => {},
+    login: unsupported("login"),
+    impersonate: unsupported("impersonate"),
+    changePassword: unsupported("changePassword"),
+    listUsers: () => Promise.resolve([]),
+    getUserDirectory: unsupported("getUserDirectory"),
+    listDeliveries: () => Promise.resolve(deliveries.map((delivery) => ({ ...delivery }))),
+    createDelivery: unsupported("createDelivery"),
+    confirmDelivery: step("confirmDelivery"),
+    markReady: step("markReady"),
+    cancelDelivery: step("cancelDelivery"),
+    takeDelivery: step("takeDelivery"),
+    pickupDelivery: step("pickupDelivery"),
+    completeDelivery: step("completeDelivery"),
+    reportFailure: step("reportFailure"),
+    releaseDelivery: step("releaseDelivery"),
+    declineDispatchOffer: step("declineDispatchOffer"),
+    createDeliveryBatch: unsupported("createDeliveryBatch"),
+    pickupBatch: unsupported("pickupBatch"),
+    updateAvailability: unsupported("updateAvailability"),
+    updateCustomerSmsSettings: unsupported("updateCustomerSmsSettings"),
+    managerUpdateDelivery: step("managerUpdateDelivery"),
+    managerRegisterCourier: unsupported("managerRegisterCourier"),
+    managerRegisterBusiness: unsupported("managerRegisterBusiness"),
+    managerRegisterManager: unsupported("managerRegisterManager"),
+    managerUpdateUser: unsupported("managerUpdateUser"),
+    lookupCustomer: () => Promise.resolve(null),
+    saveCustomer: unsupported("saveCustomer"),
+  };
+
+  return { repository, calls };
+}
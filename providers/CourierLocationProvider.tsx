@@ -54,7 +54,6 @@ const useCourierLocationValue = (): CourierLocationContextValue => {
       lastUpdateTime.current = now;
       console.log("[LOCATION] Sending location to server:", latitude, longitude);
       updateLocationMutation.mutate({
-        courierId: user.id,
         latitude,
         longitude,
       });
@@ -1,106 +1,92 @@
 import { useCallback, useEffect, useMemo, useRef, useState, createContext, useContext, ReactNode } from "react";
 import { Alert, AppState, AppStateStatus, Platform } from "react-native";
 
-import { Delivery, DeliveryStatus, User, UserRole } from "../types/models";
+import { Customer, Delivery, ProofOfDeliveryInput, PublicUser, UserDirectoryEntry, UserRole } from "../types/models";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import * as supabaseQueries from "../lib/supabaseQueries";
+import {
+  CancelDeliveryPayload,
+  ChangePasswordPayload,
+  CompleteDeliveryPayload,
+  CreateDeliveryPayload,
+  CustomerSmsSettingsPayload,
+  DataRepository,
+  dataRepository,
+  LoginPayload,
+  ManagerRegisterBusinessPayload,
+  ManagerRegisterCourierPayload,
+  ManagerRegisterManagerPayload,
+  ManagerUpdateDeliveryPayload,
+  ManagerUpdateUserPayload,
+  ReleaseDeliveryPayload,
+  ReportFailurePayload,
+  SaveCustomerPayload,
+} from "../lib/repository";
 import { persistentStorage } from "../utils/persistentStorage";
-import { useSupabaseRealtime } from "@/hooks/useSupabaseRealtime";
-
-type LoginPayload = {
-  phone: string;
-  password: string;
-};
-
-type CreateDeliveryPayload = {
-  pickupAddress: string;
-  dropoffAddress: string;
-  notes: string;
-  customerName: string;
-  customerPhone: string;
-  preparationTimeMinutes: number;
-};
-
-type ManagerUpdateDeliveryPayload = {
-  deliveryId: string;
-  status?: DeliveryStatus;
-  courierId?: string | null;
-};
-
-type ManagerRegisterCourierPayload = {
-  name: string;
-  age: number;
-  phone: string;
-  email: string;
-  vehicle: string;
-  password: string;
-  idNumber?: string;
-};
-
-type ManagerRegisterBusinessPayload = {
-  name: string;
-  address: string;
-  phone: string;
-  email: string;
-  password: string;
-};
-
-type ManagerRegisterManagerPayload = {
-  name: string;
-  phone: string;
-  email: string;
-  password: string;
-};
-
-type ManagerUpdateUserPayload = {
-  userId: string;
-  name?: string;
-  phone?: string;
-  email?: string;
-  password?: string;
-  courierProfile?: {
-    age?: number;
-    vehicle?: string;
-    email?: string;
-  };
-  businessProfile?: {
-    address?: string;
-    email?: string;
-  };
-};
+import { isHeldForSchedule } from "../utils/scheduling";
+import {
+  applyOutboxEntry,
+  createOutboxEntry,
+  isNetworkError,
+  isOutboxRejection,
+  OutboxAction,
+  outboxActionLabels,
+  OutboxEntry,
+  replayOutboxEntry,
+  resolveOutboxEntry,
+} from "../utils/deliveryOutbox";
+import { loadOutbox, saveOutbox } from "../utils/outboxStorage";
 
 type DeliveryContextValue = {
-  user: User | null;
+  user: PublicUser | null;
   deliveries: Delivery[];
-  allUsers: User[];
+  allUsers: UserDirectoryEntry[];
+  managedUsers: PublicUser[];
   isLoading: boolean;
   loginMutationStatus: "idle" | "pending" | "success" | "error";
+  changePasswordMutationStatus: "idle" | "pending" | "success" | "error";
   createDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
   takeDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
   pickupDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
   completeDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
   confirmDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
   markReadyMutationStatus: "idle" | "pending" | "success" | "error";
+  cancelDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
+  reportFailureMutationStatus: "idle" | "pending" | "success" | "error";
+  releaseDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
+  declineDispatchOfferMutationStatus: "idle" | "pending" | "success" | "error";
+  createDeliveryBatchMutationStatus: "idle" | "pending" | "success" | "error";
+  pickupBatchMutationStatus: "idle" | "pending" | "success" | "error";
   managerUpdateDeliveryMutationStatus: "idle" | "pending" | "success" | "error";
   managerRegisterCourierMutationStatus: "idle" | "pending" | "success" | "error";
   managerRegisterBusinessMutationStatus: "idle" | "pending" | "success" | "error";
   managerRegisterManagerMutationStatus: "idle" | "pending" | "success" | "error";
   managerUpdateUserMutationStatus: "idle" | "pending" | "success" | "error";
   updateAvailabilityMutationStatus: "idle" | "pending" | "success" | "error";
-  login: (payload: LoginPayload) => Promise<User>;
+  updateCustomerSmsSettingsMutationStatus: "idle" | "pending" | "success" | "error";
+  login: (payload: LoginPayload) => Promise<PublicUser>;
   logout: () => void;
+  changePassword: (payload: ChangePasswordPayload) => Promise<PublicUser>;
   createDelivery: (payload: CreateDeliveryPayload) => Promise<Delivery>;
   takeDelivery: (deliveryId: string, estimatedArrivalMinutes: number) => Promise<Delivery>;
   pickupDelivery: (deliveryId: string) => Promise<Delivery>;
-  completeDelivery: (deliveryId: string) => Promise<Delivery>;
+  completeDelivery: (deliveryId: string, proof?: ProofOfDeliveryInput) => Promise<Delivery>;
   confirmDelivery: (deliveryId: string) => Promise<Delivery>;
   markReady: (deliveryId: string) => Promise<Delivery>;
+  cancelDelivery: (payload: CancelDeliveryPayload) => Promise<Delivery>;
+  reportFailure: (payload: ReportFailurePayload) => Promise<Delivery>;
+  releaseDelivery: (payload: ReleaseDeliveryPayload) => Promise<Delivery>;
+  declineDispatchOffer: (deliveryId: string) => Promise<Delivery>;
+  createDeliveryBatch: (deliveryIds: string[]) => Promise<Delivery[]>;
+  pickupBatch: (batchId: string) => Promise<Delivery[]>;
   managerUpdateDelivery: (payload: ManagerUpdateDeliveryPayload) => Promise<Delivery>;
-  managerRegisterCourier: (payload: ManagerRegisterCourierPayload) => Promise<User>;
-  managerRegisterBusiness: (payload: ManagerRegisterBusinessPayload) => Promise<User>;
-  managerRegisterManager: (payload: ManagerRegisterManagerPayload) => Promise<User>;
-  managerUpdateUser: (payload: ManagerUpdateUserPayload) => Promise<User>;
-  updateAvailability: (isAvailable: boolean) => Promise<User>;
+  managerRegisterCourier: (payload: ManagerRegisterCourierPayload) => Promise<PublicUser>;
+  managerRegisterBusiness: (payload: ManagerRegisterBusinessPayload) => Promise<PublicUser>;
+  managerRegisterManager: (payload: ManagerRegisterManagerPayload) => Promise<PublicUser>;
+  managerUpdateUser: (payload: ManagerUpdateUserPayload) => Promise<PublicUser>;
+  updateAvailability: (isAvailable: boolean) => Promise<PublicUser>;
+  updateCustomerSmsSettings: (payload: CustomerSmsSettingsPayload) => Promise<PublicUser>;
+  lookupCustomer: (phone: string) => Promise<Customer | null>;
+  saveCustomer: (payload: SaveCustomerPayload) => Promise<Customer>;
   getDeliveriesForUser: (role: UserRole, userId: string) => Delivery[];
   getAvailableDeliveries: () => Delivery[];
   dismissedDeliveryIds: Set<string>;
@@ -111,14 +97,17 @@ type DeliveryContextValue = {
   clearBusinessCreationMessage: () => void;
   courierAssignmentMessage: string | null;
   clearCourierAssignmentMessage: () => void;
+  pendingSyncDeliveryIds: Set<string>;
   isImpersonating: boolean;
-  originalManagerUser: User | null;
-  impersonateUser: (targetUser: User) => void;
+  originalManagerUser: PublicUser | null;
+  impersonateUser: (targetUser: PublicUser) => Promise<void>;
   exitImpersonation: () => void;
 };
 
 const USER_STORAGE_KEY = "droppi:currentUser";
 const IMPERSONATION_KEY = "droppi:impersonation";
+const AUTH_TOKEN_KEY = "droppi:authToken";
+const IMPERSONATION_TOKEN_KEY = "droppi:impersonationToken";
 
 const normalizeValueForSignature = (value: unknown): unknown => {
   if (Array.isArray(value)) {
@@ -145,18 +134,21 @@ const queryRefetchInterval = 5000;
 
 const DeliveryContext = createContext<DeliveryContextValue | undefined>(undefined);
 
-const useDeliveryContextValue = (): DeliveryContextValue => {
-  const [user, setUser] = useState<User | null>(null);
+const useDeliveryContextValue = (repository: DataRepository): DeliveryContextValue => {
+  const [user, setUser] = useState<PublicUser | null>(null);
   const [dismissedDeliveryIds, setDismissedDeliveryIds] = useState<Set<string>>(new Set());
   const [confirmedBusinessDeliveryIds, setConfirmedBusinessDeliveryIds] = useState<Set<string>>(new Set());
   const [businessCreationMessage, setBusinessCreationMessage] = useState<string | null>(null);
   const [courierAssignmentMessage, setCourierAssignmentMessage] = useState<string | null>(null);
-  const [originalManagerUser, setOriginalManagerUser] = useState<User | null>(null);
+  const [originalManagerUser, setOriginalManagerUser] = useState<PublicUser | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
 
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const isFlushingOutboxRef = useRef<boolean>(false);
   const userSnapshotRef = useRef<string>(createStableSignature(null));
   const hydrationCompletedRef = useRef<boolean>(false);
 
-  const applyUserState = useCallback((nextUser: User | null) => {
+  const applyUserState = useCallback((nextUser: PublicUser | null) => {
     const signature = createStableSignature(nextUser);
     if (userSnapshotRef.current === signature) {
       console.log("User state unchanged, skipping apply", signature.length);
@@ -167,7 +159,19 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     console.log("User state applied", nextUser?.id ?? "none");
   }, [setUser]);
 
-  const persistUserSafely = useCallback(async (nextUser: User | null) => {
+  const persistAuthTokenSafely = useCallback(async (key: string, token: string | null) => {
+    try {
+      if (token) {
+        await persistentStorage.setItem(key, JSON.stringify(token));
+      } else {
+        await persistentStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.log("Persisted auth token write failed", key, error);
+    }
+  }, []);
+
+  const persistUserSafely = useCallback(async (nextUser: PublicUser | null) => {
     try {
       if (nextUser) {
         await persistentStorage.setItem(USER_STORAGE_KEY, JSON.stringify(nextUser));
@@ -183,13 +187,29 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
 
   const queryClient = useQueryClient();
 
+  // Until a temporary password is replaced the server answers nothing but the password change.
+  const canLoadData = !!user && (!user.mustChangePassword || originalManagerUser !== null);
+
   const {
     data: usersData,
     isLoading: isUsersLoading,
     refetch: refetchUsers,
   } = useQuery({
+    queryKey: ["users", "directory"],
+    queryFn: repository.getUserDirectory,
+    enabled: canLoadData,
+    staleTime: 0,
+    refetchOnMount: "always",
+    refetchOnWindowFocus: true,
+    refetchOnReconnect: true,
+    refetchInterval: queryRefetchInterval,
+  });
+
+  // Only managers get the full accounts; everyone else sees the directory projection.
+  const { data: managedUsersData } = useQuery({
     queryKey: ["users"],
-    queryFn: supabaseQueries.getUsers,
+    queryFn: repository.listUsers,
+    enabled: canLoadData && user?.role === "manager",
     staleTime: 0,
     refetchOnMount: "always",
     refetchOnWindowFocus: true,
@@ -199,11 +219,13 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
 
   const {
     data: deliveriesData,
+    dataUpdatedAt: deliveriesUpdatedAt,
     isLoading: isDeliveriesLoading,
     refetch: refetchDeliveries,
   } = useQuery({
     queryKey: ["deliveries"],
-    queryFn: supabaseQueries.getDeliveries,
+    queryFn: repository.listDeliveries,
+    enabled: canLoadData,
     staleTime: 0,
     refetchOnMount: "always",
     refetchOnWindowFocus: true,
@@ -216,16 +238,33 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     Promise.all([
       persistentStorage.getItem(USER_STORAGE_KEY),
       persistentStorage.getItem(IMPERSONATION_KEY),
+      persistentStorage.getItem(AUTH_TOKEN_KEY),
     ])
-      .then(([stored, impersonationStored]) => {
+      .then(([stored, impersonationStored, tokenStored]) => {
         if (!isActive) {
           return;
         }
+        if (tokenStored) {
+          try {
+            const parsedToken = JSON.parse(tokenStored);
+            if (typeof parsedToken === "string" && parsedToken) {
+              repository.setSessionToken(parsedToken);
+            }
+          } catch (error) {
+            console.log("Auth token parse failed", error);
+          }
+        } else if (stored) {
+          console.log("Persisted user has no session token, requiring login");
+          persistentStorage.removeItem(USER_STORAGE_KEY).catch((removeError) => {
+            console.log("Persisted user cleanup failed", removeError);
+          });
+          return;
+        }
         if (impersonationStored) {
           try {
             const parsedImpersonation = JSON.parse(impersonationStored);
             if (parsedImpersonation && typeof parsedImpersonation === "object" && parsedImpersonation.id) {
-              setOriginalManagerUser(parsedImpersonation as User);
+              setOriginalManagerUser(parsedImpersonation as PublicUser);
               console.log("Impersonation state restored", parsedImpersonation.id);
             } else {
               console.log("Impersonation data invalid, clearing");
@@ -247,7 +286,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         try {
           const parsed = JSON.parse(stored);
           if (parsed && typeof parsed === "object" && parsed.id) {
-            applyUserState(parsed as User);
+            applyUserState(parsed as PublicUser);
             console.log("Persisted user restored", parsed.id);
           } else {
             console.log("Persisted user data invalid, clearing");
@@ -271,7 +310,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     return () => {
       isActive = false;
     };
-  }, [applyUserState]);
+  }, [applyUserState, repository]);
 
   const appStateRef = useRef<AppStateStatus>("active");
 
@@ -312,10 +351,11 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: loginMutateAsync,
     status: loginStatus,
   } = useMutation({
-    mutationFn: (payload: { phone: string; password: string }) => 
-      supabaseQueries.login(payload.phone, payload.password),
-    onSuccess: (foundUser) => {
+    mutationFn: (payload: LoginPayload) => repository.login(payload),
+    onSuccess: ({ user: foundUser, token }) => {
       console.log("Login success", foundUser.id);
+      repository.setSessionToken(token);
+      void persistAuthTokenSafely(AUTH_TOKEN_KEY, token);
       applyUserState(foundUser);
       void persistUserSafely(foundUser);
     },
@@ -324,11 +364,32 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     },
   });
 
+  const {
+    mutateAsync: changePasswordMutateAsync,
+    status: changePasswordStatus,
+  } = useMutation({
+    mutationFn: (payload: ChangePasswordPayload) => repository.changePassword(payload),
+    // The old token was revoked with the old password, so the session continues on the one issued with the change.
+    onSuccess: ({ user: updatedUser, token }) => {
+      console.log("Password changed", updatedUser.id);
+      repository.setSessionToken(token);
+      void persistAuthTokenSafely(AUTH_TOKEN_KEY, token);
+      applyUserState(updatedUser);
+      void persistUserSafely(updatedUser);
+      queryClient.invalidateQueries({ queryKey: ["users"] }).catch((invalidateError) => {
+        console.log("Users invalidate failed", invalidateError);
+      });
+    },
+    onError: (error) => {
+      console.log("Change password failed", error);
+    },
+  });
+
   const {
     mutateAsync: createDeliveryMutateAsync,
     status: createDeliveryStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.createDelivery,
+    mutationFn: (payload: CreateDeliveryPayload) => repository.createDelivery(payload),
     onSuccess: (createdDelivery) => {
       console.log("Delivery created", createdDelivery.id);
       queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
@@ -340,7 +401,11 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
       queryClient.invalidateQueries({ queryKey: ["deliveries"] }).catch((invalidateError) => {
         console.log("Deliveries invalidate failed", invalidateError);
       });
-      setBusinessCreationMessage("מצוין!\nמשלוח חדש נוסף למערכת✅");
+      setBusinessCreationMessage(
+        isHeldForSchedule(createdDelivery)
+          ? "מצוין!\nהמשלוח תוזמן ויישלח לשליחים לפני המועד🕒"
+          : "מצוין!\nמשלוח חדש נוסף למערכת✅",
+      );
     },
     onError: (error) => {
       const message = error instanceof Error ? error.message : "יצירת המשלוח נכשלה";
@@ -353,7 +418,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: takeDeliveryMutateAsync,
     status: takeDeliveryStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.takeDelivery,
+    mutationFn: (payload: { deliveryId: string; estimatedArrivalMinutes: number }) => repository.takeDelivery(payload),
     onSuccess: (updatedDelivery) => {
       console.log("Delivery taken", updatedDelivery.id);
       queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
@@ -378,7 +443,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: pickupDeliveryMutateAsync,
     status: pickupDeliveryStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.pickupDelivery,
+    mutationFn: (payload: { deliveryId: string }) => repository.pickupDelivery(payload),
     onSuccess: (updatedDelivery) => {
       console.log("Delivery picked up", updatedDelivery.id);
       queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
@@ -395,7 +460,9 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     onError: (error) => {
       const message = error instanceof Error ? error.message : "לא ניתן לאסוף את המשלוח";
       console.log("Pickup delivery failed", error);
-      Alert.alert("שגיאה", message);
+      if (!isNetworkError(error)) {
+        Alert.alert("שגיאה", message);
+      }
     },
   });
 
@@ -403,7 +470,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: completeDeliveryMutateAsync,
     status: completeDeliveryStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.completeDelivery,
+    mutationFn: (payload: CompleteDeliveryPayload) => repository.completeDelivery(payload),
     onSuccess: (updatedDelivery) => {
       console.log("Delivery completed", updatedDelivery.id);
       queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
@@ -420,6 +487,168 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     onError: (error) => {
       const message = error instanceof Error ? error.message : "לא ניתן להשלים את המשלוח";
       console.log("Complete delivery failed", error);
+      if (!isNetworkError(error)) {
+        Alert.alert("שגיאה", message);
+      }
+    },
+  });
+
+  const {
+    mutateAsync: cancelDeliveryMutateAsync,
+    status: cancelDeliveryStatus,
+  } = useMutation({
+    mutationFn: (payload: CancelDeliveryPayload) => repository.cancelDelivery(payload),
+    onSuccess: (updatedDelivery) => {
+      console.log("Delivery cancelled", updatedDelivery.id);
+      queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
+        if (!current) {
+          return [updatedDelivery];
+        }
+        return current.map((delivery) => (delivery.id === updatedDelivery.id ? updatedDelivery : delivery));
+      });
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] }).catch((invalidateError) => {
+        console.log("Deliveries invalidate failed", invalidateError);
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "לא ניתן לבטל את המשלוח";
+      console.log("Cancel delivery failed", error);
+      if (!isNetworkError(error)) {
+        Alert.alert("שגיאה", message);
+      }
+    },
+  });
+
+  const {
+    mutateAsync: reportFailureMutateAsync,
+    status: reportFailureStatus,
+  } = useMutation({
+    mutationFn: (payload: ReportFailurePayload) => repository.reportFailure(payload),
+    onSuccess: (updatedDelivery) => {
+      console.log("Delivery failure reported", updatedDelivery.id);
+      queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
+        if (!current) {
+          return [updatedDelivery];
+        }
+        return current.map((delivery) => (delivery.id === updatedDelivery.id ? updatedDelivery : delivery));
+      });
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] }).catch((invalidateError) => {
+        console.log("Deliveries invalidate failed", invalidateError);
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "לא ניתן לדווח על כישלון המסירה";
+      console.log("Report failure failed", error);
+      if (!isNetworkError(error)) {
+        Alert.alert("שגיאה", message);
+      }
+    },
+  });
+
+  const {
+    mutateAsync: releaseDeliveryMutateAsync,
+    status: releaseDeliveryStatus,
+  } = useMutation({
+    mutationFn: (payload: ReleaseDeliveryPayload) => repository.releaseDelivery(payload),
+    onSuccess: (updatedDelivery) => {
+      console.log("Delivery released", updatedDelivery.id);
+      queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
+        if (!current) {
+          return [updatedDelivery];
+        }
+        return current.map((delivery) => (delivery.id === updatedDelivery.id ? updatedDelivery : delivery));
+      });
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] }).catch((invalidateError) => {
+        console.log("Deliveries invalidate failed", invalidateError);
+      });
+      queryClient.invalidateQueries({ queryKey: ["users"] }).catch((invalidateError) => {
+        console.log("Users invalidate failed", invalidateError);
+      });
+      setCourierAssignmentMessage("המשלוח שוחרר והוחזר לרשימת המשלוחים הפתוחים");
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "לא ניתן לשחרר את המשלוח";
+      console.log("Release delivery failed", error);
+      Alert.alert("שגיאה", message);
+    },
+  });
+
+  const {
+    mutateAsync: declineDispatchOfferMutateAsync,
+    status: declineDispatchOfferStatus,
+  } = useMutation({
+    mutationFn: (payload: { deliveryId: string }) => repository.declineDispatchOffer(payload),
+    onSuccess: (updatedDelivery) => {
+      console.log("Dispatch offer declined", updatedDelivery.id);
+      queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
+        if (!current) {
+          return [updatedDelivery];
+        }
+        return current.map((delivery) => (delivery.id === updatedDelivery.id ? updatedDelivery : delivery));
+      });
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] }).catch((invalidateError) => {
+        console.log("Deliveries invalidate failed", invalidateError);
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "לא ניתן לדחות את ההצעה";
+      console.log("Decline dispatch offer failed", error);
+      Alert.alert("שגיאה", message);
+    },
+  });
+
+  const applyUpdatedDeliveries = useCallback(
+    (updatedDeliveries: Delivery[]) => {
+      queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
+        if (!current) {
+          return updatedDeliveries;
+        }
+        return current.map(
+          (delivery) => updatedDeliveries.find((updated) => updated.id === delivery.id) ?? delivery,
+        );
+      });
+      queryClient.invalidateQueries({ queryKey: ["deliveries"] }).catch((invalidateError) => {
+        console.log("Deliveries invalidate failed", invalidateError);
+      });
+    },
+    [queryClient],
+  );
+
+  const {
+    mutateAsync: createDeliveryBatchMutateAsync,
+    status: createDeliveryBatchStatus,
+  } = useMutation({
+    mutationFn: (payload: { deliveryIds: string[] }) =>
+      repository.createDeliveryBatch({
+        deliveryIds: payload.deliveryIds,
+        actorRole: user?.role === "manager" ? "manager" : "courier",
+      }),
+    onSuccess: (updatedDeliveries) => {
+      console.log("Delivery batch created", updatedDeliveries.map((delivery) => delivery.id));
+      applyUpdatedDeliveries(updatedDeliveries);
+      if (user?.role === "courier") {
+        setCourierAssignmentMessage(`${updatedDeliveries.length} משלוחים אוחדו למסלול אחד`);
+      }
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "לא ניתן לאחד את המשלוחים";
+      console.log("Create delivery batch failed", error);
+      Alert.alert("שגיאה", message);
+    },
+  });
+
+  const {
+    mutateAsync: pickupBatchMutateAsync,
+    status: pickupBatchStatus,
+  } = useMutation({
+    mutationFn: (payload: { batchId: string }) => repository.pickupBatch(payload),
+    onSuccess: (updatedDeliveries) => {
+      console.log("Batch picked up", updatedDeliveries.map((delivery) => delivery.id));
+      applyUpdatedDeliveries(updatedDeliveries);
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "לא ניתן לאסוף את המסלול";
+      console.log("Pickup batch failed", error);
       Alert.alert("שגיאה", message);
     },
   });
@@ -428,10 +657,10 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: managerRegisterCourierMutateAsync,
     status: managerRegisterCourierMutationStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.managerRegisterCourier,
+    mutationFn: (payload: ManagerRegisterCourierPayload) => repository.managerRegisterCourier(payload),
     onSuccess: (createdCourier) => {
       console.log("Manager registered courier", createdCourier.id);
-      queryClient.setQueryData<User[]>(["users"], (current) => {
+      queryClient.setQueryData<PublicUser[]>(["users"], (current) => {
         if (!current) {
           return [createdCourier];
         }
@@ -453,10 +682,10 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: managerRegisterBusinessMutateAsync,
     status: managerRegisterBusinessMutationStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.managerRegisterBusiness,
+    mutationFn: (payload: ManagerRegisterBusinessPayload) => repository.managerRegisterBusiness(payload),
     onSuccess: (createdBusiness) => {
       console.log("Manager registered business", createdBusiness.id);
-      queryClient.setQueryData<User[]>(["users"], (current) => {
+      queryClient.setQueryData<PublicUser[]>(["users"], (current) => {
         if (!current) {
           return [createdBusiness];
         }
@@ -478,10 +707,10 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: managerRegisterManagerMutateAsync,
     status: managerRegisterManagerMutationStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.managerRegisterManager,
+    mutationFn: (payload: ManagerRegisterManagerPayload) => repository.managerRegisterManager(payload),
     onSuccess: (createdManager) => {
       console.log("Manager registered manager", createdManager.id);
-      queryClient.setQueryData<User[]>(["users"], (current) => {
+      queryClient.setQueryData<PublicUser[]>(["users"], (current) => {
         if (!current) {
           return [createdManager];
         }
@@ -503,10 +732,10 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: managerUpdateUserMutateAsync,
     status: managerUpdateUserMutationStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.managerUpdateUser,
+    mutationFn: (payload: ManagerUpdateUserPayload) => repository.managerUpdateUser(payload),
     onSuccess: (updatedUser) => {
       console.log("Manager updated user", updatedUser.id);
-      queryClient.setQueryData<User[]>(["users"], (current) => {
+      queryClient.setQueryData<PublicUser[]>(["users"], (current) => {
         if (!current) {
           return [updatedUser];
         }
@@ -528,7 +757,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: managerUpdateDeliveryMutateAsync,
     status: managerUpdateDeliveryStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.managerUpdateDelivery,
+    mutationFn: (payload: ManagerUpdateDeliveryPayload) => repository.managerUpdateDelivery(payload),
     onSuccess: (updatedDelivery) => {
       console.log("Manager updated delivery", updatedDelivery.id);
       queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
@@ -553,15 +782,9 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: updateAvailabilityMutateAsync,
     status: updateAvailabilityStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.updateAvailability,
+    mutationFn: (payload: { isAvailable: boolean }) => repository.updateAvailability(payload),
     onSuccess: (updatedUser) => {
       console.log("Courier availability updated", updatedUser.id);
-      queryClient.setQueryData<User[]>(["users"], (current) => {
-        if (!current) {
-          return [updatedUser];
-        }
-        return current.map((usr) => (usr.id === updatedUser.id ? updatedUser : usr));
-      });
       queryClient.invalidateQueries({ queryKey: ["users"] }).catch((invalidateError) => {
         console.log("Users invalidate failed", invalidateError);
       });
@@ -575,11 +798,31 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     },
   });
 
+  const {
+    mutateAsync: updateCustomerSmsSettingsMutateAsync,
+    status: updateCustomerSmsSettingsStatus,
+  } = useMutation({
+    mutationFn: (payload: CustomerSmsSettingsPayload) => repository.updateCustomerSmsSettings(payload),
+    onSuccess: (updatedUser) => {
+      console.log("Customer SMS settings updated", updatedUser.id);
+      queryClient.invalidateQueries({ queryKey: ["users"] }).catch((invalidateError) => {
+        console.log("Users invalidate failed", invalidateError);
+      });
+      applyUserState(updatedUser);
+      void persistUserSafely(updatedUser);
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "עדכון הגדרות ההודעות נכשל";
+      console.log("Update customer SMS settings failed", error);
+      Alert.alert("שגיאה", message);
+    },
+  });
+
   const {
     mutateAsync: confirmDeliveryMutateAsync,
     status: confirmDeliveryStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.confirmDelivery,
+    mutationFn: (payload: { deliveryId: string }) => repository.confirmDelivery(payload),
     onSuccess: (updatedDelivery) => {
       console.log("Business confirmed delivery", updatedDelivery.id);
       queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
@@ -596,7 +839,9 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     onError: (error) => {
       const message = error instanceof Error ? error.message : "לא ניתן לאשר את המשלוח";
       console.log("Confirm delivery failed", error);
-      Alert.alert("שגיאה", message);
+      if (!isNetworkError(error)) {
+        Alert.alert("שגיאה", message);
+      }
     },
   });
 
@@ -604,7 +849,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     mutateAsync: markReadyMutateAsync,
     status: markReadyStatus,
   } = useMutation({
-    mutationFn: supabaseQueries.markReady,
+    mutationFn: (payload: { deliveryId: string }) => repository.markReady(payload),
     onSuccess: (updatedDelivery) => {
       console.log("Business marked delivery ready", updatedDelivery.id);
       queryClient.setQueryData<Delivery[]>(["deliveries"], (current) => {
@@ -621,11 +866,13 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     onError: (error) => {
       const message = error instanceof Error ? error.message : "לא ניתן לסמן את המשלוח כמוכן";
       console.log("Mark ready failed", error);
-      Alert.alert("שגיאה", message);
+      if (!isNetworkError(error)) {
+        Alert.alert("שגיאה", message);
+      }
     },
   });
 
-  const deliveries = useMemo(() => {
+  const serverDeliveries = useMemo(() => {
     const raw = deliveriesData ?? [];
     const seenIds = new Set<string>();
     return raw.filter((delivery) => {
@@ -641,9 +888,27 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
       return true;
     });
   }, [deliveriesData]);
+
+  const deliveries = useMemo(() => {
+    const pending = outbox.filter((entry) => entry.userId === user?.id);
+    if (pending.length === 0) {
+      return serverDeliveries;
+    }
+    return serverDeliveries.map((delivery) =>
+      pending.reduce(
+        (current, entry) => (entry.deliveryId === current.id ? applyOutboxEntry(current, entry) : current),
+        delivery,
+      ),
+    );
+  }, [outbox, serverDeliveries, user?.id]);
+
+  const pendingSyncDeliveryIds = useMemo(
+    () => new Set(outbox.filter((entry) => entry.userId === user?.id).map((entry) => entry.deliveryId)),
+    [outbox, user?.id],
+  );
   
   const allUsers = useMemo(() => {
-    const raw = usersData ?? [];
+    const raw = usersData?.users ?? [];
     const seenIds = new Set<string>();
     return raw.filter((user) => {
       if (!user.id || user.id.trim() === "") {
@@ -658,13 +923,14 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
       return true;
     });
   }, [usersData]);
+  const managedUsers = useMemo(() => managedUsersData ?? [], [managedUsersData]);
   const isLoading = isUsersLoading || isDeliveriesLoading;
 
   const login = useCallback(
     async (payload: LoginPayload) => {
       console.log("Attempting login via backend", payload.phone);
       const result = await loginMutateAsync(payload);
-      return result;
+      return result.user;
     },
     [loginMutateAsync],
   );
@@ -673,25 +939,47 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     console.log("Logging out current user");
     applyUserState(null);
     void persistUserSafely(null);
+    repository.setSessionToken(null);
+    void persistAuthTokenSafely(AUTH_TOKEN_KEY, null);
+    void persistAuthTokenSafely(IMPERSONATION_TOKEN_KEY, null);
     setOriginalManagerUser(null);
     persistentStorage.removeItem(IMPERSONATION_KEY).catch((error) => {
       console.log("Failed to clear impersonation state", error);
     });
-  }, [applyUserState, persistUserSafely]);
+  }, [applyUserState, persistAuthTokenSafely, persistUserSafely, repository]);
+
+  const changePassword = useCallback(
+    async (payload: ChangePasswordPayload) => {
+      if (!user) {
+        throw new Error("נדרשת התחברות מחדש");
+      }
+      console.log("Changing password for user", user.id);
+      const session = await changePasswordMutateAsync(payload);
+      return session.user;
+    },
+    [changePasswordMutateAsync, user],
+  );
 
-  const impersonateUser = useCallback((targetUser: User) => {
+  const impersonateUser = useCallback(async (targetUser: PublicUser) => {
     if (!user || user.role !== "manager") {
       console.log("Only managers can impersonate users");
       return;
     }
     console.log("Manager impersonating user", targetUser.id, targetUser.role);
+    const managerToken = await persistentStorage.getItem(AUTH_TOKEN_KEY);
+    const session = await repository.impersonate(targetUser.id);
+    if (managerToken) {
+      await persistentStorage.setItem(IMPERSONATION_TOKEN_KEY, managerToken);
+    }
     setOriginalManagerUser(user);
     persistentStorage.setItem(IMPERSONATION_KEY, JSON.stringify(user)).catch((error) => {
       console.log("Failed to persist impersonation state", error);
     });
-    applyUserState(targetUser);
-    void persistUserSafely(targetUser);
-  }, [user, applyUserState, persistUserSafely]);
+    repository.setSessionToken(session.token);
+    void persistAuthTokenSafely(AUTH_TOKEN_KEY, session.token);
+    applyUserState(session.user);
+    void persistUserSafely(session.user);
+  }, [user, applyUserState, persistAuthTokenSafely, persistUserSafely, repository]);
 
   const exitImpersonation = useCallback(() => {
     if (!originalManagerUser) {
@@ -699,13 +987,23 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
       return;
     }
     console.log("Exiting impersonation, returning to manager", originalManagerUser.id);
+    persistentStorage.getItem(IMPERSONATION_TOKEN_KEY)
+      .then((storedToken) => {
+        const managerToken = storedToken ? (JSON.parse(storedToken) as string) : null;
+        repository.setSessionToken(managerToken);
+        void persistAuthTokenSafely(AUTH_TOKEN_KEY, managerToken);
+        void persistAuthTokenSafely(IMPERSONATION_TOKEN_KEY, null);
+      })
+      .catch((error) => {
+        console.log("Failed to restore manager session token", error);
+      });
     applyUserState(originalManagerUser);
     void persistUserSafely(originalManagerUser);
     setOriginalManagerUser(null);
     persistentStorage.removeItem(IMPERSONATION_KEY).catch((error) => {
       console.log("Failed to clear impersonation state", error);
     });
-  }, [originalManagerUser, applyUserState, persistUserSafely]);
+  }, [originalManagerUser, applyUserState, persistAuthTokenSafely, persistUserSafely, repository]);
 
   useEffect(() => {
     if (!hydrationCompletedRef.current) {
@@ -714,14 +1012,9 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     if (!user) {
       return;
     }
-    if (allUsers.length === 0) {
-      console.log("Users list empty, skipping sync to prevent logout");
-      return;
-    }
-    const latest = allUsers.find((candidate) => candidate.id === user.id);
-    if (!latest) {
-      console.log("Active user missing from dataset, triggering logout", user.id, "Available users:", allUsers.length);
-      logout();
+    const latest = usersData?.self;
+    // A directory fetched before switching accounts (impersonation) belongs to the previous user.
+    if (!latest || latest.id !== user.id) {
       return;
     }
     const latestSignature = createStableSignature(latest);
@@ -730,7 +1023,178 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
       applyUserState(latest);
       void persistUserSafely(latest);
     }
-  }, [allUsers, applyUserState, logout, persistUserSafely, user]);
+  }, [usersData, applyUserState, persistUserSafely, user]);
+
+  const updateOutbox = useCallback((nextOutbox: OutboxEntry[]) => {
+    outboxRef.current = nextOutbox;
+    setOutbox(nextOutbox);
+    saveOutbox(nextOutbox).catch((error) => {
+      console.log("Outbox write failed", error);
+      Alert.alert("שגיאה", "לא ניתן לשמור במכשיר את הפעולות שממתינות לסנכרון. השאירו את האפליקציה פתוחה עד שהחיבור יחזור");
+    });
+  }, []);
+
+  useEffect(() => {
+    let isActive = true;
+    loadOutbox().then((storedEntries) => {
+      if (!isActive || storedEntries.length === 0) {
+        return;
+      }
+      console.log("Offline outbox restored", storedEntries.length);
+      updateOutbox([...storedEntries, ...outboxRef.current]);
+    });
+    return () => {
+      isActive = false;
+    };
+  }, [updateOutbox]);
+
+  const enqueueOfflineAction = useCallback(
+    (action: OutboxAction): Delivery => {
+      if (!user) {
+        throw new Error("נדרשת התחברות מחדש");
+      }
+      const current = deliveries.find((delivery) => delivery.id === action.deliveryId);
+      if (!current) {
+        throw new Error("המשלוח לא נמצא");
+      }
+      // Photos would overflow the device store the outbox lives in, so a completion with one needs a connection.
+      if (action.kind === "complete" && action.proof?.photoBase64) {
+        const error = new Error("לא ניתן לשמור תמונת מסירה לשליחה מאוחרת.\nנסו שוב כשהחיבור לשרת יחזור והפעולות הממתינות יסונכרנו");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      const entry = createOutboxEntry(user.id, action);
+      updateOutbox([...outboxRef.current, entry]);
+      console.log("Action queued for offline sync", entry.kind, entry.deliveryId);
+      const message = "אין חיבור לשרת.\nהפעולה נשמרה ותסונכרן כשהחיבור יחזור";
+      if (user.role === "courier") {
+        setCourierAssignmentMessage(message);
+      } else {
+        setBusinessCreationMessage(message);
+      }
+      return applyOutboxEntry(current, entry);
+    },
+    [deliveries, updateOutbox, user],
+  );
+
+  const runWithOutbox = useCallback(
+    async (action: OutboxAction, mutate: () => Promise<Delivery>): Promise<Delivery> => {
+      if (user && outboxRef.current.some((entry) => entry.userId === user.id)) {
+        console.log("Earlier actions still pending sync, queueing behind them", action.kind, action.deliveryId);
+        return enqueueOfflineAction(action);
+      }
+      try {
+        return await mutate();
+      } catch (error) {
+        if (isNetworkError(error)) {
+          return enqueueOfflineAction(action);
+        }
+        throw error;
+      }
+    },
+    [enqueueOfflineAction, user],
+  );
+
+  const flushOutbox = useCallback(async () => {
+    if (!user || isFlushingOutboxRef.current) {
+      return;
+    }
+    const pending = outboxRef.current.filter((entry) => entry.userId === user.id);
+    if (pending.length === 0) {
+      return;
+    }
+    isFlushingOutboxRef.current = true;
+    console.log("Replaying offline actions", pending.length);
+    const conflicts: string[] = [];
+    let processedCount = 0;
+    let replayedCount = 0;
+    try {
+      let latestDeliveries: Delivery[];
+      try {
+        latestDeliveries = await repository.listDeliveries();
+      } catch (error) {
+        console.log("Outbox replay postponed, server unreachable", error);
+        return;
+      }
+
+      for (const entry of pending) {
+        const label = `${outboxActionLabels[entry.kind]} #${entry.deliveryId.slice(-4)}`;
+        const resolution = resolveOutboxEntry(
+          entry,
+          latestDeliveries.find((delivery) => delivery.id === entry.deliveryId) ?? null,
+        );
+        if (resolution.outcome === "replay") {
+          try {
+            const updatedDelivery = await replayOutboxEntry(repository, entry);
+            latestDeliveries = latestDeliveries.map((delivery) =>
+              delivery.id === updatedDelivery.id ? updatedDelivery : delivery,
+            );
+            replayedCount += 1;
+            console.log("Offline action synced", entry.kind, entry.deliveryId);
+          } catch (error) {
+            if (!isOutboxRejection(error)) {
+              console.log("Outbox replay postponed, will retry", entry.kind, entry.deliveryId, error);
+              updateOutbox(
+                outboxRef.current.map((candidate) =>
+                  candidate.id === entry.id ? { ...candidate, attempts: candidate.attempts + 1 } : candidate,
+                ),
+              );
+              break;
+            }
+            const message = error instanceof Error ? error.message : "הפעולה נדחתה על ידי השרת";
+            console.log("Offline action rejected by server", entry.kind, entry.deliveryId, message);
+            conflicts.push(`${label}: ${message}`);
+          }
+        } else if (resolution.outcome === "conflict") {
+          console.log("Offline action conflicts with server state", entry.kind, entry.deliveryId, resolution.message);
+          conflicts.push(`${label}: ${resolution.message}`);
+        } else {
+          console.log("Offline action already reflected on server", entry.kind, entry.deliveryId);
+        }
+        processedCount += 1;
+        updateOutbox(outboxRef.current.filter((candidate) => candidate.id !== entry.id));
+      }
+
+      if (processedCount > 0) {
+        queryClient.setQueryData<Delivery[]>(["deliveries"], latestDeliveries);
+      }
+    } finally {
+      isFlushingOutboxRef.current = false;
+    }
+
+    if (replayedCount > 0) {
+      const message = "הפעולות שבוצעו ללא חיבור סונכרנו בהצלחה";
+      if (user.role === "courier") {
+        setCourierAssignmentMessage(message);
+      } else {
+        setBusinessCreationMessage(message);
+      }
+    }
+    if (conflicts.length > 0) {
+      Alert.alert("פעולות שלא סונכרנו", `הפעולות הבאות נדחו והוסרו מהתור:\n${conflicts.join("\n")}`);
+    }
+  }, [queryClient, repository, updateOutbox, user]);
+
+  // A successful deliveries fetch (including the refetch on returning to the foreground) means the connection is back.
+  useEffect(() => {
+    if (deliveriesUpdatedAt > 0) {
+      void flushOutbox();
+    }
+  }, [deliveriesUpdatedAt, flushOutbox]);
+
+  useEffect(() => {
+    if (Platform.OS !== "web" || typeof window === "undefined" || !window.addEventListener) {
+      return undefined;
+    }
+    const handleOnline = () => {
+      console.log("Browser back online, replaying offline actions");
+      void flushOutbox();
+    };
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [flushOutbox]);
 
   const createDelivery = useCallback(
     async (payload: CreateDeliveryPayload) => {
@@ -741,13 +1205,13 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
       }
       console.log("Creating delivery request", payload.pickupAddress, payload.dropoffAddress, payload.customerName);
       const result = await createDeliveryMutateAsync({
-        businessId: user.id,
         pickupAddress: payload.pickupAddress,
         dropoffAddress: payload.dropoffAddress,
         notes: payload.notes,
         customerName: payload.customerName,
         customerPhone: payload.customerPhone,
         preparationTimeMinutes: payload.preparationTimeMinutes,
+        scheduledFor: payload.scheduledFor,
       });
       return result;
     },
@@ -763,7 +1227,6 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
       }
       console.log("Courier taking delivery request", deliveryId, "ETA:", estimatedArrivalMinutes);
       const result = await takeDeliveryMutateAsync({
-        courierId: user.id,
         deliveryId,
         estimatedArrivalMinutes,
       });
@@ -780,30 +1243,100 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Courier picking up delivery request", deliveryId);
-      const result = await pickupDeliveryMutateAsync({
-        courierId: user.id,
-        deliveryId,
-      });
-      return result;
+      return runWithOutbox({ kind: "pickup", deliveryId }, () => pickupDeliveryMutateAsync({ deliveryId }));
     },
-    [pickupDeliveryMutateAsync, user],
+    [pickupDeliveryMutateAsync, runWithOutbox, user],
   );
 
   const completeDelivery = useCallback(
-    async (deliveryId: string) => {
+    async (deliveryId: string, proof?: ProofOfDeliveryInput) => {
       if (!user || user.role !== "courier") {
         const error = new Error("רק שליחים יכולים לסמן משלוחים כהושלמו");
         Alert.alert("שגיאה", error.message);
         throw error;
       }
       console.log("Courier completing delivery request", deliveryId);
-      const result = await completeDeliveryMutateAsync({
-        courierId: user.id,
-        deliveryId,
-      });
-      return result;
+      return runWithOutbox({ kind: "complete", deliveryId, proof }, () => completeDeliveryMutateAsync({ deliveryId, proof }));
+    },
+    [completeDeliveryMutateAsync, runWithOutbox, user],
+  );
+
+  const cancelDelivery = useCallback(
+    async (payload: CancelDeliveryPayload) => {
+      if (!user || user.role !== "business") {
+        const error = new Error("רק עסקים יכולים לבטל משלוחים");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      console.log("Business cancelling delivery request", payload.deliveryId, payload.reason);
+      return runWithOutbox({ kind: "cancel", ...payload }, () => cancelDeliveryMutateAsync(payload));
+    },
+    [cancelDeliveryMutateAsync, runWithOutbox, user],
+  );
+
+  const reportFailure = useCallback(
+    async (payload: ReportFailurePayload) => {
+      if (!user || user.role !== "courier") {
+        const error = new Error("רק שליחים יכולים לדווח על כישלון מסירה");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      console.log("Courier reporting delivery failure", payload.deliveryId, payload.reason);
+      return runWithOutbox({ kind: "reportFailure", ...payload }, () => reportFailureMutateAsync(payload));
+    },
+    [reportFailureMutateAsync, runWithOutbox, user],
+  );
+
+  const releaseDelivery = useCallback(
+    async (payload: ReleaseDeliveryPayload) => {
+      if (!user || user.role !== "courier") {
+        const error = new Error("רק שליחים יכולים לשחרר משלוחים");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      console.log("Courier releasing delivery", payload.deliveryId, payload.reason);
+      return releaseDeliveryMutateAsync(payload);
+    },
+    [releaseDeliveryMutateAsync, user],
+  );
+
+  const declineDispatchOffer = useCallback(
+    async (deliveryId: string) => {
+      if (!user || user.role !== "courier") {
+        const error = new Error("רק שליחים יכולים לדחות הצעות משלוח");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      console.log("Courier declining dispatch offer", deliveryId);
+      return declineDispatchOfferMutateAsync({ deliveryId });
+    },
+    [declineDispatchOfferMutateAsync, user],
+  );
+
+  const createDeliveryBatch = useCallback(
+    async (deliveryIds: string[]) => {
+      if (!user || (user.role !== "courier" && user.role !== "manager")) {
+        const error = new Error("רק שליחים ומנהלים יכולים לאחד משלוחים למסלול");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      console.log("Creating delivery batch", deliveryIds);
+      return createDeliveryBatchMutateAsync({ deliveryIds });
+    },
+    [createDeliveryBatchMutateAsync, user],
+  );
+
+  const pickupBatch = useCallback(
+    async (batchId: string) => {
+      if (!user || user.role !== "courier") {
+        const error = new Error("רק שליחים יכולים לאסוף משלוחים");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      console.log("Courier picking up batch", batchId);
+      return pickupBatchMutateAsync({ batchId });
     },
-    [completeDeliveryMutateAsync, user],
+    [pickupBatchMutateAsync, user],
   );
 
   const managerRegisterCourier = useCallback(
@@ -814,10 +1347,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Manager registering courier request", payload.phone);
-      const result = await managerRegisterCourierMutateAsync({
-        ...payload,
-        managerId: user.id,
-      });
+      const result = await managerRegisterCourierMutateAsync(payload);
       return result;
     },
     [managerRegisterCourierMutateAsync, user],
@@ -831,10 +1361,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Manager registering business request", payload.phone);
-      const result = await managerRegisterBusinessMutateAsync({
-        ...payload,
-        managerId: user.id,
-      });
+      const result = await managerRegisterBusinessMutateAsync(payload);
       return result;
     },
     [managerRegisterBusinessMutateAsync, user],
@@ -848,10 +1375,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Manager registering manager request", payload.phone);
-      const result = await managerRegisterManagerMutateAsync({
-        ...payload,
-        managerId: user.id,
-      });
+      const result = await managerRegisterManagerMutateAsync(payload);
       return result;
     },
     [managerRegisterManagerMutateAsync, user],
@@ -865,10 +1389,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Manager updating delivery request", payload.deliveryId, payload.status, payload.courierId);
-      const result = await managerUpdateDeliveryMutateAsync({
-        ...payload,
-        managerId: user.id,
-      });
+      const result = await managerUpdateDeliveryMutateAsync(payload);
       return result;
     },
     [managerUpdateDeliveryMutateAsync, user],
@@ -882,10 +1403,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Manager updating user request", payload.userId);
-      const result = await managerUpdateUserMutateAsync({
-        ...payload,
-        managerId: user.id,
-      });
+      const result = await managerUpdateUserMutateAsync(payload);
       return result;
     },
     [managerUpdateUserMutateAsync, user],
@@ -899,15 +1417,48 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Courier updating availability", isAvailable);
-      const result = await updateAvailabilityMutateAsync({
-        courierId: user.id,
-        isAvailable,
-      });
+      const result = await updateAvailabilityMutateAsync({ isAvailable });
       return result;
     },
     [updateAvailabilityMutateAsync, user],
   );
 
+  const updateCustomerSmsSettings = useCallback(
+    async (payload: CustomerSmsSettingsPayload) => {
+      if (!user || user.role !== "business") {
+        const error = new Error("רק עסקים יכולים לעדכן הודעות ללקוחות");
+        Alert.alert("שגיאה", error.message);
+        throw error;
+      }
+      console.log("Business updating customer SMS settings", payload);
+      const result = await updateCustomerSmsSettingsMutateAsync(payload);
+      return result;
+    },
+    [updateCustomerSmsSettingsMutateAsync, user],
+  );
+
+  const lookupCustomer = useCallback(
+    async (phone: string) => {
+      if (!user || user.role !== "business") {
+        throw new Error("רק עסקים יכולים לחפש לקוחות");
+      }
+      console.log("Business looking up customer", phone);
+      return repository.lookupCustomer(phone);
+    },
+    [repository, user],
+  );
+
+  const saveCustomer = useCallback(
+    async (payload: SaveCustomerPayload) => {
+      if (!user || user.role !== "business") {
+        throw new Error("רק עסקים יכולים לשמור לקוחות");
+      }
+      console.log("Business saving customer", payload.phone);
+      return repository.saveCustomer(payload);
+    },
+    [repository, user],
+  );
+
   const confirmDelivery = useCallback(
     async (deliveryId: string) => {
       if (!user || user.role !== "business") {
@@ -915,14 +1466,15 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         Alert.alert("שגיאה", error.message);
         throw error;
       }
+      const current = deliveries.find((delivery) => delivery.id === deliveryId);
+      if (current?.businessConfirmed) {
+        console.log("Delivery already confirmed, skipping request", deliveryId);
+        return current;
+      }
       console.log("Business confirming delivery request", deliveryId);
-      const result = await confirmDeliveryMutateAsync({
-        businessId: user.id,
-        deliveryId,
-      });
-      return result;
+      return runWithOutbox({ kind: "confirm", deliveryId }, () => confirmDeliveryMutateAsync({ deliveryId }));
     },
-    [confirmDeliveryMutateAsync, user],
+    [confirmDeliveryMutateAsync, deliveries, runWithOutbox, user],
   );
 
   const markReady = useCallback(
@@ -933,13 +1485,9 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         throw error;
       }
       console.log("Business marking delivery ready request", deliveryId);
-      const result = await markReadyMutateAsync({
-        businessId: user.id,
-        deliveryId,
-      });
-      return result;
+      return runWithOutbox({ kind: "markReady", deliveryId }, () => markReadyMutateAsync({ deliveryId }));
     },
-    [markReadyMutateAsync, user],
+    [markReadyMutateAsync, runWithOutbox, user],
   );
 
   const getDeliveriesForUser = useCallback(
@@ -982,42 +1530,73 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
         console.log("Courier is not available, returning empty deliveries list");
         return [];
       }
+      const now = Date.now();
+      return deliveries.filter((delivery) => {
+        if (delivery.status !== "waiting" || isHeldForSchedule(delivery)) {
+          return false;
+        }
+        const isOfferedToOtherCourier =
+          !!delivery.dispatchOfferCourierId &&
+          delivery.dispatchOfferCourierId !== user.id &&
+          !!delivery.dispatchOfferExpiresAt &&
+          new Date(delivery.dispatchOfferExpiresAt).getTime() > now;
+        return !isOfferedToOtherCourier;
+      });
     }
-    return deliveries.filter((delivery) => delivery.status === "waiting");
+    return deliveries.filter((delivery) => delivery.status === "waiting" && !isHeldForSchedule(delivery));
   }, [deliveries, user]);
 
   return useMemo<DeliveryContextValue>(() => ({
     user,
     deliveries,
     allUsers,
+    managedUsers,
     isLoading,
     loginMutationStatus: loginStatus,
+    changePasswordMutationStatus: changePasswordStatus,
     createDeliveryMutationStatus: createDeliveryStatus,
     takeDeliveryMutationStatus: takeDeliveryStatus,
     pickupDeliveryMutationStatus: pickupDeliveryStatus,
     completeDeliveryMutationStatus: completeDeliveryStatus,
     confirmDeliveryMutationStatus: confirmDeliveryStatus,
     markReadyMutationStatus: markReadyStatus,
+    cancelDeliveryMutationStatus: cancelDeliveryStatus,
+    reportFailureMutationStatus: reportFailureStatus,
+    releaseDeliveryMutationStatus: releaseDeliveryStatus,
+    declineDispatchOfferMutationStatus: declineDispatchOfferStatus,
+    createDeliveryBatchMutationStatus: createDeliveryBatchStatus,
+    pickupBatchMutationStatus: pickupBatchStatus,
     managerUpdateDeliveryMutationStatus: managerUpdateDeliveryStatus,
     managerRegisterCourierMutationStatus,
     managerRegisterBusinessMutationStatus,
     managerRegisterManagerMutationStatus,
     managerUpdateUserMutationStatus,
     updateAvailabilityMutationStatus: updateAvailabilityStatus,
+    updateCustomerSmsSettingsMutationStatus: updateCustomerSmsSettingsStatus,
     login,
     logout,
+    changePassword,
     createDelivery,
     takeDelivery,
     pickupDelivery,
     completeDelivery,
     confirmDelivery,
     markReady,
+    cancelDelivery,
+    reportFailure,
+    releaseDelivery,
+    declineDispatchOffer,
+    createDeliveryBatch,
+    pickupBatch,
     managerUpdateDelivery,
     managerRegisterCourier,
     managerRegisterBusiness,
     managerRegisterManager,
     managerUpdateUser,
     updateAvailability,
+    updateCustomerSmsSettings,
+    lookupCustomer,
+    saveCustomer,
     getDeliveriesForUser,
     getAvailableDeliveries,
     dismissedDeliveryIds,
@@ -1028,18 +1607,34 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     clearBusinessCreationMessage,
     courierAssignmentMessage,
     clearCourierAssignmentMessage,
+    pendingSyncDeliveryIds,
     isImpersonating,
     originalManagerUser,
     impersonateUser,
     exitImpersonation,
   }), [
     allUsers,
+    managedUsers,
+    changePassword,
+    changePasswordStatus,
     completeDelivery,
     completeDeliveryStatus,
     confirmDelivery,
     confirmDeliveryStatus,
     markReady,
     markReadyStatus,
+    cancelDelivery,
+    cancelDeliveryStatus,
+    reportFailure,
+    reportFailureStatus,
+    releaseDelivery,
+    releaseDeliveryStatus,
+    declineDispatchOffer,
+    declineDispatchOfferStatus,
+    createDeliveryBatch,
+    createDeliveryBatchStatus,
+    pickupBatch,
+    pickupBatchStatus,
     createDelivery,
     createDeliveryStatus,
     deliveries,
@@ -1065,6 +1660,10 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     pickupDeliveryStatus,
     updateAvailability,
     updateAvailabilityStatus,
+    updateCustomerSmsSettings,
+    updateCustomerSmsSettingsStatus,
+    lookupCustomer,
+    saveCustomer,
     user,
     dismissedDeliveryIds,
     dismissDelivery,
@@ -1074,6 +1673,7 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
     clearBusinessCreationMessage,
     courierAssignmentMessage,
     clearCourierAssignmentMessage,
+    pendingSyncDeliveryIds,
     isImpersonating,
     originalManagerUser,
     impersonateUser,
@@ -1081,11 +1681,15 @@ const useDeliveryContextValue = (): DeliveryContextValue => {
   ]);
 };
 
-export function DeliveryProvider({ children }: { children: ReactNode }) {
-  const value = useDeliveryContextValue();
-  
-  useSupabaseRealtime();
-  
+export function DeliveryProvider({
+  children,
+  repository = dataRepository,
+}: {
+  children: ReactNode;
+  repository?: DataRepository;
+}) {
+  const value = useDeliveryContextValue(repository);
+
   return <DeliveryContext.Provider value={value}>{children}</DeliveryContext.Provider>;
 }
 
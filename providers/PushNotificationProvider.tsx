@@ -99,7 +99,8 @@ export function PushNotificationProvider({ children }: PushNotificationProviderP
   });
 
   const registerToken = useCallback(async () => {
-    if (!user || tokenRegistered.current) {
+    // Retried once the temporary password is replaced, since the server refuses everything else until then.
+    if (!user || user.mustChangePassword || tokenRegistered.current) {
       return;
     }
 
@@ -113,7 +114,6 @@ export function PushNotificationProvider({ children }: PushNotificationProviderP
     if (token) {
       console.log("[PUSH] Registering push token for user:", user.id);
       registerPushTokenMutation.mutate({
-        userId: user.id,
         pushToken: token,
       });
     }
@@ -13,11 +13,17 @@ export type CourierProfile = {
   isAvailable?: boolean;
   idNumber?: string;
   currentLocation?: CourierLocation;
+  releaseCount?: number;
 };
 
+export type CustomerMessageLanguage = "he" | "en";
+
 export type BusinessProfile = {
   address: string;
   email: string;
+  customerSmsEnabled?: boolean;
+  customerSmsLanguage?: CustomerMessageLanguage;
+  proofOfDeliveryRequired?: boolean;
 };
 
 export type User = {
@@ -30,9 +36,45 @@ export type User = {
   businessProfile?: BusinessProfile;
   email?: string;
   pushToken?: string;
+  mustChangePassword?: boolean;
+};
+
+// What the API sends about a user; the password hash never leaves the server.
+export type PublicUser = Omit<User, "password">;
+
+// Couriers and businesses only see who they are dealing with, not each other's accounts.
+export type UserDirectoryEntry = Pick<User, "id" | "name" | "phone" | "role"> & {
+  courierProfile?: Pick<CourierProfile, "vehicle">;
+  businessProfile?: Pick<BusinessProfile, "address" | "proofOfDeliveryRequired">;
 };
 
-export type DeliveryStatus = "waiting" | "taken" | "completed";
+export type UserDirectory = {
+  self: PublicUser;
+  users: UserDirectoryEntry[];
+};
+
+export type DeliveryStatus = "waiting" | "taken" | "completed" | "cancelled" | "failed";
+
+export type DeliveryCancellationReason =
+  | "customer_cancelled"
+  | "business_cancelled"
+  | "duplicate_order"
+  | "out_of_stock"
+  | "other";
+
+export type DeliveryFailureReason =
+  | "customer_unreachable"
+  | "wrong_address"
+  | "customer_refused"
+  | "damaged_order"
+  | "other";
+
+export type DeliveryReleaseReason =
+  | "vehicle_issue"
+  | "personal_emergency"
+  | "too_far"
+  | "long_wait"
+  | "other";
 
 export type Customer = {
   id: string;
@@ -47,6 +89,164 @@ export type Customer = {
   updatedAt?: string;
 };
 
+export type ProofOfDeliveryLocation = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+};
+
+// Photo and signature live in object storage; the delivery only keeps their keys.
+export type ProofOfDelivery = {
+  recipientName?: string;
+  photoKey?: string;
+  signatureKey?: string;
+  location?: ProofOfDeliveryLocation;
+  capturedAt: string;
+};
+
+// What the courier's device sends on completion. The signature is an SVG path drawn on a SIGNATURE_CANVAS sized pad.
+export type ProofOfDeliveryInput = {
+  recipientName?: string;
+  photoBase64?: string;
+  signaturePath?: string;
+  location?: ProofOfDeliveryLocation;
+  capturedAt?: string;
+};
+
+export type ProofOfDeliveryView = {
+  recipientName: string | null;
+  photoUri: string | null;
+  signatureSvg: string | null;
+  location: ProofOfDeliveryLocation | null;
+  capturedAt: string;
+};
+
+export type GeofenceStage = "pickup" | "dropoff";
+
+export type GeofenceResult = "inside" | "outside" | "unverified";
+
+// Recorded when the courier picks up or completes; "unverified" means there was no recent position to compare.
+export type GeofenceCheck = {
+  result: GeofenceResult;
+  distanceMeters?: number;
+  radiusMeters: number;
+  checkedAt: string;
+};
+
+export type GeofenceOverride = {
+  managerId: string;
+  reason: string;
+  createdAt: string;
+};
+
+export type SlaStage = "assignment" | "pickup" | "dropoff";
+
+// The steps an offline client may replay with the time they happened on the device.
+export type DeliveryReplayStep = "confirm" | "markReady" | "pickup" | "complete" | "fail" | "cancel";
+
+export type SlaState = "at_risk" | "breached";
+
+export type SlaAlert = {
+  deliveryId: string;
+  stage: SlaStage;
+  state: SlaState;
+  startedAt: string;
+  elapsedMinutes: number;
+  limitMinutes: number;
+};
+
+export type StatsGranularity = "hour" | "day" | "week" | "month";
+
+export type StatsPeriod = "daily" | "weekly" | "monthly" | "custom";
+
+// Durations are average minutes, or null when no delivery in the range reached that stage.
+export type DeliveryStatsSummary = {
+  total: number;
+  waiting: number;
+  taken: number;
+  completed: number;
+  cancelled: number;
+  failed: number;
+  completionRate: number;
+  revenue: number;
+  valueByStatus: Record<DeliveryStatus, number>;
+  avgPrepMinutes: number | null;
+  avgPickupMinutes: number | null;
+  avgDropoffMinutes: number | null;
+};
+
+export type DeliveryStatsPoint = {
+  startAt: string;
+  label: string;
+  count: number;
+  completed: number;
+  cancelled: number;
+  failed: number;
+  revenue: number;
+};
+
+export type DeliveryStatsBreakdownRow = DeliveryStatsSummary & {
+  id: string;
+};
+
+// Rates are 0-1 and averages are minutes; null means nothing in the range could be measured.
+export type CourierScorecardMetrics = {
+  accepted: number;
+  completed: number;
+  failed: number;
+  releases: number;
+  completionRate: number | null;
+  onTimeRate: number | null;
+  avgAcceptanceMinutes: number | null;
+  avgPickupWaitMinutes: number | null;
+  distanceKm: number;
+  activeHours: number;
+};
+
+export type CourierScorecardPoint = CourierScorecardMetrics & {
+  startAt: string;
+  label: string;
+};
+
+export type CourierScorecard = {
+  courierId: string;
+  metrics: CourierScorecardMetrics;
+  trend: CourierScorecardPoint[];
+};
+
+// Actual prep runs from creation until the business marks the order ready; idle time from the courier's arrival until pickup.
+export type KitchenMetrics = {
+  businessId: string;
+  measured: number;
+  avgPromisedPrepMinutes: number | null;
+  avgActualPrepMinutes: number | null;
+  avgPrepOverrunMinutes: number | null;
+  onTimeReadyRate: number | null;
+  avgCourierIdleMinutes: number | null;
+  totalCourierIdleMinutes: number;
+};
+
+export type PrepTimeSuggestionBasis = "hour" | "overall";
+
+export type PrepTimeSuggestion = {
+  minutes: number;
+  hour: number;
+  basis: PrepTimeSuggestionBasis;
+  sampleCount: number;
+};
+
+// "live" is measured from a fresh courier position; "planned" falls back to the courier's promise and average speed.
+export type DeliveryEtaSource = "live" | "planned";
+
+export type DeliveryEta = {
+  pickupAt?: string;
+  dropoffAt: string;
+  isLate: boolean;
+  source: DeliveryEtaSource;
+  speedKmh: number;
+  updatedAt: string;
+};
+
 export type Delivery = {
   id: string;
   businessId: string;
@@ -57,14 +257,215 @@ export type Delivery = {
   status: DeliveryStatus;
   createdAt: string;
   preparationTimeMinutes?: number;
+  scheduledFor?: string;
+  scheduledReleaseAt?: string;
   estimatedArrivalMinutes?: number;
   businessConfirmed?: boolean;
   confirmedAt?: string;
   businessReady?: boolean;
+  readyAt?: string;
+  acceptedAt?: string;
+  pickupArrivedAt?: string;
   pickedUpAt?: string;
   completedAt?: string;
   customerName: string;
   customerPhone: string;
   payment?: number;
   distanceKm?: number;
+  cancelledAt?: string;
+  cancellationReason?: DeliveryCancellationReason;
+  failedAt?: string;
+  failureReason?: DeliveryFailureReason;
+  statusNote?: string;
+  releasedAt?: string;
+  releasedBy?: string;
+  releaseReason?: DeliveryReleaseReason;
+  releaseNote?: string;
+  dispatchOfferCourierId?: string;
+  dispatchOfferExpiresAt?: string;
+  batchId?: string;
+  batchSequence?: number;
+  legDistanceKm?: number;
+  pricingBreakdown?: DeliveryPriceBreakdown;
+  settlementId?: string;
+  trackingToken?: string;
+  proofOfDelivery?: ProofOfDelivery;
+  pickupGeofence?: GeofenceCheck;
+  dropoffGeofence?: GeofenceCheck;
+  geofenceOverrides?: Partial<Record<GeofenceStage, GeofenceOverride>>;
+  eta?: DeliveryEta;
+  slaEscalations?: Partial<Record<SlaStage, string>>;
+  // When the server received each replayed step, kept next to the device time the step was dated with.
+  replayReceivedAt?: Partial<Record<DeliveryReplayStep, string>>;
+};
+
+export type DeliveryHistoryAction =
+  | "created"
+  | "confirmed"
+  | "ready"
+  | "taken"
+  | "picked_up"
+  | "completed"
+  | "cancelled"
+  | "failed"
+  | "released"
+  | "manager_edit";
+
+export type DeliveryFieldValue = string | number | boolean | null;
+
+export type DeliveryFieldChange = {
+  field: keyof Delivery;
+  previous: DeliveryFieldValue;
+  next: DeliveryFieldValue;
+};
+
+export type DeliveryHistoryEntry = {
+  id: string;
+  deliveryId: string;
+  action: DeliveryHistoryAction;
+  actorId: string;
+  actorRole: UserRole;
+  previousStatus: DeliveryStatus | null;
+  nextStatus: DeliveryStatus;
+  changedFields: DeliveryFieldChange[];
+  createdAt: string;
+};
+
+export type PricingDistanceBand = {
+  upToKm: number | null;
+  ratePerKm: number;
+};
+
+export type PricingRules = {
+  baseFee: number;
+  minimumFee: number;
+  distanceBands: PricingDistanceBand[];
+  nightSurcharge: number;
+  nightStartHour: number;
+  nightEndHour: number;
+  weekendSurcharge: number;
+  weekendDays: number[];
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+export type BusinessPricingOverride = {
+  businessId: string;
+  baseFee?: number;
+  ratePerKm?: number;
+  flatFee?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+export type DeliveryPriceBreakdown = {
+  baseFee: number;
+  distanceFee: number;
+  nightSurcharge: number;
+  weekendSurcharge: number;
+  // What was added to reach the minimum fee; absent on snapshots taken before it was recorded.
+  minimumFeeTopUp?: number;
+  total: number;
+  distanceKm: number | null;
+  overrideApplied: boolean;
+  calculatedAt: string;
+};
+
+export type CourierSettlementStatus = "unpaid" | "paid";
+
+export type CourierSettlementAdjustment = {
+  label: string;
+  amount: number;
+};
+
+export type CourierSettlement = {
+  id: string;
+  courierId: string;
+  periodStart: string;
+  periodEnd: string;
+  deliveryIds: string[];
+  deliveryCount: number;
+  totalDistanceKm: number;
+  deliveriesTotal: number;
+  bonuses: CourierSettlementAdjustment[];
+  deductions: CourierSettlementAdjustment[];
+  total: number;
+  status: CourierSettlementStatus;
+  createdAt: string;
+  createdBy: string;
+  paidAt?: string;
+  paidBy?: string;
+};
+
+export type BusinessInvoiceLineItem = {
+  deliveryId: string;
+  date: string;
+  customerName: string;
+  dropoffAddress: string;
+  distanceKm: number | null;
+  fee: number;
+  vat: number;
+  total: number;
+};
+
+export type BusinessInvoice = {
+  id: string;
+  invoiceNumber: number;
+  businessId: string;
+  businessName: string;
+  periodStart: string;
+  periodEnd: string;
+  lineItems: BusinessInvoiceLineItem[];
+  subtotal: number;
+  vatRate: number;
+  vatAmount: number;
+  total: number;
+  createdAt: string;
+  createdBy: string;
+};
+
+export type DeliveryTemplateFrequency = "daily" | "weekdays" | "custom";
+
+// Days are 0 (Sunday) to 6 (Saturday) and the time of day is HH:MM in Israel time.
+export type DeliveryTemplateRecurrence = {
+  frequency: DeliveryTemplateFrequency;
+  daysOfWeek: number[];
+  timeOfDay: string;
+};
+
+export type DeliveryTemplate = {
+  id: string;
+  businessId: string;
+  name: string;
+  customerName: string;
+  customerPhone: string;
+  dropoffAddress: string;
+  notes: string;
+  preparationTimeMinutes: number;
+  recurrence: DeliveryTemplateRecurrence;
+  isPaused: boolean;
+  skippedDates: string[];
+  lastOccurrenceDate?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CustomerNotificationKind = "picked_up" | "courier_nearby";
+
+export type CustomerNotificationStatus = "sent" | "failed";
+
+export type CustomerNotification = {
+  id: string;
+  deliveryId: string;
+  businessId: string;
+  kind: CustomerNotificationKind;
+  channel: "sms";
+  provider: string;
+  recipient: string;
+  language: CustomerMessageLanguage;
+  body: string;
+  status: CustomerNotificationStatus;
+  error?: string;
+  providerMessageId?: string;
+  createdAt: string;
 };
@@ -7,7 +7,10 @@ export type Json =
   | Json[];
 
 export type UserRole = "business" | "courier" | "manager";
-export type DeliveryStatus = "waiting" | "taken" | "completed";
+export type DeliveryStatus = "waiting" | "taken" | "completed" | "cancelled" | "failed";
+export type DeliveryCancellationReason = "customer_cancelled" | "business_cancelled" | "duplicate_order" | "out_of_stock" | "other";
+export type DeliveryFailureReason = "customer_unreachable" | "wrong_address" | "customer_refused" | "damaged_order" | "other";
+export type DeliveryReleaseReason = "vehicle_issue" | "personal_emergency" | "too_far" | "long_wait" | "other";
 
 export interface Database {
   public: {
@@ -21,6 +24,7 @@ export interface Database {
           role: UserRole;
           email: string | null;
           push_token: string | null;
+          must_change_password: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -32,6 +36,7 @@ export interface Database {
           role: UserRole;
           email?: string | null;
           push_token?: string | null;
+          must_change_password?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -43,6 +48,7 @@ export interface Database {
           role?: UserRole;
           email?: string | null;
           push_token?: string | null;
+          must_change_password?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -55,6 +61,7 @@ export interface Database {
           email: string;
           vehicle: string;
           is_available: boolean;
+          release_count: number;
           created_at: string;
           updated_at: string;
         };
@@ -65,6 +72,7 @@ export interface Database {
           email: string;
           vehicle: string;
           is_available?: boolean;
+          release_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -75,6 +83,7 @@ export interface Database {
           email?: string;
           vehicle?: string;
           is_available?: boolean;
+          release_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -85,6 +94,9 @@ export interface Database {
           user_id: string;
           address: string;
           email: string;
+          customer_sms_enabled: boolean;
+          customer_sms_language: string;
+          proof_of_delivery_required: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -93,6 +105,9 @@ export interface Database {
           user_id: string;
           address: string;
           email: string;
+          customer_sms_enabled?: boolean;
+          customer_sms_language?: string;
+          proof_of_delivery_required?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -101,6 +116,9 @@ export interface Database {
           user_id?: string;
           address?: string;
           email?: string;
+          customer_sms_enabled?: boolean;
+          customer_sms_language?: string;
+          proof_of_delivery_required?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -117,16 +135,44 @@ export interface Database {
           created_at: string;
           updated_at: string;
           preparation_time_minutes: number | null;
+          scheduled_for: string | null;
+          scheduled_release_at: string | null;
           estimated_arrival_minutes: number | null;
           business_confirmed: boolean;
           confirmed_at: string | null;
           business_ready: boolean;
+          ready_at: string | null;
+          accepted_at: string | null;
+          pickup_arrived_at: string | null;
           picked_up_at: string | null;
           completed_at: string | null;
           customer_name: string;
           customer_phone: string;
           payment: number | null;
           distance_km: number | null;
+          cancelled_at: string | null;
+          cancellation_reason: DeliveryCancellationReason | null;
+          failed_at: string | null;
+          failure_reason: DeliveryFailureReason | null;
+          status_note: string | null;
+          released_at: string | null;
+          released_by: string | null;
+          release_reason: DeliveryReleaseReason | null;
+          release_note: string | null;
+          dispatch_offer_courier_id: string | null;
+          dispatch_offer_expires_at: string | null;
+          batch_id: string | null;
+          batch_sequence: number | null;
+          leg_distance_km: number | null;
+          pricing_breakdown: Json | null;
+          settlement_id: string | null;
+          tracking_token: string | null;
+          proof_of_delivery: Json | null;
+          pickup_geofence: Json | null;
+          dropoff_geofence: Json | null;
+          geofence_overrides: Json | null;
+          eta: Json | null;
+          sla_escalations: Json | null;
         };
         Insert: {
           id?: string;
@@ -139,16 +185,44 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           preparation_time_minutes?: number | null;
+          scheduled_for?: string | null;
+          scheduled_release_at?: string | null;
           estimated_arrival_minutes?: number | null;
           business_confirmed?: boolean;
           confirmed_at?: string | null;
           business_ready?: boolean;
+          ready_at?: string | null;
+          accepted_at?: string | null;
+          pickup_arrived_at?: string | null;
           picked_up_at?: string | null;
           completed_at?: string | null;
           customer_name: string;
           customer_phone: string;
           payment?: number | null;
           distance_km?: number | null;
+          cancelled_at?: string | null;
+          cancellation_reason?: DeliveryCancellationReason | null;
+          failed_at?: string | null;
+          failure_reason?: DeliveryFailureReason | null;
+          status_note?: string | null;
+          released_at?: string | null;
+          released_by?: string | null;
+          release_reason?: DeliveryReleaseReason | null;
+          release_note?: string | null;
+          dispatch_offer_courier_id?: string | null;
+          dispatch_offer_expires_at?: string | null;
+          batch_id?: string | null;
+          batch_sequence?: number | null;
+          leg_distance_km?: number | null;
+          pricing_breakdown?: Json | null;
+          settlement_id?: string | null;
+          tracking_token?: string | null;
+          proof_of_delivery?: Json | null;
+          pickup_geofence?: Json | null;
+          dropoff_geofence?: Json | null;
+          geofence_overrides?: Json | null;
+          eta?: Json | null;
+          sla_escalations?: Json | null;
         };
         Update: {
           id?: string;
@@ -161,18 +235,292 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
           preparation_time_minutes?: number | null;
+          scheduled_for?: string | null;
+          scheduled_release_at?: string | null;
           estimated_arrival_minutes?: number | null;
           business_confirmed?: boolean;
           confirmed_at?: string | null;
           business_ready?: boolean;
+          ready_at?: string | null;
+          accepted_at?: string | null;
+          pickup_arrived_at?: string | null;
           picked_up_at?: string | null;
           completed_at?: string | null;
           customer_name?: string;
           customer_phone?: string;
           payment?: number | null;
           distance_km?: number | null;
+          cancelled_at?: string | null;
+          cancellation_reason?: DeliveryCancellationReason | null;
+          failed_at?: string | null;
+          failure_reason?: DeliveryFailureReason | null;
+          status_note?: string | null;
+          released_at?: string | null;
+          released_by?: string | null;
+          release_reason?: DeliveryReleaseReason | null;
+          release_note?: string | null;
+          dispatch_offer_courier_id?: string | null;
+          dispatch_offer_expires_at?: string | null;
+          batch_id?: string | null;
+          batch_sequence?: number | null;
+          leg_distance_km?: number | null;
+          pricing_breakdown?: Json | null;
+          settlement_id?: string | null;
+          tracking_token?: string | null;
+          proof_of_delivery?: Json | null;
+          pickup_geofence?: Json | null;
+          dropoff_geofence?: Json | null;
+          geofence_overrides?: Json | null;
+          eta?: Json | null;
+          sla_escalations?: Json | null;
         };
       };
+      delivery_status_history: {
+        Row: {
+          id: string;
+          delivery_id: string;
+          action: string;
+          actor_id: string;
+          actor_role: UserRole;
+          previous_status: DeliveryStatus | null;
+          next_status: DeliveryStatus;
+          changed_fields: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          delivery_id: string;
+          action: string;
+          actor_id: string;
+          actor_role: UserRole;
+          previous_status?: DeliveryStatus | null;
+          next_status: DeliveryStatus;
+          changed_fields?: Json;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      pricing_rules: {
+        Row: {
+          id: string;
+          base_fee: number;
+          minimum_fee: number;
+          distance_bands: Json;
+          night_surcharge: number;
+          night_start_hour: number;
+          night_end_hour: number;
+          weekend_surcharge: number;
+          weekend_days: number[];
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          base_fee?: number;
+          minimum_fee?: number;
+          distance_bands?: Json;
+          night_surcharge?: number;
+          night_start_hour?: number;
+          night_end_hour?: number;
+          weekend_surcharge?: number;
+          weekend_days?: number[];
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          base_fee?: number;
+          minimum_fee?: number;
+          distance_bands?: Json;
+          night_surcharge?: number;
+          night_start_hour?: number;
+          night_end_hour?: number;
+          weekend_surcharge?: number;
+          weekend_days?: number[];
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+      };
+      business_pricing_overrides: {
+        Row: {
+          business_id: string;
+          base_fee: number | null;
+          rate_per_km: number | null;
+          flat_fee: number | null;
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          business_id: string;
+          base_fee?: number | null;
+          rate_per_km?: number | null;
+          flat_fee?: number | null;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          base_fee?: number | null;
+          rate_per_km?: number | null;
+          flat_fee?: number | null;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+      };
+      courier_settlements: {
+        Row: {
+          id: string;
+          courier_id: string;
+          period_start: string;
+          period_end: string;
+          delivery_ids: string[];
+          delivery_count: number;
+          total_distance_km: number;
+          deliveries_total: number;
+          bonuses: Json;
+          deductions: Json;
+          total: number;
+          status: string;
+          created_by: string;
+          created_at: string;
+          paid_by: string | null;
+          paid_at: string | null;
+        };
+        Insert: {
+          id: string;
+          courier_id: string;
+          period_start: string;
+          period_end: string;
+          delivery_ids?: string[];
+          delivery_count?: number;
+          total_distance_km?: number;
+          deliveries_total?: number;
+          bonuses?: Json;
+          deductions?: Json;
+          total: number;
+          status?: string;
+          created_by: string;
+          created_at?: string;
+          paid_by?: string | null;
+          paid_at?: string | null;
+        };
+        Update: {
+          status?: string;
+          paid_by?: string | null;
+          paid_at?: string | null;
+        };
+      };
+      business_invoices: {
+        Row: {
+          id: string;
+          invoice_number: number;
+          business_id: string;
+          business_name: string;
+          period_start: string;
+          period_end: string;
+          line_items: Json;
+          subtotal: number;
+          vat_rate: number;
+          vat_amount: number;
+          total: number;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          invoice_number: number;
+          business_id: string;
+          business_name: string;
+          period_start: string;
+          period_end: string;
+          line_items?: Json;
+          subtotal: number;
+          vat_rate: number;
+          vat_amount: number;
+          total: number;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      delivery_templates: {
+        Row: {
+          id: string;
+          business_id: string;
+          name: string;
+          customer_name: string;
+          customer_phone: string;
+          dropoff_address: string;
+          notes: string | null;
+          preparation_time_minutes: number;
+          recurrence: Json;
+          is_paused: boolean;
+          skipped_dates: string[];
+          last_occurrence_date: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          business_id: string;
+          name: string;
+          customer_name: string;
+          customer_phone: string;
+          dropoff_address: string;
+          notes?: string | null;
+          preparation_time_minutes: number;
+          recurrence: Json;
+          is_paused?: boolean;
+          skipped_dates?: string[];
+          last_occurrence_date?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          customer_name?: string;
+          customer_phone?: string;
+          dropoff_address?: string;
+          notes?: string | null;
+          preparation_time_minutes?: number;
+          recurrence?: Json;
+          is_paused?: boolean;
+          skipped_dates?: string[];
+          last_occurrence_date?: string | null;
+          updated_at?: string;
+        };
+      };
+      customer_notifications: {
+        Row: {
+          id: string;
+          delivery_id: string;
+          business_id: string;
+          kind: string;
+          channel: string;
+          provider: string;
+          recipient: string;
+          language: string;
+          body: string;
+          status: string;
+          error: string | null;
+          provider_message_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          delivery_id: string;
+          business_id: string;
+          kind: string;
+          channel?: string;
+          provider: string;
+          recipient: string;
+          language: string;
+          body: string;
+          status: string;
+          error?: string | null;
+          provider_message_id?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
     };
     Views: {
       [_ in never]: never;
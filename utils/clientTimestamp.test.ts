@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../types/models";
+import { getCompletionRecordedAt, MAX_REPLAY_AGE_MS, resolveClientTimestamp } from "./clientTimestamp";
+
+const MINUTE_MS = 60 * 1000;
+
+const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+describe("resolveClientTimestamp", () => {
+  test("keeps a device time that falls within the bounds", () => {
+    const occurredAt = ago(30 * MINUTE_MS);
+
+    assert.equal(resolveClientTimestamp(occurredAt, ago(45 * MINUTE_MS)), occurredAt);
+  });
+
+  test("never dates a step in the future", () => {
+    const resolved = new Date(resolveClientTimestamp(new Date(Date.now() + 60 * MINUTE_MS).toISOString())).getTime();
+
+    assert.ok(resolved <= Date.now());
+  });
+
+  test("never dates a step before the previous one", () => {
+    const previousStep = ago(10 * MINUTE_MS);
+
+    assert.equal(resolveClientTimestamp(ago(20 * MINUTE_MS), previousStep), previousStep);
+  });
+
+  test("clamps a device time older than the replay window", () => {
+    const before = Date.now();
+    const resolved = new Date(resolveClientTimestamp(ago(3 * MAX_REPLAY_AGE_MS), ago(4 * MAX_REPLAY_AGE_MS))).getTime();
+
+    assert.ok(resolved >= before - MAX_REPLAY_AGE_MS);
+    assert.ok(resolved <= Date.now() - MAX_REPLAY_AGE_MS);
+  });
+});
+
+describe("getCompletionRecordedAt", () => {
+  const completed: Delivery = {
+    id: "delivery-1",
+    businessId: "business-1",
+    courierId: "courier-1",
+    pickupAddress: "הרצל 1, תל אביב",
+    dropoffAddress: "דיזנגוף 50, תל אביב",
+    notes: "",
+    status: "completed",
+    createdAt: "2026-03-31T18:00:00.000Z",
+    completedAt: "2026-03-31T20:30:00.000Z",
+    customerName: "לקוח",
+    customerPhone: "0500000000",
+  };
+
+  test("uses the completion time of a live completion", () => {
+    assert.equal(getCompletionRecordedAt(completed), "2026-03-31T20:30:00.000Z");
+  });
+
+  test("uses the time the server received a replayed completion", () => {
+    const replayed = { ...completed, replayReceivedAt: { complete: "2026-04-01T05:00:00.000Z" } };
+
+    assert.equal(getCompletionRecordedAt(replayed), "2026-04-01T05:00:00.000Z");
+  });
+});
@@ -0,0 +1,26 @@
+import { Delivery } from "../types/models";
+
+// Queued actions older than this are still applied, but dated no earlier than this far back.
+export const MAX_REPLAY_AGE_MS = 6 * 60 * 60 * 1000;
+
+// Actions replayed from an offline client carry the time they happened on the device.
+// The value is trusted only within bounds: never in the future, never older than MAX_REPLAY_AGE_MS and never
+// before the previous step.
+export function resolveClientTimestamp(occurredAt: string | undefined, notBefore?: string | null): string {
+  const now = Date.now();
+  const requested = occurredAt ? new Date(occurredAt).getTime() : Number.NaN;
+  if (Number.isNaN(requested) || requested > now) {
+    return new Date(now).toISOString();
+  }
+  const previousStep = notBefore ? new Date(notBefore).getTime() : Number.NaN;
+  const lowerBound = Math.max(now - MAX_REPLAY_AGE_MS, Number.isNaN(previousStep) ? 0 : previousStep);
+  if (requested < lowerBound) {
+    return new Date(Math.min(lowerBound, now)).toISOString();
+  }
+  return new Date(requested).toISOString();
+}
+
+// Pay and invoice periods take a completion by when the server learnt of it, so a replay dated by the device
+// cannot land in a period that was already closed.
+export const getCompletionRecordedAt = (delivery: Delivery): string =>
+  delivery.replayReceivedAt?.complete ?? delivery.completedAt ?? delivery.createdAt;
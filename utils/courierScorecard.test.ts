@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../types/models";
+import { buildCourierScorecardTrend, computeCourierScorecardMetrics } from "./courierScorecard";
+
+const LEAD_MINUTES = 30;
+const START = Date.parse("2026-03-10T10:00:00.000Z");
+
+const at = (minutes: number) => new Date(START + minutes * 60 * 1000).toISOString();
+
+const delivery = (id: string, overrides: Partial<Delivery>): Delivery => ({
+  id,
+  businessId: "business-1",
+  courierId: "courier-1",
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "completed",
+  createdAt: at(0),
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  ...overrides,
+});
+
+const shift = [
+  // Collected within the promise.
+  delivery("on-time", {
+    acceptedAt: at(4),
+    confirmedAt: at(5),
+    estimatedArrivalMinutes: 10,
+    readyAt: at(12),
+    pickedUpAt: at(18),
+    completedAt: at(40),
+    distanceKm: 4,
+  }),
+  // Past the promise, but promptly once the late kitchen was ready; a batched stop only adds its leg.
+  delivery("late-kitchen", {
+    createdAt: at(10),
+    acceptedAt: at(12),
+    confirmedAt: at(13),
+    estimatedArrivalMinutes: 10,
+    readyAt: at(35),
+    pickedUpAt: at(38),
+    completedAt: at(55),
+    batchId: "batch-1",
+    distanceKm: 5,
+    legDistanceKm: 1.5,
+  }),
+  delivery("late-courier", {
+    status: "failed",
+    createdAt: at(60),
+    acceptedAt: at(66),
+    confirmedAt: at(66),
+    estimatedArrivalMinutes: 5,
+    readyAt: at(70),
+    pickedUpAt: at(80),
+    failedAt: at(90),
+    distanceKm: 3,
+  }),
+  // Assigned by a manager, so there is no acceptance to time.
+  delivery("assigned", { status: "taken", createdAt: at(100) }),
+  delivery("released", { status: "waiting", courierId: null, releasedBy: "courier-1", releasedAt: at(30) }),
+  delivery("other-courier", { courierId: "courier-2", acceptedAt: at(1) }),
+];
+
+describe("computeCourierScorecardMetrics", () => {
+  test("scores a courier's shift", () => {
+    assert.deepEqual(computeCourierScorecardMetrics(shift, "courier-1", LEAD_MINUTES), {
+      accepted: 4,
+      completed: 2,
+      failed: 1,
+      releases: 1,
+      // A release counts against completion like a failure does.
+      completionRate: 0.5,
+      onTimeRate: 2 / 3,
+      avgAcceptanceMinutes: 4,
+      avgPickupWaitMinutes: 6.3,
+      distanceKm: 8.5,
+      // The overlapping first two runs count once: 51 minutes, plus 24 for the third.
+      activeHours: 1.3,
+    });
+  });
+
+  test("times acceptance from when the delivery last opened to couriers", () => {
+    const reopened = delivery("reopened", { releasedAt: at(20), acceptedAt: at(23) });
+    const preOrder = delivery("pre-order", { scheduledFor: at(120), acceptedAt: at(91) });
+
+    const metrics = computeCourierScorecardMetrics([reopened, preOrder], "courier-1", LEAD_MINUTES);
+
+    assert.equal(metrics.avgAcceptanceMinutes, 2);
+  });
+
+  test("leaves rates empty when there is nothing to rate", () => {
+    const metrics = computeCourierScorecardMetrics([], "courier-1", LEAD_MINUTES);
+
+    assert.equal(metrics.completionRate, null);
+    assert.equal(metrics.onTimeRate, null);
+    assert.equal(metrics.avgAcceptanceMinutes, null);
+  });
+});
+
+describe("buildCourierScorecardTrend", () => {
+  test("scores each Israeli day on its own", () => {
+    // 00:30 on 11 March in Israel, still the 10th in UTC.
+    const nextDay = delivery("next-day", { createdAt: "2026-03-10T22:30:00.000Z" });
+    const interval = { from: Date.parse("2026-03-09T22:00:00.000Z"), to: Date.parse("2026-03-11T22:00:00.000Z") };
+
+    const trend = buildCourierScorecardTrend([...shift, nextDay], "courier-1", interval, "day", LEAD_MINUTES);
+
+    assert.deepEqual(
+      trend.map((point) => [point.label, point.accepted, point.completed]),
+      [
+        ["10/03", 4, 2],
+        ["11/03", 1, 1],
+      ],
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { CourierScorecardMetrics, CourierScorecardPoint, Delivery, StatsGranularity } from "../types/models";
+import { average, formatBucketLabel, getBucketStart, getNextBucketStart, minutesBetween, StatsInterval } from "./deliveryStats";
+import { ETA_LATE_GRACE_MINUTES, getPromisedPickupAt } from "./eta";
+import { getScheduledReleaseAt } from "./scheduling";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const toTime = (value?: string) => (value ? new Date(value).getTime() : Number.NaN);
+
+const roundTenth = (value: number) => Math.round(value * 10) / 10;
+
+// A delivery opens to couriers when it is created, when a pre-order is released, or when the previous courier gives it back.
+const getOpenedAt = (delivery: Delivery, scheduleLeadMinutes: number): number => {
+  const acceptedAt = toTime(delivery.acceptedAt);
+  const candidates = [toTime(delivery.createdAt)];
+  if (delivery.scheduledFor) {
+    candidates.push(toTime(getScheduledReleaseAt(delivery.scheduledFor, scheduleLeadMinutes)));
+  }
+  if (delivery.releasedAt && toTime(delivery.releasedAt) <= acceptedAt) {
+    candidates.push(toTime(delivery.releasedAt));
+  }
+  return Math.max(...candidates.filter((time) => !Number.isNaN(time)));
+};
+
+const getAcceptanceMinutes = (delivery: Delivery, scheduleLeadMinutes: number): number | null => {
+  if (!delivery.acceptedAt) {
+    return null;
+  }
+  const minutes = (toTime(delivery.acceptedAt) - getOpenedAt(delivery, scheduleLeadMinutes)) / MINUTE_MS;
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+};
+
+// The courier is on time when they collected by their promise, or promptly once a late kitchen had the order ready.
+const isPickedUpOnTime = (delivery: Delivery): boolean | null => {
+  const promisedAt = getPromisedPickupAt(delivery);
+  const pickedUpAt = toTime(delivery.pickedUpAt);
+  if (promisedAt === null || Number.isNaN(pickedUpAt)) {
+    return null;
+  }
+  const readyAt = toTime(delivery.readyAt);
+  const deadline = Math.max(promisedAt, Number.isNaN(readyAt) ? 0 : readyAt) + ETA_LATE_GRACE_MINUTES * MINUTE_MS;
+  return pickedUpAt <= deadline;
+};
+
+// Batched stops only add the leg from the previous stop.
+const getDrivenKm = (delivery: Delivery): number =>
+  (delivery.batchId ? delivery.legDistanceKm ?? delivery.distanceKm : delivery.distanceKm) ?? 0;
+
+// Overlapping deliveries (batches, stacked orders) count once towards the time the courier was busy.
+const sumBusyHours = (intervals: [number, number][]): number => {
+  const sorted = intervals.filter(([start, end]) => end > start).sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const [start, end] of sorted) {
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+      continue;
+    }
+    if (current) {
+      total += current[1] - current[0];
+    }
+    current = [start, end];
+  }
+  if (current) {
+    total += current[1] - current[0];
+  }
+  return roundTenth(total / HOUR_MS);
+};
+
+export function computeCourierScorecardMetrics(
+  deliveries: Delivery[],
+  courierId: string,
+  scheduleLeadMinutes: number,
+): CourierScorecardMetrics {
+  const held = deliveries.filter((delivery) => delivery.courierId === courierId && delivery.status !== "waiting");
+  const releases = deliveries.filter((delivery) => delivery.releasedBy === courierId).length;
+  const completed = held.filter((delivery) => delivery.status === "completed");
+  const failed = held.filter((delivery) => delivery.status === "failed").length;
+  const driven = held.filter(
+    (delivery) => delivery.pickedUpAt && (delivery.status === "completed" || delivery.status === "failed"),
+  );
+  const onTimeChecks = held.map(isPickedUpOnTime).filter((check): check is boolean => check !== null);
+  const closedCount = completed.length + failed + releases;
+
+  return {
+    accepted: held.length,
+    completed: completed.length,
+    failed,
+    releases,
+    completionRate: closedCount > 0 ? completed.length / closedCount : null,
+    onTimeRate: onTimeChecks.length > 0 ? onTimeChecks.filter(Boolean).length / onTimeChecks.length : null,
+    // Manager assignments carry no acceptedAt, so only deliveries the courier took themselves are timed.
+    avgAcceptanceMinutes: average(held.map((delivery) => getAcceptanceMinutes(delivery, scheduleLeadMinutes))),
+    avgPickupWaitMinutes: average(held.map((delivery) => minutesBetween(delivery.readyAt, delivery.pickedUpAt))),
+    distanceKm: roundTenth(driven.reduce((sum, delivery) => sum + getDrivenKm(delivery), 0)),
+    activeHours: sumBusyHours(
+      driven.map((delivery) => [
+        toTime(delivery.acceptedAt ?? delivery.confirmedAt ?? delivery.pickedUpAt),
+        toTime(delivery.completedAt ?? delivery.failedAt),
+      ]),
+    ),
+  };
+}
+
+export function buildCourierScorecardTrend(
+  deliveries: Delivery[],
+  courierId: string,
+  interval: Required<StatsInterval>,
+  granularity: StatsGranularity,
+  scheduleLeadMinutes: number,
+): CourierScorecardPoint[] {
+  const buckets = new Map<number, Delivery[]>();
+  for (let cursor = getBucketStart(interval.from, granularity); cursor < interval.to; cursor = getNextBucketStart(cursor, granularity)) {
+    buckets.set(cursor, []);
+  }
+  deliveries.forEach((delivery) => {
+    const createdAt = toTime(delivery.createdAt);
+    if (createdAt >= interval.from && createdAt < interval.to) {
+      buckets.get(getBucketStart(createdAt, granularity))?.push(delivery);
+    }
+  });
+  return Array.from(buckets.entries()).map(([startAt, bucketDeliveries]) => ({
+    startAt: new Date(startAt).toISOString(),
+    label: formatBucketLabel(startAt, granularity),
+    ...computeCourierScorecardMetrics(bucketDeliveries, courierId, scheduleLeadMinutes),
+  }));
+}
@@ -0,0 +1,32 @@
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const toDateInput = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Date inputs are whole local days; pass addDays = 1 to turn an inclusive end day into an exclusive bound.
+export const parseDateInput = (value: string, addDays = 0): string | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + addDays);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const toTimeInput = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Combines a YYYY-MM-DD day and an HH:MM time, both in the device's local time zone.
+export const parseDateTimeInput = (dateValue: string, timeValue: string): string | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateValue.trim());
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec(timeValue.trim());
+  if (!dateMatch || !timeMatch || Number(timeMatch[1]) > 23 || Number(timeMatch[2]) > 59) {
+    return null;
+  }
+  const date = new Date(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2]),
+  );
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
@@ -0,0 +1,103 @@
+import { Delivery, User } from "../types/models";
+import { calculateAerialDistance, Coordinates, parseAddressCoordinates } from "./distanceCalculator";
+
+export const MAX_BATCH_SIZE = 4;
+
+export type BatchLeg = {
+  deliveryId: string;
+  sequence: number;
+  legDistanceKm: number | null;
+};
+
+export function isBatchable(delivery: Delivery): boolean {
+  return delivery.status === "taken" && !!delivery.courierId && !delivery.pickedUpAt && !delivery.batchId;
+}
+
+export function findBatchableDeliveries(deliveries: Delivery[], anchor: Delivery): Delivery[] {
+  if (!isBatchable(anchor)) {
+    return [];
+  }
+  return deliveries.filter(
+    (delivery) =>
+      isBatchable(delivery) &&
+      delivery.courierId === anchor.courierId &&
+      delivery.businessId === anchor.businessId &&
+      delivery.pickupAddress.trim() === anchor.pickupAddress.trim(),
+  );
+}
+
+export function getBatchSelectionError(deliveries: Delivery[], actor: User): string | null {
+  if (actor.role !== "courier" && actor.role !== "manager") {
+    return "רק שליחים ומנהלים יכולים לאחד משלוחים למסלול";
+  }
+  if (deliveries.length < 2) {
+    return "יש לבחור לפחות שני משלוחים לאיחוד";
+  }
+  if (deliveries.length > MAX_BATCH_SIZE) {
+    return `ניתן לאחד עד ${MAX_BATCH_SIZE} משלוחים במסלול אחד`;
+  }
+  const [anchor] = deliveries;
+  if (actor.role === "courier" && anchor.courierId !== actor.id) {
+    return "ניתן לאחד רק משלוחים שלקחת";
+  }
+  if (!deliveries.every(isBatchable)) {
+    return "ניתן לאחד רק משלוחים פעילים שטרם נאספו ואינם משויכים למסלול";
+  }
+  const batchable = findBatchableDeliveries(deliveries, anchor);
+  if (batchable.length !== deliveries.length) {
+    return "כל המשלוחים במסלול חייבים להיות של אותו שליח ומאותה כתובת איסוף";
+  }
+  return null;
+}
+
+export function suggestDropoffOrder(pickupAddress: string, deliveries: Delivery[]): BatchLeg[] {
+  const remaining = deliveries.map((delivery) => ({
+    delivery,
+    coords: parseAddressCoordinates(delivery.dropoffAddress),
+  }));
+  const legs: BatchLeg[] = [];
+  let position: Coordinates | null = parseAddressCoordinates(pickupAddress);
+
+  while (remaining.length > 0) {
+    let nextIndex = 0;
+    let nextDistance: number | null = null;
+
+    if (position) {
+      for (let index = 0; index < remaining.length; index += 1) {
+        const candidate = remaining[index].coords;
+        if (!candidate) {
+          continue;
+        }
+        const distance = calculateAerialDistance(position, candidate);
+        if (nextDistance === null || distance < nextDistance) {
+          nextDistance = distance;
+          nextIndex = index;
+        }
+      }
+    }
+
+    const [next] = remaining.splice(nextIndex, 1);
+    legs.push({
+      deliveryId: next.delivery.id,
+      sequence: legs.length + 1,
+      legDistanceKm: nextDistance,
+    });
+    position = next.coords;
+  }
+
+  return legs;
+}
+
+export function groupDeliveriesByBatch(deliveries: Delivery[]): Map<string, Delivery[]> {
+  const batches = new Map<string, Delivery[]>();
+  deliveries.forEach((delivery) => {
+    if (!delivery.batchId) {
+      return;
+    }
+    const legs = batches.get(delivery.batchId) ?? [];
+    legs.push(delivery);
+    batches.set(delivery.batchId, legs);
+  });
+  batches.forEach((legs) => legs.sort((a, b) => (a.batchSequence ?? 0) - (b.batchSequence ?? 0)));
+  return batches;
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { createFakeRepository } from "../mocks/dataRepository";
+import { Delivery } from "../types/models";
+import { applyOutboxEntry, OutboxAction, OutboxEntry, replayOutboxEntry, resolveOutboxEntry } from "./deliveryOutbox";
+
+const takenDelivery = (): Delivery => ({
+  id: "delivery-1",
+  businessId: "business-1",
+  courierId: "courier-1",
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "taken",
+  createdAt: "2026-03-02T12:00:00.000Z",
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  acceptedAt: "2026-03-02T12:05:00.000Z",
+  businessConfirmed: true,
+  businessReady: true,
+});
+
+const entry = (userId: string, action: OutboxAction): OutboxEntry => ({
+  ...action,
+  id: "outbox-1",
+  userId,
+  clientTimestamp: "2026-03-02T12:20:00.000Z",
+  attempts: 0,
+});
+
+describe("resolveOutboxEntry", () => {
+  test("replays a courier pickup that is still pending on the server", () => {
+    const pickup = entry("courier-1", { kind: "pickup", deliveryId: "delivery-1" });
+
+    assert.deepEqual(resolveOutboxEntry(pickup, takenDelivery()), { outcome: "replay" });
+  });
+
+  test("skips a pickup the server already recorded", () => {
+    const pickup = entry("courier-1", { kind: "pickup", deliveryId: "delivery-1" });
+    const delivery = { ...takenDelivery(), pickedUpAt: "2026-03-02T12:18:00.000Z" };
+
+    assert.deepEqual(resolveOutboxEntry(pickup, delivery), { outcome: "skip" });
+  });
+
+  test("reports a conflict when the delivery moved to another courier", () => {
+    const pickup = entry("courier-1", { kind: "pickup", deliveryId: "delivery-1" });
+    const delivery = { ...takenDelivery(), courierId: "courier-2" };
+
+    assert.equal(resolveOutboxEntry(pickup, delivery).outcome, "conflict");
+  });
+
+  test("reports a conflict when a business cancels after the courier picked up", () => {
+    const cancel = entry("business-1", { kind: "cancel", deliveryId: "delivery-1", reason: "customer_cancelled" });
+    const delivery = { ...takenDelivery(), pickedUpAt: "2026-03-02T12:18:00.000Z" };
+
+    assert.equal(resolveOutboxEntry(cancel, delivery).outcome, "conflict");
+  });
+});
+
+describe("applyOutboxEntry", () => {
+  test("applies a queued failure report with its reason and trimmed note", () => {
+    const report = entry("courier-1", {
+      kind: "reportFailure",
+      deliveryId: "delivery-1",
+      reason: "customer_unreachable",
+      note: "  לא עונה  ",
+    });
+    const delivery = { ...takenDelivery(), pickedUpAt: "2026-03-02T12:18:00.000Z" };
+
+    const next = applyOutboxEntry(delivery, report);
+
+    assert.equal(next.status, "failed");
+    assert.equal(next.failedAt, "2026-03-02T12:20:00.000Z");
+    assert.equal(next.failureReason, "customer_unreachable");
+    assert.equal(next.statusNote, "לא עונה");
+  });
+});
+
+describe("replayOutboxEntry", () => {
+  test("sends a queued step flagged as a replay and dated by the device", async () => {
+    const { repository, calls } = createFakeRepository([takenDelivery()]);
+    const proof = { recipientName: "דנה" };
+
+    await replayOutboxEntry(repository, entry("courier-1", { kind: "complete", deliveryId: "delivery-1", proof }));
+
+    assert.deepEqual(calls, [
+      {
+        method: "completeDelivery",
+        payload: { deliveryId: "delivery-1", occurredAt: "2026-03-02T12:20:00.000Z", replay: true, proof },
+      },
+    ]);
+  });
+
+  test("keeps the reason and note of a queued cancellation", async () => {
+    const { repository, calls } = createFakeRepository([takenDelivery()]);
+
+    await replayOutboxEntry(
+      repository,
+      entry("business-1", { kind: "cancel", deliveryId: "delivery-1", reason: "out_of_stock", note: "נגמר" }),
+    );
+
+    assert.deepEqual(calls[0].payload, {
+      deliveryId: "delivery-1",
+      occurredAt: "2026-03-02T12:20:00.000Z",
+      replay: true,
+      reason: "out_of_stock",
+      note: "נגמר",
+    });
+  });
+});
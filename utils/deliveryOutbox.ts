@@ -0,0 +1,166 @@
+import { TRPCClientError } from "@trpc/client";
+
+import { DataRepository } from "../lib/repository/types";
+import { Delivery, DeliveryCancellationReason, DeliveryFailureReason, ProofOfDeliveryInput } from "../types/models";
+import { DeliveryActor, DeliveryTransition, getDeliveryTransitionEffects } from "./deliveryStateMachine";
+
+export type OutboxAction =
+  | { kind: "pickup"; deliveryId: string }
+  | { kind: "complete"; deliveryId: string; proof?: ProofOfDeliveryInput }
+  | { kind: "reportFailure"; deliveryId: string; reason: DeliveryFailureReason; note?: string }
+  | { kind: "confirm"; deliveryId: string }
+  | { kind: "markReady"; deliveryId: string }
+  | { kind: "cancel"; deliveryId: string; reason: DeliveryCancellationReason; note?: string };
+
+export type OutboxEntry = OutboxAction & {
+  id: string;
+  userId: string;
+  clientTimestamp: string;
+  attempts: number;
+};
+
+export type OutboxResolution =
+  | { outcome: "replay" }
+  | { outcome: "skip" }
+  | { outcome: "conflict"; message: string };
+
+export const outboxActionLabels: Record<OutboxAction["kind"], string> = {
+  pickup: "איסוף משלוח",
+  complete: "השלמת משלוח",
+  reportFailure: "דיווח על כישלון",
+  confirm: "אישור הזמנה",
+  markReady: "סימון כמוכן",
+  cancel: "ביטול משלוח",
+};
+
+const courierActions: OutboxAction["kind"][] = ["pickup", "complete", "reportFailure"];
+
+const outboxTransitions: Record<OutboxAction["kind"], DeliveryTransition> = {
+  pickup: "pickup",
+  complete: "complete",
+  reportFailure: "fail",
+  confirm: "confirm",
+  markReady: "markReady",
+  cancel: "cancel",
+};
+
+export function createOutboxEntry(userId: string, action: OutboxAction): OutboxEntry {
+  return {
+    ...action,
+    id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    clientTimestamp: new Date().toISOString(),
+    attempts: 0,
+  };
+}
+
+// Only failures that never reached the server are queued; anything the server answered is a real rejection.
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof TRPCClientError) {
+    return !error.data && !error.shape;
+  }
+  if (error instanceof Error) {
+    return /network request failed|failed to fetch|networkerror|load failed|timed? ?out/i.test(error.message);
+  }
+  return false;
+}
+
+const rejectionCodes = ["BAD_REQUEST", "CONFLICT", "NOT_FOUND", "PAYLOAD_TOO_LARGE"];
+
+// Expired sessions and server failures pass, so a queued action is dropped only when the server refused the action itself.
+export function isOutboxRejection(error: unknown): boolean {
+  if (!(error instanceof TRPCClientError) || !error.data) {
+    return false;
+  }
+  return rejectionCodes.includes(error.data.code);
+}
+
+export function applyOutboxEntry(delivery: Delivery, entry: OutboxEntry): Delivery {
+  const actor: DeliveryActor = {
+    id: entry.userId,
+    role: courierActions.includes(entry.kind) ? "courier" : "business",
+  };
+  const next: Delivery = {
+    ...delivery,
+    ...getDeliveryTransitionEffects(outboxTransitions[entry.kind], delivery, { actor, at: entry.clientTimestamp }),
+  };
+  if (entry.kind === "reportFailure") {
+    return { ...next, failureReason: entry.reason, statusNote: entry.note?.trim() || undefined };
+  }
+  if (entry.kind === "cancel") {
+    return { ...next, cancellationReason: entry.reason, statusNote: entry.note?.trim() || undefined };
+  }
+  return next;
+}
+
+const isAlreadyApplied = (entry: OutboxEntry, delivery: Delivery): boolean => {
+  switch (entry.kind) {
+    case "pickup":
+      return !!delivery.pickedUpAt;
+    case "complete":
+      return delivery.status === "completed";
+    case "reportFailure":
+      return delivery.status === "failed";
+    case "confirm":
+      return !!delivery.businessConfirmed;
+    case "markReady":
+      return !!delivery.businessReady;
+    case "cancel":
+      return delivery.status === "cancelled";
+  }
+};
+
+export function resolveOutboxEntry(entry: OutboxEntry, delivery: Delivery | null): OutboxResolution {
+  if (!delivery) {
+    return { outcome: "conflict", message: "המשלוח כבר לא קיים במערכת" };
+  }
+
+  if (courierActions.includes(entry.kind)) {
+    if (delivery.courierId !== entry.userId) {
+      return { outcome: "conflict", message: "המשלוח הועבר לשליח אחר" };
+    }
+    if (isAlreadyApplied(entry, delivery)) {
+      return { outcome: "skip" };
+    }
+    if (delivery.status === "cancelled") {
+      return { outcome: "conflict", message: "המשלוח בוטל על ידי העסק" };
+    }
+    if (delivery.status !== "taken") {
+      return { outcome: "conflict", message: "סטטוס המשלוח השתנה בזמן שלא היה חיבור" };
+    }
+    return { outcome: "replay" };
+  }
+
+  if (delivery.businessId !== entry.userId) {
+    return { outcome: "conflict", message: "אין הרשאה לעדכן משלוח זה" };
+  }
+  if (isAlreadyApplied(entry, delivery)) {
+    return { outcome: "skip" };
+  }
+  if (delivery.status === "completed" || delivery.status === "failed" || delivery.status === "cancelled") {
+    return { outcome: "conflict", message: "המשלוח כבר נסגר" };
+  }
+  if (entry.kind === "cancel" && delivery.pickedUpAt) {
+    return { outcome: "conflict", message: "השליח כבר אסף את המשלוח" };
+  }
+  return { outcome: "replay" };
+}
+
+// Sends a queued action with the time it happened on the device, flagged as a replay so the server honours it.
+export function replayOutboxEntry(repository: DataRepository, entry: OutboxEntry): Promise<Delivery> {
+  const step = { deliveryId: entry.deliveryId, occurredAt: entry.clientTimestamp, replay: true };
+  switch (entry.kind) {
+    case "pickup":
+      return repository.pickupDelivery(step);
+    case "complete":
+      return repository.completeDelivery({ ...step, proof: entry.proof });
+    case "reportFailure":
+      return repository.reportFailure({ ...step, reason: entry.reason, note: entry.note });
+    case "confirm":
+      return repository.confirmDelivery(step);
+    case "markReady":
+      return repository.markReady(step);
+    case "cancel":
+      return repository.cancelDelivery({ ...step, reason: entry.reason, note: entry.note });
+  }
+}
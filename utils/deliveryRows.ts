@@ -0,0 +1,137 @@
+import {
+  Delivery,
+  DeliveryCancellationReason,
+  DeliveryEta,
+  DeliveryFailureReason,
+  DeliveryPriceBreakdown,
+  DeliveryReleaseReason,
+  DeliveryStatus,
+  GeofenceCheck,
+  ProofOfDelivery,
+} from "../types/models";
+
+// The deliveries table as Supabase returns it. The API server and the app's direct Supabase reads map rows the
+// same way, so both see identical deliveries.
+export type DbDelivery = {
+  id: string;
+  business_id: string;
+  courier_id: string | null;
+  pickup_address: string;
+  dropoff_address: string;
+  notes: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  preparation_time_minutes: number | null;
+  scheduled_for: string | null;
+  scheduled_release_at: string | null;
+  estimated_arrival_minutes: number | null;
+  business_confirmed: boolean;
+  confirmed_at: string | null;
+  business_ready: boolean;
+  ready_at?: string | null;
+  accepted_at?: string | null;
+  pickup_arrived_at?: string | null;
+  picked_up_at: string | null;
+  completed_at: string | null;
+  customer_name: string;
+  customer_phone: string;
+  payment: number | null;
+  distance_km: number | null;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  failed_at?: string | null;
+  failure_reason?: string | null;
+  status_note?: string | null;
+  released_at?: string | null;
+  released_by?: string | null;
+  release_reason?: string | null;
+  release_note?: string | null;
+  dispatch_offer_courier_id?: string | null;
+  dispatch_offer_expires_at?: string | null;
+  batch_id?: string | null;
+  batch_sequence?: number | null;
+  leg_distance_km?: number | null;
+  pricing_breakdown?: DeliveryPriceBreakdown | null;
+  settlement_id?: string | null;
+  tracking_token?: string | null;
+  proof_of_delivery?: ProofOfDelivery | null;
+  pickup_geofence?: GeofenceCheck | null;
+  dropoff_geofence?: GeofenceCheck | null;
+  geofence_overrides?: Delivery["geofenceOverrides"] | null;
+  eta?: DeliveryEta | null;
+  sla_escalations?: Delivery["slaEscalations"] | null;
+  replay_received_at?: Delivery["replayReceivedAt"] | null;
+};
+
+export function dbDeliveryToDelivery(dbDelivery: DbDelivery): Delivery {
+  return {
+    id: dbDelivery.id,
+    businessId: dbDelivery.business_id,
+    courierId: dbDelivery.courier_id,
+    pickupAddress: dbDelivery.pickup_address,
+    dropoffAddress: dbDelivery.dropoff_address,
+    notes: dbDelivery.notes,
+    status: dbDelivery.status as DeliveryStatus,
+    createdAt: dbDelivery.created_at,
+    preparationTimeMinutes: dbDelivery.preparation_time_minutes ?? undefined,
+    scheduledFor: dbDelivery.scheduled_for ?? undefined,
+    scheduledReleaseAt: dbDelivery.scheduled_release_at ?? undefined,
+    estimatedArrivalMinutes: dbDelivery.estimated_arrival_minutes ?? undefined,
+    businessConfirmed: dbDelivery.business_confirmed,
+    confirmedAt: dbDelivery.confirmed_at ?? undefined,
+    businessReady: dbDelivery.business_ready,
+    readyAt: dbDelivery.ready_at ?? undefined,
+    acceptedAt: dbDelivery.accepted_at ?? undefined,
+    pickupArrivedAt: dbDelivery.pickup_arrived_at ?? undefined,
+    pickedUpAt: dbDelivery.picked_up_at ?? undefined,
+    completedAt: dbDelivery.completed_at ?? undefined,
+    customerName: dbDelivery.customer_name,
+    customerPhone: dbDelivery.customer_phone,
+    payment: dbDelivery.payment ?? undefined,
+    distanceKm: dbDelivery.distance_km ?? undefined,
+    cancelledAt: dbDelivery.cancelled_at ?? undefined,
+    cancellationReason: (dbDelivery.cancellation_reason as DeliveryCancellationReason | null) ?? undefined,
+    failedAt: dbDelivery.failed_at ?? undefined,
+    failureReason: (dbDelivery.failure_reason as DeliveryFailureReason | null) ?? undefined,
+    statusNote: dbDelivery.status_note ?? undefined,
+    releasedAt: dbDelivery.released_at ?? undefined,
+    releasedBy: dbDelivery.released_by ?? undefined,
+    releaseReason: (dbDelivery.release_reason as DeliveryReleaseReason | null) ?? undefined,
+    releaseNote: dbDelivery.release_note ?? undefined,
+    dispatchOfferCourierId: dbDelivery.dispatch_offer_courier_id ?? undefined,
+    dispatchOfferExpiresAt: dbDelivery.dispatch_offer_expires_at ?? undefined,
+    batchId: dbDelivery.batch_id ?? undefined,
+    batchSequence: dbDelivery.batch_sequence ?? undefined,
+    legDistanceKm: dbDelivery.leg_distance_km ?? undefined,
+    pricingBreakdown: dbDelivery.pricing_breakdown ?? undefined,
+    settlementId: dbDelivery.settlement_id ?? undefined,
+    trackingToken: dbDelivery.tracking_token ?? undefined,
+    proofOfDelivery: dbDelivery.proof_of_delivery ?? undefined,
+    pickupGeofence: dbDelivery.pickup_geofence ?? undefined,
+    dropoffGeofence: dbDelivery.dropoff_geofence ?? undefined,
+    geofenceOverrides: dbDelivery.geofence_overrides ?? undefined,
+    eta: dbDelivery.eta ?? undefined,
+    slaEscalations: dbDelivery.sla_escalations ?? undefined,
+    replayReceivedAt: dbDelivery.replay_received_at ?? undefined,
+  };
+}
+
+export const mapDeliveryRows = (rows: unknown[] | null): Delivery[] => {
+  const seenIds = new Set<string>();
+  return (rows || [])
+    .filter((row: unknown) => {
+      const d = row as DbDelivery;
+      if (!d.id || typeof d.id !== "string" || d.id.trim() === "") {
+        console.log("[SUPABASE] Skipping delivery with invalid id:", d);
+        return false;
+      }
+      if (seenIds.has(d.id)) {
+        console.log("[SUPABASE] Skipping duplicate delivery id:", d.id);
+        return false;
+      }
+      seenIds.add(d.id);
+      return true;
+    })
+    .map((row) => dbDeliveryToDelivery(row as DbDelivery));
+};
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../types/models";
+import { getDeliveryTransitionEffects, getDeliveryTransitionError } from "./deliveryStateMachine";
+
+const manager = { id: "manager-1", role: "manager" as const };
+const at = "2026-03-02T12:30:00.000Z";
+
+const batchedDelivery = (): Delivery => ({
+  id: "delivery-1",
+  businessId: "business-1",
+  courierId: "courier-1",
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "taken",
+  createdAt: "2026-03-02T12:00:00.000Z",
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  acceptedAt: "2026-03-02T12:05:00.000Z",
+  pickupArrivedAt: "2026-03-02T12:15:00.000Z",
+  batchId: "batch-1",
+  batchSequence: 2,
+  legDistanceKm: 1.4,
+  slaEscalations: { assignment: "2026-03-02T12:04:00.000Z" },
+  eta: {
+    dropoffAt: "2026-03-02T12:40:00.000Z",
+    isLate: false,
+    source: "planned",
+    speedKmh: 25,
+    updatedAt: "2026-03-02T12:20:00.000Z",
+  },
+});
+
+describe("reassign", () => {
+  test("takes a batched delivery out of the previous courier's batch", () => {
+    const delivery = batchedDelivery();
+    assert.equal(getDeliveryTransitionError("reassign", delivery, manager), null);
+
+    const effects = getDeliveryTransitionEffects("reassign", delivery, { actor: manager, at });
+    assert.equal(effects.status, "taken");
+    for (const field of [
+      "batchId",
+      "batchSequence",
+      "legDistanceKm",
+      "slaEscalations",
+      "eta",
+      "acceptedAt",
+      "pickupArrivedAt",
+    ] as const) {
+      assert.ok(field in effects, `${field} should be cleared`);
+      assert.equal(effects[field], undefined);
+    }
+  });
+
+  test("is refused once the delivery was picked up", () => {
+    const delivery = { ...batchedDelivery(), pickedUpAt: "2026-03-02T12:20:00.000Z" };
+    assert.equal(getDeliveryTransitionError("reassign", delivery, manager), "לא ניתן להחליף שליח לאחר איסוף המשלוח");
+  });
+});
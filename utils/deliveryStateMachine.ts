@@ -0,0 +1,315 @@
+import { Delivery, DeliveryHistoryAction, DeliveryStatus, UserRole } from "../types/models";
+import { isHeldForSchedule } from "./scheduling";
+
+export type DeliveryTransition =
+  | "take"
+  | "release"
+  | "confirm"
+  | "markReady"
+  | "pickup"
+  | "complete"
+  | "fail"
+  | "cancel"
+  | "assign"
+  | "reassign"
+  | "unassign"
+  | "reopen";
+
+export type DeliveryTransitionEvent =
+  | "DELIVERY_UPDATED"
+  | "DELIVERY_ASSIGNED"
+  | "DELIVERY_READY"
+  | "DELIVERY_COMPLETED"
+  | "DELIVERY_CANCELLED"
+  | "DELIVERY_FAILED"
+  | "DELIVERY_RELEASED";
+
+export type DeliveryActor = {
+  id: string;
+  role: UserRole;
+};
+
+export type DeliveryTransitionContext = {
+  actor: DeliveryActor;
+  at: string;
+};
+
+type DeliveryTransitionDefinition = {
+  from: DeliveryStatus[];
+  to: DeliveryStatus;
+  roles: UserRole[];
+  historyAction: DeliveryHistoryAction;
+  event: DeliveryTransitionEvent | null;
+  statusError: string;
+  ownershipError?: string;
+  guard?: (delivery: Delivery, actor: DeliveryActor) => string | null;
+  effects?: (delivery: Delivery, context: DeliveryTransitionContext) => Partial<Delivery>;
+};
+
+// An undefined value in the effects clears the field when the transition is stored.
+const returnToQueue = (): Partial<Delivery> => ({
+  courierId: null,
+  acceptedAt: undefined,
+  pickupArrivedAt: undefined,
+  estimatedArrivalMinutes: undefined,
+  businessConfirmed: false,
+  confirmedAt: undefined,
+  batchId: undefined,
+  batchSequence: undefined,
+  legDistanceKm: undefined,
+  eta: undefined,
+  slaEscalations: undefined,
+});
+
+const closeOrder = (): Partial<Delivery> => ({
+  businessReady: false,
+  businessConfirmed: false,
+});
+
+const clearDispatchOffer = (): Partial<Delivery> => ({
+  dispatchOfferCourierId: undefined,
+  dispatchOfferExpiresAt: undefined,
+});
+
+export const isOfferedToAnotherCourier = (delivery: Delivery, courierId: string): boolean => {
+  if (!delivery.dispatchOfferCourierId || delivery.dispatchOfferCourierId === courierId) {
+    return false;
+  }
+  if (!delivery.dispatchOfferExpiresAt) {
+    return false;
+  }
+  return new Date(delivery.dispatchOfferExpiresAt).getTime() > Date.now();
+};
+
+export const deliveryTransitions: Record<DeliveryTransition, DeliveryTransitionDefinition> = {
+  take: {
+    from: ["waiting"],
+    to: "taken",
+    roles: ["courier"],
+    historyAction: "taken",
+    event: "DELIVERY_ASSIGNED",
+    statusError: "משלוח זה כבר נלקח",
+    guard: (delivery, actor) => {
+      if (isHeldForSchedule(delivery)) {
+        return "המשלוח מתוזמן וייפתח לשליחים בהמשך";
+      }
+      return isOfferedToAnotherCourier(delivery, actor.id) ? "המשלוח מוצע כעת לשליח אחר" : null;
+    },
+    effects: (_delivery, { actor, at }) => ({ courierId: actor.id, acceptedAt: at, ...clearDispatchOffer() }),
+  },
+  release: {
+    from: ["taken"],
+    to: "waiting",
+    roles: ["courier"],
+    historyAction: "released",
+    event: "DELIVERY_RELEASED",
+    statusError: "ניתן לשחרר רק משלוחים פעילים",
+    ownershipError: "אין לך הרשאה לשחרר משלוח זה",
+    guard: (delivery) => (delivery.pickedUpAt ? "לא ניתן לשחרר משלוח לאחר איסוף" : null),
+    effects: (_delivery, { actor, at }) => ({ ...returnToQueue(), releasedAt: at, releasedBy: actor.id }),
+  },
+  confirm: {
+    from: ["taken"],
+    to: "taken",
+    roles: ["business"],
+    historyAction: "confirmed",
+    event: null,
+    statusError: "ניתן לאשר רק משלוחים שנלקחו על ידי שליח",
+    ownershipError: "אין לך הרשאה לאשר משלוח זה",
+    guard: (delivery) => {
+      if (!delivery.courierId) {
+        return "לא ניתן לאשר משלוח ללא שליח משויך";
+      }
+      return delivery.businessConfirmed ? "ההזמנה כבר אושרה" : null;
+    },
+    effects: (delivery, { at }) => ({
+      businessConfirmed: true,
+      confirmedAt: at,
+      estimatedArrivalMinutes: delivery.estimatedArrivalMinutes || 15,
+    }),
+  },
+  markReady: {
+    from: ["taken"],
+    to: "taken",
+    roles: ["business"],
+    historyAction: "ready",
+    event: "DELIVERY_READY",
+    statusError: "ניתן לסמן כמוכן רק משלוחים שנלקחו על ידי שליח",
+    ownershipError: "אין לך הרשאה לסמן משלוח זה כמוכן",
+    guard: (delivery) => {
+      if (!delivery.businessConfirmed) {
+        return "יש לאשר את ההזמנה תחילה";
+      }
+      return delivery.businessReady ? "ההזמנה כבר סומנה כמוכנה" : null;
+    },
+    effects: (_delivery, { at }) => ({ businessReady: true, readyAt: at }),
+  },
+  pickup: {
+    from: ["taken"],
+    to: "taken",
+    roles: ["courier"],
+    historyAction: "picked_up",
+    event: null,
+    statusError: "ניתן לאסוף רק משלוחים שנלקחו על ידי שליח",
+    ownershipError: "אין לך הרשאה לאסוף משלוח זה",
+    guard: (delivery) => {
+      if (!delivery.businessReady) {
+        return "ההזמנה עדיין לא מוכנה לאיסוף";
+      }
+      return delivery.pickedUpAt ? "המשלוח כבר נאסף" : null;
+    },
+    effects: (_delivery, { at }) => ({ pickedUpAt: at }),
+  },
+  complete: {
+    from: ["taken"],
+    to: "completed",
+    roles: ["courier", "manager"],
+    historyAction: "completed",
+    event: "DELIVERY_COMPLETED",
+    statusError: "ניתן להשלים רק משלוחים פעילים",
+    ownershipError: "אין לך הרשאה להשלמת משלוח זה",
+    guard: (delivery) => (delivery.pickedUpAt ? null : "יש לאסוף את המשלוח מהמסעדה תחילה"),
+    effects: (_delivery, { at }) => ({ completedAt: at, ...closeOrder() }),
+  },
+  fail: {
+    from: ["taken"],
+    to: "failed",
+    roles: ["courier"],
+    historyAction: "failed",
+    event: "DELIVERY_FAILED",
+    statusError: "ניתן לדווח על כישלון רק במשלוחים פעילים",
+    ownershipError: "אין לך הרשאה לדווח על משלוח זה",
+    guard: (delivery) => (delivery.pickedUpAt ? null : "ניתן לדווח על כישלון רק לאחר איסוף המשלוח"),
+    effects: (_delivery, { at }) => ({ failedAt: at, ...closeOrder() }),
+  },
+  cancel: {
+    from: ["waiting", "taken"],
+    to: "cancelled",
+    roles: ["business"],
+    historyAction: "cancelled",
+    event: "DELIVERY_CANCELLED",
+    statusError: "לא ניתן לבטל משלוח שכבר נסגר",
+    ownershipError: "אין לך הרשאה לבטל משלוח זה",
+    guard: (delivery) => (delivery.pickedUpAt ? "לא ניתן לבטל משלוח לאחר שנאסף על ידי השליח" : null),
+    effects: (_delivery, { at }) => ({ cancelledAt: at, ...closeOrder(), ...clearDispatchOffer() }),
+  },
+  assign: {
+    from: ["waiting"],
+    to: "taken",
+    roles: ["manager"],
+    historyAction: "manager_edit",
+    event: "DELIVERY_UPDATED",
+    statusError: "ניתן לשייך רק משלוחים שממתינים לשיוך",
+    effects: (delivery) => ({
+      estimatedArrivalMinutes: delivery.estimatedArrivalMinutes || 15,
+      scheduledReleaseAt: undefined,
+      ...clearDispatchOffer(),
+    }),
+  },
+  reassign: {
+    from: ["taken"],
+    to: "taken",
+    roles: ["manager"],
+    historyAction: "manager_edit",
+    event: "DELIVERY_UPDATED",
+    statusError: "ניתן להחליף שליח רק במשלוחים פעילים",
+    guard: (delivery) => (delivery.pickedUpAt ? "לא ניתן להחליף שליח לאחר איסוף המשלוח" : null),
+    // The new courier was placed by a manager, so there is no acceptance to time, and the delivery leaves the
+    // previous courier's batch and escalation trail just as it would when returned to the queue.
+    effects: () => ({
+      eta: undefined,
+      acceptedAt: undefined,
+      pickupArrivedAt: undefined,
+      batchId: undefined,
+      batchSequence: undefined,
+      legDistanceKm: undefined,
+      slaEscalations: undefined,
+    }),
+  },
+  unassign: {
+    from: ["taken"],
+    to: "waiting",
+    roles: ["manager"],
+    historyAction: "manager_edit",
+    event: "DELIVERY_UPDATED",
+    statusError: "ניתן לשחרר רק משלוחים פעילים",
+    guard: (delivery) => (delivery.pickedUpAt ? "לא ניתן לשחרר משלוח לאחר איסוף" : null),
+    effects: () => returnToQueue(),
+  },
+  reopen: {
+    from: ["cancelled", "failed"],
+    to: "waiting",
+    roles: ["manager"],
+    historyAction: "manager_edit",
+    event: "DELIVERY_UPDATED",
+    statusError: "ניתן לפתוח מחדש רק משלוחים שבוטלו או נכשלו",
+    effects: () => ({
+      ...returnToQueue(),
+      pickedUpAt: undefined,
+      cancelledAt: undefined,
+      cancellationReason: undefined,
+      failedAt: undefined,
+      failureReason: undefined,
+      statusNote: undefined,
+    }),
+  },
+};
+
+const ownsDelivery = (delivery: Delivery, actor: DeliveryActor): boolean => {
+  if (actor.role === "courier") {
+    return delivery.courierId === actor.id;
+  }
+  if (actor.role === "business") {
+    return delivery.businessId === actor.id;
+  }
+  return true;
+};
+
+export function getDeliveryTransitionError(
+  transition: DeliveryTransition,
+  delivery: Delivery,
+  actor: DeliveryActor,
+): string | null {
+  const definition = deliveryTransitions[transition];
+  if (!definition.roles.includes(actor.role)) {
+    return "אין לך הרשאה לבצע פעולה זו";
+  }
+  if (definition.ownershipError && !ownsDelivery(delivery, actor)) {
+    return definition.ownershipError;
+  }
+  if (!definition.from.includes(delivery.status)) {
+    return definition.statusError;
+  }
+  return definition.guard?.(delivery, actor) ?? null;
+}
+
+export function canTransitionDelivery(transition: DeliveryTransition, delivery: Delivery, actor: DeliveryActor): boolean {
+  return getDeliveryTransitionError(transition, delivery, actor) === null;
+}
+
+export function getAvailableDeliveryTransitions(delivery: Delivery, actor: DeliveryActor): DeliveryTransition[] {
+  return (Object.keys(deliveryTransitions) as DeliveryTransition[]).filter((transition) =>
+    canTransitionDelivery(transition, delivery, actor),
+  );
+}
+
+export function getDeliveryTransitionEffects(
+  transition: DeliveryTransition,
+  delivery: Delivery,
+  context: DeliveryTransitionContext,
+): Partial<Delivery> {
+  const definition = deliveryTransitions[transition];
+  return { status: definition.to, ...definition.effects?.(delivery, context) };
+}
+
+export function findDeliveryTransition(
+  delivery: Delivery,
+  nextStatus: DeliveryStatus,
+  role: UserRole,
+): DeliveryTransition | null {
+  const transition = (Object.keys(deliveryTransitions) as DeliveryTransition[]).find((candidate) => {
+    const definition = deliveryTransitions[candidate];
+    return definition.roles.includes(role) && definition.from.includes(delivery.status) && definition.to === nextStatus;
+  });
+  return transition ?? null;
+}
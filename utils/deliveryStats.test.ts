@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../types/models";
+import {
+  buildStatsSeries,
+  countSeriesBuckets,
+  getBucketStart,
+  resolveSeriesInterval,
+  summarizeDeliveries,
+} from "./deliveryStats";
+
+const delivery = (id: string, createdAt: string, overrides: Partial<Delivery> = {}): Delivery => ({
+  id,
+  businessId: "business-1",
+  courierId: "courier-1",
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "completed",
+  createdAt,
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  payment: 25,
+  ...overrides,
+});
+
+describe("getBucketStart", () => {
+  test("starts days, Sunday weeks and months at Israeli midnight", () => {
+    // 00:30 on Wednesday 11 March in Israel, still the 10th in UTC.
+    const justAfterMidnight = Date.parse("2026-03-10T22:30:00.000Z");
+
+    assert.equal(new Date(getBucketStart(justAfterMidnight, "day")).toISOString(), "2026-03-10T22:00:00.000Z");
+    assert.equal(new Date(getBucketStart(justAfterMidnight, "week")).toISOString(), "2026-03-07T22:00:00.000Z");
+    assert.equal(new Date(getBucketStart(justAfterMidnight, "month")).toISOString(), "2026-02-28T22:00:00.000Z");
+  });
+
+  test("uses the summer offset once the clocks have moved forward", () => {
+    const aprilFirst = Date.parse("2026-04-01T10:00:00.000Z");
+
+    assert.equal(new Date(getBucketStart(aprilFirst, "day")).toISOString(), "2026-03-31T21:00:00.000Z");
+    assert.equal(new Date(getBucketStart(aprilFirst, "month")).toISOString(), "2026-03-31T21:00:00.000Z");
+  });
+});
+
+describe("countSeriesBuckets", () => {
+  test("counts local days and hours across the daylight-saving changes, folding the repeated hour into one", () => {
+    const springDay = resolveSeriesInterval("hour", { startDate: "2026-03-27", endDate: "2026-03-27" });
+    const autumnDay = resolveSeriesInterval("hour", { startDate: "2026-10-25", endDate: "2026-10-25" });
+    const springWeek = resolveSeriesInterval("day", { startDate: "2026-03-24", endDate: "2026-03-30" });
+
+    assert.equal(countSeriesBuckets(springDay, "hour"), 23);
+    assert.equal(countSeriesBuckets(autumnDay, "hour"), 24);
+    assert.equal(countSeriesBuckets(springWeek, "day"), 7);
+  });
+});
+
+describe("buildStatsSeries", () => {
+  test("puts each delivery on the Israeli day it was ordered", () => {
+    const interval = { from: Date.parse("2026-03-09T22:00:00.000Z"), to: Date.parse("2026-03-11T22:00:00.000Z") };
+    const deliveries = [
+      delivery("before-midnight", "2026-03-10T21:59:00.000Z"),
+      delivery("after-midnight", "2026-03-10T22:01:00.000Z", { payment: 30 }),
+      delivery("cancelled", "2026-03-10T23:00:00.000Z", { status: "cancelled" }),
+      delivery("outside", "2026-03-11T22:00:00.000Z"),
+    ];
+
+    const series = buildStatsSeries(deliveries, interval, "day");
+
+    assert.deepEqual(
+      series.map(({ startAt, failed, ...point }) => point),
+      [
+        { label: "10/03", count: 1, completed: 1, cancelled: 0, revenue: 25 },
+        { label: "11/03", count: 1, completed: 1, cancelled: 1, revenue: 30 },
+      ],
+    );
+  });
+});
+
+describe("summarizeDeliveries", () => {
+  test("leaves cancelled orders out of the completion rate and counts revenue from completions only", () => {
+    const summary = summarizeDeliveries([
+      delivery("completed", "2026-03-10T10:00:00.000Z", {
+        confirmedAt: "2026-03-10T10:00:00.000Z",
+        readyAt: "2026-03-10T10:12:00.000Z",
+        pickedUpAt: "2026-03-10T10:20:00.000Z",
+        completedAt: "2026-03-10T10:45:00.000Z",
+      }),
+      delivery("failed", "2026-03-10T11:00:00.000Z", { status: "failed" }),
+      delivery("cancelled", "2026-03-10T12:00:00.000Z", { status: "cancelled" }),
+    ]);
+
+    assert.equal(summary.total, 3);
+    assert.equal(summary.completionRate, 0.5);
+    assert.equal(summary.revenue, 25);
+    assert.equal(summary.avgPrepMinutes, 12);
+    assert.equal(summary.avgPickupMinutes, 8);
+    assert.equal(summary.avgDropoffMinutes, 25);
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  Delivery,
+  DeliveryStatsBreakdownRow,
+  DeliveryStatsPoint,
+  DeliveryStatsSummary,
+  DeliveryStatus,
+  StatsGranularity,
+  StatsPeriod,
+} from "../types/models";
+import { localTimeToIso } from "./deliveryTemplates";
+import { PRICING_TIME_ZONE } from "./pricing";
+
+// Buckets follow the local day that pricing and templates already use, not the server's clock.
+export const STATS_TIME_ZONE = PRICING_TIME_ZONE;
+
+export type StatsDateRange = {
+  startDate?: string;
+  endDate?: string;
+};
+
+// Epoch milliseconds; `to` is exclusive.
+export type StatsInterval = {
+  from?: number;
+  to?: number;
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Each step overshoots a little so a daylight-saving day or month end never lands back in the same bucket.
+const BUCKET_STEP_MS: Record<StatsGranularity, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS + 2 * HOUR_MS,
+  week: 7 * DAY_MS + 2 * HOUR_MS,
+  month: 32 * DAY_MS,
+};
+
+const TRAILING_BUCKETS: Record<StatsGranularity, number> = {
+  hour: 24,
+  day: 7,
+  week: 5,
+  month: 12,
+};
+
+const monthShortLabels = ["ינו", "פבר", "מרץ", "אפר", "מאי", "יונ", "יול", "אוג", "ספט", "אוק", "נוב", "דצמ"];
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const localPartsFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: STATS_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  hourCycle: "h23",
+  weekday: "short",
+});
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const emptyStatusRecord = (): Record<DeliveryStatus, number> => ({
+  waiting: 0,
+  taken: 0,
+  completed: 0,
+  cancelled: 0,
+  failed: 0,
+});
+
+export const EMPTY_STATS_SUMMARY: DeliveryStatsSummary = {
+  total: 0,
+  ...emptyStatusRecord(),
+  completionRate: 0,
+  revenue: 0,
+  valueByStatus: emptyStatusRecord(),
+  avgPrepMinutes: null,
+  avgPickupMinutes: null,
+  avgDropoffMinutes: null,
+};
+
+function getLocalParts(at: number): { date: string; hour: number; weekday: number } {
+  const parts = localPartsFormatter.formatToParts(new Date(at));
+  const value = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    date: `${value("year")}-${value("month")}-${value("day")}`,
+    hour: Number(value("hour")) % 24,
+    weekday: WEEKDAY_INDEX[value("weekday")] ?? 0,
+  };
+}
+
+export const getLocalHour = (at: number) => getLocalParts(at).hour;
+
+const shiftDate = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const startOfLocalDay = (date: string) => new Date(localTimeToIso(date, "00:00")).getTime();
+
+// Weeks start on Sunday, like the Israeli work week.
+export function getBucketStart(at: number, granularity: StatsGranularity): number {
+  const { date, hour, weekday } = getLocalParts(at);
+  switch (granularity) {
+    case "hour":
+      return new Date(localTimeToIso(date, `${pad(hour)}:00`)).getTime();
+    case "day":
+      return startOfLocalDay(date);
+    case "week":
+      return startOfLocalDay(shiftDate(date, -weekday));
+    case "month":
+      return startOfLocalDay(`${date.slice(0, 7)}-01`);
+  }
+}
+
+export function getNextBucketStart(bucketStart: number, granularity: StatsGranularity): number {
+  const next = getBucketStart(bucketStart + BUCKET_STEP_MS[granularity], granularity);
+  // The repeated hour when clocks fall back maps to a single bucket.
+  return next > bucketStart ? next : getBucketStart(bucketStart + 2 * BUCKET_STEP_MS[granularity], granularity);
+}
+
+export function formatBucketLabel(bucketStart: number, granularity: StatsGranularity): string {
+  const { date, hour } = getLocalParts(bucketStart);
+  const [, month, day] = date.split("-");
+  if (granularity === "hour") {
+    return `${pad(hour)}:00`;
+  }
+  if (granularity === "month") {
+    return monthShortLabels[Number(month) - 1] ?? "";
+  }
+  return `${day}/${month}`;
+}
+
+// Custom ranges are whole local days, and either end may be left open.
+const resolveDateRange = ({ startDate, endDate }: StatsDateRange): StatsInterval => ({
+  from: startDate ? startOfLocalDay(startDate) : undefined,
+  to: endDate ? startOfLocalDay(shiftDate(endDate, 1)) : undefined,
+});
+
+// Period to date in local time: today, this week or this month.
+export function resolveStatsInterval(period: StatsPeriod, range: StatsDateRange, now = Date.now()): StatsInterval {
+  switch (period) {
+    case "daily":
+      return { from: getBucketStart(now, "day") };
+    case "weekly":
+      return { from: getBucketStart(now, "week") };
+    case "monthly":
+      return { from: getBucketStart(now, "month") };
+    case "custom":
+      return resolveDateRange(range);
+  }
+}
+
+// Without a start day the chart shows the trailing window that fits on screen, ending now.
+export function resolveSeriesInterval(
+  granularity: StatsGranularity,
+  range: StatsDateRange,
+  now = Date.now(),
+  bucketCount = TRAILING_BUCKETS[granularity],
+): Required<StatsInterval> {
+  if (range.startDate) {
+    const { from, to } = resolveDateRange(range);
+    return { from: from ?? now, to: to ?? now };
+  }
+  let from = getBucketStart(now, granularity);
+  for (let index = 1; index < bucketCount; index += 1) {
+    from = getBucketStart(from - 1, granularity);
+  }
+  return { from, to: now };
+}
+
+export function filterDeliveriesByInterval(deliveries: Delivery[], { from, to }: StatsInterval): Delivery[] {
+  return deliveries.filter((delivery) => {
+    const createdAt = new Date(delivery.createdAt).getTime();
+    return (from === undefined || createdAt >= from) && (to === undefined || createdAt < to);
+  });
+}
+
+export function countSeriesBuckets({ from, to }: Required<StatsInterval>, granularity: StatsGranularity): number {
+  let count = 0;
+  for (let cursor = getBucketStart(from, granularity); cursor < to; cursor = getNextBucketStart(cursor, granularity)) {
+    count += 1;
+  }
+  return count;
+}
+
+export const minutesBetween = (from?: string, to?: string): number | null => {
+  if (!from || !to) {
+    return null;
+  }
+  const minutes = (new Date(to).getTime() - new Date(from).getTime()) / MINUTE_MS;
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+};
+
+export const average = (values: (number | null)[]): number | null => {
+  const valid = values.filter((value): value is number => value !== null);
+  if (valid.length === 0) {
+    return null;
+  }
+  return Math.round((valid.reduce((sum, value) => sum + value, 0) / valid.length) * 10) / 10;
+};
+
+export function summarizeDeliveries(deliveries: Delivery[]): DeliveryStatsSummary {
+  const counts = emptyStatusRecord();
+  const valueByStatus = emptyStatusRecord();
+  deliveries.forEach((delivery) => {
+    counts[delivery.status] += 1;
+    valueByStatus[delivery.status] += delivery.payment ?? 0;
+  });
+
+  const total = deliveries.length;
+  const attempted = total - counts.cancelled;
+  return {
+    total,
+    ...counts,
+    completionRate: attempted > 0 ? counts.completed / attempted : 0,
+    revenue: valueByStatus.completed,
+    valueByStatus,
+    // Prep runs from confirmation to ready, pickup from ready until the courier collects, drop-off until hand-off.
+    avgPrepMinutes: average(deliveries.map((delivery) => minutesBetween(delivery.confirmedAt, delivery.readyAt))),
+    avgPickupMinutes: average(deliveries.map((delivery) => minutesBetween(delivery.readyAt, delivery.pickedUpAt))),
+    avgDropoffMinutes: average(
+      deliveries
+        .filter((delivery) => delivery.status === "completed")
+        .map((delivery) => minutesBetween(delivery.pickedUpAt, delivery.completedAt)),
+    ),
+  };
+}
+
+// Cancelled and failed deliveries are counted on their own so `count` reflects real orders.
+export function buildStatsSeries(
+  deliveries: Delivery[],
+  interval: Required<StatsInterval>,
+  granularity: StatsGranularity,
+): DeliveryStatsPoint[] {
+  const points = new Map<number, DeliveryStatsPoint>();
+  for (let cursor = getBucketStart(interval.from, granularity); cursor < interval.to; cursor = getNextBucketStart(cursor, granularity)) {
+    points.set(cursor, {
+      startAt: new Date(cursor).toISOString(),
+      label: formatBucketLabel(cursor, granularity),
+      count: 0,
+      completed: 0,
+      cancelled: 0,
+      failed: 0,
+      revenue: 0,
+    });
+  }
+
+  filterDeliveriesByInterval(deliveries, interval).forEach((delivery) => {
+    const point = points.get(getBucketStart(new Date(delivery.createdAt).getTime(), granularity));
+    if (!point) {
+      return;
+    }
+    if (delivery.status === "cancelled") {
+      point.cancelled += 1;
+      return;
+    }
+    if (delivery.status === "failed") {
+      point.failed += 1;
+      return;
+    }
+    point.count += 1;
+    if (delivery.status === "completed") {
+      point.completed += 1;
+      point.revenue += delivery.payment ?? 0;
+    }
+  });
+
+  return Array.from(points.values());
+}
+
+export function buildStatsBreakdown(
+  deliveries: Delivery[],
+  getKey: (delivery: Delivery) => string | null,
+): DeliveryStatsBreakdownRow[] {
+  const groups = new Map<string, Delivery[]>();
+  deliveries.forEach((delivery) => {
+    const key = getKey(delivery);
+    if (!key) {
+      return;
+    }
+    const group = groups.get(key);
+    if (group) {
+      group.push(delivery);
+    } else {
+      groups.set(key, [delivery]);
+    }
+  });
+  return Array.from(groups.entries())
+    .map(([id, group]) => ({ id, ...summarizeDeliveries(group) }))
+    .sort((a, b) => b.total - a.total);
+}
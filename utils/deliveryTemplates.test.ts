@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { DeliveryTemplate, DeliveryTemplateRecurrence } from "../types/models";
+import { getNextTemplateOccurrence, localTimeToIso, pruneSkippedDates } from "./deliveryTemplates";
+
+// Israel moves to summer time (UTC+3) at 02:00 on Friday 27 March 2026 and back to UTC+2 at 02:00 on Sunday
+// 25 October 2026.
+
+const template = (recurrence: Partial<DeliveryTemplateRecurrence>, overrides: Partial<DeliveryTemplate> = {}) => ({
+  id: "template-1",
+  businessId: "business-1",
+  name: "ארוחת בוקר",
+  customerName: "לקוח קבוע",
+  customerPhone: "0527654325",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  preparationTimeMinutes: 15,
+  recurrence: { frequency: "daily" as const, daysOfWeek: [], timeOfDay: "09:00", ...recurrence },
+  isPaused: false,
+  skippedDates: [],
+  createdAt: "2026-03-01T08:00:00.000Z",
+  updatedAt: "2026-03-01T08:00:00.000Z",
+  ...overrides,
+});
+
+describe("localTimeToIso", () => {
+  test("follows the offset on each side of the spring change", () => {
+    assert.equal(localTimeToIso("2026-03-26", "12:00"), "2026-03-26T10:00:00.000Z");
+    assert.equal(localTimeToIso("2026-03-27", "12:00"), "2026-03-27T09:00:00.000Z");
+  });
+
+  test("moves a time the spring change skips forward by the hour that was skipped", () => {
+    assert.equal(localTimeToIso("2026-03-27", "02:30"), "2026-03-27T00:30:00.000Z");
+  });
+
+  test("takes the first of the two 01:30s when the clocks go back", () => {
+    assert.equal(localTimeToIso("2026-10-25", "01:30"), "2026-10-24T23:30:00.000Z");
+    assert.equal(localTimeToIso("2026-10-25", "12:00"), "2026-10-25T10:00:00.000Z");
+  });
+});
+
+describe("getNextTemplateOccurrence", () => {
+  test("keeps the local slot time across the spring change", () => {
+    // 10:00 on Thursday 26 March in Israel, after today's slot.
+    const next = getNextTemplateOccurrence(template({}), Date.parse("2026-03-26T08:00:00.000Z"));
+
+    assert.deepEqual(next, { date: "2026-03-27", scheduledFor: "2026-03-27T06:00:00.000Z" });
+  });
+
+  test("reads today by the Israeli calendar, not UTC", () => {
+    // 00:30 on Friday 27 March in Israel, still the 26th in UTC.
+    const next = getNextTemplateOccurrence(template({}), Date.parse("2026-03-26T22:30:00.000Z"));
+
+    assert.equal(next?.date, "2026-03-27");
+  });
+
+  test("skips days outside the work week, skipped dates and days already run", () => {
+    const weekdays = template(
+      { frequency: "weekdays" },
+      { skippedDates: ["2026-03-29"], lastOccurrenceDate: "2026-03-26" },
+    );
+
+    // 07:00 on Thursday 26 March in Israel: today's slot is still ahead but already claimed.
+    const next = getNextTemplateOccurrence(weekdays, Date.parse("2026-03-26T05:00:00.000Z"));
+
+    assert.deepEqual(next, { date: "2026-03-30", scheduledFor: "2026-03-30T06:00:00.000Z" });
+  });
+});
+
+describe("pruneSkippedDates", () => {
+  test("drops past dates and duplicates by the Israeli calendar", () => {
+    const pruned = pruneSkippedDates(
+      ["2026-03-27", "2026-03-26", "2026-03-30", "2026-03-27"],
+      Date.parse("2026-03-26T22:30:00.000Z"),
+    );
+
+    assert.deepEqual(pruned, ["2026-03-27", "2026-03-30"]);
+  });
+});
@@ -0,0 +1,141 @@
+import { DeliveryTemplate, DeliveryTemplateFrequency, DeliveryTemplateRecurrence } from "../types/models";
+import { PRICING_TIME_ZONE } from "./pricing";
+
+// Recurrence slots are read in the same local zone that pricing uses for night and weekend rates.
+export const TEMPLATE_TIME_ZONE = PRICING_TIME_ZONE;
+
+// Sunday to Thursday is the Israeli work week.
+export const WORK_WEEK_DAYS = [0, 1, 2, 3, 4];
+
+export const weekdayShortLabels = ["א׳", "ב׳", "ג׳", "ד׳", "ה׳", "ו׳", "ש׳"];
+
+export const frequencyLabels: Record<DeliveryTemplateFrequency, string> = {
+  daily: "כל יום",
+  weekdays: "ימי חול (א׳–ה׳)",
+  custom: "ימים נבחרים",
+};
+
+const LOOKAHEAD_DAYS = 14;
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+type LocalDateParts = { date: string; weekday: number };
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export function getRecurrenceDays(recurrence: DeliveryTemplateRecurrence): number[] {
+  if (recurrence.frequency === "daily") {
+    return [0, 1, 2, 3, 4, 5, 6];
+  }
+  if (recurrence.frequency === "weekdays") {
+    return WORK_WEEK_DAYS;
+  }
+  return recurrence.daysOfWeek;
+}
+
+export function getLocalDateParts(at: Date): LocalDateParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: TEMPLATE_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+  }).formatToParts(at);
+  const value = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    date: `${value("year")}-${value("month")}-${value("day")}`,
+    weekday: WEEKDAY_INDEX[value("weekday")] ?? 0,
+  };
+}
+
+// Converts a wall-clock time in the template zone to UTC; the second pass settles daylight-saving changes.
+export function localTimeToIso(date: string, timeOfDay: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = timeOfDay.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: TEMPLATE_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(new Date(instant));
+    const value = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+    return Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute")) - instant;
+  };
+  const firstGuess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(firstGuess)).toISOString();
+}
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const weekdayOf = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+export function getDeliveryTemplateError(template: {
+  name: string;
+  customerName: string;
+  customerPhone: string;
+  dropoffAddress: string;
+  preparationTimeMinutes: number;
+  recurrence: DeliveryTemplateRecurrence;
+}): string | null {
+  if (!template.name.trim() || !template.customerName.trim() || !template.customerPhone.trim() || !template.dropoffAddress.trim()) {
+    return "יש למלא שם לתבנית, פרטי לקוח וכתובת יעד";
+  }
+  if (!Number.isInteger(template.preparationTimeMinutes) || template.preparationTimeMinutes < 1 || template.preparationTimeMinutes > 60) {
+    return "זמן ההכנה חייב להיות בין 1 ל-60 דקות";
+  }
+  if (!TIME_OF_DAY_PATTERN.test(template.recurrence.timeOfDay)) {
+    return "יש להזין שעה בפורמט HH:MM";
+  }
+  const days = getRecurrenceDays(template.recurrence);
+  if (days.length === 0 || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return "יש לבחור לפחות יום אחד בשבוע";
+  }
+  return null;
+}
+
+// Each local day yields at most one delivery, so editing the time never repeats a day that already ran.
+export function getNextTemplateOccurrence(
+  template: DeliveryTemplate,
+  now = Date.now(),
+): { date: string; scheduledFor: string } | null {
+  const days = getRecurrenceDays(template.recurrence);
+  const today = getLocalDateParts(new Date(now)).date;
+  const firstDate =
+    template.lastOccurrenceDate && template.lastOccurrenceDate >= today ? addDays(template.lastOccurrenceDate, 1) : today;
+
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset += 1) {
+    const date = addDays(firstDate, offset);
+    if (!days.includes(weekdayOf(date)) || template.skippedDates.includes(date)) {
+      continue;
+    }
+    const scheduledFor = localTimeToIso(date, template.recurrence.timeOfDay);
+    if (new Date(scheduledFor).getTime() > now) {
+      return { date, scheduledFor };
+    }
+  }
+  return null;
+}
+
+export function describeRecurrence(recurrence: DeliveryTemplateRecurrence): string {
+  const days =
+    recurrence.frequency === "custom"
+      ? [...recurrence.daysOfWeek].sort((a, b) => a - b).map((day) => weekdayShortLabels[day]).join(", ")
+      : frequencyLabels[recurrence.frequency];
+  return `${days} · ${recurrence.timeOfDay}`;
+}
+
+export function pruneSkippedDates(skippedDates: string[], now = Date.now()): string[] {
+  const today = getLocalDateParts(new Date(now)).date;
+  return Array.from(new Set(skippedDates.filter((date) => date >= today))).sort();
+}
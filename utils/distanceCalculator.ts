@@ -23,7 +23,15 @@ export function calculateAerialDistance(
   coord1: Coordinates,
   coord2: Coordinates
 ): number {
-  const R = 6371;
+  return Math.round(calculateAerialDistanceMeters(coord1, coord2) / 100) / 10;
+}
+
+// Unrounded, for checks that need better than the 100 m resolution of calculateAerialDistance.
+export function calculateAerialDistanceMeters(
+  coord1: Coordinates,
+  coord2: Coordinates
+): number {
+  const R = 6371000;
   
   const toRadians = (degrees: number): number => {
     return degrees * (Math.PI / 180);
@@ -41,9 +49,7 @@ export function calculateAerialDistance(
   
   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
   
-  const distanceKm = R * c;
-  
-  return Math.round(distanceKm * 10) / 10;
+  return R * c;
 }
 
 export function getDistanceFromAddresses(
@@ -0,0 +1,160 @@
+import { Delivery, DeliveryEta } from "../types/models";
+import { calculateAerialDistance, Coordinates, parseAddressCoordinates } from "./distanceCalculator";
+
+export type VehicleType = "bicycle" | "motorcycle" | "car" | "other";
+
+export type EtaPosition = Coordinates & {
+  recordedAt: string;
+};
+
+// Straight-line speeds, since every distance in the app is aerial rather than by road.
+export const DEFAULT_VEHICLE_SPEEDS_KMH: Record<VehicleType, number> = {
+  bicycle: 14,
+  motorcycle: 25,
+  car: 22,
+  other: 25,
+};
+
+export const ETA_LATE_GRACE_MINUTES = 5;
+export const ETA_LOCATION_MAX_AGE_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+// The vehicle is free text typed by the manager, so it is matched by keyword.
+const vehicleKeywords: [VehicleType, RegExp][] = [
+  ["motorcycle", /אופנוע|קטנוע|טוסטוס|motorcycle|motorbike|scooter|moped/i],
+  ["bicycle", /אופניים|bicycle|bike/i],
+  ["car", /רכב|מכונית|\bcar\b/i],
+];
+
+export function getVehicleType(vehicle: string | undefined): VehicleType {
+  const match = vehicleKeywords.find(([, pattern]) => pattern.test(vehicle ?? ""));
+  return match ? match[0] : "other";
+}
+
+export const estimateLegMinutes = (distanceKm: number, speedKmh: number) =>
+  Math.max(1, Math.ceil((distanceKm / speedKmh) * 60));
+
+// The arrival time the courier committed to in the time picker.
+export function getPromisedPickupAt(delivery: Delivery): number | null {
+  if (!delivery.confirmedAt || !delivery.estimatedArrivalMinutes) {
+    return null;
+  }
+  const confirmedAt = new Date(delivery.confirmedAt).getTime();
+  return Number.isNaN(confirmedAt) ? null : confirmedAt + delivery.estimatedArrivalMinutes * MINUTE_MS;
+}
+
+const getPlannedReadyAt = (delivery: Delivery) =>
+  new Date(delivery.createdAt).getTime() + (delivery.preparationTimeMinutes ?? 0) * MINUTE_MS;
+
+const getTripMinutes = (delivery: Delivery, speedKmh: number): number | null => {
+  if (delivery.distanceKm !== undefined) {
+    return estimateLegMinutes(delivery.distanceKm, speedKmh);
+  }
+  const pickup = parseAddressCoordinates(delivery.pickupAddress);
+  const dropoff = parseAddressCoordinates(delivery.dropoffAddress);
+  return pickup && dropoff ? estimateLegMinutes(calculateAerialDistance(pickup, dropoff), speedKmh) : null;
+};
+
+export function computeDeliveryEta(params: {
+  delivery: Delivery;
+  position: EtaPosition | null;
+  speedKmh: number;
+  now?: number;
+}): DeliveryEta | null {
+  const { delivery, position, speedKmh, now = Date.now() } = params;
+  if (delivery.status !== "taken" || !delivery.courierId) {
+    return null;
+  }
+  const tripMinutes = getTripMinutes(delivery, speedKmh);
+  if (tripMinutes === null) {
+    return null;
+  }
+
+  const positionAge = position ? now - new Date(position.recordedAt).getTime() : NaN;
+  const livePosition = positionAge <= ETA_LOCATION_MAX_AGE_MINUTES * MINUTE_MS ? position : null;
+  const promisedPickupAt = getPromisedPickupAt(delivery);
+  const plannedReadyAt = getPlannedReadyAt(delivery);
+
+  let pickupAt: number | undefined;
+  let dropoffAt: number;
+  let isLive = false;
+  if (delivery.pickedUpAt) {
+    const dropoff = parseAddressCoordinates(delivery.dropoffAddress);
+    if (livePosition && dropoff) {
+      dropoffAt = now + estimateLegMinutes(calculateAerialDistance(livePosition, dropoff), speedKmh) * MINUTE_MS;
+      isLive = true;
+    } else {
+      dropoffAt = Math.max(now, new Date(delivery.pickedUpAt).getTime() + tripMinutes * MINUTE_MS);
+    }
+  } else {
+    const pickup = parseAddressCoordinates(delivery.pickupAddress);
+    if (livePosition && pickup) {
+      pickupAt = now + estimateLegMinutes(calculateAerialDistance(livePosition, pickup), speedKmh) * MINUTE_MS;
+      isLive = true;
+    } else {
+      pickupAt = Math.max(now, promisedPickupAt ?? now);
+    }
+    const readyAt = delivery.businessReady ? now : Math.max(now, plannedReadyAt);
+    dropoffAt = Math.max(pickupAt, readyAt) + tripMinutes * MINUTE_MS;
+  }
+
+  const graceMs = ETA_LATE_GRACE_MINUTES * MINUTE_MS;
+  const promisedDropoffAt =
+    promisedPickupAt === null ? null : Math.max(promisedPickupAt, plannedReadyAt) + tripMinutes * MINUTE_MS;
+  const isLate =
+    (pickupAt !== undefined && promisedPickupAt !== null && pickupAt > promisedPickupAt + graceMs) ||
+    (promisedDropoffAt !== null && dropoffAt > promisedDropoffAt + graceMs);
+
+  return {
+    pickupAt: pickupAt === undefined ? undefined : new Date(pickupAt).toISOString(),
+    dropoffAt: new Date(dropoffAt).toISOString(),
+    isLate,
+    source: isLive ? "live" : "planned",
+    speedKmh,
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+const minutesApart = (a: string | undefined, b: string | undefined) =>
+  a && b ? Math.abs(new Date(a).getTime() - new Date(b).getTime()) / MINUTE_MS : a === b ? 0 : Infinity;
+
+// Sub-minute jitter from GPS noise is not worth a write and a broadcast.
+export function hasEtaChanged(previous: DeliveryEta | undefined, next: DeliveryEta): boolean {
+  if (!previous) {
+    return true;
+  }
+  return (
+    previous.isLate !== next.isLate ||
+    previous.source !== next.source ||
+    minutesApart(previous.pickupAt, next.pickupAt) >= 1 ||
+    minutesApart(previous.dropoffAt, next.dropoffAt) >= 1
+  );
+}
+
+export type EtaCountdown = {
+  stage: "pickup" | "dropoff";
+  targetAt: string;
+  isLate: boolean;
+  isLive: boolean;
+};
+
+// What the countdown should show, falling back to the courier's promise until the server has computed an ETA.
+export function getEtaCountdown(delivery: Delivery): EtaCountdown | null {
+  if (delivery.status !== "taken") {
+    return null;
+  }
+  const stage = delivery.pickedUpAt ? "dropoff" : "pickup";
+  const eta = delivery.eta;
+  if (eta) {
+    const targetAt = stage === "pickup" ? eta.pickupAt : eta.dropoffAt;
+    if (targetAt) {
+      return { stage, targetAt, isLate: eta.isLate, isLive: eta.source === "live" };
+    }
+  }
+  const promisedPickupAt = getPromisedPickupAt(delivery);
+  if (stage === "pickup" && promisedPickupAt !== null) {
+    return { stage, targetAt: new Date(promisedPickupAt).toISOString(), isLate: false, isLive: false };
+  }
+  return null;
+}
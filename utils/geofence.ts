@@ -0,0 +1,83 @@
+import { Delivery, GeofenceCheck, GeofenceStage } from "../types/models";
+import { calculateAerialDistanceMeters, Coordinates, parseAddressCoordinates } from "./distanceCalculator";
+
+export type GeofenceMode = "flag" | "block";
+
+export type GeofenceSettings = {
+  mode: GeofenceMode;
+  radiusMeters: number;
+  maxLocationAgeMinutes: number;
+};
+
+export type GeofencePosition = Coordinates & {
+  recordedAt: string;
+};
+
+export const DEFAULT_GEOFENCE_SETTINGS: GeofenceSettings = {
+  mode: "flag",
+  radiusMeters: 250,
+  maxLocationAgeMinutes: 5,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const geofenceStageLabels: Record<GeofenceStage, string> = {
+  pickup: "איסוף",
+  dropoff: "מסירה",
+};
+
+const toPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export function resolveGeofenceSettings(env: { mode?: string; radiusMeters?: string; maxLocationAgeMinutes?: string }): GeofenceSettings {
+  return {
+    mode: env.mode?.trim().toLowerCase() === "block" ? "block" : DEFAULT_GEOFENCE_SETTINGS.mode,
+    radiusMeters: toPositiveNumber(env.radiusMeters, DEFAULT_GEOFENCE_SETTINGS.radiusMeters),
+    maxLocationAgeMinutes: toPositiveNumber(env.maxLocationAgeMinutes, DEFAULT_GEOFENCE_SETTINGS.maxLocationAgeMinutes),
+  };
+}
+
+export const getGeofenceTarget = (delivery: Delivery, stage: GeofenceStage): Coordinates | null =>
+  parseAddressCoordinates(stage === "pickup" ? delivery.pickupAddress : delivery.dropoffAddress);
+
+// A position recorded too long before the action (or an offline action replayed much later) proves nothing either way.
+export function checkGeofence(params: {
+  position: GeofencePosition | null;
+  target: Coordinates;
+  at: string;
+  settings: GeofenceSettings;
+}): GeofenceCheck {
+  const { position, target, at, settings } = params;
+  const base = { radiusMeters: settings.radiusMeters, checkedAt: at };
+  if (!position) {
+    return { ...base, result: "unverified" };
+  }
+  const age = Math.abs(new Date(at).getTime() - new Date(position.recordedAt).getTime());
+  if (Number.isNaN(age) || age > settings.maxLocationAgeMinutes * MINUTE_MS) {
+    return { ...base, result: "unverified" };
+  }
+  const distanceMeters = Math.round(calculateAerialDistanceMeters(position, target));
+  return { ...base, result: distanceMeters <= settings.radiusMeters ? "inside" : "outside", distanceMeters };
+}
+
+export function getGeofenceFlags(delivery: Delivery): GeofenceStage[] {
+  const checks: [GeofenceStage, GeofenceCheck | undefined][] = [
+    ["pickup", delivery.pickupGeofence],
+    ["dropoff", delivery.dropoffGeofence],
+  ];
+  return checks
+    .filter(([stage, check]) => !!check && check.result !== "inside" && !delivery.geofenceOverrides?.[stage])
+    .map(([stage]) => stage);
+}
+
+export function describeGeofenceCheck(check: GeofenceCheck): string {
+  if (check.result === "unverified") {
+    return "לא התקבל מיקום עדכני מהשליח";
+  }
+  if (check.result === "outside") {
+    return `במרחק ${check.distanceMeters ?? "?"} מ׳ מהיעד (מותר עד ${check.radiusMeters} מ׳)`;
+  }
+  return "בתוך תחום היעד";
+}
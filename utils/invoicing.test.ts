@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { BusinessInvoice, Delivery } from "../types/models";
+import { buildInvoiceLines, invoiceToCsv, selectInvoiceableDeliveries } from "./invoicing";
+
+const invoice = (overrides: Partial<BusinessInvoice> = {}): BusinessInvoice => ({
+  id: "invoice-1",
+  invoiceNumber: 7,
+  businessId: "business-1",
+  businessName: "מסעדת בדיקה",
+  // March 2026 in Israel time (UTC+2 before the switch to summer time).
+  periodStart: "2026-02-28T22:00:00.000Z",
+  periodEnd: "2026-03-31T21:00:00.000Z",
+  lineItems: [],
+  subtotal: 0,
+  vatRate: 0.18,
+  vatAmount: 0,
+  total: 0,
+  createdAt: "2026-04-01T08:00:00.000Z",
+  createdBy: "manager-1",
+  ...overrides,
+});
+
+const completed = (id: string, payment: number, completedAt = "2026-03-10T10:40:00.000Z"): Delivery => ({
+  id,
+  businessId: "business-1",
+  courierId: "courier-1",
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "completed",
+  createdAt: "2026-03-10T10:00:00.000Z",
+  completedAt,
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  payment,
+});
+
+describe("selectInvoiceableDeliveries", () => {
+  test("takes the business's completions in the period, oldest first", () => {
+    const deliveries = [
+      completed("later", 25, "2026-03-20T10:00:00.000Z"),
+      completed("earlier", 25, "2026-03-05T10:00:00.000Z"),
+      completed("next-period", 25, "2026-03-31T21:00:00.000Z"),
+      { ...completed("other-business", 25), businessId: "business-2" },
+      { ...completed("cancelled", 25), status: "cancelled" as const },
+    ];
+
+    const { periodStart, periodEnd } = invoice();
+    const selected = selectInvoiceableDeliveries(deliveries, "business-1", periodStart, periodEnd);
+
+    assert.deepEqual(
+      selected.map((delivery) => delivery.id),
+      ["earlier", "later"],
+    );
+  });
+});
+
+describe("buildInvoiceLines", () => {
+  test("rounds VAT on each line and totals the rounded lines", () => {
+    // 18% of 20.75 is 3.735 per line: 11.22 over three lines, where VAT on the whole 62.25 would be 11.21.
+    const invoice = buildInvoiceLines([completed("a", 20.75), completed("b", 20.75), completed("c", 20.75)]);
+
+    assert.deepEqual(
+      invoice.lineItems.map((line) => [line.vat, line.total]),
+      [
+        [3.74, 24.49],
+        [3.74, 24.49],
+        [3.74, 24.49],
+      ],
+    );
+    assert.equal(invoice.subtotal, 62.25);
+    assert.equal(invoice.vatAmount, 11.22);
+    assert.equal(invoice.total, 73.47);
+  });
+});
+
+describe("invoiceToCsv", () => {
+  test("prints the period in Israel time whatever the server's time zone", () => {
+    const csv = invoiceToCsv(invoice());
+    assert.match(csv, /תקופה,01\/03\/2026 - 31\/03\/2026/);
+  });
+
+  test("dates a delivery just after local midnight on its local day", () => {
+    const csv = invoiceToCsv(
+      invoice({
+        lineItems: [
+          {
+            deliveryId: "delivery-1",
+            // 00:30 on 16 March in Israel, still the 15th in UTC.
+            date: "2026-03-15T22:30:00.000Z",
+            customerName: "לקוח",
+            dropoffAddress: "דיזנגוף 50, תל אביב",
+            distanceKm: 2,
+            fee: 25,
+            vat: 4.5,
+            total: 29.5,
+          },
+        ],
+      }),
+    );
+    assert.match(csv, /\r\n16\/03\/2026,לקוח,/);
+  });
+});
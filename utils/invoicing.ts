@@ -0,0 +1,189 @@
+import { BusinessInvoice, BusinessInvoiceLineItem, Delivery } from "../types/models";
+import { getCompletionRecordedAt } from "./clientTimestamp";
+import { LEGACY_DELIVERY_PAYMENT, PRICING_TIME_ZONE } from "./pricing";
+import { removeCoordinatesFromAddress } from "./distanceCalculator";
+
+export const VAT_RATE = 0.18;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const formatInvoiceNumber = (invoiceNumber: number) => `INV-${String(invoiceNumber).padStart(6, "0")}`;
+
+export function selectInvoiceableDeliveries(
+  deliveries: Delivery[],
+  businessId: string,
+  periodStart: string,
+  periodEnd: string,
+): Delivery[] {
+  const start = new Date(periodStart).getTime();
+  const end = new Date(periodEnd).getTime();
+  return deliveries
+    .filter((delivery) => {
+      if (delivery.businessId !== businessId || delivery.status !== "completed") {
+        return false;
+      }
+      const recordedAt = new Date(getCompletionRecordedAt(delivery)).getTime();
+      return recordedAt >= start && recordedAt < end;
+    })
+    .sort(
+      (a, b) =>
+        new Date(a.completedAt ?? a.createdAt).getTime() - new Date(b.completedAt ?? b.createdAt).getTime(),
+    );
+}
+
+export function buildInvoiceLines(deliveries: Delivery[], vatRate: number = VAT_RATE) {
+  const lineItems: BusinessInvoiceLineItem[] = deliveries.map((delivery) => {
+    const fee = delivery.payment ?? LEGACY_DELIVERY_PAYMENT;
+    const vat = roundCurrency(fee * vatRate);
+    return {
+      deliveryId: delivery.id,
+      date: delivery.completedAt ?? delivery.createdAt,
+      customerName: delivery.customerName,
+      dropoffAddress: removeCoordinatesFromAddress(delivery.dropoffAddress),
+      distanceKm: delivery.distanceKm ?? null,
+      fee,
+      vat,
+      total: roundCurrency(fee + vat),
+    };
+  });
+
+  const subtotal = roundCurrency(lineItems.reduce((sum, item) => sum + item.fee, 0));
+  const vatAmount = roundCurrency(lineItems.reduce((sum, item) => sum + item.vat, 0));
+
+  return {
+    lineItems,
+    subtotal,
+    vatRate,
+    vatAmount,
+    total: roundCurrency(subtotal + vatAmount),
+  };
+}
+
+export function getInvoicePeriodError(periodStart: string, periodEnd: string): string | null {
+  const start = new Date(periodStart).getTime();
+  const end = new Date(periodEnd).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || start >= end) {
+    return "תקופת החיוב אינה תקינה";
+  }
+  return null;
+}
+
+export function invoicePeriodsOverlap(invoice: BusinessInvoice, periodStart: string, periodEnd: string): boolean {
+  return (
+    new Date(invoice.periodStart).getTime() < new Date(periodEnd).getTime() &&
+    new Date(invoice.periodEnd).getTime() > new Date(periodStart).getTime()
+  );
+}
+
+// Printed dates follow the same local day as pricing and the stats screen, whatever the server's time zone.
+const invoiceDateFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: PRICING_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+const formatDate = (value: string) => {
+  const parts = invoiceDateFormatter.formatToParts(new Date(value));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((candidate) => candidate.type === type)?.value ?? "";
+  return `${part("day")}/${part("month")}/${part("year")}`;
+};
+
+// Invoice periods end exclusively at midnight, so the printed range ends on the previous day.
+const formatPeriod = (invoice: BusinessInvoice) =>
+  `${formatDate(invoice.periodStart)} - ${formatDate(new Date(new Date(invoice.periodEnd).getTime() - 1).toISOString())}`;
+
+const escapeCsv = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function invoiceToCsv(invoice: BusinessInvoice): string {
+  const rows: (string | number | null)[][] = [
+    ["חשבונית", formatInvoiceNumber(invoice.invoiceNumber)],
+    ["עסק", invoice.businessName],
+    ["תקופה", formatPeriod(invoice)],
+    [],
+    ["תאריך", "לקוח", "כתובת", "מרחק (ק״מ)", "מחיר", "מע״מ", "סה״כ"],
+    ...invoice.lineItems.map((item) => [
+      formatDate(item.date),
+      item.customerName,
+      item.dropoffAddress,
+      item.distanceKm,
+      item.fee,
+      item.vat,
+      item.total,
+    ]),
+    [],
+    ["סה״כ לפני מע״מ", "", "", "", invoice.subtotal],
+    [`מע״מ ${Math.round(invoice.vatRate * 100)}%`, "", "", "", "", invoice.vatAmount],
+    ["סה״כ לתשלום", "", "", "", "", "", invoice.total],
+  ];
+  // The byte order mark lets Excel detect UTF-8 and render Hebrew correctly.
+  return `\uFEFF${rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n")}`;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export function invoiceToHtml(invoice: BusinessInvoice): string {
+  const invoiceNumber = formatInvoiceNumber(invoice.invoiceNumber);
+  const rows = invoice.lineItems
+    .map(
+      (item) => `
+        <tr>
+          <td>${formatDate(item.date)}</td>
+          <td>${escapeHtml(item.customerName)}</td>
+          <td>${escapeHtml(item.dropoffAddress)}</td>
+          <td>${item.distanceKm ?? "-"}</td>
+          <td>₪${item.fee.toFixed(2)}</td>
+          <td>₪${item.vat.toFixed(2)}</td>
+          <td>₪${item.total.toFixed(2)}</td>
+        </tr>`,
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="he" dir="rtl">
+<head>
+  <meta charset="utf-8" />
+  <title>${invoiceNumber}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #0f172a; margin: 32px; }
+    h1 { margin: 0 0 4px; font-size: 24px; }
+    .meta { color: #475569; font-size: 14px; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { padding: 8px; border-bottom: 1px solid #cbd5f5; text-align: right; }
+    th { background: #f6f7fb; }
+    .totals { margin-top: 24px; width: 280px; margin-right: auto; font-size: 14px; }
+    .totals div { display: flex; justify-content: space-between; padding: 4px 0; }
+    .grand { font-weight: 800; font-size: 16px; border-top: 2px solid #0f172a; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>חשבונית ${invoiceNumber}</h1>
+  <div class="meta">
+    <div>${escapeHtml(invoice.businessName)}</div>
+    <div>תקופה: ${formatPeriod(invoice)}</div>
+    <div>הופקה: ${formatDate(invoice.createdAt)}</div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>תאריך</th><th>לקוח</th><th>כתובת</th><th>מרחק (ק״מ)</th><th>מחיר</th><th>מע״מ</th><th>סה״כ</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <div class="totals">
+    <div><span>סה״כ לפני מע״מ</span><span>₪${invoice.subtotal.toFixed(2)}</span></div>
+    <div><span>מע״מ ${Math.round(invoice.vatRate * 100)}%</span><span>₪${invoice.vatAmount.toFixed(2)}</span></div>
+    <div class="grand"><span>סה״כ לתשלום</span><span>₪${invoice.total.toFixed(2)}</span></div>
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../types/models";
+import { computeKitchenMetrics, suggestPrepTime } from "./kitchenMetrics";
+
+const START = Date.parse("2026-03-10T10:00:00.000Z");
+
+const at = (minutes: number) => new Date(START + minutes * 60 * 1000).toISOString();
+
+const delivery = (id: string, overrides: Partial<Delivery>): Delivery => ({
+  id,
+  businessId: "business-1",
+  courierId: "courier-1",
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "completed",
+  createdAt: at(0),
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  ...overrides,
+});
+
+// Orders whose kitchen took the given number of minutes, each placed at the given minute after START.
+const prepared = (prepMinutes: number[], placedAt = 5) =>
+  prepMinutes.map((minutes, index) =>
+    delivery(`prepared-${placedAt}-${index}`, { createdAt: at(placedAt), readyAt: at(placedAt + minutes) }),
+  );
+
+describe("computeKitchenMetrics", () => {
+  test("compares promised and actual prep and measures how long couriers wait", () => {
+    const deliveries = [
+      delivery("early", {
+        preparationTimeMinutes: 15,
+        readyAt: at(14),
+        pickupArrivedAt: at(10),
+        pickedUpAt: at(16),
+      }),
+      delivery("late", {
+        preparationTimeMinutes: 10,
+        readyAt: at(22),
+        pickupArrivedAt: at(20),
+        pickedUpAt: at(23),
+      }),
+      // A pre-order's creation time says nothing about its prep, but the courier's wait still counts.
+      delivery("pre-order", {
+        preparationTimeMinutes: 15,
+        scheduledFor: at(120),
+        readyAt: at(100),
+        pickupArrivedAt: at(105),
+        pickedUpAt: at(107),
+      }),
+      delivery("not-ready", { preparationTimeMinutes: 15 }),
+      delivery("other-business", { businessId: "business-2", preparationTimeMinutes: 15, readyAt: at(60) }),
+    ];
+
+    assert.deepEqual(computeKitchenMetrics(deliveries, "business-1"), {
+      businessId: "business-1",
+      measured: 2,
+      avgPromisedPrepMinutes: 12.5,
+      avgActualPrepMinutes: 18,
+      avgPrepOverrunMinutes: 5.5,
+      onTimeReadyRate: 0.5,
+      avgCourierIdleMinutes: 3.7,
+      totalCourierIdleMinutes: 11,
+    });
+  });
+});
+
+describe("suggestPrepTime", () => {
+  // 12:15 in Israel.
+  const lunch = START + 15 * 60 * 1000;
+
+  test("suggests the median prep of orders placed in the same Israeli hour", () => {
+    const deliveries = [...prepared([10, 12, 14, 16, 30]), ...prepared([40, 40, 40], 180)];
+
+    assert.deepEqual(suggestPrepTime(deliveries, lunch), { minutes: 14, hour: 12, basis: "hour", sampleCount: 5 });
+  });
+
+  test("falls back to the whole history when the hour is quiet", () => {
+    const deliveries = [...prepared([10, 12]), ...prepared([20, 21, 40], 180)];
+
+    assert.deepEqual(suggestPrepTime(deliveries, lunch), { minutes: 20, hour: 12, basis: "overall", sampleCount: 5 });
+  });
+
+  test("suggests nothing from too few orders, and never more than the create form allows", () => {
+    assert.equal(suggestPrepTime(prepared([10, 12, 14, 16]), lunch), null);
+    assert.equal(suggestPrepTime(prepared([70, 75, 80, 85, 90]), lunch)?.minutes, 60);
+  });
+});
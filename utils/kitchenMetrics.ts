@@ -0,0 +1,68 @@
+import { Delivery, KitchenMetrics, PrepTimeSuggestion, PrepTimeSuggestionBasis } from "../types/models";
+import { average, getLocalHour, minutesBetween } from "./deliveryStats";
+import { ETA_LATE_GRACE_MINUTES } from "./eta";
+
+// Fewer orders than this in an hour say more about one busy evening than about the kitchen.
+export const PREP_SUGGESTION_MIN_SAMPLES = 5;
+
+// Same bounds the create-delivery route accepts.
+const MIN_PREP_MINUTES = 1;
+const MAX_PREP_MINUTES = 60;
+
+const roundTenth = (value: number) => Math.round(value * 10) / 10;
+
+// Pre-orders wait for their release, so their creation time says nothing about when the kitchen started.
+const getActualPrepMinutes = (delivery: Delivery): number | null =>
+  delivery.scheduledFor ? null : minutesBetween(delivery.createdAt, delivery.readyAt);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export function computeKitchenMetrics(deliveries: Delivery[], businessId: string): KitchenMetrics {
+  const prepSamples = deliveries
+    .filter((delivery) => delivery.businessId === businessId && delivery.preparationTimeMinutes)
+    .map((delivery) => ({ promised: delivery.preparationTimeMinutes ?? 0, actual: getActualPrepMinutes(delivery) }))
+    .filter((sample): sample is { promised: number; actual: number } => sample.actual !== null);
+  const overruns = prepSamples.map((sample) => sample.actual - sample.promised);
+  const idleMinutes = deliveries
+    .filter((delivery) => delivery.businessId === businessId)
+    .map((delivery) => minutesBetween(delivery.pickupArrivedAt, delivery.pickedUpAt))
+    .filter((minutes): minutes is number => minutes !== null);
+
+  return {
+    businessId,
+    measured: prepSamples.length,
+    avgPromisedPrepMinutes: average(prepSamples.map((sample) => sample.promised)),
+    avgActualPrepMinutes: average(prepSamples.map((sample) => sample.actual)),
+    avgPrepOverrunMinutes: average(overruns),
+    onTimeReadyRate:
+      overruns.length > 0 ? overruns.filter((overrun) => overrun <= ETA_LATE_GRACE_MINUTES).length / overruns.length : null,
+    avgCourierIdleMinutes: average(idleMinutes),
+    totalCourierIdleMinutes: roundTenth(idleMinutes.reduce((sum, minutes) => sum + minutes, 0)),
+  };
+}
+
+// Orders placed in the same local hour come first; a quiet hour falls back to the business's whole history.
+export function suggestPrepTime(deliveries: Delivery[], at: number): PrepTimeSuggestion | null {
+  const hour = getLocalHour(at);
+  const samples = deliveries
+    .map((delivery) => ({ hour: getLocalHour(new Date(delivery.createdAt).getTime()), minutes: getActualPrepMinutes(delivery) }))
+    .filter((sample): sample is { hour: number; minutes: number } => sample.minutes !== null);
+  const sameHour = samples.filter((sample) => sample.hour === hour);
+  const [basis, pool]: [PrepTimeSuggestionBasis, typeof samples] =
+    sameHour.length >= PREP_SUGGESTION_MIN_SAMPLES ? ["hour", sameHour] : ["overall", samples];
+  if (pool.length < PREP_SUGGESTION_MIN_SAMPLES) {
+    return null;
+  }
+
+  const minutes = Math.ceil(median(pool.map((sample) => sample.minutes)));
+  return {
+    minutes: Math.min(MAX_PREP_MINUTES, Math.max(MIN_PREP_MINUTES, minutes)),
+    hour,
+    basis,
+    sampleCount: pool.length,
+  };
+}
@@ -0,0 +1,34 @@
+import { OutboxEntry } from "./deliveryOutbox";
+import { persistentStorage } from "./persistentStorage";
+
+export const OUTBOX_STORAGE_KEY = "droppi:outbox";
+
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const stored = await persistentStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      console.log("Outbox data invalid, ignoring");
+      return [];
+    }
+    return parsed.filter(
+      (entry): entry is OutboxEntry =>
+        !!entry && typeof entry === "object" && !!entry.id && !!entry.userId && !!entry.deliveryId && !!entry.kind,
+    );
+  } catch (error) {
+    console.log("Outbox load failed", error);
+    return [];
+  }
+}
+
+// Rejects when the device store refuses the write, so the caller can warn that queued actions are not persisted.
+export async function saveOutbox(entries: OutboxEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    await persistentStorage.removeItem(OUTBOX_STORAGE_KEY);
+  } else {
+    await persistentStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+  }
+}
@@ -58,6 +58,7 @@ const createWebStorage = (): PersistentStorage => {
         window.localStorage.setItem(key, value);
       } catch (error) {
         console.log("localStorage setItem failed", key, error);
+        throw error;
       }
     },
     async removeItem(key) {
@@ -65,6 +66,7 @@ const createWebStorage = (): PersistentStorage => {
         window.localStorage.removeItem(key);
       } catch (error) {
         console.log("localStorage removeItem failed", key, error);
+        throw error;
       }
     },
     async clear() {
@@ -103,6 +105,7 @@ const createNativeStorage = (): PersistentStorage => {
         await AsyncStorage.setItem(key, value);
       } catch (error) {
         console.log("AsyncStorage setItem failed", key, error);
+        throw error;
       }
     },
     async removeItem(key) {
@@ -110,6 +113,7 @@ const createNativeStorage = (): PersistentStorage => {
         await AsyncStorage.removeItem(key);
       } catch (error) {
         console.log("AsyncStorage removeItem failed", key, error);
+        throw error;
       }
     },
     async clear() {
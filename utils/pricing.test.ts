@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { PricingRules } from "../types/models";
+import { calculateDeliveryPrice, calculateDistanceFee, DEFAULT_PRICING_RULES } from "./pricing";
+
+const rules = (overrides: Partial<PricingRules> = {}): PricingRules => ({ ...DEFAULT_PRICING_RULES, ...overrides });
+
+// A Tuesday noon in Israel, outside night hours and the weekend.
+const weekdayNoon = new Date("2026-03-10T10:00:00.000Z");
+
+describe("calculateDistanceFee", () => {
+  test("charges each stretch of the trip at its own band's rate", () => {
+    const bands = [
+      { upToKm: 8, ratePerKm: 3 },
+      { upToKm: null, ratePerKm: 4 },
+      { upToKm: 3, ratePerKm: 2 },
+    ];
+
+    // 3 km at 2, 5 km at 3 and the last 2 km in the open band at 4.
+    assert.equal(calculateDistanceFee(10, bands), 29);
+    assert.equal(calculateDistanceFee(2, bands), 4);
+  });
+
+  test("charges distance past the last closed band at that band's rate", () => {
+    const bands = [
+      { upToKm: 3, ratePerKm: 2 },
+      { upToKm: 5, ratePerKm: 3 },
+    ];
+
+    assert.equal(calculateDistanceFee(7, bands), 18);
+  });
+
+  test("charges nothing without a distance or without bands", () => {
+    assert.equal(calculateDistanceFee(null, [{ upToKm: null, ratePerKm: 3 }]), 0);
+    assert.equal(calculateDistanceFee(0, [{ upToKm: null, ratePerKm: 3 }]), 0);
+    assert.equal(calculateDistanceFee(5, []), 0);
+  });
+
+  test("rounds to the agora", () => {
+    assert.equal(calculateDistanceFee(1.333, [{ upToKm: null, ratePerKm: 3 }]), 4);
+    assert.equal(calculateDistanceFee(2.5, [{ upToKm: null, ratePerKm: 3.3 }]), 8.25);
+  });
+});
+
+describe("calculateDeliveryPrice", () => {
+  const sumOfLines = (price: ReturnType<typeof calculateDeliveryPrice>) => {
+    const lines = [
+      price.baseFee,
+      price.distanceFee,
+      price.nightSurcharge,
+      price.weekendSurcharge,
+      price.minimumFeeTopUp ?? 0,
+    ];
+    return Math.round(lines.reduce((sum, line) => sum + line, 0) * 100) / 100;
+  };
+
+  test("charges the sum of its lines, down to the agora", () => {
+    const price = calculateDeliveryPrice({
+      rules: rules({ baseFee: 12.5, distanceBands: [{ upToKm: null, ratePerKm: 3.3 }] }),
+      distanceKm: 2.5,
+      at: weekdayNoon,
+    });
+
+    assert.equal(price.total, 20.75);
+    assert.equal(sumOfLines(price), price.total);
+  });
+
+  test("records the top-up to the minimum fee as its own line", () => {
+    const price = calculateDeliveryPrice({
+      rules: rules({ baseFee: 12.5, minimumFee: 30, distanceBands: [{ upToKm: null, ratePerKm: 3.3 }] }),
+      distanceKm: 2.5,
+      at: weekdayNoon,
+    });
+
+    assert.equal(price.minimumFeeTopUp, 9.25);
+    assert.equal(price.total, 30);
+    assert.equal(sumOfLines(price), price.total);
+  });
+
+  test("adds the night and weekend surcharges by Israel time", () => {
+    const nightAndWeekend = rules({ nightSurcharge: 5, weekendSurcharge: 7 });
+
+    // 23:30 on Friday 13 March in Israel, still 21:30 in UTC.
+    const fridayNight = calculateDeliveryPrice({
+      rules: nightAndWeekend,
+      distanceKm: null,
+      at: new Date("2026-03-13T21:30:00.000Z"),
+    });
+    assert.equal(fridayNight.nightSurcharge, 5);
+    assert.equal(fridayNight.weekendSurcharge, 7);
+    assert.equal(fridayNight.total, DEFAULT_PRICING_RULES.baseFee + 12);
+
+    const weekday = calculateDeliveryPrice({ rules: nightAndWeekend, distanceKm: null, at: weekdayNoon });
+    assert.equal(weekday.total, DEFAULT_PRICING_RULES.baseFee);
+  });
+
+  test("lets a business override replace the base fee and rate, or the whole price", () => {
+    const base = rules({ distanceBands: [{ upToKm: null, ratePerKm: 3 }], nightSurcharge: 5 });
+
+    const perKm = calculateDeliveryPrice({
+      rules: base,
+      override: { businessId: "business-1", baseFee: 10, ratePerKm: 2 },
+      distanceKm: 4,
+      at: weekdayNoon,
+    });
+    assert.equal(perKm.total, 18);
+    assert.equal(perKm.overrideApplied, true);
+
+    const flat = calculateDeliveryPrice({
+      rules: base,
+      override: { businessId: "business-1", flatFee: 22 },
+      distanceKm: 4,
+      at: new Date("2026-03-10T21:30:00.000Z"),
+    });
+    assert.equal(flat.total, 22);
+    assert.equal(flat.nightSurcharge, 0);
+  });
+});
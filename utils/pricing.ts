@@ -0,0 +1,157 @@
+import {
+  BusinessPricingOverride,
+  DeliveryPriceBreakdown,
+  PricingDistanceBand,
+  PricingRules,
+} from "../types/models";
+
+export const LEGACY_DELIVERY_PAYMENT = 25;
+
+export const PRICING_TIME_ZONE = "Asia/Jerusalem";
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  baseFee: LEGACY_DELIVERY_PAYMENT,
+  minimumFee: 0,
+  distanceBands: [],
+  nightSurcharge: 0,
+  nightStartHour: 23,
+  nightEndHour: 6,
+  weekendSurcharge: 0,
+  weekendDays: [5, 6],
+};
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+function getLocalTimeParts(at: Date): { hour: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: PRICING_TIME_ZONE,
+    hour: "numeric",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(at);
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0) % 24;
+  const weekday = WEEKDAY_INDEX[parts.find((part) => part.type === "weekday")?.value ?? "Sun"] ?? 0;
+  return { hour, weekday };
+}
+
+export function isNightHour(hour: number, startHour: number, endHour: number): boolean {
+  if (startHour === endHour) {
+    return false;
+  }
+  if (startHour < endHour) {
+    return hour >= startHour && hour < endHour;
+  }
+  return hour >= startHour || hour < endHour;
+}
+
+export function calculateDistanceFee(distanceKm: number | null, bands: PricingDistanceBand[]): number {
+  if (distanceKm === null || distanceKm <= 0 || bands.length === 0) {
+    return 0;
+  }
+
+  const sortedBands = [...bands].sort(
+    (a, b) => (a.upToKm ?? Number.POSITIVE_INFINITY) - (b.upToKm ?? Number.POSITIVE_INFINITY),
+  );
+  let fee = 0;
+  let coveredKm = 0;
+
+  for (const band of sortedBands) {
+    if (distanceKm <= coveredKm) {
+      break;
+    }
+    const bandEndKm = band.upToKm ?? Number.POSITIVE_INFINITY;
+    const kmInBand = Math.min(distanceKm, bandEndKm) - coveredKm;
+    if (kmInBand > 0) {
+      fee += kmInBand * band.ratePerKm;
+    }
+    coveredKm = Math.max(coveredKm, bandEndKm);
+  }
+
+  // Anything past the last closed band is charged at that band's rate.
+  if (distanceKm > coveredKm) {
+    fee += (distanceKm - coveredKm) * sortedBands[sortedBands.length - 1].ratePerKm;
+  }
+
+  return roundCurrency(fee);
+}
+
+export function calculateDeliveryPrice(params: {
+  rules: PricingRules;
+  override?: BusinessPricingOverride | null;
+  distanceKm: number | null;
+  at?: Date;
+}): DeliveryPriceBreakdown {
+  const { rules, override, distanceKm } = params;
+  const at = params.at ?? new Date();
+  const calculatedAt = at.toISOString();
+
+  if (override?.flatFee !== undefined) {
+    return {
+      baseFee: override.flatFee,
+      distanceFee: 0,
+      nightSurcharge: 0,
+      weekendSurcharge: 0,
+      minimumFeeTopUp: 0,
+      total: override.flatFee,
+      distanceKm,
+      overrideApplied: true,
+      calculatedAt,
+    };
+  }
+
+  const baseFee = override?.baseFee ?? rules.baseFee;
+  const bands =
+    override?.ratePerKm !== undefined ? [{ upToKm: null, ratePerKm: override.ratePerKm }] : rules.distanceBands;
+  const distanceFee = calculateDistanceFee(distanceKm, bands);
+
+  const { hour, weekday } = getLocalTimeParts(at);
+  const nightSurcharge = isNightHour(hour, rules.nightStartHour, rules.nightEndHour) ? rules.nightSurcharge : 0;
+  const weekendSurcharge = rules.weekendDays.includes(weekday) ? rules.weekendSurcharge : 0;
+
+  // Kept to the agora so the snapshot's lines add up to the total charged.
+  const subtotal = roundCurrency(baseFee + distanceFee + nightSurcharge + weekendSurcharge);
+  const minimumFeeTopUp = Math.max(0, roundCurrency(rules.minimumFee - subtotal));
+
+  return {
+    baseFee,
+    distanceFee,
+    nightSurcharge,
+    weekendSurcharge,
+    minimumFeeTopUp,
+    total: roundCurrency(subtotal + minimumFeeTopUp),
+    distanceKm,
+    overrideApplied: !!override && (override.baseFee !== undefined || override.ratePerKm !== undefined),
+    calculatedAt,
+  };
+}
+
+export function getPricingRulesError(rules: PricingRules): string | null {
+  let previousUpToKm = 0;
+  for (let index = 0; index < rules.distanceBands.length; index += 1) {
+    const band = rules.distanceBands[index];
+    if (band.upToKm === null) {
+      if (index !== rules.distanceBands.length - 1) {
+        return "מדרגה פתוחה (ללא גבול עליון) חייבת להיות האחרונה";
+      }
+      continue;
+    }
+    if (band.upToKm <= previousUpToKm) {
+      return "מדרגות המרחק חייבות להיות בסדר עולה";
+    }
+    previousUpToKm = band.upToKm;
+  }
+  if (rules.weekendDays.some((day) => day < 0 || day > 6)) {
+    return "ימי סוף שבוע לא תקינים";
+  }
+  return null;
+}
@@ -0,0 +1,39 @@
+import { ProofOfDeliveryInput } from "../types/models";
+
+export const SIGNATURE_CANVAS = { width: 320, height: 160 };
+export const MAX_PROOF_PHOTO_BYTES = 2 * 1024 * 1024;
+export const MAX_RECIPIENT_NAME_LENGTH = 80;
+const MAX_SIGNATURE_PATH_LENGTH = 20000;
+// The signature pad only emits absolute move/line commands, which keeps the stored SVG free of anything executable.
+const SIGNATURE_PATH_PATTERN = /^[ML0-9.\s-]+$/;
+
+export const estimateBase64Bytes = (value: string) => Math.floor((value.replace(/=+$/, "").length * 3) / 4);
+
+export function hasProofOfDelivery(proof: ProofOfDeliveryInput | undefined): boolean {
+  return !!proof && (!!proof.recipientName?.trim() || !!proof.photoBase64 || !!proof.signaturePath || !!proof.location);
+}
+
+export function getProofOfDeliveryError(proof: ProofOfDeliveryInput | undefined, required: boolean): string | null {
+  if (proof?.recipientName && proof.recipientName.trim().length > MAX_RECIPIENT_NAME_LENGTH) {
+    return "שם המקבל ארוך מדי";
+  }
+  if (proof?.photoBase64 && estimateBase64Bytes(proof.photoBase64) > MAX_PROOF_PHOTO_BYTES) {
+    return "התמונה גדולה מדי";
+  }
+  if (
+    proof?.signaturePath &&
+    (proof.signaturePath.length > MAX_SIGNATURE_PATH_LENGTH || !SIGNATURE_PATH_PATTERN.test(proof.signaturePath))
+  ) {
+    return "החתימה אינה תקינה";
+  }
+  if (
+    proof?.location &&
+    (Math.abs(proof.location.latitude) > 90 || Math.abs(proof.location.longitude) > 180)
+  ) {
+    return "מיקום המסירה אינו תקין";
+  }
+  if (required && !(proof?.recipientName?.trim() && (proof.photoBase64 || proof.signaturePath))) {
+    return "העסק מחייב אישור מסירה: שם המקבל ותמונה או חתימה";
+  }
+  return null;
+}
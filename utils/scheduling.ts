@@ -0,0 +1,45 @@
+import { Delivery } from "../types/models";
+
+export const DEFAULT_SCHEDULE_LEAD_MINUTES = 30;
+export const MAX_SCHEDULE_DAYS_AHEAD = 14;
+
+const MINUTE_MS = 60 * 1000;
+
+export function resolveScheduleLeadMinutes(value: string | undefined): number {
+  const configured = Number(value);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_SCHEDULE_LEAD_MINUTES;
+}
+
+// A slot inside the lead window would be released immediately, so it is just a regular delivery.
+export function getScheduledForError(scheduledFor: string, leadMinutes: number, now = Date.now()): string | null {
+  const slot = new Date(scheduledFor).getTime();
+  if (Number.isNaN(slot)) {
+    return "מועד התזמון אינו תקין";
+  }
+  if (slot <= now + leadMinutes * MINUTE_MS) {
+    return `ניתן לתזמן משלוח רק יותר מ-${leadMinutes} דקות מראש`;
+  }
+  if (slot > now + MAX_SCHEDULE_DAYS_AHEAD * 24 * 60 * MINUTE_MS) {
+    return `ניתן לתזמן משלוח עד ${MAX_SCHEDULE_DAYS_AHEAD} ימים מראש`;
+  }
+  return null;
+}
+
+export function getScheduledReleaseAt(scheduledFor: string, leadMinutes: number): string {
+  return new Date(new Date(scheduledFor).getTime() - leadMinutes * MINUTE_MS).toISOString();
+}
+
+// The hold is cleared by the server when it releases the delivery, not by the clock on the device.
+export function isHeldForSchedule(delivery: Delivery): boolean {
+  return delivery.status === "waiting" && Boolean(delivery.scheduledReleaseAt);
+}
+
+export function isScheduledReleaseDue(delivery: Delivery, now = Date.now()): boolean {
+  return isHeldForSchedule(delivery) && new Date(delivery.scheduledReleaseAt as string).getTime() <= now;
+}
+
+export function selectUpcomingScheduledDeliveries(deliveries: Delivery[], businessId?: string): Delivery[] {
+  return deliveries
+    .filter((delivery) => isHeldForSchedule(delivery) && (!businessId || delivery.businessId === businessId))
+    .sort((a, b) => new Date(a.scheduledFor ?? 0).getTime() - new Date(b.scheduledFor ?? 0).getTime());
+}
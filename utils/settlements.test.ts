@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../types/models";
+import { LEGACY_DELIVERY_PAYMENT } from "./pricing";
+import { getSettlementPeriodError, selectSettleableDeliveries, summarizeSettlement } from "./settlements";
+
+const PERIOD_START = "2026-02-28T22:00:00.000Z";
+const PERIOD_END = "2026-03-31T21:00:00.000Z";
+
+const completed = (overrides: Partial<Delivery> = {}): Delivery => ({
+  id: "delivery-1",
+  businessId: "business-1",
+  courierId: "courier-1",
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "completed",
+  createdAt: "2026-03-10T10:00:00.000Z",
+  completedAt: "2026-03-10T10:40:00.000Z",
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  payment: 30,
+  distanceKm: 3.2,
+  ...overrides,
+});
+
+describe("selectSettleableDeliveries", () => {
+  test("takes the courier's unsettled completions inside the period, end exclusive", () => {
+    const deliveries = [
+      completed({ id: "inside" }),
+      completed({ id: "at-start", completedAt: PERIOD_START }),
+      completed({ id: "at-end", completedAt: PERIOD_END }),
+      completed({ id: "other-courier", courierId: "courier-2" }),
+      completed({ id: "failed", status: "failed" }),
+      completed({ id: "settled", settlementId: "settlement-1" }),
+    ];
+
+    const selected = selectSettleableDeliveries(deliveries, "courier-1", PERIOD_START, PERIOD_END);
+
+    assert.deepEqual(
+      selected.map((delivery) => delivery.id),
+      ["inside", "at-start"],
+    );
+  });
+
+  test("places a replayed completion in the period the server received it", () => {
+    const replayed = completed({
+      completedAt: "2026-03-31T20:30:00.000Z",
+      replayReceivedAt: { complete: "2026-04-01T05:00:00.000Z" },
+    });
+
+    assert.deepEqual(selectSettleableDeliveries([replayed], "courier-1", PERIOD_START, PERIOD_END), []);
+  });
+});
+
+describe("summarizeSettlement", () => {
+  test("adds bonuses, subtracts deductions and rounds to the agora", () => {
+    const summary = summarizeSettlement({
+      deliveries: [
+        completed({ payment: 20.1 }),
+        completed({ payment: 20.2, distanceKm: 1.1 }),
+        completed({ payment: undefined }),
+      ],
+      bonuses: [{ label: "שעות עומס", amount: 15.5 }],
+      deductions: [{ label: "ציוד", amount: 10 }],
+    });
+
+    assert.deepEqual(summary, {
+      deliveryCount: 3,
+      totalDistanceKm: 7.5,
+      deliveriesTotal: 40.3 + LEGACY_DELIVERY_PAYMENT,
+      total: 40.3 + LEGACY_DELIVERY_PAYMENT + 5.5,
+    });
+  });
+});
+
+describe("getSettlementPeriodError", () => {
+  const valid = { periodStart: PERIOD_START, periodEnd: PERIOD_END, bonuses: [], deductions: [] };
+
+  test("accepts a period with described, positive adjustments", () => {
+    const adjusted = {
+      ...valid,
+      bonuses: [{ label: "בונוס", amount: 10 }],
+      deductions: [{ label: "קנס", amount: 0.5 }],
+    };
+
+    assert.equal(getSettlementPeriodError(adjusted), null);
+  });
+
+  test("rejects an empty or inverted period", () => {
+    assert.ok(getSettlementPeriodError({ ...valid, periodEnd: PERIOD_START }));
+    assert.ok(getSettlementPeriodError({ ...valid, periodStart: PERIOD_END, periodEnd: PERIOD_START }));
+    assert.ok(getSettlementPeriodError({ ...valid, periodStart: "not a date" }));
+  });
+
+  test("rejects an adjustment without a label or a positive amount", () => {
+    for (const adjustment of [
+      { label: "  ", amount: 10 },
+      { label: "בונוס", amount: 0 },
+      { label: "בונוס", amount: -5 },
+      { label: "בונוס", amount: Number.NaN },
+    ]) {
+      assert.ok(getSettlementPeriodError({ ...valid, bonuses: [adjustment] }), JSON.stringify(adjustment));
+      assert.ok(getSettlementPeriodError({ ...valid, deductions: [adjustment] }), JSON.stringify(adjustment));
+    }
+  });
+});
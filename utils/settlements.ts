@@ -0,0 +1,61 @@
+import { CourierSettlementAdjustment, Delivery } from "../types/models";
+import { getCompletionRecordedAt } from "./clientTimestamp";
+import { LEGACY_DELIVERY_PAYMENT } from "./pricing";
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function selectSettleableDeliveries(
+  deliveries: Delivery[],
+  courierId: string,
+  periodStart: string,
+  periodEnd: string,
+): Delivery[] {
+  const start = new Date(periodStart).getTime();
+  const end = new Date(periodEnd).getTime();
+  return deliveries.filter((delivery) => {
+    if (delivery.courierId !== courierId || delivery.status !== "completed" || delivery.settlementId) {
+      return false;
+    }
+    const recordedAt = new Date(getCompletionRecordedAt(delivery)).getTime();
+    return recordedAt >= start && recordedAt < end;
+  });
+}
+
+export function summarizeSettlement(params: {
+  deliveries: Delivery[];
+  bonuses: CourierSettlementAdjustment[];
+  deductions: CourierSettlementAdjustment[];
+}) {
+  const deliveriesTotal = params.deliveries.reduce(
+    (sum, delivery) => sum + (delivery.payment ?? LEGACY_DELIVERY_PAYMENT),
+    0,
+  );
+  const totalDistanceKm = params.deliveries.reduce((sum, delivery) => sum + (delivery.distanceKm ?? 0), 0);
+  const bonusesTotal = params.bonuses.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+  const deductionsTotal = params.deductions.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+  return {
+    deliveryCount: params.deliveries.length,
+    totalDistanceKm: roundCurrency(totalDistanceKm),
+    deliveriesTotal: roundCurrency(deliveriesTotal),
+    total: roundCurrency(deliveriesTotal + bonusesTotal - deductionsTotal),
+  };
+}
+
+export function getSettlementPeriodError(params: {
+  periodStart: string;
+  periodEnd: string;
+  bonuses: CourierSettlementAdjustment[];
+  deductions: CourierSettlementAdjustment[];
+}): string | null {
+  const start = new Date(params.periodStart).getTime();
+  const end = new Date(params.periodEnd).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || start >= end) {
+    return "תקופת ההתחשבנות אינה תקינה";
+  }
+  const adjustments = [...params.bonuses, ...params.deductions];
+  if (adjustments.some((adjustment) => !adjustment.label.trim() || !(adjustment.amount > 0))) {
+    return "לכל תוספת או ניכוי יש להזין תיאור וסכום חיובי";
+  }
+  return null;
+}
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { Delivery } from "../types/models";
+import { DEFAULT_SLA_SETTINGS, evaluateSla, getSlaStageStart, resolveSlaSettings } from "./sla";
+
+const LEAD_MINUTES = 30;
+const CREATED_AT = "2026-03-10T10:00:00.000Z";
+
+const at = (minutesAfterCreation: number) => Date.parse(CREATED_AT) + minutesAfterCreation * 60 * 1000;
+const iso = (minutesAfterCreation: number) => new Date(at(minutesAfterCreation)).toISOString();
+
+const delivery = (overrides: Partial<Delivery> = {}): Delivery => ({
+  id: "delivery-1",
+  businessId: "business-1",
+  courierId: null,
+  pickupAddress: "הרצל 1, תל אביב",
+  dropoffAddress: "דיזנגוף 50, תל אביב",
+  notes: "",
+  status: "waiting",
+  createdAt: CREATED_AT,
+  customerName: "לקוח",
+  customerPhone: "0500000000",
+  ...overrides,
+});
+
+describe("resolveSlaSettings", () => {
+  test("falls back to the defaults for missing or invalid limits", () => {
+    assert.deepEqual(resolveSlaSettings({ assignment: "20", pickup: "0", dropoff: "abc" }), {
+      ...DEFAULT_SLA_SETTINGS,
+      assignment: 20,
+    });
+  });
+});
+
+describe("getSlaStageStart", () => {
+  test("restarts the assignment clock when a courier releases the delivery", () => {
+    const released = delivery({ releasedAt: iso(12) });
+
+    assert.deepEqual(getSlaStageStart(released, LEAD_MINUTES), { stage: "assignment", startedAt: at(12) });
+  });
+
+  test("runs no clock while a pre-order is held, and starts it when the order opens to couriers", () => {
+    const scheduledFor = iso(120);
+
+    assert.equal(getSlaStageStart(delivery({ scheduledFor, scheduledReleaseAt: iso(90) }), LEAD_MINUTES), null);
+    assert.deepEqual(getSlaStageStart(delivery({ scheduledFor }), LEAD_MINUTES), {
+      stage: "assignment",
+      startedAt: at(90),
+    });
+  });
+
+  test("waits for the kitchen before timing the pickup, then times the drop-off from the pickup", () => {
+    const taken = delivery({ status: "taken", courierId: "courier-1", acceptedAt: iso(5) });
+
+    assert.equal(getSlaStageStart(taken, LEAD_MINUTES), null);
+    assert.deepEqual(getSlaStageStart({ ...taken, readyAt: iso(15) }, LEAD_MINUTES), {
+      stage: "pickup",
+      startedAt: at(15),
+    });
+    assert.deepEqual(getSlaStageStart({ ...taken, readyAt: iso(15), pickedUpAt: iso(20) }, LEAD_MINUTES), {
+      stage: "dropoff",
+      startedAt: at(20),
+    });
+  });
+
+  test("stops timing a closed delivery", () => {
+    assert.equal(getSlaStageStart(delivery({ status: "completed" }), LEAD_MINUTES), null);
+    assert.equal(getSlaStageStart(delivery({ status: "cancelled" }), LEAD_MINUTES), null);
+  });
+});
+
+describe("evaluateSla", () => {
+  const waiting = delivery();
+
+  test("flags a delivery at risk from three quarters of its limit and breached at the limit", () => {
+    assert.equal(evaluateSla(waiting, DEFAULT_SLA_SETTINGS, LEAD_MINUTES, at(11)), null);
+    assert.equal(evaluateSla(waiting, DEFAULT_SLA_SETTINGS, LEAD_MINUTES, at(11.25))?.state, "at_risk");
+
+    const breached = evaluateSla(waiting, DEFAULT_SLA_SETTINGS, LEAD_MINUTES, at(15));
+    assert.deepEqual(breached, {
+      deliveryId: "delivery-1",
+      stage: "assignment",
+      state: "breached",
+      startedAt: CREATED_AT,
+      elapsedMinutes: 15,
+      limitMinutes: 15,
+    });
+  });
+
+  test("flags a delivery at risk early when its live ETA lands past the deadline", () => {
+    const pickedUp = delivery({
+      status: "taken",
+      courierId: "courier-1",
+      readyAt: iso(0),
+      pickedUpAt: iso(0),
+      eta: {
+        dropoffAt: iso(45),
+        isLate: true,
+        source: "live",
+        speedKmh: 20,
+        updatedAt: iso(5),
+      },
+    });
+
+    assert.equal(evaluateSla(pickedUp, DEFAULT_SLA_SETTINGS, LEAD_MINUTES, at(5))?.state, "at_risk");
+    const onTime = { ...pickedUp, eta: { ...pickedUp.eta!, dropoffAt: iso(35) } };
+    assert.equal(evaluateSla(onTime, DEFAULT_SLA_SETTINGS, LEAD_MINUTES, at(5)), null);
+  });
+});
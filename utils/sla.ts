@@ -0,0 +1,95 @@
+import { Delivery, SlaAlert, SlaStage } from "../types/models";
+import { getScheduledReleaseAt, isHeldForSchedule } from "./scheduling";
+
+export type SlaSettings = Record<SlaStage, number>;
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  assignment: 15,
+  pickup: 10,
+  dropoff: 40,
+};
+
+// Share of the limit after which a delivery shows up in the at-risk lane before it actually breaches.
+export const SLA_AT_RISK_RATIO = 0.75;
+
+const MINUTE_MS = 60 * 1000;
+
+export const slaStageLabels: Record<SlaStage, string> = {
+  assignment: "שיוך לשליח",
+  pickup: "איסוף מהעסק",
+  dropoff: "מסירה ללקוח",
+};
+
+const toPositiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export function resolveSlaSettings(env: { assignment?: string; pickup?: string; dropoff?: string }): SlaSettings {
+  return {
+    assignment: toPositiveNumber(env.assignment, DEFAULT_SLA_SETTINGS.assignment),
+    pickup: toPositiveNumber(env.pickup, DEFAULT_SLA_SETTINGS.pickup),
+    dropoff: toPositiveNumber(env.dropoff, DEFAULT_SLA_SETTINGS.dropoff),
+  };
+}
+
+const latest = (...values: (string | undefined)[]) =>
+  Math.max(...values.map((value) => (value ? new Date(value).getTime() : 0)).filter((time) => !Number.isNaN(time)));
+
+// Which clock is running for the delivery right now, and since when.
+export function getSlaStageStart(delivery: Delivery, scheduleLeadMinutes: number): { stage: SlaStage; startedAt: number } | null {
+  if (delivery.status === "waiting") {
+    if (isHeldForSchedule(delivery)) {
+      return null;
+    }
+    // A released pre-order only starts waiting once it opens to couriers, and a released delivery starts over.
+    const openedAt = delivery.scheduledFor ? getScheduledReleaseAt(delivery.scheduledFor, scheduleLeadMinutes) : undefined;
+    return { stage: "assignment", startedAt: latest(delivery.createdAt, delivery.releasedAt, openedAt) };
+  }
+  if (delivery.status !== "taken") {
+    return null;
+  }
+  if (delivery.pickedUpAt) {
+    return { stage: "dropoff", startedAt: latest(delivery.pickedUpAt) };
+  }
+  return delivery.readyAt ? { stage: "pickup", startedAt: latest(delivery.readyAt) } : null;
+}
+
+export function evaluateSla(
+  delivery: Delivery,
+  settings: SlaSettings,
+  scheduleLeadMinutes: number,
+  now = Date.now(),
+): SlaAlert | null {
+  const start = getSlaStageStart(delivery, scheduleLeadMinutes);
+  if (!start) {
+    return null;
+  }
+
+  const limitMinutes = settings[start.stage];
+  const elapsedMinutes = Math.max(0, (now - start.startedAt) / MINUTE_MS);
+  const deadline = start.startedAt + limitMinutes * MINUTE_MS;
+  // A live ETA that already lands past the deadline is at risk no matter how early in the stage it is.
+  const projectedAt =
+    start.stage === "pickup" ? delivery.eta?.pickupAt : start.stage === "dropoff" ? delivery.eta?.dropoffAt : undefined;
+  const isProjectedLate = !!projectedAt && new Date(projectedAt).getTime() > deadline;
+
+  let state: SlaAlert["state"] | null = null;
+  if (now >= deadline) {
+    state = "breached";
+  } else if (elapsedMinutes >= limitMinutes * SLA_AT_RISK_RATIO || isProjectedLate) {
+    state = "at_risk";
+  }
+  if (!state) {
+    return null;
+  }
+
+  return {
+    deliveryId: delivery.id,
+    stage: start.stage,
+    state,
+    startedAt: new Date(start.startedAt).toISOString(),
+    elapsedMinutes: Math.floor(elapsedMinutes),
+    limitMinutes,
+  };
+}